@@ -83,9 +83,8 @@ export default function BussolaPage() {
       if (statusResponse.ok) {
         const statusData = await statusResponse.json();
 
-        const today = new Date().toISOString().split("T")[0];
-        const isToday =
-          statusData.hasCheckin && statusData.dateKey === today;
+        // dateKey do servidor já é o "hoje" da usuária (timezone + reset 04:00)
+        const isToday = !!statusData.hasCheckin;
 
         const hasRecovery =
           isToday && !!statusData.checkin?.recovery;
@@ -11,6 +11,11 @@ import {
   calculateGestationalWeek,
   Timestamp,
 } from "@fluia/firebase";
+import {
+  validate,
+  toValidationErrorResponse,
+  onboardingStepRequestSchema,
+} from "@fluia/contracts";
 
 const SESSION_COOKIE_NAME = "__session";
 
@@ -25,7 +30,20 @@ export async function POST(request: NextRequest) {
     }
 
     const session = await verifySessionCookie(sessionCookie.value);
-    const { step, data } = await request.json();
+
+    // Valida body (nunca confiar em request.json())
+    const parsed = validate(
+      onboardingStepRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), {
+        status: 400,
+      });
+    }
+
+    const { step, data } = parsed.data;
 
     // Monta update baseado no step
     const updates: Record<string, unknown> = {
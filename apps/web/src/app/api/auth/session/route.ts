@@ -11,6 +11,11 @@ import {
   createSessionCookie,
   getOrCreateUserProfile,
 } from "@fluia/firebase";
+import {
+  validate,
+  toValidationErrorResponse,
+  createSessionRequestSchema,
+} from "@fluia/contracts";
 
 const SESSION_COOKIE_NAME = "__session";
 const SESSION_MAX_AGE_DAYS = parseInt(
@@ -21,16 +26,19 @@ const SESSION_MAX_AGE_SECONDS = SESSION_MAX_AGE_DAYS * 24 * 60 * 60;
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { idToken } = body;
+    const parsed = validate(
+      createSessionRequestSchema,
+      await request.json().catch(() => null)
+    );
 
-    if (!idToken || typeof idToken !== "string") {
-      return NextResponse.json(
-        { error: "idToken is required" },
-        { status: 400 }
-      );
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), {
+        status: 400,
+      });
     }
 
+    const { idToken } = parsed.data;
+
     // Cria o session cookie via Firebase Admin
     const sessionCookie = await createSessionCookie(idToken);
 
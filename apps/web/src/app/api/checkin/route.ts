@@ -0,0 +1,445 @@
+/**
+ * API Route: /api/checkin
+ *
+ * GET  - Status do check-in do dia (usado pela Bússola)
+ * POST - Cria o check-in de um momento do dia
+ * PUT  - Atualiza o check-in de um momento do dia
+ *
+ * Um check-in por momento (manhã, tarde, noite, madrugada).
+ * O documento do dia guarda as sessões e o agregado diário.
+ *
+ * Estado emocional e métricas são SEMPRE derivados no servidor,
+ * incluindo a leitura local das notas e emoções (Text Analysis Engine).
+ * O baseline pessoal é (re)calculado aqui quando vencido.
+ *
+ * Camada de segurança: cada gravação avalia critérios de crise; a intervenção
+ * volta na resposta e é registrada para auditoria (profiles/{uid}/safety).
+ *
+ * Check-ins pertencem à gestação atual (pregnancyId); o histórico
+ * longitudinal e as amostras do baseline consideram apenas os check-ins dessa gestação.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCheckin,
+  saveCheckin,
+  hasAnyCheckin,
+  listRecentCheckins,
+  listEarliestCheckins,
+  listRecentPregnancyCheckins,
+  listEarliestPregnancyCheckins,
+  updateUserProfile,
+  calculateGestationalWeek,
+  getDateKey,
+  safetyEvents,
+} from "@fluia/firebase";
+import {
+  deriveEmotionalState,
+  calculateMetrics,
+  calculatePersonalBaseline,
+  aggregateCheckinSessions,
+  analyzeCheckinText,
+  mergeTextAnalyses,
+  evaluateCheckinSafety,
+  toSafetyEvent,
+  isBaselineRecalculationDue,
+  selectBaselineSamples,
+  BASELINE_RULES,
+  type EmotionalState,
+} from "@fluia/engines";
+import {
+  nowISO,
+  validate,
+  getCheckinSessions,
+  toValidationErrorResponse,
+  dailyCheckinInputSchema,
+  type DailyCheckinInput,
+  type DailyCheckinResponse,
+  type GetCheckinResponse,
+  type CheckinSession,
+  type StoredCheckin,
+  type StoredEmotionalState,
+  type PersonalBaseline,
+  type DayMoment,
+  type SafetyIntervention,
+} from "@fluia/contracts";
+import { getCurrentUser, type AuthenticatedUser } from "@/lib/auth/guard";
+import { getCurrentPregnancy } from "@/lib/pregnancy";
+
+/** Check-ins anteriores usados na leitura longitudinal */
+const HISTORY_WINDOW = 6;
+
+// ============================================
+// GET - Status do dia
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const checkin = await getCheckin(user.uid, dateKey);
+
+    const response: GetCheckinResponse = {
+      hasCheckin: checkin !== null,
+      dateKey,
+      checkin,
+      completedMoments: checkin ? getCheckinSessions(checkin).map((s) => s.moment) : [],
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /checkin] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load checkin" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Cria check-in do momento
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(dailyCheckinInputSchema, await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const input = parsed.data;
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const existing = await getCheckin(user.uid, dateKey);
+
+    if (existing && findSession(existing, input.moment)) {
+      return NextResponse.json(
+        { error: "Checkin already exists for this moment", code: "CHECKIN_EXISTS" },
+        { status: 409 }
+      );
+    }
+
+    const isFirstCheckin = !existing && !(await hasAnyCheckin(user.uid));
+    const pregnancy = await getCurrentPregnancy(user);
+    const history = await listPregnancyHistory(user.uid, dateKey, pregnancy?.pregnancyId);
+    const personalBaseline = await resolvePersonalBaseline(user, dateKey, pregnancy?.pregnancyId);
+    const { checkin, emotionalState } = buildStoredCheckin(
+      user,
+      dateKey,
+      input,
+      existing,
+      history,
+      personalBaseline,
+      pregnancy?.pregnancyId
+    );
+
+    await saveCheckin(checkin);
+
+    const safety = await recordSafetyIntervention(user.uid, checkin, emotionalState);
+
+    const response: DailyCheckinResponse = {
+      dateKey,
+      moment: input.moment,
+      status: "saved",
+      isFirstCheckin,
+      checkin,
+      ...(safety && { safety }),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /checkin] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save checkin" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// PUT - Atualiza check-in do momento
+// ============================================
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(dailyCheckinInputSchema, await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const input = parsed.data;
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const existing = await getCheckin(user.uid, dateKey);
+
+    if (!existing || !findSession(existing, input.moment)) {
+      return NextResponse.json(
+        { error: "No checkin for this moment today", code: "CHECKIN_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const pregnancy = await getCurrentPregnancy(user);
+    const history = await listPregnancyHistory(user.uid, dateKey, pregnancy?.pregnancyId);
+    const personalBaseline = await resolvePersonalBaseline(user, dateKey, pregnancy?.pregnancyId);
+    const { checkin, emotionalState } = buildStoredCheckin(
+      user,
+      dateKey,
+      input,
+      existing,
+      history,
+      personalBaseline,
+      pregnancy?.pregnancyId
+    );
+
+    await saveCheckin(checkin);
+
+    const safety = await recordSafetyIntervention(user.uid, checkin, emotionalState);
+
+    const response: DailyCheckinResponse = {
+      dateKey,
+      moment: input.moment,
+      status: "updated",
+      checkin,
+      ...(safety && { safety }),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /checkin] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update checkin" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Check-ins anteriores da gestação (sem gestação, todos).
+ */
+async function listPregnancyHistory(
+  uid: string,
+  dateKey: string,
+  pregnancyId: string | undefined
+): Promise<StoredCheckin[]> {
+  return pregnancyId
+    ? listRecentPregnancyCheckins(uid, pregnancyId, HISTORY_WINDOW, dateKey)
+    : listRecentCheckins(uid, HISTORY_WINDOW, dateKey);
+}
+
+/**
+ * Baseline pessoal vigente, recalculado e persistido no perfil quando vencido.
+ * undefined mantém o cold start (baselineMood do onboarding).
+ * Amostras apenas da gestação atual (sem gestação, todos os check-ins).
+ */
+async function resolvePersonalBaseline(
+  user: AuthenticatedUser,
+  dateKey: string,
+  pregnancyId: string | undefined
+): Promise<PersonalBaseline | undefined> {
+  const current = user.profile.personalBaseline;
+
+  if (current && !isBaselineRecalculationDue(current, null, dateKey)) {
+    return current;
+  }
+
+  const checkins = await listBaselineCheckins(user.uid, dateKey, pregnancyId, !!current);
+
+  if (!current && !isBaselineRecalculationDue(undefined, checkins[0]?.dateKey ?? null, dateKey)) {
+    return undefined;
+  }
+
+  const samples = selectBaselineSamples(
+    checkins.filter((c) => c.dateKey < dateKey),
+    !!current
+  );
+  const next = calculatePersonalBaseline(samples, dateKey);
+
+  if (!next) return current;
+
+  await updateUserProfile(user.uid, { personalBaseline: next });
+  return next;
+}
+
+/**
+ * Check-ins candidatos ao baseline: os mais recentes (recálculo) ou os
+ * primeiros (calibração), da gestação atual quando houver.
+ */
+async function listBaselineCheckins(
+  uid: string,
+  dateKey: string,
+  pregnancyId: string | undefined,
+  recalculating: boolean
+): Promise<StoredCheckin[]> {
+  const limit = BASELINE_RULES.RECALCULATION_WINDOW;
+
+  if (recalculating) {
+    return pregnancyId
+      ? listRecentPregnancyCheckins(uid, pregnancyId, limit, dateKey)
+      : listRecentCheckins(uid, limit, dateKey);
+  }
+
+  return pregnancyId
+    ? listEarliestPregnancyCheckins(uid, pregnancyId, limit)
+    : listEarliestCheckins(uid, limit);
+}
+
+/**
+ * Sessão de um momento do dia (null se ainda não existe).
+ */
+function findSession(checkin: StoredCheckin, moment: DayMoment): CheckinSession | null {
+  return getCheckinSessions(checkin).find((s) => s.moment === moment) ?? null;
+}
+
+/**
+ * Monta o check-in persistido: grava a sessão do momento e recalcula o agregado.
+ * Estado emocional e leitura das notas são derivados por sessão;
+ * estado e métricas do dia, do agregado (crise em qualquer sessão vale para o dia).
+ * Em atualizações, preserva createdAt e a prática já registrada.
+ * Devolve também o estado do dia completo (com trend) para a camada de segurança.
+ * O check-in fica vinculado à gestação atual (pregnancyId).
+ */
+function buildStoredCheckin(
+  user: AuthenticatedUser,
+  dateKey: string,
+  input: DailyCheckinInput,
+  existing: StoredCheckin | null,
+  history: StoredCheckin[],
+  personalBaseline: PersonalBaseline | undefined,
+  pregnancyId: string | undefined
+): { checkin: StoredCheckin; emotionalState: EmotionalState } {
+  const recentHistory = history.map((c) => c.dimensions);
+  const recentHistoryDates = history.map((c) => c.dateKey);
+
+  const { profile } = user;
+  const gestationalWeek = profile.dueDate
+    ? calculateGestationalWeek(profile.dueDate.toDate(), dateKey)
+    : profile.gestationalWeekAtCreation ?? 0;
+
+  const now = nowISO();
+  const textAnalysis = analyzeCheckinText(input);
+
+  const session: CheckinSession = {
+    moment: input.moment,
+    dimensions: input.dimensions,
+    textAnalysis,
+    emotionalState: toStoredEmotionalState(
+      deriveEmotionalState({
+        dimensions: input.dimensions,
+        gestationalWeek,
+        moment: input.moment,
+        recentHistory,
+        dateKey,
+        recentHistoryDates,
+        textAnalysis,
+      })
+    ),
+    createdAt: (existing && findSession(existing, input.moment)?.createdAt) || now,
+    updatedAt: now,
+  };
+
+  // Firestore não aceita undefined
+  if (input.emotions) session.emotions = input.emotions;
+  if (input.notes) session.notes = input.notes;
+
+  const sessions = [
+    ...(existing ? getCheckinSessions(existing) : []).filter((s) => s.moment !== input.moment),
+    session,
+  ];
+  const aggregate = aggregateCheckinSessions(sessions);
+  const dailyTextAnalysis = mergeTextAnalyses(
+    sessions.map((s) => s.textAnalysis ?? analyzeCheckinText(s))
+  );
+
+  const emotionalState = deriveEmotionalState({
+    dimensions: aggregate.dimensions,
+    gestationalWeek,
+    moment: aggregate.moment,
+    recentHistory,
+    dateKey,
+    recentHistoryDates,
+    textAnalysis: dailyTextAnalysis,
+  });
+
+  const metrics = calculateMetrics({
+    emotionalState,
+    dimensions: aggregate.dimensions,
+    baseline:
+      profile.baselineMood !== null ? { mood: profile.baselineMood } : undefined,
+    personalBaseline,
+    recentHistory,
+  });
+
+  const checkin: StoredCheckin = {
+    uid: user.uid,
+    dateKey,
+    ...aggregate,
+    sessions: Object.fromEntries(sessions.map((s) => [s.moment, s])),
+    textAnalysis: dailyTextAnalysis,
+    gestationalWeek,
+    ...(pregnancyId && { pregnancyId }),
+    emotionalState: toStoredEmotionalState(emotionalState),
+    metrics,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  if (existing?.recovery) checkin.recovery = existing.recovery;
+
+  return { checkin, emotionalState };
+}
+
+/**
+ * Avalia critérios de crise do dia e registra a intervenção (auditoria).
+ * null = nenhum critério atingido.
+ */
+async function recordSafetyIntervention(
+  uid: string,
+  checkin: StoredCheckin,
+  emotionalState: EmotionalState
+): Promise<SafetyIntervention | null> {
+  const safety = evaluateCheckinSafety({
+    emotionalState,
+    textAnalysis: checkin.textAnalysis,
+  });
+
+  if (safety) {
+    await safetyEvents.append(uid, toSafetyEvent(safety, checkin.dateKey));
+  }
+
+  return safety;
+}
+
+/**
+ * Remove campos opcionais ausentes (Firestore não aceita undefined).
+ */
+function toStoredEmotionalState(state: EmotionalState): StoredEmotionalState {
+  const { flags, trend, ...base } = state;
+  return {
+    ...base,
+    ...(flags && { flags }),
+    ...(trend && { trend }),
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * API Route: /api/mae/baby-log
+ *
+ * GET  - Registro do bebê no período (?days=7, máx. 90; ?babyId=)
+ *        com resumos diários/semanais, série de peso,
+ *        correlação sono do bebê x zona da mãe e insights
+ * POST - Registra um cuidado (sono, mamada, fralda ou peso)
+ *
+ * O dia do registro segue o reset de 04:00 no timezone da usuária.
+ * Registros e agregados são de um bebê: com gêmeos, babyId é obrigatório.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addBabyLogEntry,
+  listBabyLogEntries,
+  listRecentCombinedCheckins,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  summarizeBabyLogDay,
+  summarizeBabyLogDays,
+  summarizeBabyLogWeeks,
+  buildWeightSeries,
+  filterBabyLogEntries,
+  correlateBabySleepWithZone,
+  generateBabyLogInsights,
+  getBabyLogEntryTime,
+  getBabyLogRange,
+} from "@fluia/engines";
+import {
+  addDays,
+  getPregnancyScope,
+  nowISO,
+  toDateKey,
+  validate,
+  toValidationErrorResponse,
+  addBabyLogEntryRequestSchema,
+  type AddBabyLogEntryRequest,
+  type AddBabyLogEntryResponse,
+  type GetBabyLogResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import {
+  getTransitionState,
+  getPostpartumBabies,
+  resolveBabyId,
+  getBabyName,
+  INVALID_BABY,
+  TRANSITION_NOT_STARTED,
+} from "@/lib/postpartum";
+
+/** Período padrão e máximo de consulta (dias) */
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 90;
+
+// ============================================
+// GET - Registro do período
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const today = getDateKey(user.profile.timezone);
+    const state = getTransitionState(user, today);
+
+    if (!state) {
+      return NextResponse.json(TRANSITION_NOT_STARTED, { status: 409 });
+    }
+
+    const days = parseRangeDays(request.nextUrl.searchParams.get("days"));
+
+    if (days === null) {
+      return NextResponse.json(
+        toValidationErrorResponse({ days: `must be an integer between 1 and ${MAX_RANGE_DAYS}` }),
+        { status: 400 }
+      );
+    }
+
+    const babies = await getPostpartumBabies(user.uid, state);
+    const babyId = resolveBabyId(
+      babies,
+      request.nextUrl.searchParams.get("babyId") ?? undefined
+    );
+
+    if (!babyId) {
+      return NextResponse.json(INVALID_BABY, { status: 400 });
+    }
+
+    const { from, to } = getBabyLogRange(today, days);
+
+    const [allEntries, checkins] = await Promise.all([
+      listBabyLogEntries(user.uid, from, to),
+      listRecentCombinedCheckins(user.uid, days, addDays(to, 1)),
+    ]);
+    const entries = filterBabyLogEntries(allEntries, getPregnancyScope(state), babyId);
+
+    const daily = summarizeBabyLogDays(entries);
+    const weekly = summarizeBabyLogWeeks(daily);
+    const sleepZoneCorrelation = correlateBabySleepWithZone(
+      daily,
+      checkins.map((c) => ({ dateKey: c.dateKey, zone: c.motherCheckin.zone }))
+    );
+
+    const response: GetBabyLogResponse = {
+      from,
+      to,
+      babyId,
+      entries,
+      daily,
+      weekly,
+      weight: buildWeightSeries(entries, state.birthInfo!.birthDate),
+      sleepZoneCorrelation,
+      insights: generateBabyLogInsights({
+        babyName: getBabyName(state, babies, babyId),
+        weekly,
+        sleepZoneCorrelation,
+      }),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /mae/baby-log] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load baby log" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Registra cuidado
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      addBabyLogEntryRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const { timezone } = user.profile;
+    const state = getTransitionState(user, getDateKey(timezone));
+
+    if (!state) {
+      return NextResponse.json(TRANSITION_NOT_STARTED, { status: 409 });
+    }
+
+    const entry = parsed.data;
+    const babyId = resolveBabyId(await getPostpartumBabies(user.uid, state), entry.babyId);
+
+    if (!babyId) {
+      return NextResponse.json(INVALID_BABY, { status: 400 });
+    }
+
+    const now = nowISO();
+    const invalid = getEntryError(entry, state.birthInfo!.birthDate, now);
+
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid, code: "INVALID_ENTRY" },
+        { status: 400 }
+      );
+    }
+
+    const dateKey = toDateKey(getBabyLogEntryTime(entry), timezone);
+    const pregnancyId = getPregnancyScope(state);
+    const stored = await addBabyLogEntry(
+      user.uid,
+      dateKey,
+      { ...entry, pregnancyId, babyId },
+      now
+    );
+    const sameDay = await listBabyLogEntries(user.uid, dateKey, dateKey);
+
+    const response: AddBabyLogEntryResponse = {
+      entry: stored,
+      daily: summarizeBabyLogDay(
+        dateKey,
+        filterBabyLogEntries(sameDay, pregnancyId, babyId)
+      ),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /mae/baby-log] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save baby log entry" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * ?days= (default DEFAULT_RANGE_DAYS). null = inválido.
+ */
+function parseRangeDays(value: string | null): number | null {
+  if (value === null) return DEFAULT_RANGE_DAYS;
+
+  const days = Number(value);
+
+  return Number.isInteger(days) && days >= 1 && days <= MAX_RANGE_DAYS ? days : null;
+}
+
+/**
+ * Coerência entre campos que o schema não cobre.
+ * Retorna a mensagem de erro ou null.
+ */
+function getEntryError(
+  entry: AddBabyLogEntryRequest,
+  birthDate: string,
+  now: string
+): string | null {
+  const time = getBabyLogEntryTime(entry);
+
+  if (time.slice(0, 10) < birthDate.slice(0, 10)) return "Entry is before birth date";
+  if (new Date(time).getTime() > new Date(now).getTime()) return "Entry is in the future";
+
+  if (entry.type === "sleep" && new Date(entry.endedAt) <= new Date(entry.startedAt)) {
+    return "Sleep must end after it starts";
+  }
+  if (entry.type === "feeding" && entry.side && entry.method !== "breast") {
+    return "Side only applies to breastfeeding";
+  }
+  if (entry.type === "feeding" && entry.volumeMl && entry.method === "breast") {
+    return "Volume only applies to bottle feeding";
+  }
+
+  return null;
+}
@@ -0,0 +1,325 @@
+/**
+ * API Route: /api/mae/checkin
+ *
+ * GET  - Check-in combinado (mãe + bebê) do dia
+ * POST - Cria o check-in combinado do dia
+ * PUT  - Atualiza o check-in combinado do dia
+ *
+ * Um check-in combinado por dia. O primeiro conclui as etapas
+ * de check-in da transição. Sinais de risco nos check-ins recentes
+ * antecipam o convite para a EPDS (showAlert).
+ * O check-in do bebê leva o babyId (com gêmeos, obrigatório).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCombinedCheckin,
+  saveCombinedCheckin,
+  listRecentCombinedCheckins,
+  getLatestEPDSResult,
+  updateUserProfile,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  calculateWeeksSinceBirth,
+  completeTransitionSteps,
+  generateCheckinMessage,
+  generateWelcomeMessage,
+  generateCheckinInsights,
+  suggestPractice,
+  evaluatePPDRisk,
+  getEPDSScheduleStatus,
+  createDailyRng,
+} from "@fluia/engines";
+import {
+  getPregnancyScope,
+  nowISO,
+  validate,
+  toValidationErrorResponse,
+  saveCombinedCheckinRequestSchema,
+  type CombinedCheckin,
+  type CombinedCheckinResponse,
+  type GetCombinedCheckinResponse,
+  type PostpartumContext,
+  type SaveCombinedCheckinRequest,
+  type StoredCombinedCheckin,
+  type TransitionState,
+} from "@fluia/contracts";
+import { getCurrentUser, type AuthenticatedUser } from "@/lib/auth/guard";
+import {
+  getTransitionState,
+  getPostpartumBabies,
+  resolveBabyId,
+  getBabyName,
+  INVALID_BABY,
+  TRANSITION_NOT_STARTED,
+} from "@/lib/postpartum";
+import { ensureContent } from "@/lib/content";
+
+/** Check-ins anteriores usados no sinal de risco e na zona média */
+const HISTORY_WINDOW = 13;
+
+// ============================================
+// GET - Check-in do dia
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const state = getTransitionState(user, dateKey);
+
+    if (!state) {
+      return NextResponse.json(TRANSITION_NOT_STARTED, { status: 409 });
+    }
+
+    const checkin = await getCombinedCheckin(user.uid, dateKey);
+
+    const response: GetCombinedCheckinResponse = {
+      hasCheckin: checkin !== null,
+      dateKey,
+      checkin,
+      state,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /mae/checkin] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load checkin" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Cria check-in combinado
+// ============================================
+
+export async function POST(request: NextRequest) {
+  return handleSave(request, "create");
+}
+
+// ============================================
+// PUT - Atualiza check-in combinado
+// ============================================
+
+export async function PUT(request: NextRequest) {
+  return handleSave(request, "update");
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Fluxo comum de POST/PUT (muda apenas a checagem de existência).
+ */
+async function handleSave(request: NextRequest, mode: "create" | "update") {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      saveCombinedCheckinRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    await ensureContent();
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const state = getTransitionState(user, dateKey);
+
+    if (!state) {
+      return NextResponse.json(TRANSITION_NOT_STARTED, { status: 409 });
+    }
+
+    const existing = await getCombinedCheckin(user.uid, dateKey);
+
+    if (mode === "create" && existing) {
+      return NextResponse.json(
+        { error: "Checkin already exists for today", code: "CHECKIN_EXISTS" },
+        { status: 409 }
+      );
+    }
+
+    if (mode === "update" && !existing) {
+      return NextResponse.json(
+        { error: "No checkin today", code: "CHECKIN_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const babies = await getPostpartumBabies(user.uid, state);
+    const babyId = resolveBabyId(babies, parsed.data.babyCheckin.babyId);
+
+    if (!babyId) {
+      return NextResponse.json(INVALID_BABY, { status: 400 });
+    }
+
+    const input: SaveCombinedCheckinRequest = {
+      ...parsed.data,
+      babyCheckin: { ...parsed.data.babyCheckin, babyId },
+    };
+    const history = await listRecentCombinedCheckins(user.uid, HISTORY_WINDOW, dateKey);
+    const context = buildPostpartumContext(
+      user,
+      state,
+      input,
+      history,
+      getBabyName(state, babies, babyId)
+    );
+    const checkin = buildCombinedCheckin(user.uid, dateKey, state, input, context, existing);
+
+    await saveCombinedCheckin(checkin);
+
+    if (!state.onboardingSteps.firstPostpartumCheckin || !state.onboardingSteps.firstBabyCheckin) {
+      await updateUserProfile(user.uid, {
+        postpartum: completeTransitionSteps(
+          state,
+          ["firstPostpartumCheckin", "firstBabyCheckin"],
+          dateKey
+        ),
+      });
+    }
+
+    const insights = generateCheckinInsights(checkin, context);
+    const showAlert = await resolveScreeningAlert(user.uid, state, [checkin, ...history], context);
+
+    const response: CombinedCheckinResponse = {
+      checkin,
+      welcomeMessage: generateWelcomeMessage(context.birthInfo, state.phase).babyMessage,
+      ...(insights.length > 0 && { insights }),
+      ...(showAlert && { showAlert }),
+    };
+
+    return NextResponse.json(response, { status: mode === "create" ? 201 : 200 });
+  } catch (error) {
+    console.error("[API /mae/checkin] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save checkin" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Contexto do puerpério para as mensagens do dia (babyName: bebê do check-in).
+ */
+function buildPostpartumContext(
+  user: AuthenticatedUser,
+  state: TransitionState,
+  input: SaveCombinedCheckinRequest,
+  history: StoredCombinedCheckin[],
+  babyName: string
+): PostpartumContext {
+  const birthInfo = state.birthInfo!;
+  const zones = [input.motherCheckin.zone, ...history.map((c) => c.motherCheckin.zone)];
+
+  return {
+    uid: user.uid,
+    isPremium: user.profile.isPremium ?? false,
+    babyName,
+    ...(user.profile.displayName && { motherName: user.profile.displayName }),
+    birthInfo,
+    phase: state.phase,
+    daysSinceBirth: state.daysSinceBirth,
+    weeksSinceBirth: state.weeksSinceBirth,
+    recentAvgZone: zones.reduce((sum, zone) => sum + zone, 0) / zones.length,
+    isBreastfeeding: input.motherCheckin.isBreastfeeding ?? false,
+  };
+}
+
+/**
+ * Monta o check-in combinado persistido (checkinId = dateKey).
+ * Em atualizações, preserva createdAt.
+ */
+function buildCombinedCheckin(
+  uid: string,
+  dateKey: string,
+  state: TransitionState,
+  input: SaveCombinedCheckinRequest,
+  context: PostpartumContext,
+  existing: StoredCombinedCheckin | null
+): StoredCombinedCheckin {
+  const now = nowISO();
+  const createdAt = existing?.createdAt ?? now;
+
+  const base: Omit<CombinedCheckin, "generatedMessage" | "suggestedPractice"> = {
+    checkinId: dateKey,
+    date: dateKey,
+    daysSinceBirth: state.daysSinceBirth,
+    phase: state.phase,
+    motherCheckin: input.motherCheckin,
+    babyCheckin: {
+      ...input.babyCheckin,
+      checkinId: dateKey,
+      date: dateKey,
+      daysOld: state.daysSinceBirth,
+      weeksOld: calculateWeeksSinceBirth(state.daysSinceBirth),
+      createdAt,
+    },
+    createdAt,
+  };
+
+  const suggestedPractice = suggestPractice(base, context);
+
+  return {
+    ...base,
+    uid,
+    dateKey,
+    ...(state.pregnancyId && { pregnancyId: state.pregnancyId }),
+    generatedMessage: generateCheckinMessage(
+      base,
+      context,
+      createDailyRng(uid, dateKey, "postpartum-checkin")
+    ),
+    ...(suggestedPractice && { suggestedPractice }),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Convite para a EPDS quando o agendamento venceu ou os check-ins
+ * recentes sugerem antecipar (evaluatePPDRisk).
+ */
+async function resolveScreeningAlert(
+  uid: string,
+  state: TransitionState,
+  recent: StoredCombinedCheckin[],
+  context: PostpartumContext
+): Promise<CombinedCheckinResponse["showAlert"]> {
+  const riskSignal = evaluatePPDRisk(
+    recent.map((c) => ({ zone: c.motherCheckin.zone, sleepQuality: c.motherCheckin.sleepQuality })),
+    context
+  );
+  const latest = await getLatestEPDSResult(uid, getPregnancyScope(state));
+
+  const schedule = getEPDSScheduleStatus({
+    daysSinceBirth: state.daysSinceBirth,
+    lastScreenedDay: latest?.daysSinceBirth,
+    riskSignal,
+  });
+
+  if (!schedule.isDue) return undefined;
+
+  return {
+    type: "ppd_screening",
+    message:
+      schedule.reason === "risk_signal" && riskSignal
+        ? riskSignal.message
+        : "Que tal responder um questionário rápido sobre como você tem se sentido?",
+    action: "/api/mae/screening",
+  };
+}
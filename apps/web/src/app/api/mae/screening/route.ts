@@ -0,0 +1,138 @@
+/**
+ * API Route: /api/mae/screening
+ *
+ * GET  - Questionário EPDS, agendamento e histórico
+ * POST - Envia as respostas da EPDS
+ *
+ * Disponível após o início da transição para o puerpério.
+ * Resultados com critério de risco (incluindo o item 10) acionam
+ * a camada de segurança e são registrados para auditoria.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  saveEPDSResult,
+  listEPDSResults,
+  getDateKey,
+  safetyEvents,
+} from "@fluia/firebase";
+import {
+  scoreEPDS,
+  getEPDSScheduleStatus,
+  evaluateScreeningSafety,
+  toSafetyEvent,
+} from "@fluia/engines";
+import {
+  getPregnancyScope,
+  validate,
+  toValidationErrorResponse,
+  submitEPDSRequestSchema,
+  EPDS_INSTRUCTIONS,
+  EPDS_QUESTIONS,
+  type GetEPDSResponse,
+  type SubmitEPDSResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { getTransitionState, TRANSITION_NOT_STARTED } from "@/lib/postpartum";
+
+// ============================================
+// GET - Questionário + agendamento
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const state = getTransitionState(user, getDateKey(user.profile.timezone));
+
+    if (!state) {
+      return NextResponse.json(TRANSITION_NOT_STARTED, { status: 409 });
+    }
+
+    // Histórico do bebê atual: a EPDS de um puerpério anterior não conta
+    const history = await listEPDSResults(user.uid, getPregnancyScope(state));
+
+    const response: GetEPDSResponse = {
+      instructions: EPDS_INSTRUCTIONS,
+      questions: EPDS_QUESTIONS,
+      schedule: getEPDSScheduleStatus({
+        daysSinceBirth: state.daysSinceBirth,
+        lastScreenedDay: history[0]?.daysSinceBirth,
+      }),
+      history,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /mae/screening] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load screening" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Envia EPDS
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      submitEPDSRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const state = getTransitionState(user, getDateKey(user.profile.timezone));
+
+    if (!state) {
+      return NextResponse.json(TRANSITION_NOT_STARTED, { status: 409 });
+    }
+
+    const result = scoreEPDS(parsed.data.answers, { daysSinceBirth: state.daysSinceBirth });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Every question must be answered once", code: "INCOMPLETE_SCREENING" },
+        { status: 400 }
+      );
+    }
+
+    const stored = await saveEPDSResult(user.uid, getPregnancyScope(state), result);
+
+    const safety = evaluateScreeningSafety(result);
+    if (safety) {
+      await safetyEvents.append(user.uid, toSafetyEvent(safety, stored.screeningId));
+    }
+
+    const response: SubmitEPDSResponse = {
+      result: stored,
+      ...(safety && { safety }),
+      schedule: getEPDSScheduleStatus({
+        daysSinceBirth: state.daysSinceBirth,
+        lastScreenedDay: stored.daysSinceBirth,
+      }),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /mae/screening] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save screening" },
+      { status: 500 }
+    );
+  }
+}
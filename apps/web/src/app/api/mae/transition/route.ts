@@ -0,0 +1,124 @@
+/**
+ * API Route: /api/mae/transition
+ *
+ * GET  - Modo da jornada e estado da transição (fase atualizada para hoje)
+ * POST - Registra o nascimento e muda o perfil de gestante para mãe
+ *
+ * O estado da transição vive no perfil (profiles/{uid}.postpartum).
+ * O nascimento encerra a gestação ativa (status born).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { updateUserProfile, savePregnancy, getDateKey } from "@fluia/firebase";
+import {
+  createInitialTransitionState,
+  completeTransitionSteps,
+  generateWelcomeMessage,
+  recordPregnancyBirth,
+} from "@fluia/engines";
+import {
+  validate,
+  toValidationErrorResponse,
+  startTransitionRequestSchema,
+  type GetTransitionResponse,
+  type TransitionResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { getTransitionState } from "@/lib/postpartum";
+import { getActivePregnancy } from "@/lib/pregnancy";
+
+// ============================================
+// GET - Status da transição
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const state = getTransitionState(user, getDateKey(user.profile.timezone));
+
+    const response: GetTransitionResponse = {
+      mode: state ? "mae" : "gestante",
+      state,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /mae/transition] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load transition" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Inicia a transição
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(startTransitionRequestSchema, await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const { birthInfo } = parsed.data;
+    const dateKey = getDateKey(user.profile.timezone);
+
+    // Puerpério de uma gestação anterior não impede a nova transição
+    if (getTransitionState(user, dateKey)) {
+      return NextResponse.json(
+        { error: "Transition already started", code: "TRANSITION_EXISTS" },
+        { status: 409 }
+      );
+    }
+
+    if (birthInfo.birthDate.slice(0, 10) > dateKey) {
+      return NextResponse.json(
+        { error: "Birth date cannot be in the future", code: "INVALID_BIRTH_DATE" },
+        { status: 400 }
+      );
+    }
+
+    const pregnancy = await getActivePregnancy(user);
+
+    // As boas-vindas apresentam os novos pilares
+    const initial = {
+      ...createInitialTransitionState(birthInfo, dateKey),
+      ...(pregnancy && { pregnancyId: pregnancy.pregnancyId }),
+    };
+    const welcomeMessage = generateWelcomeMessage(birthInfo, initial.phase);
+    const state = completeTransitionSteps(initial, ["pillarsIntroduced"], dateKey);
+
+    if (pregnancy) {
+      await savePregnancy(recordPregnancyBirth(pregnancy, birthInfo));
+    }
+
+    await updateUserProfile(user.uid, {
+      mode: "mae",
+      postpartum: state,
+      ...(pregnancy && { activePregnancyId: null }),
+    });
+
+    const response: TransitionResponse = { state, welcomeMessage };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /mae/transition] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to start transition" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * API Route: POST /api/micromoments/accept
+ *
+ * Registra que a usuária aceitou (clicou para saber mais) um micromomento
+ * apresentado. O accept abre o cooldown de accept na Micromoment Engine.
+ * Convite ao parceiro(a) (MM6) aceito fica no perfil e não volta a aparecer.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { updateUserProfile, Timestamp } from "@fluia/firebase";
+import { getMicromomentNextAction } from "@fluia/engines";
+import {
+  validate,
+  toValidationErrorResponse,
+  acceptMicromomentRequestSchema,
+  type AcceptMicromomentResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { recordMicromomentResponse, MICROMOMENT_NOT_FOUND } from "@/lib/micromoments";
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      acceptMicromomentRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const error = await recordMicromomentResponse(user, parsed.data, "accept");
+
+    if (error) {
+      return NextResponse.json(error, { status: error === MICROMOMENT_NOT_FOUND ? 404 : 409 });
+    }
+
+    if (parsed.data.type === "MM6") {
+      await updateUserProfile(user.uid, { partnerInvitedAt: Timestamp.now() });
+    }
+
+    const response: AcceptMicromomentResponse = {
+      success: true,
+      nextAction: getMicromomentNextAction(parsed.data.type),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /micromoments/accept] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to accept micromoment" },
+      { status: 500 }
+    );
+  }
+}
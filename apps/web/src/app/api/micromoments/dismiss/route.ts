@@ -0,0 +1,50 @@
+/**
+ * API Route: POST /api/micromoments/dismiss
+ *
+ * Registra que a usuária dispensou um micromomento apresentado.
+ * O dismiss abre o cooldown de dismiss na Micromoment Engine.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  validate,
+  toValidationErrorResponse,
+  dismissMicromomentRequestSchema,
+  type DismissMicromomentResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { recordMicromomentResponse, MICROMOMENT_NOT_FOUND } from "@/lib/micromoments";
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      dismissMicromomentRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const error = await recordMicromomentResponse(user, parsed.data, "dismiss");
+
+    if (error) {
+      return NextResponse.json(error, { status: error === MICROMOMENT_NOT_FOUND ? 404 : 409 });
+    }
+
+    const response: DismissMicromomentResponse = { success: true };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /micromoments/dismiss] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to dismiss micromoment" },
+      { status: 500 }
+    );
+  }
+}
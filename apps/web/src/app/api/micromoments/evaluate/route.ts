@@ -0,0 +1,219 @@
+/**
+ * API Route: GET /api/micromoments/evaluate
+ *
+ * Avalia se há micromomento para agora (Micromoment Engine).
+ * A sugestão apresentada é registrada como evento "shown": é sobre
+ * esses eventos que valem os limites por dia/semana e os cooldowns.
+ * Enquanto não houver resposta, a mesma sugestão é reapresentada no dia.
+ * As regras (versionadas) têm overrides por coorte: primeira gestação,
+ * trimestre e premium.
+ *
+ * Gestante: check-in do dia (zona, risco, prática).
+ * Puerpério: check-in combinado (zona da mãe, fase) e último rastreio EPDS.
+ * Bloqueados pela camada de segurança: intervenção registrada no dia que bloqueia
+ * micromomentos e rastreio de risco (isMicromomentBlockedBySafety).
+ */
+import { NextResponse } from "next/server";
+import {
+  getCheckin,
+  getCombinedCheckin,
+  getLatestEPDSResult,
+  getPractice,
+  getPracticeId,
+  countCheckins,
+  countCombinedCheckins,
+  countCompletedDays,
+  micromomentEvents,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  evaluateMicromoment,
+  deriveRiskLevel,
+  derivePostpartumRiskLevel,
+  getActiveMicromomentRules,
+} from "@fluia/engines";
+import {
+  nowISO,
+  getPregnancyScope,
+  getTrimesterFromWeeks,
+  type DateKey,
+  type MetricKey,
+  type MicromomentEvaluationResponse,
+  type PostpartumPhase,
+  type StoredCheckin,
+  type Trimester,
+} from "@fluia/contracts";
+import { getCurrentUser, type AuthenticatedUser } from "@/lib/auth/guard";
+import {
+  listMicromomentHistory,
+  ensureMicromomentRules,
+  isMicromomentBlockedBySafety,
+} from "@/lib/micromoments";
+import { getTransitionState } from "@/lib/postpartum";
+
+/** Dados do dia para a avaliação (check-in da gestante ou da mãe) */
+interface MicromomentDay {
+  zone: number;
+  pillar?: MetricKey;
+  riskLevel: number;
+  practiceCompletedToday: boolean;
+  presenceDays: number;
+  trimester?: Trimester;
+  postpartumPhase?: PostpartumPhase;
+}
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    await ensureMicromomentRules();
+
+    const { uid, profile } = user;
+    const today = getDateKey(profile.timezone);
+    const mode = profile.mode ?? "gestante";
+
+    const [day, blockedBySafety] = await Promise.all([
+      mode === "mae" ? getPostpartumDay(user, today) : getGestationalDay(uid, today),
+      isMicromomentBlockedBySafety(user),
+    ]);
+
+    // Sem check-in (ou sem estado derivado) não há zona nem risco para avaliar;
+    // sob intervenção de segurança, nada de micromomentos
+    if (!day || blockedBySafety) {
+      const response: MicromomentEvaluationResponse = { suggestion: null };
+      return NextResponse.json(response);
+    }
+
+    const [events, completedJourneys] = await Promise.all([
+      listMicromomentHistory(user),
+      countCompletedDays(uid),
+    ]);
+
+    const result = evaluateMicromoment({
+      uid,
+      presenceDays: day.presenceDays,
+      completedJourneys,
+      zone: day.zone,
+      pillar: day.pillar,
+      riskLevel: day.riskLevel,
+      practiceCompletedToday: day.practiceCompletedToday,
+      // Perfil lido antes do touch do acesso atual
+      isFirstAccessToday: profile.lastActiveDate !== today,
+      hasCheckinToday: true,
+      isPremium: profile.isPremium ?? false,
+      // Perfil espelha a gestação ativa
+      isFirstPregnancy: profile.isFirstPregnancy,
+      trimester: day.trimester,
+      mode,
+      postpartumPhase: day.postpartumPhase,
+      partnerInvited: !!profile.partnerInvitedAt,
+      events,
+      timezone: profile.timezone,
+      today,
+    });
+
+    const { suggestion } = result;
+
+    if (suggestion && !result.alreadyShown) {
+      await micromomentEvents.append(uid, {
+        micromomentId: suggestion.micromomentId,
+        type: suggestion.type,
+        action: "shown",
+        timestamp: nowISO(),
+        context: {
+          zone: day.zone,
+          ...(day.pillar && { pillar: day.pillar }),
+          rulesVersion: getActiveMicromomentRules().version,
+        },
+      });
+    }
+
+    const response: MicromomentEvaluationResponse = { suggestion };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /micromoments/evaluate] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate micromoment" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Dia da gestante: check-in com estado derivado.
+ * null sem check-in (ou sem estado derivado).
+ */
+async function getGestationalDay(uid: string, today: DateKey): Promise<MicromomentDay | null> {
+  const checkin = await getCheckin(uid, today);
+
+  if (!checkin?.emotionalState) return null;
+
+  const [presenceDays, pillar] = await Promise.all([
+    countCheckins(uid),
+    getPracticePillar(uid, today, checkin),
+  ]);
+
+  return {
+    zone: checkin.emotionalState.zone,
+    ...(pillar && { pillar }),
+    riskLevel: deriveRiskLevel(checkin.emotionalState),
+    practiceCompletedToday: !!checkin.recovery,
+    presenceDays,
+    trimester: getTrimesterFromWeeks(checkin.gestationalWeek),
+  };
+}
+
+/**
+ * Dia da mãe: check-in combinado e fase do puerpério.
+ * Presença = dias de check-in na gestação e no puerpério.
+ * null antes da transição ou sem check-in combinado.
+ */
+async function getPostpartumDay(
+  user: AuthenticatedUser,
+  today: DateKey
+): Promise<MicromomentDay | null> {
+  const state = getTransitionState(user, today);
+  const checkin = state ? await getCombinedCheckin(user.uid, today) : null;
+
+  if (!state || !checkin) return null;
+
+  const [gestationalDays, postpartumDays, latestEPDS] = await Promise.all([
+    countCheckins(user.uid),
+    countCombinedCheckins(user.uid),
+    getLatestEPDSResult(user.uid, getPregnancyScope(state)),
+  ]);
+
+  const { zone } = checkin.motherCheckin;
+
+  return {
+    zone,
+    riskLevel: derivePostpartumRiskLevel(zone, latestEPDS),
+    // Práticas são da gestação
+    practiceCompletedToday: false,
+    presenceDays: gestationalDays + postpartumDays,
+    postpartumPhase: state.phase,
+  };
+}
+
+/**
+ * Pilar da prática que completou o dia (undefined sem prática).
+ */
+async function getPracticePillar(
+  uid: string,
+  dateKey: DateKey,
+  checkin: StoredCheckin
+): Promise<MetricKey | undefined> {
+  if (!checkin.recovery) return undefined;
+
+  const practice = await getPractice(uid, getPracticeId(dateKey, checkin.recovery.trainingId));
+  return practice?.category;
+}
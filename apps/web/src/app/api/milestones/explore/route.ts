@@ -0,0 +1,71 @@
+/**
+ * API Route: POST /api/milestones/explore
+ *
+ * Explora o produto exclusivo (Premium) de um marco apresentado.
+ * FREE recebe apenas a mensagem: a celebração continua sendo dela.
+ * Explorar um marco pendente também o marca como visto.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  validate,
+  toValidationErrorResponse,
+  exploreMilestoneProductRequestSchema,
+  type ExploreMilestoneProductResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { exploreMilestone, MILESTONE_NOT_FOUND } from "@/lib/milestones";
+
+/** Mensagem para quem não é Premium */
+const PREMIUM_ONLY_MESSAGE =
+  "Este conteúdo especial faz parte do Premium. A celebração deste marco é toda sua!";
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      exploreMilestoneProductRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    if (!user.profile.isPremium) {
+      const response: ExploreMilestoneProductResponse = {
+        success: false,
+        message: PREMIUM_ONLY_MESSAGE,
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const result = await exploreMilestone(user, parsed.data);
+
+    if ("error" in result) {
+      return NextResponse.json(result.error, {
+        status: result.error === MILESTONE_NOT_FOUND ? 404 : 400,
+      });
+    }
+
+    const response: ExploreMilestoneProductResponse = {
+      success: true,
+      content: {
+        type: result.product.productType,
+        data: result.product,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /milestones/explore] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to explore milestone product" },
+      { status: 500 }
+    );
+  }
+}
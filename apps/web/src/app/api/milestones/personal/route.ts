@@ -0,0 +1,148 @@
+/**
+ * API Route: /api/milestones/personal
+ *
+ * GET  - Marcos pessoais da gestação atual (ordem cronológica)
+ * POST - Cria um marco pessoal (primeiro chute, ultrassom, chá de bebê...)
+ *
+ * O marco é celebrado a partir do dia marcado, ainda por alguns dias se não
+ * for visto (GET /api/milestones), e entra na timeline visual e no livro da jornada.
+ * Pertence à gestação atual (pregnancyId).
+ * A nota passa pela Safety Engine (como o diário): a intervenção volta na
+ * resposta e é registrada para auditoria (profiles/{uid}/safety).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addPersonalMilestone,
+  listPersonalMilestones,
+  safetyEvents,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  createPersonalMilestone,
+  filterByPregnancy,
+  evaluateDiarySafety,
+  toSafetyEvent,
+} from "@fluia/engines";
+import {
+  daysBetween,
+  validate,
+  toValidationErrorResponse,
+  createPersonalMilestoneRequestSchema,
+  type ListPersonalMilestonesResponse,
+  type PersonalMilestoneResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { getCurrentPregnancy } from "@/lib/pregnancy";
+
+/** Janela aceita para a data do marco, em dias a partir de hoje (uma gestação) */
+const MILESTONE_DATE_WINDOW = { minDays: -294, maxDays: 294 };
+
+// ============================================
+// GET - Marcos pessoais
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const [pregnancy, milestones] = await Promise.all([
+      getCurrentPregnancy(user),
+      listPersonalMilestones(user.uid),
+    ]);
+
+    const response: ListPersonalMilestonesResponse = {
+      milestones: pregnancy ? filterByPregnancy(milestones, pregnancy.pregnancyId) : milestones,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /milestones/personal] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load personal milestones" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Novo marco pessoal
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      createPersonalMilestoneRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const input = parsed.data;
+
+    // Sem título padrão para "outro"
+    if (input.kind === "custom" && !input.title) {
+      return NextResponse.json(toValidationErrorResponse({ title: "is required" }), {
+        status: 400,
+      });
+    }
+
+    const today = getDateKey(user.profile.timezone);
+    const date = input.date.slice(0, 10);
+    const daysFromToday = daysBetween(today, date);
+
+    if (
+      daysFromToday < MILESTONE_DATE_WINDOW.minDays ||
+      daysFromToday > MILESTONE_DATE_WINDOW.maxDays
+    ) {
+      return NextResponse.json(
+        { error: "Milestone date is out of range", code: "INVALID_MILESTONE_DATE" },
+        { status: 400 }
+      );
+    }
+
+    const pregnancy = await getCurrentPregnancy(user);
+
+    const milestone = await addPersonalMilestone(
+      createPersonalMilestone({
+        uid: user.uid,
+        kind: input.kind,
+        title: input.title,
+        date,
+        note: input.note,
+        photoUrl: input.photoUrl,
+        pregnancyId: pregnancy?.pregnancyId,
+      })
+    );
+
+    const safety = milestone.note ? evaluateDiarySafety({ text: milestone.note }) : null;
+
+    if (safety) {
+      await safetyEvents.append(user.uid, toSafetyEvent(safety, milestone.personalMilestoneId));
+    }
+
+    const response: PersonalMilestoneResponse = {
+      milestone,
+      ...(safety && { safety }),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /milestones/personal] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create personal milestone" },
+      { status: 500 }
+    );
+  }
+}
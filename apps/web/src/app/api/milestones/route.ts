@@ -0,0 +1,40 @@
+/**
+ * API Route: GET /api/milestones
+ *
+ * Marcos pendentes da usuária (Milestone Engine): pessoais (do dia marcado até
+ * PERSONAL_GRACE_DAYS depois, enquanto não vistos), presença (7/30/60/100 dias)
+ * e gestacionais (fim de trimestre, termo, DPP), no máximo
+ * MAX_MILESTONES_PER_EVALUATION por vez.
+ * Após perda gestacional, sem marcos gestacionais e sem babyMessage.
+ * Um marco é reapresentado até ser marcado como visto (POST /api/milestones/seen).
+ * Premium recebe o produto exclusivo junto da celebração.
+ */
+import { NextResponse } from "next/server";
+import type { MilestoneEvaluationResponse } from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { evaluateUserMilestones } from "@/lib/milestones";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { result } = await evaluateUserMilestones(user);
+
+    const response: MilestoneEvaluationResponse = {
+      milestones: result.milestones,
+      count: result.count,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /milestones] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate milestones" },
+      { status: 500 }
+    );
+  }
+}
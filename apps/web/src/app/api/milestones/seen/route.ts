@@ -0,0 +1,50 @@
+/**
+ * API Route: POST /api/milestones/seen
+ *
+ * Marca um marco pendente como visto. Cada marco acontece uma vez:
+ * depois de visto não volta a ser apresentado.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  validate,
+  toValidationErrorResponse,
+  markMilestoneSeenRequestSchema,
+  type MarkMilestoneSeenResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { markMilestoneAsSeen, MILESTONE_NOT_FOUND } from "@/lib/milestones";
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      markMilestoneSeenRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const error = await markMilestoneAsSeen(user, parsed.data);
+
+    if (error) {
+      return NextResponse.json(error, { status: error === MILESTONE_NOT_FOUND ? 404 : 409 });
+    }
+
+    const response: MarkMilestoneSeenResponse = { success: true };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /milestones/seen] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to mark milestone as seen" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * API Route: POST /api/pregnancies/[pregnancyId]/loss
+ *
+ * Registra uma perda gestacional.
+ * A gestação deixa de ser a ativa; a Voz do Bebê e os marcos
+ * dessa gestação não voltam a ser exibidos.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPregnancy,
+  savePregnancy,
+  updateUserProfile,
+  getDateKey,
+} from "@fluia/firebase";
+import { recordPregnancyLoss } from "@fluia/engines";
+import {
+  validate,
+  toValidationErrorResponse,
+  recordPregnancyLossRequestSchema,
+  type PregnancyResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { getActivePregnancy } from "@/lib/pregnancy";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pregnancyId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      recordPregnancyLossRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const { pregnancyId } = await params;
+
+    // Materializa a gestação padrão antes da busca
+    const active = await getActivePregnancy(user);
+    const pregnancy =
+      active?.pregnancyId === pregnancyId ? active : await getPregnancy(user.uid, pregnancyId);
+
+    if (!pregnancy) {
+      return NextResponse.json(
+        { error: "Pregnancy not found", code: "PREGNANCY_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    if (pregnancy.status !== "active") {
+      return NextResponse.json(
+        { error: "Pregnancy is no longer active", code: "PREGNANCY_NOT_ACTIVE" },
+        { status: 409 }
+      );
+    }
+
+    const lossDate = parsed.data.lossDate.slice(0, 10);
+
+    if (lossDate > getDateKey(user.profile.timezone)) {
+      return NextResponse.json(
+        { error: "Loss date cannot be in the future", code: "INVALID_LOSS_DATE" },
+        { status: 400 }
+      );
+    }
+
+    const updated = recordPregnancyLoss(pregnancy, lossDate);
+
+    await savePregnancy(updated);
+    await updateUserProfile(user.uid, { activePregnancyId: null });
+
+    const response: PregnancyResponse = { pregnancy: updated };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /pregnancies/loss] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to record pregnancy loss" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * API Route: /api/pregnancies
+ *
+ * GET  - Gestações da conta e a gestação ativa
+ * POST - Registra uma nova gestação (gemelar ou gestação seguinte)
+ *
+ * A nova gestação passa a ser a ativa: o perfil volta ao modo gestante
+ * e dueDate/isFirstPregnancy passam a espelhá-la.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addPregnancy,
+  listPregnancies,
+  updateUserProfile,
+  getDateKey,
+  Timestamp,
+} from "@fluia/firebase";
+import { createPregnancy } from "@fluia/engines";
+import {
+  daysBetween,
+  validate,
+  toValidationErrorResponse,
+  createPregnancyRequestSchema,
+  type ListPregnanciesResponse,
+  type PregnancyResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { getActivePregnancy } from "@/lib/pregnancy";
+
+/** Janela aceita para a DPP, em dias a partir de hoje (até 42 semanas) */
+const DUE_DATE_WINDOW = { minDays: -14, maxDays: 280 };
+
+// ============================================
+// GET - Gestações
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Materializa a gestação padrão de contas anteriores
+    const active = await getActivePregnancy(user);
+
+    const response: ListPregnanciesResponse = {
+      activePregnancyId: active?.pregnancyId ?? null,
+      pregnancies: await listPregnancies(user.uid),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /pregnancies] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load pregnancies" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Nova gestação
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(createPregnancyRequestSchema, await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const active = await getActivePregnancy(user);
+
+    if (active?.status === "active") {
+      return NextResponse.json(
+        { error: "There is already an active pregnancy", code: "PREGNANCY_ACTIVE" },
+        { status: 409 }
+      );
+    }
+
+    const today = getDateKey(user.profile.timezone);
+    const dueDate = parsed.data.dueDate.slice(0, 10);
+    const daysUntilDue = daysBetween(today, dueDate);
+
+    if (daysUntilDue < DUE_DATE_WINDOW.minDays || daysUntilDue > DUE_DATE_WINDOW.maxDays) {
+      return NextResponse.json(
+        { error: "Due date is out of range", code: "INVALID_DUE_DATE" },
+        { status: 400 }
+      );
+    }
+
+    const previous = await listPregnancies(user.uid);
+
+    const pregnancy = await addPregnancy(
+      createPregnancy({
+        uid: user.uid,
+        dueDate,
+        babies: parsed.data.babies,
+        isFirstPregnancy:
+          parsed.data.isFirstPregnancy ??
+          (previous.length === 0 ? user.profile.isFirstPregnancy : false),
+        today,
+      })
+    );
+
+    await updateUserProfile(user.uid, {
+      activePregnancyId: pregnancy.pregnancyId,
+      mode: "gestante",
+      dueDate: Timestamp.fromDate(new Date(dueDate)),
+      gestationalWeekAtCreation: pregnancy.gestationalWeekAtCreation,
+      isFirstPregnancy: pregnancy.isFirstPregnancy,
+    });
+
+    const response: PregnancyResponse = { pregnancy };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /pregnancies] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create pregnancy" },
+      { status: 500 }
+    );
+  }
+}
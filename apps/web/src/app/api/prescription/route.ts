@@ -0,0 +1,196 @@
+/**
+ * API Route: /api/prescription
+ *
+ * GET - Prescrição do dia (requer check-in)
+ *
+ * A prescrição é gerada UMA vez por dateKey e persistida:
+ * recargas (e atualizações do check-in) retornam a mesma prescrição.
+ * Na geração, o histórico de treinos da usuária alimenta a seleção adaptativa.
+ */
+import { NextResponse } from "next/server";
+import {
+  getCheckin,
+  countCheckins,
+  getPrescription,
+  savePrescription,
+  listPracticesInRange,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  deriveEmotionalState,
+  calculateMetrics,
+  generatePrescription,
+  buildTrainingEffectiveness,
+  ADAPTIVE_RULES,
+  type DailyPrescription,
+  type TrainingEffectiveness,
+  type TrainingOutcome,
+} from "@fluia/engines";
+import {
+  nowISO,
+  addDays,
+  type GetPrescriptionResponse,
+  type StoredCheckin,
+  type StoredPrescription,
+  type StoredTraining,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { ensureContent } from "@/lib/content";
+
+// ============================================
+// GET - Prescrição do dia
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    await ensureContent();
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const checkin = await getCheckin(user.uid, dateKey);
+
+    if (!checkin) {
+      const response: GetPrescriptionResponse = {
+        dateKey,
+        hasCheckin: false,
+        prescription: null,
+        completedTrainingIds: [],
+      };
+
+      return NextResponse.json(response);
+    }
+
+    let prescription = await getPrescription(user.uid, dateKey);
+
+    if (!prescription) {
+      const isFirstCheckin = (await countCheckins(user.uid)) === 1;
+      const history = await listPracticesInRange(
+        user.uid,
+        addDays(dateKey, -ADAPTIVE_RULES.HISTORY_DAYS),
+        addDays(dateKey, -1)
+      );
+      const effectiveness = buildTrainingEffectiveness(
+        history.flatMap((p) => toTrainingOutcome(p, dateKey) ?? [])
+      );
+
+      prescription = buildStoredPrescription(checkin, isFirstCheckin, effectiveness);
+      await savePrescription(prescription);
+    }
+
+    const practices = await listPracticesInRange(user.uid, dateKey, dateKey);
+
+    const response: GetPrescriptionResponse = {
+      dateKey,
+      hasCheckin: true,
+      prescription,
+      completedTrainingIds: practices
+        .filter((p) => p.status === "completed")
+        .map((p) => p.trainingId),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /prescription] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load prescription" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Gera a prescrição a partir do estado derivado no check-in.
+ * Check-ins antigos (sem estado/métricas) são derivados na hora.
+ */
+function buildStoredPrescription(
+  checkin: StoredCheckin,
+  isFirstCheckin: boolean,
+  effectiveness: TrainingEffectiveness
+): StoredPrescription {
+  const emotionalState =
+    checkin.emotionalState ??
+    deriveEmotionalState({
+      dimensions: checkin.dimensions,
+      gestationalWeek: checkin.gestationalWeek,
+      moment: checkin.moment,
+    });
+
+  const metrics =
+    checkin.metrics ??
+    calculateMetrics({ emotionalState, dimensions: checkin.dimensions });
+
+  const generated = generatePrescription({
+    metrics,
+    emotionalState,
+    context: {
+      moment: checkin.moment,
+      isFirstCheckin,
+      gestationalWeek: checkin.gestationalWeek,
+    },
+    effectiveness,
+    today: checkin.dateKey,
+  });
+
+  return toStoredPrescription(checkin.uid, checkin.dateKey, generated);
+}
+
+/**
+ * Prática persistida → resultado para o modelo de efetividade.
+ * Treino iniciado e não concluído em dia anterior conta como abandonado.
+ * Retorna null para práticas sem problema associado ou ainda em curso.
+ */
+function toTrainingOutcome(
+  practice: StoredTraining,
+  today: string
+): TrainingOutcome | null {
+  if (!practice.targetsProblem) return null;
+
+  const abandoned =
+    practice.status === "abandoned" ||
+    (practice.status === "started" && practice.dateKey < today);
+
+  if (practice.status !== "completed" && !abandoned) return null;
+
+  return {
+    trainingId: practice.trainingId,
+    problem: practice.targetsProblem,
+    dateKey: practice.dateKey,
+    completed: practice.status === "completed",
+    emotionalShift: practice.userRating,
+    perceivedEffort: practice.perceivedEffort,
+  };
+}
+
+/**
+ * Remove campos opcionais ausentes (Firestore não aceita undefined).
+ */
+function toStoredPrescription(
+  uid: string,
+  dateKey: string,
+  prescription: DailyPrescription
+): StoredPrescription {
+  const { trainings, goal, tone, detectedProblems, isFirstCheckin } = prescription;
+
+  return {
+    uid,
+    dateKey,
+    trainings: trainings.map((t) => ({ ...t })),
+    goal,
+    tone,
+    detectedProblems: detectedProblems.map(({ value, ...problem }) => ({
+      ...problem,
+      ...(value !== undefined && { value }),
+    })),
+    ...(isFirstCheckin !== undefined && { isFirstCheckin }),
+    generatedAt: nowISO(),
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * API Route: /api/screening/prenatal
+ *
+ * GET  - Questionários (EPDS antenatal + GAD-7), agendamento e histórico
+ * POST - Envia as respostas de um questionário
+ *
+ * Agendamento por trimestre; dia vulnerável (check-in de hoje) antecipa o rastreio.
+ * Histórico e agendamento são da gestação atual (pregnancyId).
+ * Resultados com critério de risco acionam a camada de segurança
+ * e são registrados para auditoria (profiles/{uid}/safety).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCheckin,
+  savePrenatalScreeningResult,
+  listPrenatalScreeningResults,
+  calculateGestationalWeek,
+  getDateKey,
+  safetyEvents,
+} from "@fluia/firebase";
+import {
+  scorePrenatalScreening,
+  getPrenatalScreeningSchedule,
+  evaluateScreeningSafety,
+  toSafetyEvent,
+} from "@fluia/engines";
+import {
+  DEFAULT_PREGNANCY_ID,
+  validate,
+  toValidationErrorResponse,
+  submitPrenatalScreeningRequestSchema,
+  EPDS_INSTRUCTIONS,
+  EPDS_QUESTIONS,
+  GAD7_INSTRUCTIONS,
+  GAD7_QUESTIONS,
+  type GetPrenatalScreeningResponse,
+  type SubmitPrenatalScreeningResponse,
+  type PrenatalScreeningScheduleStatus,
+} from "@fluia/contracts";
+import { getCurrentUser, type AuthenticatedUser } from "@/lib/auth/guard";
+import { getCurrentPregnancy } from "@/lib/pregnancy";
+
+// ============================================
+// GET - Questionários + agendamento
+// ============================================
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const pregnancyId = await getScreeningPregnancyId(user);
+    const history = await listPrenatalScreeningResults(user.uid, pregnancyId);
+
+    const response: GetPrenatalScreeningResponse = {
+      questionnaires: {
+        epds: { instructions: EPDS_INSTRUCTIONS, questions: EPDS_QUESTIONS },
+        gad7: { instructions: GAD7_INSTRUCTIONS, questions: GAD7_QUESTIONS },
+      },
+      schedule: await resolveSchedule(user, history),
+      history,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /screening/prenatal] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load screening" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Envia questionário
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const parsed = validate(
+      submitPrenatalScreeningRequestSchema,
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const { instrument, answers } = parsed.data;
+
+    const result = scorePrenatalScreening(instrument, answers, {
+      gestationalWeek: getCurrentGestationalWeek(user),
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Every question must be answered once", code: "INCOMPLETE_SCREENING" },
+        { status: 400 }
+      );
+    }
+
+    const pregnancyId = await getScreeningPregnancyId(user);
+    const stored = await savePrenatalScreeningResult(user.uid, pregnancyId, result);
+
+    const safety = evaluateScreeningSafety(result);
+    if (safety) {
+      await safetyEvents.append(user.uid, toSafetyEvent(safety, stored.screeningId));
+    }
+
+    const history = await listPrenatalScreeningResults(user.uid, pregnancyId);
+
+    const response: SubmitPrenatalScreeningResponse = {
+      result: stored,
+      ...(safety && { safety }),
+      schedule: await resolveSchedule(user, history),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /screening/prenatal] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save screening" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Gestação dos questionários: a atual ou, sem gestação, a padrão.
+ */
+async function getScreeningPregnancyId(user: AuthenticatedUser): Promise<string> {
+  const pregnancy = await getCurrentPregnancy(user);
+  return pregnancy?.pregnancyId ?? DEFAULT_PREGNANCY_ID;
+}
+
+/**
+ * Semana gestacional de hoje (mesma regra do check-in).
+ */
+function getCurrentGestationalWeek(user: AuthenticatedUser): number {
+  const { profile } = user;
+  const dateKey = getDateKey(profile.timezone);
+
+  return profile.dueDate
+    ? calculateGestationalWeek(profile.dueDate.toDate(), dateKey)
+    : profile.gestationalWeekAtCreation ?? 0;
+}
+
+/**
+ * Agendamento considerando o estado emocional do check-in de hoje.
+ */
+async function resolveSchedule(
+  user: AuthenticatedUser,
+  history: Parameters<typeof getPrenatalScreeningSchedule>[0]["history"]
+): Promise<PrenatalScreeningScheduleStatus> {
+  const checkin = await getCheckin(user.uid, getDateKey(user.profile.timezone));
+
+  return getPrenatalScreeningSchedule({
+    gestationalWeek: getCurrentGestationalWeek(user),
+    history,
+    emotionalState: checkin?.emotionalState,
+  });
+}
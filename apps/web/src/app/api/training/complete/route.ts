@@ -0,0 +1,217 @@
+/**
+ * API Route: /api/training/complete
+ *
+ * POST - Registra a conclusão de um treino da prescrição do dia
+ *
+ * Streak e badges são calculados pela Training Engine a partir do
+ * histórico persistido (perfil + práticas concluídas).
+ * O primeiro treino concluído completa o dia (checkin.recovery).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCheckin,
+  saveCheckin,
+  getPrescription,
+  getPractice,
+  getPracticeId,
+  savePractice,
+  countCompletedPractices,
+  updateUserProfile,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  processTrainingCompletion,
+  getTrainingById,
+  createDailyRng,
+  type TrainingPrescription,
+} from "@fluia/engines";
+import {
+  nowISO,
+  validate,
+  toValidationErrorResponse,
+  trainingCompleteRequestSchema,
+  type DateKey,
+  type StoredPrescribedTraining,
+  type StoredTraining,
+  type TrainingCompleteResponse,
+  type TrainingProgress,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { ensureContent } from "@/lib/content";
+
+// ============================================
+// POST - Conclui treino
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    await ensureContent();
+
+    const parsed = validate(trainingCompleteRequestSchema, await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const input = parsed.data;
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const prescription = await getPrescription(user.uid, dateKey);
+    const prescribed = prescription?.trainings.find((t) => t.id === input.trainingId);
+    const training = prescribed ? toEngineTraining(prescribed) : null;
+
+    if (!prescribed || !training) {
+      return NextResponse.json(
+        { error: "Training not prescribed for today", code: "TRAINING_NOT_PRESCRIBED" },
+        { status: 404 }
+      );
+    }
+
+    const id = getPracticeId(dateKey, input.trainingId);
+    const existing = await getPractice(user.uid, id);
+
+    if (existing?.status === "completed") {
+      return NextResponse.json(
+        { error: "Training already completed today", code: "TRAINING_ALREADY_COMPLETED" },
+        { status: 409 }
+      );
+    }
+
+    const now = nowISO();
+    const progress = user.profile.trainingProgress;
+
+    // Sem duração informada: tempo desde o início (ou a duração planejada)
+    const actualDurationSeconds =
+      input.actualDurationSeconds ??
+      (existing
+        ? Math.round((Date.parse(now) - Date.parse(existing.startedAt)) / 1000)
+        : prescribed.durationMinutes * 60);
+
+    const result = processTrainingCompletion({
+      training,
+      actualDurationSeconds,
+      userFeedback: {
+        emotionalShift: input.userRating,
+        perceivedEffort: input.perceivedEffort,
+      },
+      trainingHistory: {
+        lastCompletedDate: progress?.lastCompletedDate,
+        currentStreak: progress?.currentStreak,
+        longestStreak: progress?.longestStreak,
+        totalCompleted: await countCompletedPractices(user.uid),
+        completedByCategory: {
+          [prescribed.focusMetric]: await countCompletedPractices(user.uid, prescribed.focusMetric),
+        },
+        earnedBadgeIds: progress?.badges.map((b) => b.id),
+      },
+      today: dateKey,
+      rng: createDailyRng(user.uid, dateKey, `training:${input.trainingId}`),
+    });
+
+    const practice: StoredTraining = {
+      id,
+      trainingId: input.trainingId,
+      uid: user.uid,
+      dateKey,
+      category: prescribed.focusMetric,
+      // Abaixo de 70% do tempo esperado não conta como concluído
+      status: result.completed ? "completed" : "abandoned",
+      plannedDurationMinutes: prescribed.durationMinutes,
+      actualDurationSeconds,
+      targetsProblem: prescribed.targetsProblem,
+      startedAt: existing?.startedAt ?? now,
+    };
+
+    // Firestore não aceita undefined
+    if (input.userRating) practice.userRating = input.userRating;
+    if (input.perceivedEffort) practice.perceivedEffort = input.perceivedEffort;
+    if (input.notes) practice.notes = input.notes;
+    if (result.completed) practice.completedAt = now;
+
+    await savePractice(practice);
+
+    // Badge só é concedido uma vez (a engine ignora os já conquistados)
+    const newBadge = result.badgeAwarded;
+
+    if (result.completed) {
+      const nextProgress: TrainingProgress = {
+        currentStreak: result.streakInfo.current,
+        longestStreak: result.streakInfo.longest,
+        lastCompletedDate: dateKey,
+        badges: [
+          ...(progress?.badges ?? []),
+          ...(newBadge ? [{ id: newBadge.id, dateKey, awardedAt: now }] : []),
+        ],
+        updatedAt: now,
+      };
+
+      await updateUserProfile(user.uid, { trainingProgress: nextProgress });
+      await markDayComplete(user.uid, dateKey, input.trainingId, now);
+    }
+
+    const response: TrainingCompleteResponse = {
+      metricsUpdated: false,
+      feedback: result.feedback.message,
+      badgeAwarded: !!newBadge,
+      micromomentEligible: result.micromomentEligible,
+      currentStreak: result.streakInfo.current,
+    };
+
+    if (newBadge) response.badgeName = newBadge.name;
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[API /training/complete] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to complete training" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Treino persistido → formato da Training Engine.
+ * Tipo, duração e intensidade vêm do catálogo (null se saiu do catálogo).
+ */
+function toEngineTraining(prescribed: StoredPrescribedTraining): TrainingPrescription | null {
+  const template = getTrainingById(prescribed.id);
+
+  if (!template) return null;
+
+  return {
+    ...prescribed,
+    type: template.type,
+    durationMinutes: template.durationMinutes,
+    intensity: template.intensity,
+  };
+}
+
+/**
+ * Registra a prática que completa o dia (apenas a primeira).
+ */
+async function markDayComplete(
+  uid: string,
+  dateKey: DateKey,
+  trainingId: string,
+  completedAt: string
+): Promise<void> {
+  const checkin = await getCheckin(uid, dateKey);
+
+  if (!checkin || checkin.recovery) return;
+
+  await saveCheckin({
+    ...checkin,
+    recovery: { trainingId, completedAt },
+    updatedAt: completedAt,
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * API Route: /api/training/start
+ *
+ * POST - Registra o início de um treino da prescrição do dia
+ *
+ * Um registro por treino prescrito no dia: reiniciar sobrescreve o início.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPrescription,
+  getPractice,
+  getPracticeId,
+  savePractice,
+  getDateKey,
+} from "@fluia/firebase";
+import { getTrainingInstructions } from "@fluia/engines";
+import {
+  nowISO,
+  validate,
+  toValidationErrorResponse,
+  trainingStartRequestSchema,
+  type StoredTraining,
+  type TrainingStartResponse,
+} from "@fluia/contracts";
+import { getCurrentUser } from "@/lib/auth/guard";
+import { ensureContent } from "@/lib/content";
+
+// ============================================
+// POST - Inicia treino
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    await ensureContent();
+
+    const parsed = validate(trainingStartRequestSchema, await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(toValidationErrorResponse(parsed.errors), { status: 400 });
+    }
+
+    const { trainingId } = parsed.data;
+
+    const dateKey = getDateKey(user.profile.timezone);
+    const prescription = await getPrescription(user.uid, dateKey);
+    const prescribed = prescription?.trainings.find((t) => t.id === trainingId);
+
+    if (!prescribed) {
+      return NextResponse.json(
+        { error: "Training not prescribed for today", code: "TRAINING_NOT_PRESCRIBED" },
+        { status: 404 }
+      );
+    }
+
+    const id = getPracticeId(dateKey, trainingId);
+    const existing = await getPractice(user.uid, id);
+
+    if (existing?.status === "completed") {
+      return NextResponse.json(
+        { error: "Training already completed today", code: "TRAINING_ALREADY_COMPLETED" },
+        { status: 409 }
+      );
+    }
+
+    const training: StoredTraining = {
+      id,
+      trainingId,
+      uid: user.uid,
+      dateKey,
+      category: prescribed.focusMetric,
+      status: "started",
+      plannedDurationMinutes: prescribed.durationMinutes,
+      targetsProblem: prescribed.targetsProblem,
+      startedAt: nowISO(),
+    };
+
+    await savePractice(training);
+
+    const response: TrainingStartResponse = {
+      training,
+      instructions: getTrainingInstructions(trainingId),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("[API /training/start] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to start training" },
+      { status: 500 }
+    );
+  }
+}
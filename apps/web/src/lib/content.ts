@@ -0,0 +1,52 @@
+/**
+ * Content - Pacote de conteúdo ativo (servidor)
+ *
+ * Lê o pacote publicado no Firestore e o ativa nas engines.
+ * Catálogo, feedbacks, badges e prompts mudam sem deploy.
+ *
+ * Uso: Route Handlers que chamam engines com conteúdo (prescrição, treinos, puerpério)
+ */
+
+import { getPublishedContent } from "@fluia/firebase";
+import { loadContentPackage, getActiveContent, setActiveContent } from "@fluia/engines";
+import { diffContentPackages } from "@fluia/contracts";
+
+/** Intervalo entre leituras do pacote publicado */
+const CONTENT_TTL_MS = 5 * 60 * 1000;
+
+let lastLoadedAt = 0;
+
+/**
+ * Garante que as engines usam o pacote publicado mais recente.
+ * Pacote ausente ou inválido: mantém o conteúdo atual (embutido ou anterior).
+ * Compara os itens, não só a versão: republicar na mesma versão também troca.
+ */
+export async function ensureContent(): Promise<void> {
+  if (Date.now() - lastLoadedAt < CONTENT_TTL_MS) return;
+
+  lastLoadedAt = Date.now();
+
+  try {
+    const raw = await getPublishedContent();
+
+    if (!raw) return;
+
+    const result = loadContentPackage(raw);
+
+    if (!result.success) {
+      console.error("[Content] Invalid published package:", result.errors);
+      return;
+    }
+
+    const active = getActiveContent();
+
+    if (
+      result.data.version !== active.version ||
+      diffContentPackages(active, result.data).hasChanges
+    ) {
+      setActiveContent(result.data);
+    }
+  } catch (error) {
+    console.error("[Content] Failed to load published package:", error);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Micromoments - Eventos de micromomento (servidor)
+ *
+ * Limites por dia/semana e cooldowns são avaliados sobre os eventos
+ * persistidos (append-only) em profiles/{uid}/micromoments.
+ * Accept/dismiss só valem para um micromomento apresentado ("shown").
+ * As regras publicadas no Firestore são ativadas nas engines sem deploy.
+ * A camada de segurança (intervenções do dia e último rastreio) bloqueia micromomentos.
+ *
+ * Uso: Route Handlers de /api/micromoments/*
+ */
+
+import {
+  micromomentEvents,
+  safetyEvents,
+  getPublishedMicromomentRules,
+  getLatestEPDSResult,
+  listPrenatalScreeningResults,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  SAFETY_RULES,
+  findMicromomentResponse,
+  loadMicromomentRules,
+  getActiveMicromomentRules,
+  setActiveMicromomentRules,
+} from "@fluia/engines";
+import {
+  DAY_START_HOUR,
+  DEFAULT_PREGNANCY_ID,
+  addDays,
+  getPregnancyScope,
+  getLocalInstant,
+  nowISO,
+  type MicromomentAction,
+  type MicromomentEvent,
+  type MicromomentType,
+} from "@fluia/contracts";
+import type { AuthenticatedUser } from "@/lib/auth/guard";
+import { getCurrentPregnancy } from "@/lib/pregnancy";
+
+/** Dias mínimos de histórico (cobrem a semana corrente) */
+const MIN_HISTORY_DAYS = 14;
+
+/** Intervalo entre leituras das regras publicadas */
+const RULES_TTL_MS = 5 * 60 * 1000;
+
+let rulesLoadedAt = 0;
+
+/** Respostas padrão para accept/dismiss sem micromomento a responder */
+export const MICROMOMENT_NOT_FOUND = {
+  error: "Micromoment not found",
+  code: "MICROMOMENT_NOT_FOUND",
+} as const;
+
+export const MICROMOMENT_ALREADY_ANSWERED = {
+  error: "Micromoment already answered",
+  code: "MICROMOMENT_ALREADY_ANSWERED",
+} as const;
+
+export type MicromomentResponseError =
+  | typeof MICROMOMENT_NOT_FOUND
+  | typeof MICROMOMENT_ALREADY_ANSWERED;
+
+/**
+ * Garante que a Micromoment Engine usa as regras publicadas mais recentes.
+ * Configuração ausente ou inválida: mantém as regras atuais (embutidas ou anteriores).
+ */
+export async function ensureMicromomentRules(): Promise<void> {
+  if (Date.now() - rulesLoadedAt < RULES_TTL_MS) return;
+
+  rulesLoadedAt = Date.now();
+
+  try {
+    const raw = await getPublishedMicromomentRules();
+
+    if (!raw) return;
+
+    const result = loadMicromomentRules(raw);
+
+    if (!result.success) {
+      console.error("[Micromoments] Invalid published rules:", result.errors);
+      return;
+    }
+
+    if (result.data.version !== getActiveMicromomentRules().version) {
+      setActiveMicromomentRules(result.data);
+    }
+  } catch (error) {
+    console.error("[Micromoments] Failed to load published rules:", error);
+  }
+}
+
+/**
+ * Eventos recentes da usuária (ordem cronológica).
+ */
+export async function listMicromomentHistory(
+  user: AuthenticatedUser
+): Promise<MicromomentEvent[]> {
+  const { timezone } = user.profile;
+  const since = getLocalInstant(addDays(getDateKey(timezone), -getHistoryDays()), 0, timezone);
+
+  return micromomentEvents.list(user.uid, { since });
+}
+
+/**
+ * Micromomentos bloqueados pela camada de segurança?
+ * - Intervenção registrada no dia que bloqueia micromomentos (check-in, diário
+ *   ou rastreio), inclusive a de atenção por zona baixa persistente
+ * - Gestação: último EPDS antenatal ou GAD-7 da gestação atual com risco
+ *   moderado ou alto
+ * - Puerpério: última EPDS do bebê atual com risco alto ou item de autolesão pontuado
+ */
+export async function isMicromomentBlockedBySafety(user: AuthenticatedUser): Promise<boolean> {
+  const { uid, profile } = user;
+  const since = getLocalInstant(getDateKey(profile.timezone), DAY_START_HOUR, profile.timezone);
+
+  const [todayEvents, blockedByScreening] = await Promise.all([
+    safetyEvents.list(uid, { since }),
+    profile.mode === "mae"
+      ? isBlockedByPostpartumScreening(uid, getPregnancyScope(profile.postpartum ?? {}))
+      : isBlockedByPrenatalScreening(user),
+  ]);
+
+  return (
+    blockedByScreening || todayEvents.some((e) => SAFETY_RULES[e.severity].blockMicromoments)
+  );
+}
+
+/**
+ * Registra a resposta (accept/dismiss) a um micromomento apresentado.
+ * Retorna o erro quando não há o que responder (null = registrado).
+ */
+export async function recordMicromomentResponse(
+  user: AuthenticatedUser,
+  request: { micromomentId: string; type: MicromomentType },
+  action: Exclude<MicromomentAction, "shown">
+): Promise<MicromomentResponseError | null> {
+  const events = await listMicromomentHistory(user);
+
+  const shown = events.find(
+    (e) =>
+      e.action === "shown" &&
+      e.micromomentId === request.micromomentId &&
+      e.type === request.type
+  );
+
+  if (!shown) return MICROMOMENT_NOT_FOUND;
+  if (findMicromomentResponse(events, shown.micromomentId)) return MICROMOMENT_ALREADY_ANSWERED;
+
+  await micromomentEvents.append(user.uid, {
+    micromomentId: shown.micromomentId,
+    type: shown.type,
+    action,
+    timestamp: nowISO(),
+    ...(shown.context && { context: shown.context }),
+  });
+
+  return null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Dias de histórico necessários: o maior cooldown configurado
+ * (regras padrão e overrides), nunca menos que MIN_HISTORY_DAYS.
+ */
+function getHistoryDays(): number {
+  const { rules, overrides } = getActiveMicromomentRules();
+
+  return Math.max(
+    MIN_HISTORY_DAYS,
+    ...[rules, ...overrides.map((o) => o.rules ?? {})].flatMap((r) => [
+      r.cooldownAfterAcceptDays ?? 0,
+      r.cooldownAfterDismissDays ?? 0,
+    ])
+  );
+}
+
+/**
+ * Último questionário de cada instrumento na gestação atual com risco
+ * moderado/alto (ou autolesão no EPDS antenatal).
+ */
+async function isBlockedByPrenatalScreening(user: AuthenticatedUser): Promise<boolean> {
+  const pregnancy = await getCurrentPregnancy(user);
+  const history = await listPrenatalScreeningResults(
+    user.uid,
+    pregnancy?.pregnancyId ?? DEFAULT_PREGNANCY_ID
+  );
+
+  return (["epds", "gad7"] as const).some((instrument) => {
+    const latest = history.find((s) => s.instrument === instrument);
+    return !!latest && (latest.riskLevel !== "low" || latest.selfHarmRisk);
+  });
+}
+
+/**
+ * Última EPDS do puerpério (bebê da gestação) com risco alto ou autolesão.
+ */
+async function isBlockedByPostpartumScreening(
+  uid: string,
+  pregnancyId: string
+): Promise<boolean> {
+  const latest = await getLatestEPDSResult(uid, pregnancyId);
+
+  return !!latest && (latest.riskLevel === "high" || latest.selfHarmRisk);
+}
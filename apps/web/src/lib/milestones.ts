@@ -0,0 +1,283 @@
+/**
+ * Milestones - Marcos da usuária (servidor)
+ *
+ * Um marco fica pendente até ser marcado como visto ("shown"):
+ * a celebração é reapresentada até a usuária reconhecê-la e
+ * depois nunca mais volta (sem cooldown).
+ * Eventos append-only em profiles/{uid}/milestones, com ID determinístico
+ * (marco + ação): registrar de novo (retry, duplo clique) não duplica o evento.
+ *
+ * Marcos gestacionais e pessoais pertencem à gestação (pregnancyId);
+ * marcos de presença valem para a conta (presença é da conta).
+ * Marcos pessoais são celebrados a partir do dia marcado pela usuária
+ * (ainda por PERSONAL_GRACE_DAYS dias, se não foram vistos).
+ * Após perda gestacional, nada do bebê: sem mensagem do bebê nem marcos gestacionais.
+ *
+ * Uso: Route Handlers de /api/milestones/*
+ */
+
+import {
+  milestoneEvents,
+  countCheckins,
+  countCombinedCheckins,
+  countCompletedDays,
+  listRecentCheckins,
+  listPersonalMilestones,
+  getDateKey,
+} from "@fluia/firebase";
+import {
+  evaluateMilestones,
+  getMilestoneProduct,
+  filterByPregnancy,
+  getBabiesDisplayName,
+  type MilestoneEvaluationResult,
+} from "@fluia/engines";
+import {
+  getGestationalWeek,
+  getTrimesterFromWeeks,
+  nowISO,
+  type MilestoneEvent,
+  type MilestoneProduct,
+  type MilestoneSuggestion,
+  type MilestoneType,
+} from "@fluia/contracts";
+import type { AuthenticatedUser } from "@/lib/auth/guard";
+import { getCurrentPregnancy } from "@/lib/pregnancy";
+
+/** Respostas padrão para seen/explore sem marco correspondente */
+export const MILESTONE_NOT_FOUND = {
+  error: "Milestone not found",
+  code: "MILESTONE_NOT_FOUND",
+} as const;
+
+export const MILESTONE_ALREADY_SEEN = {
+  error: "Milestone already seen",
+  code: "MILESTONE_ALREADY_SEEN",
+} as const;
+
+export const MILESTONE_PRODUCT_MISMATCH = {
+  error: "Product does not belong to this milestone",
+  code: "MILESTONE_PRODUCT_MISMATCH",
+} as const;
+
+export type MarkMilestoneSeenError = typeof MILESTONE_NOT_FOUND | typeof MILESTONE_ALREADY_SEEN;
+
+export type ExploreMilestoneError = typeof MILESTONE_NOT_FOUND | typeof MILESTONE_PRODUCT_MISMATCH;
+
+/** Marcos avaliados para a usuária */
+export interface UserMilestones {
+  result: MilestoneEvaluationResult;
+  /** Eventos considerados (da gestação atual + presença) */
+  events: MilestoneEvent[];
+  /** Gestação atual (ausente sem gestação) */
+  pregnancyId?: string;
+  /** Contexto gravado nos eventos */
+  context: NonNullable<MilestoneEvent["context"]>;
+}
+
+/**
+ * Avalia os marcos pendentes da usuária (Milestone Engine).
+ * Limitado a MAX_MILESTONES_PER_EVALUATION pela Engine.
+ */
+export async function evaluateUserMilestones(user: AuthenticatedUser): Promise<UserMilestones> {
+  const { uid, profile } = user;
+  const today = getDateKey(profile.timezone);
+  const isPostpartum = profile.mode === "mae";
+
+  const [
+    pregnancy,
+    allEvents,
+    allPersonalMilestones,
+    gestationalDays,
+    postpartumDays,
+    completedJourneys,
+    [lastCheckin],
+  ] = await Promise.all([
+    getCurrentPregnancy(user),
+    milestoneEvents.list(uid),
+    listPersonalMilestones(uid),
+    countCheckins(uid),
+    isPostpartum ? countCombinedCheckins(uid) : 0,
+    countCompletedDays(uid),
+    listRecentCheckins(uid, 1, today),
+  ]);
+
+  // Sem gestação (sem DPP): apenas marcos de presença
+  const gestationalWeek = pregnancy ? getGestationalWeek(pregnancy.dueDate, today) : 0;
+  const trimester = getTrimesterFromWeeks(gestationalWeek);
+  const presenceDays = gestationalDays + postpartumDays;
+  const babyName = pregnancy ? getBabiesDisplayName(pregnancy.babies) : undefined;
+
+  const events = scopeEvents(allEvents, pregnancy?.pregnancyId);
+  const personalMilestones = pregnancy
+    ? filterByPregnancy(allPersonalMilestones, pregnancy.pregnancyId)
+    : allPersonalMilestones;
+
+  const result = evaluateMilestones({
+    uid,
+    presenceDays,
+    completedJourneys,
+    gestationalWeek,
+    lastGestationalWeek: lastCheckin?.gestationalWeek,
+    trimester,
+    isPremium: profile.isPremium ?? false,
+    isPostpartum,
+    babyName,
+    events,
+    personalMilestones,
+    today,
+    pregnancyLost: pregnancy?.status === "loss",
+  });
+
+  return {
+    result,
+    events,
+    ...(pregnancy && { pregnancyId: pregnancy.pregnancyId }),
+    context: {
+      presenceDays,
+      ...(pregnancy && { gestationalWeek, trimester }),
+    },
+  };
+}
+
+/**
+ * Marca um marco pendente como visto (não volta a ser apresentado).
+ * Retorna o erro quando não há o que marcar (null = registrado).
+ */
+export async function markMilestoneAsSeen(
+  user: AuthenticatedUser,
+  request: { milestoneId: string; type: MilestoneType }
+): Promise<MarkMilestoneSeenError | null> {
+  const { result, events, pregnancyId, context } = await evaluateUserMilestones(user);
+
+  const pending = result.milestones.find(
+    (m) => m.milestoneId === request.milestoneId && m.type === request.type
+  );
+
+  if (!pending) {
+    return findSeenMilestone(events, request) ? MILESTONE_ALREADY_SEEN : MILESTONE_NOT_FOUND;
+  }
+
+  const recorded = await appendMilestoneEvent(
+    user.uid,
+    toMilestoneEvent(pending, "shown", pregnancyId, context)
+  );
+
+  // Registrado por outra requisição no meio tempo
+  return recorded ? null : MILESTONE_ALREADY_SEEN;
+}
+
+/**
+ * Registra a exploração do produto Premium de um marco apresentado.
+ * Explorar um marco ainda pendente também o marca como visto.
+ * Premium é verificado pela rota.
+ */
+export async function exploreMilestone(
+  user: AuthenticatedUser,
+  request: { milestoneId: string; type: MilestoneType; productId: string }
+): Promise<{ error: ExploreMilestoneError } | { product: MilestoneProduct }> {
+  const { result, events, pregnancyId, context } = await evaluateUserMilestones(user);
+
+  const pending = result.milestones.find(
+    (m) => m.milestoneId === request.milestoneId && m.type === request.type
+  );
+  const seen = pending ? null : findSeenMilestone(events, request);
+
+  if (!pending && !seen) return { error: MILESTONE_NOT_FOUND };
+
+  const product =
+    pending?.product ?? getMilestoneProduct(request.type, seen?.context?.gestationalWeek);
+
+  if (!product || product.productId !== request.productId) {
+    return { error: MILESTONE_PRODUCT_MISMATCH };
+  }
+
+  if (pending) {
+    await appendMilestoneEvent(user.uid, toMilestoneEvent(pending, "shown", pregnancyId, context));
+    await appendMilestoneEvent(
+      user.uid,
+      toMilestoneEvent(pending, "explored", pregnancyId, context)
+    );
+  } else if (seen) {
+    // Mesma gestação e contexto do marco visto
+    await appendMilestoneEvent(
+      user.uid,
+      toMilestoneEvent(seen, "explored", seen.pregnancyId, seen.context)
+    );
+  }
+
+  return { product };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Eventos que contam para a avaliação: todos os de presença e
+ * os gestacionais da gestação atual (IDs dos pessoais já são únicos).
+ */
+function scopeEvents(events: MilestoneEvent[], pregnancyId: string | undefined): MilestoneEvent[] {
+  if (!pregnancyId) return events;
+
+  const gestational = filterByPregnancy(
+    events.filter((e) => e.category === "gestational"),
+    pregnancyId
+  );
+
+  return events.filter((e) => e.category !== "gestational" || gestational.includes(e));
+}
+
+/**
+ * Evento "shown" de um marco já visto (null se nunca foi visto).
+ */
+function findSeenMilestone(
+  events: MilestoneEvent[],
+  request: { milestoneId: string; type: MilestoneType }
+): MilestoneEvent | null {
+  return (
+    events.find(
+      (e) =>
+        e.action === "shown" &&
+        e.milestoneId === request.milestoneId &&
+        e.type === request.type
+    ) ?? null
+  );
+}
+
+/**
+ * Registra o evento uma única vez por marco e ação (false = já registrado).
+ * ID: `${milestoneId}-${action}`; marcos gestacionais se repetem entre
+ * gestações, então o ID deles inclui a gestação.
+ */
+function appendMilestoneEvent(uid: string, event: MilestoneEvent): Promise<boolean> {
+  const eventId = `${event.milestoneId}-${event.action}`;
+
+  return milestoneEvents.appendOnce(
+    uid,
+    event.category === "gestational" && event.pregnancyId
+      ? `${event.pregnancyId}-${eventId}`
+      : eventId,
+    event
+  );
+}
+
+/**
+ * Evento factual de um marco (o contexto vem do momento do registro).
+ */
+function toMilestoneEvent(
+  milestone: Pick<MilestoneSuggestion, "milestoneId" | "type" | "category">,
+  action: MilestoneEvent["action"],
+  pregnancyId: string | undefined,
+  context: MilestoneEvent["context"]
+): MilestoneEvent {
+  return {
+    milestoneId: milestone.milestoneId,
+    type: milestone.type,
+    category: milestone.category,
+    action,
+    timestamp: nowISO(),
+    ...(pregnancyId && { pregnancyId }),
+    ...(context && { context }),
+  };
+}
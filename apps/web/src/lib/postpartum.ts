@@ -0,0 +1,88 @@
+/**
+ * Postpartum - Estado da transição (servidor)
+ *
+ * O estado vive no perfil e é atualizado para o dia da usuária
+ * (dias, semanas e fase) a cada leitura.
+ *
+ * Os registros do bebê (check-in e baby log) levam o babyId da
+ * gestação: gêmeos têm registros e agregados separados.
+ *
+ * Uso: Route Handlers de /api/mae/*
+ */
+
+import { getPregnancy } from "@fluia/firebase";
+import { advanceTransitionState } from "@fluia/engines";
+import {
+  DEFAULT_BABY_ID,
+  getBabyScope,
+  getPregnancyScope,
+  type BabyProfile,
+  type TransitionState,
+} from "@fluia/contracts";
+import type { AuthenticatedUser } from "@/lib/auth/guard";
+
+/**
+ * Transição atualizada para o dia.
+ * null = usuária ainda no modo gestante (nascimento não registrado).
+ */
+export function getTransitionState(
+  user: AuthenticatedUser,
+  dateKey: string
+): TransitionState | null {
+  const { mode, postpartum } = user.profile;
+
+  if (mode !== "mae" || !postpartum?.birthInfo) return null;
+
+  return advanceTransitionState(postpartum, dateKey);
+}
+
+/**
+ * Bebês da gestação do puerpério (gêmeos: um perfil por bebê).
+ * Conta anterior às gestações (sem documento): só o bebê padrão.
+ */
+export async function getPostpartumBabies(
+  uid: string,
+  state: TransitionState
+): Promise<BabyProfile[]> {
+  const pregnancy = await getPregnancy(uid, getPregnancyScope(state));
+
+  return pregnancy?.babies ?? [];
+}
+
+/**
+ * Bebê de um registro: o informado, se for da gestação, ou o único bebê.
+ * null = desconhecido, ou ausente com mais de um bebê.
+ */
+export function resolveBabyId(babies: BabyProfile[], babyId?: string): string | null {
+  const babyIds = babies.length > 0 ? babies.map(getBabyScope) : [DEFAULT_BABY_ID];
+
+  if (babyId === undefined) return babyIds.length === 1 ? babyIds[0] : null;
+
+  return babyIds.includes(babyId) ? babyId : null;
+}
+
+/**
+ * Nome do bebê nas mensagens: o da gestação com gêmeos,
+ * o nome do nascimento com um só bebê.
+ */
+export function getBabyName(
+  state: TransitionState,
+  babies: BabyProfile[],
+  babyId: string
+): string {
+  const baby = babies.length > 1 ? babies.find((b) => getBabyScope(b) === babyId) : undefined;
+
+  return baby?.customName ?? state.birthInfo!.babyName;
+}
+
+/** Bebê não informado (gêmeos) ou de outra gestação */
+export const INVALID_BABY = {
+  error: "babyId must be one of the pregnancy's babies",
+  code: "INVALID_BABY",
+} as const;
+
+/** Resposta padrão para rotas do puerpério antes da transição */
+export const TRANSITION_NOT_STARTED = {
+  error: "Postpartum transition not started",
+  code: "TRANSITION_NOT_STARTED",
+} as const;
@@ -0,0 +1,62 @@
+/**
+ * Pregnancy - Gestação da usuária (servidor)
+ *
+ * Contas anteriores às gestações múltiplas têm só os dados do perfil
+ * (dueDate, isFirstPregnancy): a gestação padrão é materializada
+ * na primeira leitura, sem migração dos registros.
+ *
+ * Uso: Route Handlers que gravam registros por gestação
+ */
+
+import {
+  getPregnancy,
+  savePregnancy,
+  listPregnancies,
+  updateUserProfile,
+} from "@fluia/firebase";
+import { createLegacyPregnancy } from "@fluia/engines";
+import { DEFAULT_PREGNANCY_ID, type Pregnancy } from "@fluia/contracts";
+import type { AuthenticatedUser } from "@/lib/auth/guard";
+
+/**
+ * Gestação ativa.
+ * null = nenhuma gestação ativa (após perda/nascimento ou sem DPP).
+ */
+export async function getActivePregnancy(user: AuthenticatedUser): Promise<Pregnancy | null> {
+  const { uid, profile } = user;
+
+  if (profile.activePregnancyId === null) return null;
+  if (profile.activePregnancyId) return getPregnancy(uid, profile.activePregnancyId);
+
+  // Conta anterior às gestações: perfil é a gestação padrão
+  if (!profile.dueDate || profile.mode === "mae") return null;
+
+  const existing = await getPregnancy(uid, DEFAULT_PREGNANCY_ID);
+  if (existing) return existing;
+
+  const pregnancy = createLegacyPregnancy({
+    uid,
+    dueDate: profile.dueDate.toDate().toISOString().slice(0, 10),
+    gestationalWeekAtCreation: profile.gestationalWeekAtCreation,
+    isFirstPregnancy: profile.isFirstPregnancy,
+  });
+
+  await savePregnancy(pregnancy);
+  await updateUserProfile(uid, { activePregnancyId: pregnancy.pregnancyId });
+
+  return pregnancy;
+}
+
+/**
+ * Gestação atual: a ativa ou, sem ativa, a mais recente
+ * (registros após uma perda continuam ligados a ela).
+ */
+export async function getCurrentPregnancy(
+  user: AuthenticatedUser
+): Promise<Pregnancy | null> {
+  const active = await getActivePregnancy(user);
+  if (active) return active;
+
+  const [latest] = await listPregnancies(user.uid);
+  return latest ?? null;
+}
@@ -6,6 +6,9 @@
 
 import type { ISOTimestamp, GestationalTrimester } from "./shared";
 import type { BabyProfile, PresenceData, BabyVoiceTracking } from "./baby-voice";
+import type { PersonalBaseline } from "./checkin";
+import type { TrainingProgress } from "./training";
+import type { JourneyMode, TransitionState } from "./postpartum";
 
 // ============================================
 // SESSÃO
@@ -60,8 +63,24 @@ export interface UserProfile {
   trimester?: GestationalTrimester;
   /** Primeira gestação? */
   isFirstPregnancy: boolean | null;
+  /**
+   * Gestação ativa (profiles/{uid}/pregnancies).
+   * Ausente = gestação padrão; null = nenhuma gestação ativa.
+   * dueDate e isFirstPregnancy espelham a gestação ativa.
+   */
+  activePregnancyId?: string | null;
   /** Humor baseline (onboarding) - escala 1-5 */
   baselineMood: number | null;
+  /**
+   * Baseline pessoal (check-ins).
+   * Ausente até a calibração: usa baselineMood (cold start).
+   */
+  personalBaseline?: PersonalBaseline;
+  /**
+   * Streaks e badges de treino.
+   * Ausente até o primeiro treino concluído.
+   */
+  trainingProgress?: TrainingProgress;
 
   // Localização
   timezone: string;
@@ -76,6 +95,9 @@ export interface UserProfile {
   premiumSince?: ISOTimestamp;
   premiumUntil?: ISOTimestamp;
 
+  /** Aceitou convidar o parceiro(a) (micromomento MM6) */
+  partnerInvitedAt?: ISOTimestamp;
+
   // Metadata
   createdAt: ISOTimestamp;
   updatedAt: ISOTimestamp;
@@ -104,6 +126,19 @@ export interface UserProfile {
    * Evita repetição de conteúdo.
    */
   babyVoice?: BabyVoiceTracking;
+
+  // ============================================
+  // PUERPÉRIO - Campos opcionais
+  // ============================================
+
+  /** Modo da jornada (ausente = gestante) */
+  mode?: JourneyMode;
+
+  /**
+   * Transição pós-parto.
+   * Presente a partir do registro do nascimento.
+   */
+  postpartum?: TransitionState;
 }
 
 /** Dados mínimos para criar perfil (do Firebase Auth) */
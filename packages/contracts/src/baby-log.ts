@@ -0,0 +1,222 @@
+/**
+ * @fluia/contracts - Baby Log Types
+ *
+ * Registro de cuidados do bebê no puerpério: sono, mamadas,
+ * fraldas e peso como séries temporais.
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Registro de cuidado, NÃO avaliação clínica do bebê
+ * - Agregados são descritivos (sem percentis ou curvas de crescimento)
+ * - Correlação com a zona da mãe é exibida só em termos qualitativos
+ * - Agregados são por bebê (babyId): gêmeos não se misturam
+ * - Histórico: profiles/{uid}/babyLog/{entryId}
+ */
+
+import type { DateKey, ISOTimestamp } from "./shared";
+import type { BabyScoped, PregnancyScoped } from "./pregnancy";
+
+// ============================================
+// TIPOS BASE
+// ============================================
+
+/** Tipos de registro */
+export type BabyLogEntryType = "sleep" | "feeding" | "diaper" | "weight";
+
+/** Forma de alimentação */
+export type FeedingMethod = "breast" | "bottle_breastmilk" | "formula";
+
+/** Lado da mamada (no peito) */
+export type FeedingSide = "left" | "right" | "both";
+
+/** Conteúdo da fralda */
+export type DiaperKind = "wet" | "dirty" | "mixed";
+
+// ============================================
+// REGISTROS
+// ============================================
+
+/**
+ * Período de sono (duração derivada de início/fim).
+ */
+export interface BabySleepEntry {
+  type: "sleep";
+  startedAt: ISOTimestamp;
+  endedAt: ISOTimestamp;
+}
+
+/**
+ * Mamada ou alimentação.
+ */
+export interface BabyFeedingEntry {
+  type: "feeding";
+  at: ISOTimestamp;
+  method: FeedingMethod;
+  /** Apenas para method = "breast" */
+  side?: FeedingSide;
+  durationMinutes?: number;
+  /** Apenas para mamadeira */
+  volumeMl?: number;
+}
+
+/**
+ * Troca de fralda.
+ */
+export interface BabyDiaperEntry {
+  type: "diaper";
+  at: ISOTimestamp;
+  kind: DiaperKind;
+}
+
+/**
+ * Pesagem.
+ */
+export interface BabyWeightEntry {
+  type: "weight";
+  at: ISOTimestamp;
+  weightGrams: number;
+}
+
+/** Qualquer registro do bebê */
+export type BabyLogEntry =
+  | BabySleepEntry
+  | BabyFeedingEntry
+  | BabyDiaperEntry
+  | BabyWeightEntry;
+
+/**
+ * Registro persistido.
+ * dateKey: dia (reset 04:00 no timezone da usuária) do início do registro.
+ * Registros sem pregnancyId/babyId são da gestação e do bebê padrão.
+ */
+export type StoredBabyLogEntry = BabyLogEntry & PregnancyScoped & BabyScoped & {
+  entryId: string;
+  uid: string;
+  dateKey: DateKey;
+  createdAt: ISOTimestamp;
+};
+
+// ============================================
+// AGREGADOS
+// ============================================
+
+/**
+ * Resumo de um dia de cuidados.
+ */
+export interface BabyLogDailySummary {
+  dateKey: DateKey;
+  sleep: {
+    totalMinutes: number;
+    sessions: number;
+    longestMinutes: number;
+  };
+  feedings: {
+    count: number;
+    byMethod: Record<FeedingMethod, number>;
+  };
+  diapers: {
+    /** Trocas registradas */
+    changes: number;
+    /** Fraldas com xixi (wet + mixed) */
+    wet: number;
+    /** Fraldas com cocô (dirty + mixed) */
+    dirty: number;
+  };
+  /** Última pesagem do dia */
+  weightGrams?: number;
+}
+
+/**
+ * Resumo semanal (médias sobre os dias com registro).
+ */
+export interface BabyLogWeeklySummary {
+  /** Domingo que inicia a semana */
+  weekStart: DateKey;
+  /** Dias com algum registro */
+  daysLogged: number;
+  avgSleepMinutes: number;
+  avgFeedings: number;
+  avgDiapers: number;
+  /** Variação de peso entre a primeira e a última pesagem da semana */
+  weightChangeGrams?: number;
+}
+
+/**
+ * Ponto da série de peso.
+ */
+export interface BabyWeightPoint {
+  dateKey: DateKey;
+  weightGrams: number;
+  /** Dias de vida na pesagem */
+  daysOld: number;
+}
+
+// ============================================
+// CORRELAÇÃO (sono do bebê x zona da mãe)
+// ============================================
+
+/** Intensidade qualitativa da correlação */
+export type CorrelationStrength = "none" | "weak" | "moderate" | "strong";
+
+/**
+ * Relação entre o sono do bebê e a zona emocional da mãe
+ * nos dias com os dois registros.
+ */
+export interface BabySleepZoneCorrelation {
+  /** Coeficiente de Pearson (-1 a 1) — uso interno, não exibir */
+  coefficient: number;
+  strength: CorrelationStrength;
+  direction: "positive" | "negative" | "none";
+  /** Dias pareados usados no cálculo */
+  sampleSize: number;
+}
+
+// ============================================
+// INSIGHTS
+// ============================================
+
+/**
+ * Insight do puerpério (check-in combinado e registro do bebê).
+ */
+export interface PostpartumInsight {
+  type: "tip" | "warning" | "celebration";
+  title: string;
+  message: string;
+  icon: string;
+}
+
+// ============================================
+// REQUESTS / RESPONSES
+// ============================================
+
+/**
+ * Request para registrar um cuidado.
+ * babyId é obrigatório quando a gestação tem mais de um bebê.
+ */
+export type AddBabyLogEntryRequest = BabyLogEntry & BabyScoped;
+
+/**
+ * Resposta do registro.
+ */
+export interface AddBabyLogEntryResponse {
+  entry: StoredBabyLogEntry;
+  /** Resumo atualizado do dia do registro */
+  daily: BabyLogDailySummary;
+}
+
+/**
+ * Registro do bebê no período consultado.
+ */
+export interface GetBabyLogResponse {
+  from: DateKey;
+  to: DateKey;
+  /** Bebê dos registros e agregados */
+  babyId: string;
+  /** Registros (mais antigo primeiro) */
+  entries: StoredBabyLogEntry[];
+  daily: BabyLogDailySummary[];
+  weekly: BabyLogWeeklySummary[];
+  weight: BabyWeightPoint[];
+  /** null quando há poucos dias pareados */
+  sleepZoneCorrelation: BabySleepZoneCorrelation | null;
+  insights: PostpartumInsight[];
+}
@@ -36,6 +36,7 @@
  */
 
 import type { DateKey } from "./shared";
+import { getDateKey, getGestationalWeek, getLocalHour, isNextDay } from "./dates";
 
 // ============================================
 // TIPOS BASE
@@ -311,6 +312,9 @@ export interface BabyVoiceOutput {
  * Dados do bebê no perfil da usuária
  */
 export interface BabyProfile {
+  /** ID do bebê na gestação (gêmeos); ausente no perfil legado */
+  babyId?: string;
+
   /** Nome carinhoso dado pela mãe (opcional) */
   customName?: string;
 
@@ -474,17 +478,17 @@ export function getTimeOfDay(hour: number): TimeOfDay {
 }
 
 /**
- * Retorna o período do dia atual
+ * Retorna o período do dia atual (no timezone da usuária)
  */
-export function getCurrentTimeOfDay(): TimeOfDay {
-  return getTimeOfDay(new Date().getHours());
+export function getCurrentTimeOfDay(timezone?: string): TimeOfDay {
+  return getTimeOfDay(getLocalHour(timezone));
 }
 
 /**
  * Gera um ID único para mensagem
  */
 export function generateMessageId(): string {
-  const date = new Date().toISOString().split("T")[0].replace(/-/g, "");
+  const date = getDateKey().replace(/-/g, "");
   const random = Math.random().toString(36).substring(2, 8);
   return `msg_${date}_${random}`;
 }
@@ -495,30 +499,22 @@ export function generateMessageId(): string {
 export function calculateGestationalWeeks(dueDate: string): number {
   if (!dueDate) return 0;
 
-  const due = new Date(dueDate);
-  const now = new Date();
-
   // DPP é 40 semanas após a última menstruação
-  const msPerWeek = 7 * 24 * 60 * 60 * 1000;
-  const weeksUntilDue = Math.floor((due.getTime() - now.getTime()) / msPerWeek);
-  const gestationalWeeks = 40 - weeksUntilDue;
-
-  return Math.max(1, Math.min(42, gestationalWeeks));
+  return getGestationalWeek(dueDate);
 }
 
 /**
- * Verifica se é um novo dia comparando datas
+ * Verifica se é um novo dia comparando datas (reset às 04:00)
  */
-export function isNewDay(lastDate: string): boolean {
-  const today = new Date().toISOString().split("T")[0];
-  return lastDate !== today;
+export function isNewDay(lastDate: string, timezone?: string): boolean {
+  return lastDate !== getDateKey(timezone);
 }
 
 /**
- * Retorna a data atual formatada (YYYY-MM-DD)
+ * Retorna a data atual formatada (YYYY-MM-DD, reset às 04:00)
  */
-export function getTodayDate(): string {
-  return new Date().toISOString().split("T")[0];
+export function getTodayDate(timezone?: string): string {
+  return getDateKey(timezone);
 }
 
 /**
@@ -621,7 +617,8 @@ export function updatePresenceAfterCheckIn(
   }
 
   // Verificar se é dia consecutivo
-  const isConsecutive = isNextDay(current.lastCheckInDate, checkInDate);
+  const isConsecutive =
+    !!current.lastCheckInDate && isNextDay(current.lastCheckInDate, checkInDate);
 
   const newStreak = isConsecutive ? current.currentStreak + 1 : 1;
   const newTotal = current.totalDays + 1;
@@ -697,20 +694,6 @@ export function initializeBabyVoiceFields(
 // HELPERS INTERNOS
 // ============================================
 
-/**
- * Verifica se duas datas são dias consecutivos
- */
-function isNextDay(previousDate: string, currentDate: string): boolean {
-  if (!previousDate) return false;
-
-  const prev = new Date(previousDate);
-  const curr = new Date(currentDate);
-
-  prev.setDate(prev.getDate() + 1);
-
-  return prev.toISOString().split("T")[0] === curr.toISOString().split("T")[0];
-}
-
 /**
  * Adiciona item ao array se não existir
  */
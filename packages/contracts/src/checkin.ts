@@ -6,9 +6,17 @@
  * REGRA FUNDAMENTAL:
  * O check-in é a ÚNICA fonte primária de verdade.
  * Tudo na FLUIA deriva do check-in.
+ *
+ * MÚLTIPLOS CHECK-INS POR DIA:
+ * Um check-in por momento do dia (manhã, tarde, noite, madrugada).
+ * O documento do dia guarda as sessões e o AGREGADO diário,
+ * que é o que métricas, termômetros e interpretação consomem.
  */
 
-import type { DateKey, ScaleValue, NullableScaleValue, DayMoment } from "./shared";
+import type { DateKey, ScaleValue, NullableScaleValue, DayMoment, ISOTimestamp } from "./shared";
+import type { InternalMetricValues } from "./emotional-state";
+import type { TextAnalysis } from "./text-analysis";
+import type { SafetyIntervention } from "./safety";
 
 // ============================================
 // DIMENSÕES DO CHECK-IN (Escala 5 níveis)
@@ -64,8 +72,35 @@ export interface DailyCheckinInput {
 // ============================================
 
 /**
- * Check-in armazenado no Firestore.
+ * Check-in de um momento do dia.
+ * Persistido dentro do documento do dia (StoredCheckin.sessions).
+ */
+export interface CheckinSession {
+  /** Momento do dia (chave da sessão) */
+  moment: DayMoment;
+  
+  /** Dados informados neste momento */
+  dimensions: CheckinDimensions;
+  emotions?: string[];
+  notes?: string;
+  
+  /** Leitura das notas e emoções desta sessão */
+  textAnalysis?: TextAnalysis;
+  
+  /** Estado emocional derivado apenas desta sessão */
+  emotionalState?: StoredEmotionalState;
+  
+  /** Timestamps */
+  createdAt: ISOTimestamp;
+  updatedAt: ISOTimestamp;
+}
+
+/**
+ * Check-in armazenado no Firestore (agregado do dia).
  * Collection: profiles/{uid}/checkins/{dateKey}
+ *
+ * Os campos de topo são o AGREGADO das sessões do dia.
+ * Documentos antigos (sem sessions) têm uma única sessão implícita.
  */
 export interface StoredCheckin {
   /** ID do usuário */
@@ -74,20 +109,167 @@ export interface StoredCheckin {
   /** Chave do dia (YYYY-MM-DD, considera reset 04:00) */
   dateKey: DateKey;
   
-  /** Dados do check-in */
+  /** Dimensões agregadas do dia */
   dimensions: CheckinDimensions;
+  
+  /** Emoções de todas as sessões (sem repetição) */
   emotions?: string[];
+  
+  /** Notas da sessão mais recente */
   notes?: string;
+  
+  /** Momento da sessão mais recente */
   moment: DayMoment;
   
+  /** Sessões do dia, por momento */
+  sessions?: Partial<Record<DayMoment, CheckinSession>>;
+  
   /** Semana gestacional no momento do check-in */
   gestationalWeek: number;
   
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+  
+  /** Leitura das notas e emoções de todas as sessões (combinada) */
+  textAnalysis?: TextAnalysis;
+  
+  /** Estado emocional derivado do agregado (Emotional State Engine) */
+  emotionalState?: StoredEmotionalState;
+  
+  /** Métricas internas do agregado (0-100) - NUNCA expostas como número */
+  metrics?: InternalMetricValues;
+  
+  /** Prática realizada após o check-in (dia completo) */
+  recovery?: CheckinRecovery;
+  
   /** Timestamps */
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Estado emocional derivado, como persistido junto ao check-in.
+ * Espelha o output da Emotional State Engine.
+ */
+export interface StoredEmotionalState {
+  /** Zona predominante (1=muito baixa, 5=muito fortalecida) */
+  zone: ScaleValue;
+  
+  /** Intensidade do estado */
+  intensity: "low" | "medium" | "high";
+  
+  /** Coerência entre dimensões (0-1) */
+  coherence: number;
+  
+  /** Dimensão que mais influencia o estado */
+  dominantDimension: keyof CheckinDimensions;
+  
+  /** Flags de atenção (não são diagnósticos) */
+  flags?: {
+    overload?: boolean;
+    lowEnergy?: boolean;
+    emotionalDistance?: boolean;
+    physicalDiscomfort?: boolean;
+    distressLanguage?: boolean;
+    crisisLanguage?: boolean;
+  };
+  
+  /** Leitura longitudinal (quando havia histórico no momento do check-in) */
+  trend?: {
+    daysAnalyzed: number;
+    persistence: {
+      lowZone?: boolean;
+      lowMood?: boolean;
+      lowEnergy?: boolean;
+      physicalDiscomfort?: boolean;
+      emotionalDistance?: boolean;
+    };
+    volatility: number;
+    volatilityLevel: "low" | "medium" | "high";
+    recoverySpeed: "fast" | "moderate" | "slow" | "ongoing" | null;
+  };
+}
+
+/**
+ * Registro da prática que "completa" o dia.
+ * Presença deste campo = dia completo na Bússola.
+ */
+export interface CheckinRecovery {
+  /** ID do treino do catálogo */
+  trainingId: string;
+  
+  /** Quando a prática foi concluída */
+  completedAt: ISOTimestamp;
+}
+
+/** Momentos do dia, na ordem do dia (reset 04:00) */
+export const DAY_MOMENT_ORDER: readonly DayMoment[] = ["morning", "afternoon", "evening", "night"];
+
+/**
+ * Sessões do dia, na ordem do dia.
+ * Documentos antigos (sem sessions) viram uma única sessão com os campos de topo.
+ * (Sem campos undefined: pode ser persistida como está.)
+ */
+export function getCheckinSessions(checkin: StoredCheckin): CheckinSession[] {
+  if (!checkin.sessions) {
+    const { moment, dimensions, emotions, notes, textAnalysis, emotionalState, createdAt, updatedAt } =
+      checkin;
+    return [
+      {
+        moment,
+        dimensions,
+        ...(emotions && { emotions }),
+        ...(notes && { notes }),
+        ...(textAnalysis && { textAnalysis }),
+        ...(emotionalState && { emotionalState }),
+        createdAt,
+        updatedAt,
+      },
+    ];
+  }
+
+  return DAY_MOMENT_ORDER.flatMap((moment) => checkin.sessions?.[moment] ?? []);
+}
+
+// ============================================
+// BASELINE PESSOAL
+// ============================================
+
+/**
+ * Norma pessoal de uma dimensão (escala 1-5).
+ */
+export interface DimensionBaseline {
+  /** Média no período */
+  mean: number;
+  
+  /** Dispersão (desvio padrão) no período */
+  spread: number;
+}
+
+/**
+ * Baseline pessoal aprendido dos check-ins.
+ * Calibrado nas 2 primeiras semanas e recalculado periodicamente.
+ * Persistido em profiles/{uid}.personalBaseline
+ */
+export interface PersonalBaseline {
+  /** Norma por dimensão */
+  dimensions: Record<keyof CheckinDimensions, DimensionBaseline>;
+  
+  /** Quantidade de check-ins usados */
+  sampleSize: number;
+  
+  /** Primeiro dia da amostra */
+  fromDateKey: DateKey;
+  
+  /** Último dia da amostra */
+  toDateKey: DateKey;
+  
+  /** Dia do cálculo (base da recalculação periódica) */
+  calculatedOn: DateKey;
+  
+  calculatedAt: ISOTimestamp;
+}
+
 // ============================================
 // CHECK-IN RESPONSE
 // ============================================
@@ -97,17 +279,51 @@ export interface DailyCheckinResponse {
   /** Chave do dia salvo */
   dateKey: DateKey;
   
+  /** Momento salvo */
+  moment: DayMoment;
+  
   /** Status da operação */
   status: "saved" | "updated";
   
   /** Indica se é o primeiro check-in do usuário */
   isFirstCheckin?: boolean;
+  
+  /** Check-in do dia (agregado + sessões, com estado e métricas derivados) */
+  checkin?: StoredCheckin;
+  
+  /** Intervenção de segurança (presente apenas se algum critério foi atingido) */
+  safety?: SafetyIntervention;
+}
+
+/**
+ * Response do GET /api/checkin (status do dia).
+ */
+export interface GetCheckinResponse {
+  /** Existe check-in para o dia atual? */
+  hasCheckin: boolean;
+  
+  /** Chave do dia atual (considera reset 04:00) */
+  dateKey: DateKey;
+  
+  /** Check-in do dia (null se não existir) */
+  checkin: StoredCheckin | null;
+  
+  /** Momentos do dia que já têm check-in */
+  completedMoments: DayMoment[];
 }
 
 // ============================================
 // PRESETS DE LABELS (para UI)
 // ============================================
 
+/** Labels dos momentos do dia (na ordem do dia) */
+export const DAY_MOMENT_LABELS: Record<DayMoment, string> = {
+  morning: "Manhã",
+  afternoon: "Tarde",
+  evening: "Noite",
+  night: "Madrugada",
+};
+
 /** Labels para cada nível da escala de humor */
 export const MOOD_LABELS = {
   1: { emoji: "😔", label: "Difícil" },
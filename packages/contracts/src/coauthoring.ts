@@ -251,6 +251,9 @@ export interface TemplatedLetter {
   /** Semana gestacional */
   gestationalWeek: number;
   
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+  
   /** Timestamps */
   createdAt: string;
   updatedAt: string;
@@ -0,0 +1,213 @@
+/**
+ * @fluia/contracts - Content Package
+ *
+ * Formato do pacote de conteúdo da FLUIA (JSON).
+ * Catálogo de treinos, feedbacks, badges e prompts deixam de ser
+ * compilados no código: o time de conteúdo publica uma nova versão
+ * do pacote e as engines passam a usá-la sem release.
+ *
+ * REGRAS:
+ * - Todo pacote é validado (contentPackageSchema) antes de ser usado
+ * - version segue semver (ex: "1.2.0") e identifica o pacote publicado
+ * - schemaVersion muda apenas quando o FORMATO muda (exige release)
+ * - IDs são estáveis: é por eles que versões são comparadas (diff)
+ */
+
+import type { ISOTimestamp, MetricKey, ScaleValue } from "./shared";
+import type { FeedbackTemplate, Badge } from "./training";
+import type { DiaryPrompt, LetterTemplate } from "./coauthoring";
+import type { PostpartumDiaryPrompt } from "./postpartum";
+
+// ============================================
+// CATÁLOGO DE TREINOS
+// ============================================
+
+/** Tipos de treino do catálogo */
+export const CATALOG_TRAINING_TYPES = [
+  "breathing",
+  "grounding-body",
+  "body-scan",
+  "mindfulness",
+  "bond",
+  "reflection",
+  "pause-micro",
+  "self-compassion",
+  "resilience",
+  "boundary",
+  "gratitude",
+  "bonding",
+] as const;
+
+export type CatalogTrainingType = typeof CATALOG_TRAINING_TYPES[number];
+
+/** Intensidades do catálogo */
+export const CATALOG_TRAINING_INTENSITIES = ["minimal", "light", "moderate", "active"] as const;
+
+export type CatalogTrainingIntensity = typeof CATALOG_TRAINING_INTENSITIES[number];
+
+/**
+ * Treino do catálogo (consumido pela Prescription Engine).
+ */
+export interface CatalogTraining {
+  /** ID estável (referenciado por práticas e prescrições salvas) */
+  id: string;
+
+  type: CatalogTrainingType;
+  title: string;
+  description: string;
+
+  /** "Por que isso ajuda" */
+  whyTemplate: string;
+
+  durationMinutes: 1 | 2 | 3 | 4 | 5;
+  intensity: CatalogTrainingIntensity;
+  focusMetric: MetricKey;
+
+  /** Problemas que este treino resolve (ex: "lowZone", "overload") */
+  bestFor: string[];
+
+  /** Zona mínima para recomendar */
+  minZone: ScaleValue;
+
+  /** Zona máxima para recomendar */
+  maxZone: ScaleValue;
+
+  /** Instruções passo a passo */
+  instructions: string[];
+}
+
+// ============================================
+// PACOTE
+// ============================================
+
+/** Versão do formato suportada por este código */
+export const CONTENT_SCHEMA_VERSION = 1;
+
+/**
+ * Pacote de conteúdo versionado.
+ * Firestore: content/active (publicado) e contentVersions/{version} (histórico)
+ */
+export interface ContentPackage {
+  /** Versão do formato */
+  schemaVersion: typeof CONTENT_SCHEMA_VERSION;
+
+  /** Versão do conteúdo (semver) */
+  version: string;
+
+  publishedAt: ISOTimestamp;
+
+  /** Notas da versão (o que mudou) */
+  notes?: string;
+
+  /** Catálogo de treinos */
+  trainings: CatalogTraining[];
+
+  /** Feedbacks pós-treino */
+  feedbacks: FeedbackTemplate[];
+
+  /** Badges conquistáveis */
+  badges: Badge[];
+
+  /** Prompts do diário guiado (gestação) */
+  diaryPrompts: DiaryPrompt[];
+
+  /** Templates de carta ao bebê */
+  letterTemplates: LetterTemplate[];
+
+  /** Prompts do diário do puerpério */
+  postpartumPrompts: PostpartumDiaryPrompt[];
+}
+
+/** Seções com itens do pacote */
+export const CONTENT_SECTIONS = [
+  "trainings",
+  "feedbacks",
+  "badges",
+  "diaryPrompts",
+  "letterTemplates",
+  "postpartumPrompts",
+] as const;
+
+export type ContentSection = typeof CONTENT_SECTIONS[number];
+
+// ============================================
+// DIFF ENTRE VERSÕES
+// ============================================
+
+/**
+ * Mudanças de uma seção (por ID).
+ */
+export interface ContentSectionDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * Diferenças entre duas versões do pacote.
+ */
+export interface ContentDiff {
+  fromVersion: string;
+  toVersion: string;
+  sections: Record<ContentSection, ContentSectionDiff>;
+  hasChanges: boolean;
+}
+
+/**
+ * ID estável de um item do pacote.
+ * Feedbacks são identificados pelo contexto.
+ */
+export function getContentItemId(section: ContentSection, item: unknown): string {
+  const record = item as Record<string, string>;
+
+  switch (section) {
+    case "feedbacks":
+      return record.context;
+    case "diaryPrompts":
+    case "postpartumPrompts":
+      return record.promptId;
+    case "letterTemplates":
+      return record.templateId;
+    default:
+      return record.id;
+  }
+}
+
+/**
+ * Compara duas versões do pacote, seção a seção.
+ */
+export function diffContentPackages(from: ContentPackage, to: ContentPackage): ContentDiff {
+  const sections = {} as Record<ContentSection, ContentSectionDiff>;
+
+  for (const section of CONTENT_SECTIONS) {
+    const before = new Map<string, string>(
+      (from[section] as unknown[]).map((item) => [
+        getContentItemId(section, item),
+        JSON.stringify(item),
+      ])
+    );
+    const after = new Map<string, string>(
+      (to[section] as unknown[]).map((item) => [
+        getContentItemId(section, item),
+        JSON.stringify(item),
+      ])
+    );
+
+    sections[section] = {
+      added: [...after.keys()].filter((id) => !before.has(id)),
+      removed: [...before.keys()].filter((id) => !after.has(id)),
+      changed: [...after.keys()].filter(
+        (id) => before.has(id) && before.get(id) !== after.get(id)
+      ),
+    };
+  }
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    sections,
+    hasChanges: Object.values(sections).some(
+      (s) => s.added.length + s.removed.length + s.changed.length > 0
+    ),
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * @fluia/contracts - Date Kernel
+ *
+ * Módulo ÚNICO de datas da FLUIA.
+ * Todas as engines, APIs e telas usam estas funções para saber
+ * o que é "hoje", "esta semana", streaks, semana gestacional e puerpério.
+ *
+ * REGRAS:
+ * - O dia começa às TIMEZONE_CONFIG.dailyResetHour (04:00) no timezone da usuária
+ * - DateKey (YYYY-MM-DD) já é local: aritmética de dias é feita sobre a chave,
+ *   nunca sobre o relógio do servidor
+ * - Semana = domingo a sábado
+ */
+
+import type { DateKey, ISODate, ISOTimestamp } from "./shared";
+import { TIMEZONE_CONFIG } from "./system";
+
+// ============================================
+// CONSTANTES
+// ============================================
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/** Semanas de uma gestação a termo (DPP) */
+const FULL_TERM_WEEKS = 40;
+
+/** Limites da semana gestacional */
+const GESTATIONAL_WEEK_RANGE = { min: 1, max: 42 } as const;
+
+// ============================================
+// HELPERS INTERNOS
+// ============================================
+
+/**
+ * Partes do relógio local em um timezone.
+ */
+function getLocalParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((p) => p.type === type)?.value || "0");
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    // Alguns runtimes formatam meia-noite como "24"
+    hour: get("hour") % 24,
+    minute: get("minute"),
+  };
+}
+
+/**
+ * DateKey → meia-noite UTC (apenas para aritmética de dias).
+ */
+function keyToUTC(dateKey: DateKey): number {
+  const [year, month, day] = dateKey.slice(0, 10).split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+/**
+ * Meia-noite UTC → DateKey.
+ */
+function utcToKey(ms: number): DateKey {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+// ============================================
+// DIA
+// ============================================
+
+/**
+ * Retorna a data-chave no formato YYYY-MM-DD.
+ *
+ * IMPORTANTE: O dia começa às 4h da manhã.
+ * - 03:59 = ainda é "ontem"
+ * - 04:00 = já é "hoje"
+ *
+ * @param timezone - Timezone do usuário (default: America/Sao_Paulo)
+ * @param date - Data específica (default: agora)
+ * @returns DateKey no formato YYYY-MM-DD
+ */
+export function getDateKey(
+  timezone: string = TIMEZONE_CONFIG.defaultTimezone,
+  date?: Date
+): DateKey {
+  const local = getLocalParts(date || new Date(), timezone);
+  const key = utcToKey(Date.UTC(local.year, local.month - 1, local.day));
+
+  // Se for antes do reset, considera como dia anterior
+  return local.hour < TIMEZONE_CONFIG.dailyResetHour ? addDays(key, -1) : key;
+}
+
+/**
+ * DateKey de um timestamp persistido (ex: eventos).
+ */
+export function toDateKey(
+  timestamp: ISOTimestamp,
+  timezone: string = TIMEZONE_CONFIG.defaultTimezone
+): DateKey {
+  return getDateKey(timezone, new Date(timestamp));
+}
+
+/**
+ * Verifica se uma dateKey é de hoje.
+ *
+ * @param dateKey - Data no formato YYYY-MM-DD
+ * @param timezone - Timezone do usuário
+ * @returns true se for o dia atual
+ */
+export function isToday(
+  dateKey: DateKey,
+  timezone: string = TIMEZONE_CONFIG.defaultTimezone
+): boolean {
+  return dateKey === getDateKey(timezone);
+}
+
+/**
+ * Hora local (0-23) no timezone da usuária.
+ */
+export function getLocalHour(
+  timezone: string = TIMEZONE_CONFIG.defaultTimezone,
+  date?: Date
+): number {
+  return getLocalParts(date || new Date(), timezone).hour;
+}
+
+/**
+ * Instante (ISO) de uma hora local em um dia.
+ * Ex: fim da janela de um ritual às 12:00 em São Paulo.
+ */
+export function getLocalInstant(
+  dateKey: DateKey,
+  hour: number,
+  timezone: string = TIMEZONE_CONFIG.defaultTimezone
+): ISOTimestamp {
+  const guess = keyToUTC(dateKey) + hour * MS_PER_HOUR;
+  const local = getLocalParts(new Date(guess), timezone);
+  const offset =
+    Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - guess;
+
+  return new Date(guess - offset).toISOString();
+}
+
+// ============================================
+// ARITMÉTICA DE DIAS
+// ============================================
+
+/**
+ * Soma (ou subtrai) dias de uma dateKey.
+ */
+export function addDays(dateKey: DateKey, days: number): DateKey {
+  return utcToKey(keyToUTC(dateKey) + days * MS_PER_DAY);
+}
+
+/**
+ * Dias entre duas dateKeys (to - from).
+ */
+export function daysBetween(from: DateKey, to: DateKey): number {
+  return Math.round((keyToUTC(to) - keyToUTC(from)) / MS_PER_DAY);
+}
+
+/**
+ * Verifica se `current` é o dia seguinte a `previous`.
+ */
+export function isNextDay(previous: DateKey, current: DateKey): boolean {
+  return daysBetween(previous, current) === 1;
+}
+
+// ============================================
+// SEMANA
+// ============================================
+
+/**
+ * Dia da semana (0=domingo, 6=sábado) de uma dateKey.
+ */
+export function getDayOfWeek(dateKey: DateKey): number {
+  return new Date(keyToUTC(dateKey)).getUTCDay();
+}
+
+/**
+ * Limites da semana (domingo a sábado) que contém a dateKey.
+ */
+export function getWeekBounds(dateKey: DateKey): { start: DateKey; end: DateKey } {
+  const start = addDays(dateKey, -getDayOfWeek(dateKey));
+  return { start, end: addDays(start, 6) };
+}
+
+/**
+ * Verifica se duas dateKeys estão na mesma semana.
+ */
+export function isSameWeek(a: DateKey, b: DateKey): boolean {
+  return getWeekBounds(a).start === getWeekBounds(b).start;
+}
+
+// ============================================
+// GESTAÇÃO E PUERPÉRIO
+// ============================================
+
+/**
+ * Semana gestacional em um dia, a partir da DPP.
+ * DPP = semana 40. Limitada entre 1 e 42.
+ *
+ * @param dueDate - Data prevista do parto (YYYY-MM-DD ou ISO)
+ * @param today - Dia de referência (default: hoje no timezone padrão)
+ */
+export function getGestationalWeek(
+  dueDate: ISODate | ISOTimestamp,
+  today: DateKey = getDateKey()
+): number {
+  const weeksUntilDue = Math.floor(daysBetween(today, dueDate) / 7);
+  const week = FULL_TERM_WEEKS - weeksUntilDue;
+
+  return Math.max(GESTATIONAL_WEEK_RANGE.min, Math.min(GESTATIONAL_WEEK_RANGE.max, week));
+}
+
+/**
+ * Dia do puerpério (0 = dia do nascimento).
+ *
+ * @param birthDate - Data do nascimento (YYYY-MM-DD ou ISO)
+ * @param today - Dia de referência (default: hoje no timezone padrão)
+ */
+export function getPostpartumDay(
+  birthDate: ISODate | ISOTimestamp,
+  today: DateKey = getDateKey()
+): number {
+  return Math.max(0, daysBetween(birthDate, today));
+}
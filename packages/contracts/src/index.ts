@@ -47,11 +47,28 @@ export {
   scaleValueToZone,
   canShowHighLevelOutputs,
   // Helpers - Data
-  getDateKey,
-  isToday,
   nowISO,
 } from "./shared";
 
+// ============================================
+// DATAS (kernel: timezone + reset 04:00)
+// ============================================
+export {
+  getDateKey,
+  toDateKey,
+  isToday,
+  getLocalHour,
+  getLocalInstant,
+  addDays,
+  daysBetween,
+  isNextDay,
+  getDayOfWeek,
+  getWeekBounds,
+  isSameWeek,
+  getGestationalWeek,
+  getPostpartumDay,
+} from "./dates";
+
 // ============================================
 // AUTH
 // ============================================
@@ -76,18 +93,59 @@ export {
   type PartialCheckinDimensions,
   type DailyCheckinInput,
   type StoredCheckin,
+  type CheckinSession,
+  type StoredEmotionalState,
+  type CheckinRecovery,
+  type DimensionBaseline,
+  type PersonalBaseline,
   type DailyCheckinResponse,
+  type GetCheckinResponse,
   type DimensionLabels,
   type EmotionTag,
   // Constants
+  DAY_MOMENT_ORDER,
+  DAY_MOMENT_LABELS,
   MOOD_LABELS,
   ENERGY_LABELS,
   BODY_LABELS,
   BOND_LABELS,
   DIMENSION_LABELS_MAP,
   EMOTION_TAGS,
+  // Helpers
+  getCheckinSessions,
 } from "./checkin";
 
+// ============================================
+// TEXT ANALYSIS (notas e emoções do check-in)
+// ============================================
+export {
+  // Types
+  type ExtendedEmotionTag,
+  type DetectedEmotionTag,
+  type EmotionValence,
+  type RiskSignalType,
+  type RiskSignalSeverity,
+  type RiskSignal,
+  type TextAnalysis,
+  // Constants
+  EXTENDED_EMOTION_TAGS,
+} from "./text-analysis";
+
+// ============================================
+// SAFETY (crise e encaminhamento)
+// ============================================
+export {
+  // Types
+  type SafetySeverity,
+  type SafetySource,
+  type SafetyTrigger,
+  type SafetyResource,
+  type SafetyIntervention,
+  type SafetyEvent,
+  // Constants
+  SAFETY_RESOURCES,
+} from "./safety";
+
 // ============================================
 // EMOTIONAL STATE
 // ============================================
@@ -118,6 +176,9 @@ export {
   type TrainingPrescription,
   type DailyPrescription,
   type GetPrescriptionResponse,
+  type StoredPrescription,
+  type StoredPrescribedTraining,
+  type StoredPrescriptionProblem,
   type TrainingDefinition,
   type TrainingContent,
   type TrainingStep,
@@ -132,6 +193,7 @@ export {
 export {
   // Types
   type TrainingStartRequest,
+  type TrainingStartResponse,
   type TrainingCompleteRequest,
   type TrainingCompleteResponse,
   type StoredTraining,
@@ -139,11 +201,32 @@ export {
   type Badge,
   type BadgeCondition,
   type StreakInfo,
-  // Constants
-  DEFAULT_FEEDBACKS,
-  DEFAULT_BADGES,
+  type EarnedBadge,
+  type TrainingProgress,
 } from "./training";
 
+// ============================================
+// CONTENT (pacote de conteúdo versionado)
+// ============================================
+export {
+  // Types
+  type CatalogTrainingType,
+  type CatalogTrainingIntensity,
+  type CatalogTraining,
+  type ContentPackage,
+  type ContentSection,
+  type ContentSectionDiff,
+  type ContentDiff,
+  // Constants
+  CATALOG_TRAINING_TYPES,
+  CATALOG_TRAINING_INTENSITIES,
+  CONTENT_SCHEMA_VERSION,
+  CONTENT_SECTIONS,
+  // Helpers
+  getContentItemId,
+  diffContentPackages,
+} from "./content";
+
 // ============================================
 // BABY VOICE v2
 // ============================================
@@ -270,6 +353,14 @@ export {
   // Eventos factuais
   type MicromomentEvent,
 
+  // Configuração de regras (versionada, por coorte)
+  MICROMOMENT_RULES_SCHEMA_VERSION,
+  type MicromomentFrequencyRules,
+  type MicromomentTrigger,
+  type MicromomentCohortFilter,
+  type MicromomentRulesOverride,
+  type MicromomentRulesConfig,
+
   // Requests / Responses
   type AcceptMicromomentRequest,
   type AcceptMicromomentResponse,
@@ -286,6 +377,7 @@ export {
   type MilestoneType,
   type PresenceMilestoneType,
   type GestationalMilestoneType,
+  type PersonalMilestoneType,
   type MilestoneCategory,
   type MilestoneAction,
 
@@ -294,6 +386,10 @@ export {
   type MilestoneProduct,
   type MilestoneSuggestion,
 
+  // Marcos pessoais
+  type PersonalMilestoneKind,
+  type PersonalMilestone,
+
   // Eventos factuais
   type MilestoneEvent,
 
@@ -303,9 +399,12 @@ export {
   // Requests / Responses
   type MarkMilestoneSeenRequest,
   type ExploreMilestoneProductRequest,
+  type CreatePersonalMilestoneRequest,
   type MilestoneEvaluationResponse,
   type MarkMilestoneSeenResponse,
   type ExploreMilestoneProductResponse,
+  type PersonalMilestoneResponse,
+  type ListPersonalMilestonesResponse,
 } from "./milestones";
 
 // ============================================
@@ -324,6 +423,7 @@ export {
   // Padrões Emocionais
   type EmotionalPattern,
   type EmotionalPatternsResponse,
+  type IntradayPoint,
 
   // Tendências Semanais
   type PillarTrend,
@@ -342,6 +442,7 @@ export {
 
   // Contexto e histórico
   type HistoricalCheckin,
+  type HistoricalCheckinSession,
   type HistoricalPractice,
   type InterpretationContext,
 
@@ -472,6 +573,7 @@ export {
   // Tipos base
   type PostpartumProductType,
   type PostpartumPhase,
+  type JourneyMode,
   type TransitionStatus,
 
   // Pilares
@@ -485,6 +587,7 @@ export {
   type WelcomeMessage,
   type StartTransitionRequest,
   type TransitionResponse,
+  type GetTransitionResponse,
 
   // Diário do Puerpério
   type PostpartumDiaryPrompt,
@@ -495,11 +598,13 @@ export {
   // Check-in com Bebê
   type BabyCheckin,
   type CombinedCheckin,
+  type StoredCombinedCheckin,
+  type GetCombinedCheckinResponse,
   type CombinedCheckinResponse,
   type SaveCombinedCheckinRequest,
 
-  // Screening PPD
-  type PPDScreeningResult,
+  // Sinal de risco PPD (gatilho da EPDS)
+  type PPDRiskSignal,
 
   // Contexto
   type PostpartumContext,
@@ -508,6 +613,84 @@ export {
   type PostpartumSuccessResponse,
 } from "./postpartum";
 
+// ============================================
+// PREGNANCY (gestações da conta)
+// ============================================
+export {
+  type PregnancyStatus,
+  DEFAULT_PREGNANCY_ID,
+  DEFAULT_BABY_ID,
+  MAX_BABIES_PER_GESTATION,
+  type Pregnancy,
+  type PregnancyScoped,
+  getPregnancyScope,
+  type BabyScoped,
+  getBabyScope,
+  type PregnancyContext,
+  type CreatePregnancyRequest,
+  type RecordPregnancyLossRequest,
+  type PregnancyResponse,
+  type ListPregnanciesResponse,
+} from "./pregnancy";
+
+// ============================================
+// BABY LOG (cuidados do bebê no puerpério)
+// ============================================
+export {
+  type BabyLogEntryType,
+  type FeedingMethod,
+  type FeedingSide,
+  type DiaperKind,
+  type BabySleepEntry,
+  type BabyFeedingEntry,
+  type BabyDiaperEntry,
+  type BabyWeightEntry,
+  type BabyLogEntry,
+  type StoredBabyLogEntry,
+  type BabyLogDailySummary,
+  type BabyLogWeeklySummary,
+  type BabyWeightPoint,
+  type CorrelationStrength,
+  type BabySleepZoneCorrelation,
+  type PostpartumInsight,
+  type AddBabyLogEntryRequest,
+  type AddBabyLogEntryResponse,
+  type GetBabyLogResponse,
+} from "./baby-log";
+
+// ============================================
+// SCREENING (questionários validados)
+// ============================================
+export {
+  type ScreeningInstrument,
+  type ScreeningPeriod,
+  type ScreeningRiskLevel,
+  type ScreeningOption,
+  type ScreeningQuestion,
+  type ScreeningAnswer,
+  EPDS_INSTRUCTIONS,
+  EPDS_QUESTIONS,
+  EPDS_THRESHOLDS,
+  type EPDSResult,
+  type StoredEPDSResult,
+  GAD7_INSTRUCTIONS,
+  GAD7_QUESTIONS,
+  GAD7_THRESHOLDS,
+  type PrenatalScreeningResult,
+  type StoredPrenatalScreeningResult,
+  type ScreeningResult,
+  type EPDSDueReason,
+  type EPDSScheduleStatus,
+  type PrenatalDueReason,
+  type PrenatalScreeningScheduleStatus,
+  type SubmitEPDSRequest,
+  type SubmitEPDSResponse,
+  type GetEPDSResponse,
+  type SubmitPrenatalScreeningRequest,
+  type SubmitPrenatalScreeningResponse,
+  type GetPrenatalScreeningResponse,
+} from "./screening";
+
 // ============================================
 // PRODUCTS
 // ============================================
@@ -546,4 +729,82 @@ export {
   FAIL_SAFE_MESSAGE,
   TIMEZONE_CONFIG,
   SESSION_CONFIG,
-} from "./system";
\ No newline at end of file
+} from "./system";
+
+// ============================================
+// VALIDATION (Runtime)
+// ============================================
+export {
+  // Types
+  type FieldErrors,
+  type Validator,
+  type ValidationResult,
+  type ObjectShape,
+  // Builders
+  string,
+  number,
+  boolean,
+  oneOf,
+  isoDate,
+  optional,
+  array,
+  object,
+  record,
+  discriminated,
+  // Execução
+  validate,
+  toValidationErrorResponse,
+} from "./validation";
+
+export {
+  // Auth
+  createSessionRequestSchema,
+  onboardingStepRequestSchema,
+  // Check-in
+  checkinDimensionsSchema,
+  dailyCheckinInputSchema,
+  // Training
+  trainingStartRequestSchema,
+  trainingCompleteRequestSchema,
+  // Micromoments
+  acceptMicromomentRequestSchema,
+  dismissMicromomentRequestSchema,
+  micromomentRulesConfigSchema,
+  // Milestones
+  markMilestoneSeenRequestSchema,
+  exploreMilestoneProductRequestSchema,
+  createPersonalMilestoneRequestSchema,
+  // Rituals
+  startRitualRequestSchema,
+  completeRitualRequestSchema,
+  skipRitualRequestSchema,
+  // Interpretation
+  getEmotionalPatternsRequestSchema,
+  getWeeklyTrendsRequestSchema,
+  getPillarInsightsRequestSchema,
+  getMonthlyReportRequestSchema,
+  // Memory
+  generateLetterRequestSchema,
+  saveLetterRequestSchema,
+  saveCapsuleRequestSchema,
+  // Coauthoring
+  saveGuidedDiaryRequestSchema,
+  saveTemplatedLetterRequestSchema,
+  generateReflectionRequestSchema,
+  addUserReflectionRequestSchema,
+  // Postpartum
+  birthInfoSchema,
+  startTransitionRequestSchema,
+  savePostpartumDiaryRequestSchema,
+  saveCombinedCheckinRequestSchema,
+  // Baby log
+  addBabyLogEntryRequestSchema,
+  // Pregnancy
+  createPregnancyRequestSchema,
+  recordPregnancyLossRequestSchema,
+  // Screening
+  submitEPDSRequestSchema,
+  submitPrenatalScreeningRequestSchema,
+  // Content
+  contentPackageSchema,
+} from "./schemas";
@@ -15,6 +15,8 @@
  * @version 1.0.0
  */
 
+import type { DayMoment } from "./shared";
+
 // ============================================
 // TIPOS BASE
 // ============================================
@@ -87,10 +89,24 @@ export interface EmotionalPattern {
     pillar?: EmotionalPillar;
     practiceType?: string;
     dayOfWeek?: number;
-    timeOfDay?: "morning" | "afternoon" | "evening" | "night";
+    timeOfDay?: DayMoment;
   };
 }
 
+/**
+ * Ponto do gráfico intradiário (zona média por momento do dia)
+ */
+export interface IntradayPoint {
+  /** Momento do dia */
+  moment: DayMoment;
+  
+  /** Zona média dos check-ins neste momento (1-5) */
+  averageZone: number;
+  
+  /** Quantidade de check-ins neste momento */
+  sampleSize: number;
+}
+
 /**
  * Resposta de padrões emocionais
  */
@@ -106,6 +122,9 @@ export interface EmotionalPatternsResponse {
     daysWithData: number;
   };
   
+  /** Gráfico intradiário (apenas momentos com check-in, na ordem do dia) */
+  intraday: IntradayPoint[];
+  
   /** Resumo geral */
   summary: {
     /** Mensagem principal */
@@ -433,6 +452,16 @@ export interface HistoricalCheckin {
     CA: number;
   };
   dayCompleted: boolean;
+  /** Check-ins do dia por momento (zona de cada sessão) */
+  sessions?: HistoricalCheckinSession[];
+}
+
+/**
+ * Check-in de um momento do dia (histórico)
+ */
+export interface HistoricalCheckinSession {
+  moment: DayMoment;
+  zone: number;
 }
 
 /**
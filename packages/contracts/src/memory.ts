@@ -161,6 +161,8 @@ export interface TimelinePoint {
     pillar?: string;
     practiceType?: string;
     milestoneType?: string;
+    /** Foto do marco pessoal */
+    photoUrl?: string;
   };
 }
 
@@ -244,6 +246,9 @@ export interface BabyLetter {
   /** Semana gestacional */
   gestationalWeek: number;
   
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+  
   /** Título da carta */
   title: string;
   
@@ -479,6 +484,9 @@ export interface EmotionalCapsule {
   
   /** Destinatário sugerido */
   suggestedRecipient: "baby_1year" | "baby_5years" | "baby_18years" | "custom";
+  
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
 }
 
 /**
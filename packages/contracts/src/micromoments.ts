@@ -15,6 +15,11 @@
  * @version 1.1.0
  */
 
+import type { ISOTimestamp, ScaleValue } from "./shared";
+import type { Trimester } from "./baby-voice";
+import type { EmotionalPillar } from "./interpretation";
+import type { JourneyMode, PostpartumPhase } from "./postpartum";
+
 // ============================================
 // TIPOS BASE
 // ============================================
@@ -25,8 +30,10 @@
  * MM2: Rituais de Conexão (após 7 dias + zona 4-5)
  * MM3: Interpretação da Conexão (após prática satisfatória)
  * MM4: Relatório Semanal (7+ jornadas completas)
+ * MM5: Primeiros 40 Dias (puerpério imediato/inicial)
+ * MM6: Convite ao Parceiro(a) (gestação ou puerpério, uma vez)
  */
-export type MicromomentType = "MM2" | "MM3" | "MM4";
+export type MicromomentType = "MM2" | "MM3" | "MM4" | "MM5" | "MM6";
 
 /**
  * Ações possíveis em um micromomento
@@ -68,6 +75,8 @@ export interface MicromomentEvent {
   context?: {
     zone?: number;
     pillar?: string;
+    /** Versão das regras que gerou a sugestão */
+    rulesVersion?: string;
   };
 }
 
@@ -154,8 +163,137 @@ export interface MicromomentEvaluationContext {
   /** É premium? */
   isPremium: boolean;
   
+  /** Primeira gestação? (coorte; null = não informado) */
+  isFirstPregnancy?: boolean | null;
+  
+  /** Trimestre atual (coorte) */
+  trimester?: Trimester;
+  
+  /** Modo da jornada (default: gestante) */
+  mode?: JourneyMode;
+  
+  /** Fase do puerpério (modo mae) */
+  postpartumPhase?: PostpartumPhase;
+  
+  /** Já aceitou convidar o parceiro(a)? (MM6 não volta) */
+  partnerInvited?: boolean;
+  
   /** Eventos passados (para cálculo de cooldown) */
   events: MicromomentEvent[];
+  
+  /** Timezone da usuária (default: America/Sao_Paulo) */
+  timezone?: string;
+  
+  /** Dia atual YYYY-MM-DD (default: hoje no timezone, reset 04:00) */
+  today?: string;
+}
+
+// ============================================
+// CONFIGURAÇÃO DE REGRAS (versionada)
+// ============================================
+
+/** Versão do formato suportada por este código */
+export const MICROMOMENT_RULES_SCHEMA_VERSION = 1;
+
+/**
+ * Regras de frequência configuráveis.
+ * O bloqueio por vulnerabilidade (BLOCK_RISK_LEVEL) NÃO faz parte:
+ * é fixo na Engine e nenhuma configuração o altera.
+ */
+export interface MicromomentFrequencyRules {
+  /** Dias de presença (check-ins) antes de qualquer MM */
+  gracePeriodPresence: number;
+  
+  /** Máximo de MM apresentados por dia */
+  maxPerDay: number;
+  
+  /** Máximo de MM apresentados por semana (domingo a sábado) */
+  maxPerWeek: number;
+  
+  /** Dias de cooldown após dismiss */
+  cooldownAfterDismissDays: number;
+  
+  /** Dias de cooldown após accept */
+  cooldownAfterAcceptDays: number;
+  
+  /** Premium recebe MM? (default: não) */
+  showToPremium: boolean;
+}
+
+/**
+ * Condições de disparo de um tipo de micromomento.
+ */
+export interface MicromomentTrigger {
+  /** Zonas em que o MM pode aparecer */
+  zones: ScaleValue[];
+  
+  /** Pilares da prática do dia (ausente = qualquer) */
+  pillars?: EmotionalPillar[];
+  
+  /** Exige prática concluída hoje */
+  requiresPractice: boolean;
+  
+  /** Jornadas completas mínimas */
+  requiresCompletedJourneys?: number;
+  
+  /** Dias de presença mínimos */
+  minPresenceDays: number;
+  
+  /** Modos da jornada (ausente = qualquer) */
+  modes?: JourneyMode[];
+  
+  /** Fases do puerpério (exige modo mae na fase) */
+  phases?: PostpartumPhase[];
+}
+
+/**
+ * Critérios de coorte. Todos os informados precisam bater.
+ */
+export interface MicromomentCohortFilter {
+  isFirstPregnancy?: boolean;
+  trimesters?: Trimester[];
+  isPremium?: boolean;
+}
+
+/**
+ * Ajuste de regras para uma coorte.
+ * Overrides são aplicados em ordem (o último vence).
+ */
+export interface MicromomentRulesOverride {
+  /** Identificador do override (analytics/debug) */
+  id: string;
+  
+  when: MicromomentCohortFilter;
+  
+  rules?: Partial<MicromomentFrequencyRules>;
+  
+  triggers?: Partial<Record<MicromomentType, Partial<MicromomentTrigger>>>;
+}
+
+/**
+ * Configuração versionada das regras de micromomento.
+ * Firestore: micromomentRules/active (publicada) e micromomentRulesVersions/{version}
+ */
+export interface MicromomentRulesConfig {
+  /** Versão do formato */
+  schemaVersion: typeof MICROMOMENT_RULES_SCHEMA_VERSION;
+  
+  /** Versão das regras (semver) */
+  version: string;
+  
+  publishedAt: ISOTimestamp;
+  
+  /** Notas da versão (o que mudou) */
+  notes?: string;
+  
+  /** Regras padrão */
+  rules: MicromomentFrequencyRules;
+  
+  /** Triggers padrão por tipo */
+  triggers: Record<MicromomentType, MicromomentTrigger>;
+  
+  /** Ajustes por coorte */
+  overrides: MicromomentRulesOverride[];
 }
 
 // ============================================
@@ -189,11 +327,12 @@ export interface DismissMicromomentRequest {
  * none: nada a fazer
  * premium-info: mostrar informações premium
  * learn-more: mostrar mais detalhes
+ * invite-partner: abrir o convite ao parceiro(a)
  */
-export type MicromomentNextAction = "none" | "premium-info" | "learn-more";
+export type MicromomentNextAction = "none" | "premium-info" | "learn-more" | "invite-partner";
 
 /**
- * Resposta do GET /api/micromoment
+ * Resposta do GET /api/micromoments/evaluate
  */
 export interface MicromomentEvaluationResponse {
   /** Sugestão (null se não elegível) */
@@ -201,7 +340,7 @@ export interface MicromomentEvaluationResponse {
 }
 
 /**
- * Resposta do POST /api/micromoment/accept
+ * Resposta do POST /api/micromoments/accept
  */
 export interface AcceptMicromomentResponse {
   success: boolean;
@@ -209,7 +348,7 @@ export interface AcceptMicromomentResponse {
 }
 
 /**
- * Resposta do POST /api/micromoment/dismiss
+ * Resposta do POST /api/micromoments/dismiss
  */
 export interface DismissMicromomentResponse {
   success: boolean;
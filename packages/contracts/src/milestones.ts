@@ -12,10 +12,15 @@
  * - FREE vê celebração básica
  * - PREMIUM vê celebração + produto exclusivo
  * - Cada marco acontece UMA VEZ (não tem cooldown)
+ * - Marcos pessoais são criados pela usuária e celebrados a partir do dia
+ *   (ainda por alguns dias, se não foram vistos)
  * 
  * @version 1.0.0
  */
 
+import type { DateKey, ISOTimestamp } from "./shared";
+import type { SafetyIntervention } from "./safety";
+
 // ============================================
 // TIPOS BASE
 // ============================================
@@ -42,25 +47,81 @@ export type GestationalMilestoneType =
   | "TERM_37"         // Termo (semana 37)
   | "DUE_DATE_40";    // DPP (semana 40)
 
+/**
+ * Tipo de marco PESSOAL
+ * Criado pela usuária (o que ele celebra está em PersonalMilestoneKind)
+ */
+export type PersonalMilestoneType = "PERSONAL";
+
 /**
  * Todos os tipos de marco
  */
-export type MilestoneType = PresenceMilestoneType | GestationalMilestoneType;
+export type MilestoneType = PresenceMilestoneType | GestationalMilestoneType | PersonalMilestoneType;
 
 /**
  * Categoria do marco
  */
-export type MilestoneCategory = "presence" | "gestational";
+export type MilestoneCategory = "presence" | "gestational" | "personal";
 
 /**
  * Ações possíveis em um marco
  * 
- * shown: marco foi apresentado
+ * shown: marco foi apresentado e visto (não volta a aparecer)
  * dismissed: usuária fechou sem interagir
  * explored: usuária explorou o produto (Premium)
  */
 export type MilestoneAction = "shown" | "dismissed" | "explored";
 
+// ============================================
+// MARCO PESSOAL (persistido no Firestore)
+// ============================================
+
+/**
+ * O que um marco pessoal celebra
+ */
+export type PersonalMilestoneKind =
+  | "first_kick"      // Primeiro chute
+  | "ultrasound"      // Ultrassom
+  | "baby_shower"     // Chá de bebê
+  | "maternity_leave" // Início da licença-maternidade
+  | "custom";         // Outro (título da usuária)
+
+/**
+ * Marco criado pela usuária.
+ * 
+ * Regras:
+ * - Celebrado no dia (date), uma vez
+ * - Entra na timeline visual e no livro da jornada
+ * 
+ * Caminho Firestore: profiles/{uid}/personalMilestones/{personalMilestoneId}
+ */
+export interface PersonalMilestone {
+  /** ID do documento */
+  personalMilestoneId: string;
+  
+  uid: string;
+  
+  /** O que o marco celebra */
+  kind: PersonalMilestoneKind;
+  
+  /** Título (padrão do tipo quando a usuária não informa) */
+  title: string;
+  
+  /** Dia do marco */
+  date: DateKey;
+  
+  /** Nota da usuária */
+  note?: string;
+  
+  /** Referência da foto (upload feito pelo cliente) */
+  photoUrl?: string;
+  
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+  
+  createdAt: ISOTimestamp;
+}
+
 // ============================================
 // EVENTO FACTUAL (persistido no Firestore)
 // ============================================
@@ -91,6 +152,9 @@ export interface MilestoneEvent {
   /** Timestamp ISO do evento */
   timestamp: string;
   
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+  
   /** Contexto adicional */
   context?: {
     /** Dias de presença no momento */
@@ -152,7 +216,7 @@ export interface MilestoneProduct {
  * - UI decide como apresentar
  */
 export interface MilestoneSuggestion {
-  /** ID único para tracking */
+  /** ID estável do marco (tipo + semana nos gestacionais), usado em seen/explore */
   milestoneId: string;
   
   /** Tipo do marco */
@@ -167,8 +231,8 @@ export interface MilestoneSuggestion {
   /** Mensagem de celebração (FREE) */
   celebrationMessage: string;
   
-  /** Mensagem do bebê (contextual) */
-  babyMessage: string;
+  /** Mensagem do bebê (contextual; ausente após perda gestacional) */
+  babyMessage?: string;
   
   /** Badge visual */
   badge: MilestoneBadge;
@@ -226,6 +290,15 @@ export interface MilestoneEvaluationContext {
   
   /** Eventos de marco passados */
   events: MilestoneEvent[];
+  
+  /** Marcos pessoais da gestação */
+  personalMilestones?: PersonalMilestone[];
+  
+  /** Dia atual (marcos pessoais são celebrados do dia até PERSONAL_GRACE_DAYS depois) */
+  today?: DateKey;
+  
+  /** A gestação terminou em perda? (nada do bebê: sem mensagem do bebê nem marcos gestacionais) */
+  pregnancyLost?: boolean;
 }
 
 // ============================================
@@ -249,12 +322,24 @@ export interface ExploreMilestoneProductRequest {
   productId: string;
 }
 
+/**
+ * Request para criar um marco pessoal
+ */
+export interface CreatePersonalMilestoneRequest {
+  kind: PersonalMilestoneKind;
+  /** Obrigatório para "custom" */
+  title?: string;
+  date: string;
+  note?: string;
+  photoUrl?: string;
+}
+
 // ============================================
 // RESPONSES API
 // ============================================
 
 /**
- * Resposta do GET /api/milestone
+ * Resposta do GET /api/milestones
  */
 export interface MilestoneEvaluationResponse {
   /** Marcos pendentes (pode ter mais de 1) */
@@ -265,14 +350,14 @@ export interface MilestoneEvaluationResponse {
 }
 
 /**
- * Resposta do POST /api/milestone/seen
+ * Resposta do POST /api/milestones/seen
  */
 export interface MarkMilestoneSeenResponse {
   success: boolean;
 }
 
 /**
- * Resposta do POST /api/milestone/explore
+ * Resposta do POST /api/milestones/explore
  */
 export interface ExploreMilestoneProductResponse {
   success: boolean;
@@ -283,4 +368,22 @@ export interface ExploreMilestoneProductResponse {
   };
   /** Mensagem se não for Premium */
   message?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Resposta do POST /api/milestones/personal
+ */
+export interface PersonalMilestoneResponse {
+  milestone: PersonalMilestone;
+
+  /** Intervenção de segurança da nota (presente apenas se algum critério foi atingido) */
+  safety?: SafetyIntervention;
+}
+
+/**
+ * Resposta do GET /api/milestones/personal
+ */
+export interface ListPersonalMilestonesResponse {
+  /** Ordem cronológica (date) */
+  milestones: PersonalMilestone[];
+}
@@ -17,6 +17,8 @@
  * @version 1.0.0
  */
 
+import type { PostpartumInsight } from "./baby-log";
+
 // ============================================
 // TIPOS BASE
 // ============================================
@@ -38,6 +40,13 @@ export type PostpartumPhase =
   | "late"         // 46-90 dias (puerpério remoto)
   | "extended";    // 90+ dias
 
+/**
+ * Modo da jornada da usuária
+ * - gestante: gestação (padrão, ausente no perfil)
+ * - mae: puerpério (após registrar o nascimento)
+ */
+export type JourneyMode = "gestante" | "mae";
+
 /**
  * Status da transição
  */
@@ -118,6 +127,9 @@ export interface TransitionState {
   /** Status atual */
   status: TransitionStatus;
   
+  /** Gestação que originou o puerpério */
+  pregnancyId?: string;
+  
   /** Informações do nascimento */
   birthInfo?: BirthInfo;
   
@@ -184,6 +196,15 @@ export interface TransitionResponse {
   welcomeMessage?: WelcomeMessage;
 }
 
+/**
+ * Status da transição (GET)
+ * state null = ainda grávida (modo gestante)
+ */
+export interface GetTransitionResponse {
+  mode: JourneyMode;
+  state: TransitionState | null;
+}
+
 // ============================================
 // DIÁRIO DO PUERPÉRIO
 // ============================================
@@ -301,6 +322,9 @@ export interface BabyCheckin {
   /** ID do check-in */
   checkinId: string;
   
+  /** Bebê da gestação (gêmeos); ausente = DEFAULT_BABY_ID */
+  babyId?: string;
+  
   /** Data */
   date: string;
   
@@ -392,6 +416,30 @@ export interface CombinedCheckin {
   createdAt: string;
 }
 
+/**
+ * Check-in combinado persistido (um por dia).
+ * Firestore: profiles/{uid}/combinedCheckins/{dateKey}
+ * checkinId = dateKey
+ */
+export interface StoredCombinedCheckin extends CombinedCheckin {
+  uid: string;
+  dateKey: string;
+  /** Gestação que originou o puerpério */
+  pregnancyId?: string;
+  updatedAt: string;
+}
+
+/**
+ * Status do check-in combinado do dia (GET)
+ */
+export interface GetCombinedCheckinResponse {
+  hasCheckin: boolean;
+  dateKey: string;
+  checkin: StoredCombinedCheckin | null;
+  /** Estado da transição (fase e dias atualizados para hoje) */
+  state: TransitionState;
+}
+
 /**
  * Resposta do check-in combinado
  */
@@ -403,12 +451,7 @@ export interface CombinedCheckinResponse {
   welcomeMessage: string;
   
   /** Insights */
-  insights?: Array<{
-    type: "tip" | "warning" | "celebration";
-    title: string;
-    message: string;
-    icon: string;
-  }>;
+  insights?: PostpartumInsight[];
   
   /** Deve mostrar alerta? */
   showAlert?: {
@@ -432,6 +475,8 @@ export interface SaveCombinedCheckinRequest {
     breastfeedingChallenges?: string[];
   };
   babyCheckin: {
+    /** Obrigatório quando a gestação tem mais de um bebê */
+    babyId?: string;
     sleepHours?: number;
     feedingCount?: number;
     babyMood: number;
@@ -443,28 +488,28 @@ export interface SaveCombinedCheckinRequest {
 }
 
 // ============================================
-// SCREENING DE DEPRESSÃO PÓS-PARTO
+// SINAL DE RISCO PPD (gatilho da EPDS)
 // ============================================
 
 /**
- * Resultado do screening simplificado
- * (Baseado em Edinburgh Postnatal Depression Scale simplificada)
+ * Sinal de risco de depressão pós-parto a partir dos check-ins.
+ * NÃO é rastreio: apenas sugere antecipar a EPDS (ver screening.ts).
  */
-export interface PPDScreeningResult {
-  /** Score total */
+export interface PPDRiskSignal {
+  /** Score heurístico (0-10) */
   score: number;
   
-  /** Nível de risco */
+  /** Nível do sinal */
   riskLevel: "low" | "moderate" | "high";
   
-  /** Recomendação */
-  recommendation: string;
+  /** Deve sugerir o questionário EPDS? */
+  suggestScreening: boolean;
   
-  /** Deve sugerir ajuda profissional? */
-  suggestProfessionalHelp: boolean;
+  /** Mensagem para o convite ao questionário */
+  message: string;
   
-  /** Data do screening */
-  screenedAt: string;
+  /** Data da avaliação */
+  evaluatedAt: string;
 }
 
 // ============================================
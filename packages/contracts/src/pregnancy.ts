@@ -0,0 +1,161 @@
+/**
+ * @fluia/contracts - Pregnancy Types
+ *
+ * Gestações da usuária: uma conta pode ter gestação gemelar,
+ * gestações seguintes ou uma perda.
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Check-ins, cartas, cápsulas e marcos pertencem a uma gestação (pregnancyId)
+ * - Registros sem pregnancyId (anteriores a esta entidade) pertencem
+ *   à gestação padrão (DEFAULT_PREGNANCY_ID), sem migração
+ * - Após uma perda, nenhum conteúdo da Voz do Bebê ou marco gestacional
+ *   daquela gestação volta a ser exibido
+ * - Histórico: profiles/{uid}/pregnancies/{pregnancyId}
+ */
+
+import type { DateKey, ISOTimestamp } from "./shared";
+import type { BabyProfile, Trimester } from "./baby-voice";
+import type { BirthInfo } from "./postpartum";
+
+// ============================================
+// TIPOS BASE
+// ============================================
+
+/**
+ * Status da gestação
+ * - active: em curso
+ * - born: nascimento registrado (puerpério)
+ * - loss: perda gestacional
+ */
+export type PregnancyStatus = "active" | "born" | "loss";
+
+/** Gestação dos registros sem pregnancyId (conta anterior a gestações múltiplas) */
+export const DEFAULT_PREGNANCY_ID = "primary";
+
+/** Bebê dos registros sem babyId (primeiro bebê da gestação) */
+export const DEFAULT_BABY_ID = "baby-1";
+
+/** Bebês por gestação (trigêmeos) */
+export const MAX_BABIES_PER_GESTATION = 3;
+
+// ============================================
+// ENTIDADE
+// ============================================
+
+/**
+ * Gestação persistida.
+ */
+export interface Pregnancy {
+  pregnancyId: string;
+  uid: string;
+  status: PregnancyStatus;
+
+  /** Data Prevista do Parto (YYYY-MM-DD) */
+  dueDate: DateKey;
+  /** Semana gestacional no cadastro da gestação */
+  gestationalWeekAtCreation: number | null;
+  /** Primeira gestação? */
+  isFirstPregnancy: boolean | null;
+
+  /** Um perfil por bebê (gêmeos = 2); babyId distingue cada um */
+  babies: BabyProfile[];
+
+  /** Nascimento (status = born) */
+  birthInfo?: BirthInfo;
+  /** Data da perda (status = loss) */
+  lossDate?: DateKey;
+  /** Quando a gestação deixou de estar ativa */
+  endedAt?: ISOTimestamp;
+
+  createdAt: ISOTimestamp;
+  updatedAt: ISOTimestamp;
+}
+
+/**
+ * Registro pertencente a uma gestação.
+ */
+export interface PregnancyScoped {
+  /** Ausente = DEFAULT_PREGNANCY_ID */
+  pregnancyId?: string;
+}
+
+/**
+ * Gestação a que um registro pertence.
+ */
+export function getPregnancyScope(record: PregnancyScoped): string {
+  return record.pregnancyId ?? DEFAULT_PREGNANCY_ID;
+}
+
+/**
+ * Registro pertencente a um bebê da gestação (gêmeos).
+ */
+export interface BabyScoped {
+  /** Ausente = DEFAULT_BABY_ID */
+  babyId?: string;
+}
+
+/**
+ * Bebê a que um registro pertence.
+ */
+export function getBabyScope(record: BabyScoped): string {
+  return record.babyId ?? DEFAULT_BABY_ID;
+}
+
+// ============================================
+// CONTEXTO PARA ENGINES
+// ============================================
+
+/**
+ * Gestação ativa vista pelas engines.
+ */
+export interface PregnancyContext {
+  pregnancyId: string;
+  status: PregnancyStatus;
+  gestationalWeek: number;
+  trimester: Trimester;
+  babies: BabyProfile[];
+  /** Nome para mensagens ("Ana" ou "Ana e Bia"); ausente sem nomes */
+  babyName?: string;
+  /** Gemelar ou mais */
+  isMultiple: boolean;
+  isFirstPregnancy: boolean | null;
+  /** Alguma gestação anterior terminou em perda? (tom mais cuidadoso) */
+  hasPreviousLoss: boolean;
+}
+
+// ============================================
+// REQUESTS / RESPONSES
+// ============================================
+
+/**
+ * Request para registrar uma nova gestação.
+ */
+export interface CreatePregnancyRequest {
+  dueDate: string;
+  /** Um item por bebê (gêmeos = 2) */
+  babies: Array<{ customName?: string }>;
+  isFirstPregnancy?: boolean;
+}
+
+/**
+ * Request para registrar uma perda gestacional.
+ */
+export interface RecordPregnancyLossRequest {
+  lossDate: string;
+}
+
+/**
+ * Resposta com uma gestação.
+ */
+export interface PregnancyResponse {
+  pregnancy: Pregnancy;
+}
+
+/**
+ * Gestações da conta (mais recente primeiro).
+ */
+export interface ListPregnanciesResponse {
+  /** null = nenhuma gestação ativa */
+  activePregnancyId: string | null;
+  pregnancies: Pregnancy[];
+}
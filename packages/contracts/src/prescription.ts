@@ -9,7 +9,7 @@
  * - Em dias difíceis, priorizar presença sobre desempenho
  */
 
-import type { DateKey, MetricKey } from "./shared";
+import type { DateKey, MetricKey, ISOTimestamp } from "./shared";
 
 // ============================================
 // TREINO PRESCRITO
@@ -97,17 +97,97 @@ export interface DailyPrescription {
   generatedAt: string;
 }
 
+// ============================================
+// PRESCRIÇÃO ARMAZENADA
+// ============================================
+
+/**
+ * Treino prescrito, como persistido.
+ * Espelha o output da Prescription Engine (tipos vêm do catálogo das engines).
+ */
+export interface StoredPrescribedTraining {
+  /** ID do treino do catálogo */
+  id: string;
+  
+  /** Tipo do treino no catálogo */
+  type: string;
+  
+  title: string;
+  description: string;
+  
+  /** Por que isso ajuda */
+  why: string;
+  
+  durationMinutes: number;
+  intensity: string;
+  focusMetric: MetricKey;
+  
+  /** Problema que este treino resolve */
+  targetsProblem: string;
+}
+
+/**
+ * Problema detectado na geração da prescrição.
+ */
+export interface StoredPrescriptionProblem {
+  type: "zone" | "flag" | "metric";
+  issue: string;
+  
+  /** 0 = máxima urgência */
+  priority: number;
+  
+  /** Tipos de treino recomendados */
+  recommendedTypes: string[];
+  
+  /** Valor da métrica (se aplicável) */
+  value?: number;
+}
+
+/**
+ * Prescrição do dia, gerada UMA vez por dateKey.
+ * Recargas retornam sempre a mesma prescrição.
+ * Collection: profiles/{uid}/prescriptions/{dateKey}
+ */
+export interface StoredPrescription {
+  uid: string;
+  
+  /** Chave do dia (YYYY-MM-DD, considera reset 04:00) */
+  dateKey: DateKey;
+  
+  /** Treinos (1-3) */
+  trainings: StoredPrescribedTraining[];
+  
+  /** Objetivo do dia */
+  goal: string;
+  
+  /** Tom da prescrição */
+  tone: "compassionate" | "gentle" | "balanced" | "encouraging" | "celebratory";
+  
+  /** Problemas detectados (transparência) */
+  detectedProblems: StoredPrescriptionProblem[];
+  
+  isFirstCheckin?: boolean;
+  
+  generatedAt: ISOTimestamp;
+}
+
 // ============================================
 // TREINO RESPONSE
 // ============================================
 
-/** Response ao buscar prescrição do dia */
+/** Response do GET /api/prescription */
 export interface GetPrescriptionResponse {
-  /** Prescrição do dia */
-  prescription: DailyPrescription;
+  /** Chave do dia atual (considera reset 04:00) */
+  dateKey: DateKey;
   
   /** Indica se já existe check-in (requisito) */
   hasCheckin: boolean;
+  
+  /** Prescrição do dia (null sem check-in) */
+  prescription: StoredPrescription | null;
+  
+  /** Treinos da prescrição já concluídos hoje */
+  completedTrainingIds: string[];
 }
 
 // ============================================
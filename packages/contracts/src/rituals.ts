@@ -242,6 +242,9 @@ export interface RitualEvaluationContext {
   /** Data atual (YYYY-MM-DD) */
   currentDate: string;
   
+  /** Timezone da usuária (default: America/Sao_Paulo) */
+  timezone?: string;
+  
   /** Trimestre atual */
   trimester: 1 | 2 | 3;
   
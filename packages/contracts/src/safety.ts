@@ -0,0 +1,146 @@
+/**
+ * @fluia/contracts - Safety Types
+ *
+ * Camada de segurança: detecção de crise e encaminhamento.
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - FLUIA não diagnostica: a intervenção ACOLHE e ENCAMINHA
+ * - Em crise, nada reflexivo (L3) ou acionável (L4) é exibido
+ * - Toda intervenção é registrada para auditoria (sem texto da usuária)
+ */
+
+import type { ISOTimestamp } from "./shared";
+import type { OutputLevel } from "./system";
+import type { RiskSignalType } from "./text-analysis";
+
+// ============================================
+// TIPOS BASE
+// ============================================
+
+/**
+ * Gravidade da intervenção.
+ * - attention: sinais que pedem cuidado extra
+ * - urgent: sinais fortes (sugerir ajuda profissional)
+ * - emergency: linguagem de crise (ajuda imediata)
+ */
+export type SafetySeverity = "attention" | "urgent" | "emergency";
+
+/** Onde o sinal foi detectado */
+export type SafetySource = "checkin" | "diary" | "prenatal_screening" | "postpartum_screening";
+
+/**
+ * Critério que acionou a intervenção.
+ * Sinais de linguagem (RiskSignalType) + critérios de estado e screening.
+ * - depression_risk_*: EPDS (gestação ou puerpério)
+ * - anxiety_risk_*: GAD-7
+ */
+export type SafetyTrigger =
+  | RiskSignalType
+  | "distress_language"
+  | "persistent_low_zone"
+  | "depression_risk_moderate"
+  | "depression_risk_high"
+  | "anxiety_risk_moderate"
+  | "anxiety_risk_high";
+
+// ============================================
+// RECURSOS DE AJUDA
+// ============================================
+
+/**
+ * Recurso de ajuda exibido na intervenção.
+ */
+export interface SafetyResource {
+  id: string;
+  name: string;
+  description: string;
+  /** Telefone ou endereço */
+  contact: string;
+  /** Disponibilidade (ex: "24h, gratuito") */
+  availability: string;
+}
+
+/** Recursos de ajuda (Brasil) */
+export const SAFETY_RESOURCES = {
+  cvv: {
+    id: "cvv",
+    name: "CVV — Centro de Valorização da Vida",
+    description: "Apoio emocional e prevenção do suicídio, por telefone ou chat.",
+    contact: "188",
+    availability: "24h, gratuito",
+  },
+  samu: {
+    id: "samu",
+    name: "SAMU",
+    description: "Atendimento de urgência quando há perigo imediato.",
+    contact: "192",
+    availability: "24h, gratuito",
+  },
+  emergencyRoom: {
+    id: "emergency-room",
+    name: "Pronto-socorro",
+    description: "Vá ao pronto-socorro mais próximo se estiver em perigo.",
+    contact: "Pronto-socorro mais próximo",
+    availability: "24h",
+  },
+  healthCare: {
+    id: "health-care",
+    name: "Seu pré-natal / UBS / CAPS",
+    description: "Converse com quem acompanha sua gestação ou procure a UBS ou o CAPS mais próximos.",
+    contact: "UBS ou CAPS mais próximos",
+    availability: "Horário de atendimento",
+  },
+} as const satisfies Record<string, SafetyResource>;
+
+// ============================================
+// INTERVENÇÃO
+// ============================================
+
+/**
+ * Intervenção de segurança (output da Safety Engine).
+ * null = nenhum critério atingido.
+ */
+export interface SafetyIntervention {
+  severity: SafetySeverity;
+  source: SafetySource;
+
+  /** Critérios atingidos */
+  triggers: SafetyTrigger[];
+
+  /** Mensagem acolhedora (nunca alarmista, nunca diagnóstica) */
+  message: string;
+
+  /** Orientação de emergência (SYSTEM_DISCLAIMERS.emergency) */
+  emergencyGuidance?: string;
+
+  /** Recursos de ajuda, na ordem de exibição */
+  resources: SafetyResource[];
+
+  /** Níveis de output suprimidos enquanto a intervenção vale */
+  suppressedOutputLevels: OutputLevel[];
+
+  /** Micromomentos bloqueados? */
+  blockMicromoments: boolean;
+
+  evaluatedAt: ISOTimestamp;
+}
+
+// ============================================
+// AUDITORIA
+// ============================================
+
+/**
+ * Registro de auditoria de uma intervenção (append-only).
+ * Firestore: profiles/{uid}/safety/{eventId}
+ * Nunca contém o texto da usuária.
+ */
+export interface SafetyEvent {
+  action: "intervention_triggered";
+  source: SafetySource;
+  severity: SafetySeverity;
+  triggers: SafetyTrigger[];
+  suppressedOutputLevels: OutputLevel[];
+  /** Referência da origem (dateKey do check-in, ID da entrada do diário...) */
+  sourceRef?: string;
+  timestamp: ISOTimestamp;
+}
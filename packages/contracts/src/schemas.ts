@@ -0,0 +1,806 @@
+/**
+ * @fluia/contracts - Schemas
+ *
+ * Schemas de runtime dos requests da API.
+ * Cada schema é tipado pelo contrato correspondente (Validator<T>),
+ * garantindo que tipo e validação evoluam juntos.
+ *
+ * Uso nas API routes:
+ *   const result = validate(dailyCheckinInputSchema, await request.json());
+ *   if (!result.success) return 400 + toValidationErrorResponse(result.errors)
+ */
+
+import {
+  string,
+  number,
+  boolean,
+  oneOf,
+  isoDate,
+  optional,
+  array,
+  object,
+  record,
+  discriminated,
+  type Validator,
+} from "./validation";
+import type { ScaleValue, DayMoment, MetricKey } from "./shared";
+import type { Trimester } from "./baby-voice";
+import type { CreateSessionRequest, OnboardingStepRequest } from "./auth";
+import type { CheckinDimensions, DailyCheckinInput } from "./checkin";
+import type {
+  TrainingStartRequest,
+  TrainingCompleteRequest,
+  FeedbackTemplate,
+  Badge,
+} from "./training";
+import {
+  MICROMOMENT_RULES_SCHEMA_VERSION,
+  type MicromomentType,
+  type MicromomentFrequencyRules,
+  type MicromomentTrigger,
+  type MicromomentCohortFilter,
+  type MicromomentRulesOverride,
+  type MicromomentRulesConfig,
+  type AcceptMicromomentRequest,
+  type DismissMicromomentRequest,
+} from "./micromoments";
+import type {
+  MilestoneType,
+  PersonalMilestoneKind,
+  MarkMilestoneSeenRequest,
+  ExploreMilestoneProductRequest,
+  CreatePersonalMilestoneRequest,
+} from "./milestones";
+import type {
+  RitualType,
+  StartRitualRequest,
+  CompleteRitualRequest,
+  SkipRitualRequest,
+} from "./rituals";
+import type {
+  EmotionalPillar,
+  GetEmotionalPatternsRequest,
+  GetWeeklyTrendsRequest,
+  GetPillarInsightsRequest,
+  GetMonthlyReportRequest,
+} from "./interpretation";
+import type {
+  LetterType,
+  CapsuleItem,
+  GenerateLetterRequest,
+  SaveLetterRequest,
+  SaveCapsuleRequest,
+} from "./memory";
+import type {
+  ReflectionType,
+  DiaryPrompt,
+  LetterTemplate,
+  SaveGuidedDiaryRequest,
+  SaveTemplatedLetterRequest,
+  GenerateReflectionRequest,
+  AddUserReflectionRequest,
+} from "./coauthoring";
+import type {
+  PostpartumPillar,
+  PostpartumPhase,
+  JourneyMode,
+  PostpartumDiaryPrompt,
+  BirthInfo,
+  StartTransitionRequest,
+  SavePostpartumDiaryRequest,
+  SaveCombinedCheckinRequest,
+} from "./postpartum";
+import {
+  EPDS_QUESTIONS,
+  type ScreeningAnswer,
+  type ScreeningInstrument,
+  type SubmitEPDSRequest,
+  type SubmitPrenatalScreeningRequest,
+} from "./screening";
+import {
+  MAX_BABIES_PER_GESTATION,
+  type CreatePregnancyRequest,
+  type RecordPregnancyLossRequest,
+} from "./pregnancy";
+import type {
+  BabyLogEntryType,
+  FeedingMethod,
+  FeedingSide,
+  DiaperKind,
+  AddBabyLogEntryRequest,
+} from "./baby-log";
+import {
+  CONTENT_SCHEMA_VERSION,
+  CATALOG_TRAINING_TYPES,
+  CATALOG_TRAINING_INTENSITIES,
+  type ContentPackage,
+  type CatalogTraining,
+} from "./content";
+
+// ============================================
+// LIMITES DE TEXTO
+// ============================================
+
+/** Tamanhos máximos de campos livres */
+const TEXT_LIMITS = {
+  id: 128,
+  name: 60,
+  title: 120,
+  note: 2000,
+  longText: 10000,
+  url: 2048,
+  listItems: 20,
+} as const;
+
+// ============================================
+// ENUMS (valores de runtime dos union types)
+// ============================================
+
+const SCALE_VALUES: readonly ScaleValue[] = [1, 2, 3, 4, 5];
+
+const DAY_MOMENTS: readonly DayMoment[] = ["morning", "afternoon", "evening", "night"];
+
+const MICROMOMENT_TYPES: readonly MicromomentType[] = ["MM2", "MM3", "MM4", "MM5", "MM6"];
+
+const TRIMESTERS: readonly Trimester[] = [1, 2, 3];
+
+const MILESTONE_TYPES: readonly MilestoneType[] = [
+  "PRESENCE_7",
+  "PRESENCE_30",
+  "PRESENCE_60",
+  "PRESENCE_100",
+  "JOURNEY_COMPLETE",
+  "NEW_WEEK",
+  "TRIMESTER_1_END",
+  "TRIMESTER_2_END",
+  "TERM_37",
+  "DUE_DATE_40",
+  "PERSONAL",
+];
+
+const PERSONAL_MILESTONE_KINDS: readonly PersonalMilestoneKind[] = [
+  "first_kick",
+  "ultrasound",
+  "baby_shower",
+  "maternity_leave",
+  "custom",
+];
+
+const RITUAL_TYPES: readonly RitualType[] = ["morning", "evening", "sunday", "trimester"];
+
+const EMOTIONAL_PILLARS: readonly EmotionalPillar[] = ["BS", "RE", "RS", "CA"];
+
+const LETTER_TYPES: readonly LetterType[] = [
+  "first_heartbeat",
+  "first_kick",
+  "weekly",
+  "monthly",
+  "trimester",
+  "milestone",
+  "custom",
+];
+
+const CAPSULE_ITEM_TYPES: readonly CapsuleItem["type"][] = [
+  "letter",
+  "photo",
+  "audio",
+  "milestone",
+  "quote",
+  "stats",
+  "message",
+];
+
+const REFLECTION_TYPES: readonly ReflectionType[] = [
+  "weekly",
+  "monthly",
+  "trimester",
+  "milestone",
+  "challenge",
+  "growth",
+];
+
+const POSTPARTUM_PILLARS: readonly PostpartumPillar[] = ["RF", "SE", "VB", "RA"];
+
+const SCREENING_INSTRUMENTS: readonly ScreeningInstrument[] = ["epds", "gad7"];
+
+const FEEDING_METHODS: readonly FeedingMethod[] = ["breast", "bottle_breastmilk", "formula"];
+
+const FEEDING_SIDES: readonly FeedingSide[] = ["left", "right", "both"];
+
+const DIAPER_KINDS: readonly DiaperKind[] = ["wet", "dirty", "mixed"];
+
+const METRIC_KEYS: readonly MetricKey[] = ["RE", "BS", "RS", "CA"];
+
+const FEEDBACK_CONTEXTS: readonly FeedbackTemplate["context"][] = [
+  "completion",
+  "streak",
+  "firstTime",
+  "difficult_day",
+  "incomplete",
+];
+
+const BADGE_CONDITION_TYPES: readonly Badge["condition"]["type"][] = [
+  "streak",
+  "total_trainings",
+  "category_focus",
+  "first_checkin",
+  "first_training",
+];
+
+const DIARY_PROMPT_CATEGORIES: readonly DiaryPrompt["category"][] = [
+  "emotion",
+  "body",
+  "baby",
+  "gratitude",
+  "challenge",
+  "dream",
+  "reflection",
+  "milestone",
+];
+
+const LETTER_TEMPLATE_CATEGORIES: readonly LetterTemplate["category"][] = [
+  "milestone",
+  "weekly",
+  "emotion",
+  "event",
+  "future",
+  "gratitude",
+  "advice",
+];
+
+const LETTER_SECTION_TYPES: readonly LetterTemplate["sections"][number]["type"][] = [
+  "opening",
+  "body",
+  "prompt",
+  "closing",
+  "free",
+];
+
+const POSTPARTUM_PROMPT_CATEGORIES: readonly PostpartumDiaryPrompt["category"][] = [
+  "recovery",
+  "emotion",
+  "bonding",
+  "support",
+  "sleep",
+  "feeding",
+  "identity",
+  "relationship",
+];
+
+const POSTPARTUM_PHASES: readonly PostpartumPhase[] = ["immediate", "early", "late", "extended"];
+
+const JOURNEY_MODES: readonly JourneyMode[] = ["gestante", "mae"];
+
+// ============================================
+// BLOCOS REUTILIZÁVEIS
+// ============================================
+
+const id = (): Validator<string> => string({ maxLength: TEXT_LIMITS.id });
+const scale = (): Validator<ScaleValue> => oneOf(SCALE_VALUES);
+const tags = () => optional(array(string({ maxLength: TEXT_LIMITS.name }), { maxLength: TEXT_LIMITS.listItems }));
+const photoUrl = () => optional(string({ maxLength: TEXT_LIMITS.url }));
+const text = (maxLength: number = TEXT_LIMITS.note) => string({ maxLength });
+const weekRange = () =>
+  optional(
+    object({
+      min: number({ min: 1, max: 42, integer: true }),
+      max: number({ min: 1, max: 42, integer: true }),
+    })
+  );
+
+// ============================================
+// AUTH
+// ============================================
+
+export const createSessionRequestSchema: Validator<CreateSessionRequest> = object({
+  idToken: string({ maxLength: TEXT_LIMITS.longText }),
+});
+
+export const onboardingStepRequestSchema: Validator<OnboardingStepRequest> = object({
+  step: number({ min: 0, max: 10, integer: true }),
+  data: object({
+    dueDate: optional(isoDate()),
+    isFirstPregnancy: optional(boolean()),
+    baselineMood: optional(number({ min: 1, max: 5, integer: true })),
+    consentHealthData: optional(boolean()),
+    babyCustomName: optional(string({ maxLength: TEXT_LIMITS.name })),
+    onboardingCompleted: optional(boolean()),
+  }),
+});
+
+// ============================================
+// CHECK-IN
+// ============================================
+
+export const checkinDimensionsSchema: Validator<CheckinDimensions> = object({
+  mood: scale(),
+  energy: scale(),
+  body: scale(),
+  bond: scale(),
+});
+
+export const dailyCheckinInputSchema: Validator<DailyCheckinInput> = object({
+  dimensions: checkinDimensionsSchema,
+  emotions: tags(),
+  notes: optional(string({ minLength: 0, maxLength: TEXT_LIMITS.note })),
+  moment: oneOf(DAY_MOMENTS),
+});
+
+// ============================================
+// TRAINING
+// ============================================
+
+export const trainingStartRequestSchema: Validator<TrainingStartRequest> = object({
+  trainingId: id(),
+});
+
+export const trainingCompleteRequestSchema: Validator<TrainingCompleteRequest> = object({
+  trainingId: id(),
+  actualDurationSeconds: optional(number({ min: 0, max: 24 * 60 * 60, integer: true })),
+  userRating: optional(scale()),
+  perceivedEffort: optional(scale()),
+  notes: optional(string({ minLength: 0, maxLength: TEXT_LIMITS.note })),
+});
+
+// ============================================
+// MICROMOMENTS
+// ============================================
+
+export const acceptMicromomentRequestSchema: Validator<AcceptMicromomentRequest> = object({
+  micromomentId: id(),
+  type: oneOf(MICROMOMENT_TYPES),
+});
+
+export const dismissMicromomentRequestSchema: Validator<DismissMicromomentRequest> = object({
+  micromomentId: id(),
+  type: oneOf(MICROMOMENT_TYPES),
+});
+
+/** Contagens e dias das regras (inteiros não negativos) */
+const ruleCount = (): Validator<number> => number({ min: 0, max: 365, integer: true });
+
+const micromomentFrequencyRulesSchema: Validator<MicromomentFrequencyRules> = object({
+  gracePeriodPresence: ruleCount(),
+  maxPerDay: ruleCount(),
+  maxPerWeek: ruleCount(),
+  cooldownAfterDismissDays: ruleCount(),
+  cooldownAfterAcceptDays: ruleCount(),
+  showToPremium: boolean(),
+});
+
+const micromomentFrequencyOverrideSchema: Validator<Partial<MicromomentFrequencyRules>> = object({
+  gracePeriodPresence: optional(ruleCount()),
+  maxPerDay: optional(ruleCount()),
+  maxPerWeek: optional(ruleCount()),
+  cooldownAfterDismissDays: optional(ruleCount()),
+  cooldownAfterAcceptDays: optional(ruleCount()),
+  showToPremium: optional(boolean()),
+});
+
+const micromomentZones = (): Validator<ScaleValue[]> =>
+  array(scale(), { minLength: 1, maxLength: SCALE_VALUES.length });
+
+const micromomentPillars = (): Validator<EmotionalPillar[]> =>
+  array(oneOf(EMOTIONAL_PILLARS), { minLength: 1, maxLength: EMOTIONAL_PILLARS.length });
+
+const micromomentModes = (): Validator<JourneyMode[]> =>
+  array(oneOf(JOURNEY_MODES), { minLength: 1, maxLength: JOURNEY_MODES.length });
+
+const micromomentPhases = (): Validator<PostpartumPhase[]> =>
+  array(oneOf(POSTPARTUM_PHASES), { minLength: 1, maxLength: POSTPARTUM_PHASES.length });
+
+const micromomentTriggerSchema: Validator<MicromomentTrigger> = object({
+  zones: micromomentZones(),
+  pillars: optional(micromomentPillars()),
+  requiresPractice: boolean(),
+  requiresCompletedJourneys: optional(ruleCount()),
+  minPresenceDays: ruleCount(),
+  modes: optional(micromomentModes()),
+  phases: optional(micromomentPhases()),
+});
+
+const micromomentTriggerOverrideSchema: Validator<Partial<MicromomentTrigger>> = object({
+  zones: optional(micromomentZones()),
+  pillars: optional(micromomentPillars()),
+  requiresPractice: optional(boolean()),
+  requiresCompletedJourneys: optional(ruleCount()),
+  minPresenceDays: optional(ruleCount()),
+  modes: optional(micromomentModes()),
+  phases: optional(micromomentPhases()),
+});
+
+const micromomentCohortFilterSchema: Validator<MicromomentCohortFilter> = object({
+  isFirstPregnancy: optional(boolean()),
+  trimesters: optional(array(oneOf(TRIMESTERS), { minLength: 1, maxLength: TRIMESTERS.length })),
+  isPremium: optional(boolean()),
+});
+
+const micromomentRulesOverrideSchema: Validator<MicromomentRulesOverride> = object({
+  id: id(),
+  when: micromomentCohortFilterSchema,
+  rules: optional(micromomentFrequencyOverrideSchema),
+  triggers: optional(record(MICROMOMENT_TYPES, optional(micromomentTriggerOverrideSchema))),
+});
+
+/**
+ * Configuração de regras de micromomento.
+ * Coerência entre regras (limites, coortes) é verificada pelo loader das engines.
+ */
+export const micromomentRulesConfigSchema: Validator<MicromomentRulesConfig> = object({
+  schemaVersion: oneOf([MICROMOMENT_RULES_SCHEMA_VERSION] as const),
+  version: string({ pattern: /^\d+\.\d+\.\d+$/ }),
+  publishedAt: isoDate(),
+  notes: optional(text()),
+  rules: micromomentFrequencyRulesSchema,
+  triggers: record(MICROMOMENT_TYPES, micromomentTriggerSchema),
+  overrides: array(micromomentRulesOverrideSchema, { maxLength: 50 }),
+});
+
+// ============================================
+// MILESTONES
+// ============================================
+
+export const markMilestoneSeenRequestSchema: Validator<MarkMilestoneSeenRequest> = object({
+  milestoneId: id(),
+  type: oneOf(MILESTONE_TYPES),
+});
+
+export const exploreMilestoneProductRequestSchema: Validator<ExploreMilestoneProductRequest> =
+  object({
+    milestoneId: id(),
+    type: oneOf(MILESTONE_TYPES),
+    productId: id(),
+  });
+
+export const createPersonalMilestoneRequestSchema: Validator<CreatePersonalMilestoneRequest> =
+  object({
+    kind: oneOf(PERSONAL_MILESTONE_KINDS),
+    title: optional(string({ maxLength: TEXT_LIMITS.title })),
+    date: isoDate(),
+    note: optional(text()),
+    photoUrl: photoUrl(),
+  });
+
+// ============================================
+// RITUALS
+// ============================================
+
+export const startRitualRequestSchema: Validator<StartRitualRequest> = object({
+  ritualId: id(),
+  type: oneOf(RITUAL_TYPES),
+});
+
+export const completeRitualRequestSchema: Validator<CompleteRitualRequest> = object({
+  ritualId: id(),
+  type: oneOf(RITUAL_TYPES),
+  durationSeconds: number({ min: 0, max: 24 * 60 * 60, integer: true }),
+});
+
+export const skipRitualRequestSchema: Validator<SkipRitualRequest> = object({
+  ritualId: id(),
+  type: oneOf(RITUAL_TYPES),
+});
+
+// ============================================
+// INTERPRETATION
+// ============================================
+
+export const getEmotionalPatternsRequestSchema: Validator<GetEmotionalPatternsRequest> = object({
+  days: optional(number({ min: 1, max: 90, integer: true })),
+});
+
+export const getWeeklyTrendsRequestSchema: Validator<GetWeeklyTrendsRequest> = object({
+  referenceDate: optional(isoDate()),
+});
+
+export const getPillarInsightsRequestSchema: Validator<GetPillarInsightsRequest> = object({
+  pillar: optional(oneOf(EMOTIONAL_PILLARS)),
+});
+
+export const getMonthlyReportRequestSchema: Validator<GetMonthlyReportRequest> = object({
+  month: optional(number({ min: 1, max: 12, integer: true })),
+  year: optional(number({ min: 2000, max: 2100, integer: true })),
+});
+
+// ============================================
+// MEMORY
+// ============================================
+
+export const generateLetterRequestSchema: Validator<GenerateLetterRequest> = object({
+  type: oneOf(LETTER_TYPES),
+  prompt: optional(string({ maxLength: TEXT_LIMITS.note })),
+});
+
+export const saveLetterRequestSchema: Validator<SaveLetterRequest> = object({
+  letterId: optional(id()),
+  type: oneOf(LETTER_TYPES),
+  title: string({ maxLength: TEXT_LIMITS.title }),
+  content: string({ maxLength: TEXT_LIMITS.longText }),
+  photoUrl: photoUrl(),
+});
+
+export const saveCapsuleRequestSchema: Validator<SaveCapsuleRequest> = object({
+  capsuleId: optional(id()),
+  title: string({ maxLength: TEXT_LIMITS.title }),
+  openingMessage: string({ maxLength: TEXT_LIMITS.note }),
+  openDate: isoDate(),
+  items: array(
+    object({
+      type: oneOf(CAPSULE_ITEM_TYPES),
+      title: string({ maxLength: TEXT_LIMITS.title }),
+      content: string({ maxLength: TEXT_LIMITS.longText }),
+      mediaUrl: optional(string({ maxLength: TEXT_LIMITS.url })),
+    }),
+    { maxLength: 50 }
+  ),
+  closingMessage: string({ maxLength: TEXT_LIMITS.note }),
+});
+
+// ============================================
+// COAUTHORING
+// ============================================
+
+export const saveGuidedDiaryRequestSchema: Validator<SaveGuidedDiaryRequest> = object({
+  entryId: optional(id()),
+  promptId: id(),
+  response: string({ maxLength: TEXT_LIMITS.longText }),
+  tags: tags(),
+  photoUrl: photoUrl(),
+});
+
+export const saveTemplatedLetterRequestSchema: Validator<SaveTemplatedLetterRequest> = object({
+  letterId: optional(id()),
+  templateId: id(),
+  title: string({ maxLength: TEXT_LIMITS.title }),
+  sections: array(
+    object({
+      sectionId: id(),
+      content: string({ minLength: 0, maxLength: TEXT_LIMITS.longText }),
+    }),
+    { maxLength: TEXT_LIMITS.listItems }
+  ),
+  photoUrl: photoUrl(),
+});
+
+export const generateReflectionRequestSchema: Validator<GenerateReflectionRequest> = object({
+  type: oneOf(REFLECTION_TYPES),
+});
+
+export const addUserReflectionRequestSchema: Validator<AddUserReflectionRequest> = object({
+  reflectionId: id(),
+  userReflection: string({ maxLength: TEXT_LIMITS.longText }),
+});
+
+// ============================================
+// PREGNANCY
+// ============================================
+
+export const createPregnancyRequestSchema: Validator<CreatePregnancyRequest> = object({
+  dueDate: isoDate(),
+  babies: array(object({ customName: optional(string({ maxLength: TEXT_LIMITS.name })) }), {
+    minLength: 1,
+    maxLength: MAX_BABIES_PER_GESTATION,
+  }),
+  isFirstPregnancy: optional(boolean()),
+});
+
+export const recordPregnancyLossRequestSchema: Validator<RecordPregnancyLossRequest> = object({
+  lossDate: isoDate(),
+});
+
+// ============================================
+// POSTPARTUM
+// ============================================
+
+export const birthInfoSchema: Validator<BirthInfo> = object({
+  birthDate: isoDate(),
+  birthTime: optional(string({ pattern: /^\d{2}:\d{2}$/ })),
+  birthType: oneOf(["vaginal", "cesarean", "other"] as const),
+  babyWeightGrams: optional(number({ min: 300, max: 7000, integer: true })),
+  babyHeightCm: optional(number({ min: 20, max: 70 })),
+  babyName: string({ maxLength: TEXT_LIMITS.name }),
+  babySex: optional(oneOf(["male", "female", "prefer_not_say"] as const)),
+  birthPlace: optional(string({ maxLength: TEXT_LIMITS.title })),
+  birthNotes: optional(string({ minLength: 0, maxLength: TEXT_LIMITS.note })),
+});
+
+export const startTransitionRequestSchema: Validator<StartTransitionRequest> = object({
+  birthInfo: birthInfoSchema,
+});
+
+export const savePostpartumDiaryRequestSchema: Validator<SavePostpartumDiaryRequest> = object({
+  entryId: optional(id()),
+  promptId: id(),
+  response: string({ maxLength: TEXT_LIMITS.longText }),
+  tags: tags(),
+  photoUrl: photoUrl(),
+});
+
+export const saveCombinedCheckinRequestSchema: Validator<SaveCombinedCheckinRequest> = object({
+  motherCheckin: object({
+    zone: number({ min: 1, max: 5, integer: true }),
+    scores: record(POSTPARTUM_PILLARS, number({ min: 0, max: 100 })),
+    sleepQuality: scale(),
+    sleepHours: optional(number({ min: 0, max: 24 })),
+    painLevel: optional(number({ min: 0, max: 10, integer: true })),
+    isBreastfeeding: optional(boolean()),
+    breastfeedingChallenges: tags(),
+  }),
+  babyCheckin: object({
+    babyId: optional(id()),
+    sleepHours: optional(number({ min: 0, max: 24 })),
+    feedingCount: optional(number({ min: 0, max: 48, integer: true })),
+    babyMood: number({ min: 1, max: 5, integer: true }),
+    milestones: tags(),
+    currentWeightGrams: optional(number({ min: 300, max: 30000, integer: true })),
+    notes: optional(string({ minLength: 0, maxLength: TEXT_LIMITS.note })),
+    photoUrl: photoUrl(),
+  }),
+});
+
+// ============================================
+// BABY LOG
+// ============================================
+
+// Coerência entre campos (fim após início, lado só no peito) é checada na API
+
+/** Schema de cada tipo de registro, escolhido pelo campo `type` */
+const BABY_LOG_ENTRY_SCHEMAS: {
+  [K in BabyLogEntryType]: Validator<Extract<AddBabyLogEntryRequest, { type: K }>>;
+} = {
+  sleep: object({
+    type: oneOf(["sleep"] as const),
+    babyId: optional(id()),
+    startedAt: isoDate(),
+    endedAt: isoDate(),
+  }),
+  feeding: object({
+    type: oneOf(["feeding"] as const),
+    babyId: optional(id()),
+    at: isoDate(),
+    method: oneOf(FEEDING_METHODS),
+    side: optional(oneOf(FEEDING_SIDES)),
+    durationMinutes: optional(number({ min: 1, max: 180, integer: true })),
+    volumeMl: optional(number({ min: 1, max: 500, integer: true })),
+  }),
+  diaper: object({
+    type: oneOf(["diaper"] as const),
+    babyId: optional(id()),
+    at: isoDate(),
+    kind: oneOf(DIAPER_KINDS),
+  }),
+  weight: object({
+    type: oneOf(["weight"] as const),
+    babyId: optional(id()),
+    at: isoDate(),
+    weightGrams: number({ min: 300, max: 30000, integer: true }),
+  }),
+};
+
+export const addBabyLogEntryRequestSchema: Validator<AddBabyLogEntryRequest> =
+  discriminated<AddBabyLogEntryRequest>(BABY_LOG_ENTRY_SCHEMAS);
+
+// ============================================
+// SCREENING
+// ============================================
+
+// Itens completos e opções válidas são checados no scoring (screening-engine)
+
+/** Respostas de qualquer questionário (EPDS é o maior) */
+const screeningAnswers = (): Validator<ScreeningAnswer[]> =>
+  array(
+    object({
+      questionId: number({ min: 1, max: EPDS_QUESTIONS.length, integer: true }),
+      optionIndex: number({ min: 0, max: 3, integer: true }),
+    }),
+    { maxLength: EPDS_QUESTIONS.length }
+  );
+
+export const submitEPDSRequestSchema: Validator<SubmitEPDSRequest> = object({
+  answers: screeningAnswers(),
+});
+
+export const submitPrenatalScreeningRequestSchema: Validator<SubmitPrenatalScreeningRequest> =
+  object({
+    instrument: oneOf(SCREENING_INSTRUMENTS),
+    answers: screeningAnswers(),
+  });
+
+// ============================================
+// CONTENT (pacote de conteúdo)
+// ============================================
+
+const catalogTrainingSchema: Validator<CatalogTraining> = object({
+  id: id(),
+  type: oneOf(CATALOG_TRAINING_TYPES),
+  title: text(TEXT_LIMITS.title),
+  description: text(),
+  whyTemplate: text(),
+  durationMinutes: oneOf([1, 2, 3, 4, 5] as const),
+  intensity: oneOf(CATALOG_TRAINING_INTENSITIES),
+  focusMetric: oneOf(METRIC_KEYS),
+  bestFor: array(id(), { maxLength: TEXT_LIMITS.listItems }),
+  minZone: scale(),
+  maxZone: scale(),
+  instructions: array(text(), { maxLength: TEXT_LIMITS.listItems }),
+});
+
+const feedbackTemplateSchema: Validator<FeedbackTemplate> = object({
+  context: oneOf(FEEDBACK_CONTEXTS),
+  messages: array(text(), { maxLength: TEXT_LIMITS.listItems }),
+});
+
+const badgeSchema: Validator<Badge> = object({
+  id: id(),
+  name: text(TEXT_LIMITS.name),
+  description: text(),
+  icon: string({ maxLength: 16 }),
+  condition: object({
+    type: oneOf(BADGE_CONDITION_TYPES),
+    value: optional(number({ min: 1, max: 1000, integer: true })),
+    category: optional(oneOf(METRIC_KEYS)),
+  }),
+});
+
+const diaryPromptSchema: Validator<DiaryPrompt> = object({
+  promptId: id(),
+  category: oneOf(DIARY_PROMPT_CATEGORIES),
+  text: text(),
+  alternativeText: optional(text()),
+  isContextual: boolean(),
+  relevantZones: optional(array(scale(), { maxLength: 5 })),
+  relevantWeeks: weekRange(),
+  placeholder: text(),
+  writingTip: optional(text()),
+});
+
+const letterTemplateSchema: Validator<LetterTemplate> = object({
+  templateId: id(),
+  category: oneOf(LETTER_TEMPLATE_CATEGORIES),
+  title: text(TEXT_LIMITS.title),
+  description: text(),
+  sections: array(
+    object({
+      sectionId: id(),
+      order: number({ min: 1, max: TEXT_LIMITS.listItems, integer: true }),
+      type: oneOf(LETTER_SECTION_TYPES),
+      label: text(TEXT_LIMITS.title),
+      guideText: text(),
+      exampleText: optional(text()),
+      placeholder: text(),
+      required: boolean(),
+      prefillText: optional(text()),
+    }),
+    { maxLength: TEXT_LIMITS.listItems }
+  ),
+  relevantWeeks: weekRange(),
+  relevantZones: optional(array(scale(), { maxLength: 5 })),
+  icon: string({ maxLength: 16 }),
+  themeColor: string({ pattern: /^#[0-9a-fA-F]{6}$/ }),
+});
+
+const postpartumDiaryPromptSchema: Validator<PostpartumDiaryPrompt> = object({
+  promptId: id(),
+  category: oneOf(POSTPARTUM_PROMPT_CATEGORIES),
+  text: text(),
+  relevantPhases: array(oneOf(POSTPARTUM_PHASES), { maxLength: POSTPARTUM_PHASES.length }),
+  placeholder: text(),
+  writingTip: optional(text()),
+});
+
+/**
+ * Pacote de conteúdo completo.
+ * Integridade entre itens (IDs únicos, zonas) é verificada pelo loader das engines.
+ */
+export const contentPackageSchema: Validator<ContentPackage> = object({
+  schemaVersion: oneOf([CONTENT_SCHEMA_VERSION] as const),
+  version: string({ pattern: /^\d+\.\d+\.\d+$/ }),
+  publishedAt: isoDate(),
+  notes: optional(text()),
+  trainings: array(catalogTrainingSchema, { maxLength: 500 }),
+  feedbacks: array(feedbackTemplateSchema, { maxLength: FEEDBACK_CONTEXTS.length }),
+  badges: array(badgeSchema, { maxLength: 100 }),
+  diaryPrompts: array(diaryPromptSchema, { maxLength: 500 }),
+  letterTemplates: array(letterTemplateSchema, { maxLength: 100 }),
+  postpartumPrompts: array(postpartumDiaryPromptSchema, { maxLength: 500 }),
+});
@@ -0,0 +1,429 @@
+/**
+ * @fluia/contracts - Screening Types
+ *
+ * Questionários validados de rastreio emocional.
+ * - EPDS (Edinburgh Postnatal Depression Scale): gestação e puerpério
+ * - GAD-7 (Generalized Anxiety Disorder): gestação
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Rastreio NÃO é diagnóstico: o resultado acolhe e encaminha
+ * - Itens e pontuação seguem a escala original (versão brasileira validada)
+ * - Item 10 (autolesão) pontuado > 0 sempre aciona a camada de segurança
+ * - Histórico: profiles/{uid}/screenings/{screeningId}
+ */
+
+import type { ISOTimestamp } from "./shared";
+import type { PostpartumPhase } from "./postpartum";
+import type { Trimester } from "./baby-voice";
+import type { SafetyIntervention } from "./safety";
+
+// ============================================
+// TIPOS BASE
+// ============================================
+
+/** Questionários disponíveis */
+export type ScreeningInstrument = "epds" | "gad7";
+
+/** Período em que o questionário foi respondido */
+export type ScreeningPeriod = "prenatal" | "postpartum";
+
+/** Nível de risco do rastreio */
+export type ScreeningRiskLevel = "low" | "moderate" | "high";
+
+/**
+ * Opção de resposta de um item.
+ * A pontuação é explícita porque alguns itens são invertidos.
+ */
+export interface ScreeningOption {
+  label: string;
+  score: 0 | 1 | 2 | 3;
+}
+
+/**
+ * Item do questionário.
+ */
+export interface ScreeningQuestion {
+  /** Número do item (1-based, como na escala original) */
+  id: number;
+  text: string;
+  /** Opções na ordem de exibição */
+  options: ScreeningOption[];
+}
+
+/**
+ * Resposta de um item.
+ */
+export interface ScreeningAnswer {
+  questionId: number;
+  /** Índice da opção escolhida (na ordem de exibição) */
+  optionIndex: number;
+}
+
+// ============================================
+// EPDS
+// ============================================
+
+/** Instrução exibida antes do questionário */
+export const EPDS_INSTRUCTIONS =
+  "Marque a resposta que melhor descreve como você tem se sentido nos últimos 7 dias, e não apenas hoje.";
+
+/**
+ * Itens da EPDS (versão brasileira).
+ * Itens 1, 2 e 4 pontuam de 0 a 3; os demais são invertidos (3 a 0).
+ */
+export const EPDS_QUESTIONS: ScreeningQuestion[] = [
+  {
+    id: 1,
+    text: "Eu tenho sido capaz de rir e achar graça das coisas",
+    options: [
+      { label: "Como eu sempre fiz", score: 0 },
+      { label: "Não tanto quanto antes", score: 1 },
+      { label: "Sem dúvida, menos que antes", score: 2 },
+      { label: "De jeito nenhum", score: 3 },
+    ],
+  },
+  {
+    id: 2,
+    text: "Eu sinto prazer quando penso no que está por acontecer no meu dia a dia",
+    options: [
+      { label: "Como sempre senti", score: 0 },
+      { label: "Talvez menos do que antes", score: 1 },
+      { label: "Com certeza menos", score: 2 },
+      { label: "De jeito nenhum", score: 3 },
+    ],
+  },
+  {
+    id: 3,
+    text: "Eu tenho me culpado sem necessidade quando as coisas saem erradas",
+    options: [
+      { label: "Sim, na maioria das vezes", score: 3 },
+      { label: "Sim, algumas vezes", score: 2 },
+      { label: "Não muitas vezes", score: 1 },
+      { label: "Não, nenhuma vez", score: 0 },
+    ],
+  },
+  {
+    id: 4,
+    text: "Eu tenho me sentido ansiosa ou preocupada sem uma boa razão",
+    options: [
+      { label: "Não, de maneira alguma", score: 0 },
+      { label: "Pouquíssimas vezes", score: 1 },
+      { label: "Sim, algumas vezes", score: 2 },
+      { label: "Sim, muitas vezes", score: 3 },
+    ],
+  },
+  {
+    id: 5,
+    text: "Eu tenho me sentido assustada ou em pânico sem um bom motivo",
+    options: [
+      { label: "Sim, muitas vezes", score: 3 },
+      { label: "Sim, algumas vezes", score: 2 },
+      { label: "Não muitas vezes", score: 1 },
+      { label: "Não, nenhuma vez", score: 0 },
+    ],
+  },
+  {
+    id: 6,
+    text: "Eu tenho me sentido sobrecarregada pelas tarefas e acontecimentos do meu dia a dia",
+    options: [
+      { label: "Sim, na maioria das vezes não consigo lidar bem com eles", score: 3 },
+      { label: "Sim, algumas vezes não consigo lidar tão bem quanto antes", score: 2 },
+      { label: "Não, na maioria das vezes consigo lidar bem com eles", score: 1 },
+      { label: "Não, consigo lidar com eles tão bem quanto antes", score: 0 },
+    ],
+  },
+  {
+    id: 7,
+    text: "Eu tenho me sentido tão infeliz que tenho tido dificuldade de dormir",
+    options: [
+      { label: "Sim, na maioria das vezes", score: 3 },
+      { label: "Sim, algumas vezes", score: 2 },
+      { label: "Não muitas vezes", score: 1 },
+      { label: "Não, nenhuma vez", score: 0 },
+    ],
+  },
+  {
+    id: 8,
+    text: "Eu tenho me sentido triste ou arrasada",
+    options: [
+      { label: "Sim, na maioria das vezes", score: 3 },
+      { label: "Sim, muitas vezes", score: 2 },
+      { label: "Não muitas vezes", score: 1 },
+      { label: "Não, de jeito nenhum", score: 0 },
+    ],
+  },
+  {
+    id: 9,
+    text: "Eu tenho me sentido tão infeliz que tenho chorado",
+    options: [
+      { label: "Sim, quase todo o tempo", score: 3 },
+      { label: "Sim, muitas vezes", score: 2 },
+      { label: "De vez em quando", score: 1 },
+      { label: "Não, nenhuma vez", score: 0 },
+    ],
+  },
+  {
+    id: 10,
+    text: "A ideia de fazer mal a mim mesma passou pela minha cabeça",
+    options: [
+      { label: "Sim, muitas vezes, ultimamente", score: 3 },
+      { label: "Algumas vezes nos últimos dias", score: 2 },
+      { label: "Pouquíssimas vezes, ultimamente", score: 1 },
+      { label: "Nenhuma vez", score: 0 },
+    ],
+  },
+];
+
+/**
+ * Pontos de corte da EPDS (validação brasileira).
+ * - >= MODERATE: possível depressão (acompanhar, sugerir conversa)
+ * - >= HIGH: provável depressão (sugerir ajuda profissional)
+ * - SELF_HARM_ITEM > 0: escalonamento imediato, independente do total
+ */
+export const EPDS_THRESHOLDS = {
+  MAX_SCORE: 30,
+  MODERATE: 10,
+  HIGH: 13,
+  SELF_HARM_ITEM: 10,
+} as const;
+
+/**
+ * Resultado de uma aplicação da EPDS no puerpério.
+ */
+export interface EPDSResult {
+  instrument: "epds";
+  period: "postpartum";
+
+  /** Respostas (para reabrir o questionário e auditoria) */
+  answers: ScreeningAnswer[];
+
+  /** Pontuação total (0-30) */
+  totalScore: number;
+
+  /** Pontuação do item 10 (autolesão) */
+  selfHarmScore: number;
+
+  /** Item 10 pontuado: escalonar para a camada de segurança */
+  selfHarmRisk: boolean;
+
+  riskLevel: ScreeningRiskLevel;
+
+  /** Recomendação acolhedora (nunca diagnóstica) */
+  recommendation: string;
+
+  /** Deve sugerir ajuda profissional? */
+  suggestProfessionalHelp: boolean;
+
+  /** Momento do puerpério em que foi respondido */
+  phase: PostpartumPhase;
+  daysSinceBirth: number;
+
+  screenedAt: ISOTimestamp;
+}
+
+/**
+ * Resultado persistido (histórico).
+ * Firestore: profiles/{uid}/screenings/{screeningId}
+ */
+export interface StoredEPDSResult extends EPDSResult {
+  screeningId: string;
+  uid: string;
+  /** Gestação que originou o puerpério (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+}
+
+// ============================================
+// GAD-7
+// ============================================
+
+/** Instrução exibida antes do questionário */
+export const GAD7_INSTRUCTIONS =
+  "Nas últimas 2 semanas, com que frequência você foi incomodada pelos problemas abaixo?";
+
+const GAD7_OPTIONS: ScreeningOption[] = [
+  { label: "Nenhuma vez", score: 0 },
+  { label: "Vários dias", score: 1 },
+  { label: "Mais da metade dos dias", score: 2 },
+  { label: "Quase todos os dias", score: 3 },
+];
+
+/**
+ * Itens do GAD-7 (versão brasileira).
+ * Todos pontuam de 0 a 3 na mesma escala de frequência.
+ */
+export const GAD7_QUESTIONS: ScreeningQuestion[] = [
+  "Sentir-se nervosa, ansiosa ou muito tensa",
+  "Não ser capaz de impedir ou de controlar as preocupações",
+  "Preocupar-se muito com diversas coisas",
+  "Dificuldade para relaxar",
+  "Ficar tão agitada que se torna difícil permanecer sentada",
+  "Ficar facilmente aborrecida ou irritada",
+  "Sentir medo como se algo horrível fosse acontecer",
+].map((text, i) => ({ id: i + 1, text, options: GAD7_OPTIONS }));
+
+/**
+ * Pontos de corte do GAD-7.
+ * - >= MODERATE: ansiedade moderada (acompanhar, sugerir conversa)
+ * - >= HIGH: ansiedade grave (sugerir ajuda profissional)
+ */
+export const GAD7_THRESHOLDS = {
+  MAX_SCORE: 21,
+  MODERATE: 10,
+  HIGH: 15,
+} as const;
+
+// ============================================
+// RASTREIO PRÉ-NATAL
+// ============================================
+
+/**
+ * Resultado de um questionário respondido na gestação (EPDS ou GAD-7).
+ */
+export interface PrenatalScreeningResult {
+  instrument: ScreeningInstrument;
+  period: "prenatal";
+
+  answers: ScreeningAnswer[];
+
+  totalScore: number;
+
+  /** Pontuação do item 10 da EPDS (ausente no GAD-7) */
+  selfHarmScore?: number;
+
+  /** Item 10 da EPDS pontuado: escalonar para a camada de segurança */
+  selfHarmRisk: boolean;
+
+  riskLevel: ScreeningRiskLevel;
+
+  /** Recomendação acolhedora (nunca diagnóstica) */
+  recommendation: string;
+
+  /** Deve sugerir ajuda profissional? */
+  suggestProfessionalHelp: boolean;
+
+  /** Momento da gestação em que foi respondido */
+  trimester: Trimester;
+  gestationalWeek: number;
+
+  screenedAt: ISOTimestamp;
+}
+
+/**
+ * Resultado pré-natal persistido (histórico).
+ * Firestore: profiles/{uid}/screenings/{screeningId}
+ */
+export interface StoredPrenatalScreeningResult extends PrenatalScreeningResult {
+  screeningId: string;
+  uid: string;
+  /** Gestação (ausente = DEFAULT_PREGNANCY_ID) */
+  pregnancyId?: string;
+}
+
+/** Qualquer resultado de rastreio (gestação ou puerpério) */
+export type ScreeningResult = EPDSResult | PrenatalScreeningResult;
+
+// ============================================
+// AGENDAMENTO
+// ============================================
+
+/**
+ * Por que a EPDS está sendo oferecida.
+ * - first: primeira aplicação do puerpério
+ * - scheduled: intervalo da fase venceu
+ * - risk_signal: check-ins recentes sugerem antecipar (evaluatePPDRisk)
+ */
+export type EPDSDueReason = "first" | "scheduled" | "risk_signal";
+
+/**
+ * Status de agendamento da EPDS.
+ */
+export interface EPDSScheduleStatus {
+  /** Deve oferecer o questionário agora? */
+  isDue: boolean;
+  reason: EPDSDueReason | null;
+  phase: PostpartumPhase;
+  /** Dia pós-parto da próxima aplicação (null = fora da janela) */
+  nextDueDay: number | null;
+}
+
+/**
+ * Por que um questionário pré-natal está sendo oferecido.
+ * - scheduled: ainda não respondido neste trimestre
+ * - vulnerable_state: dia vulnerável (isVulnerableState), antecipa o rastreio
+ */
+export type PrenatalDueReason = "scheduled" | "vulnerable_state";
+
+/**
+ * Status de agendamento do rastreio pré-natal.
+ */
+export interface PrenatalScreeningScheduleStatus {
+  trimester: Trimester;
+  gestationalWeek: number;
+  /** Questionários a oferecer agora */
+  due: Array<{ instrument: ScreeningInstrument; reason: PrenatalDueReason }>;
+  /** Semana da próxima aplicação agendada (null = fim da gestação) */
+  nextDueWeek: number | null;
+}
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Request para enviar as respostas da EPDS.
+ */
+export interface SubmitEPDSRequest {
+  answers: ScreeningAnswer[];
+}
+
+/**
+ * Resposta do envio da EPDS.
+ */
+export interface SubmitEPDSResponse {
+  result: StoredEPDSResult;
+  /** Intervenção de segurança (presente apenas se algum critério foi atingido) */
+  safety?: SafetyIntervention;
+  schedule: EPDSScheduleStatus;
+}
+
+/**
+ * Questionário + agendamento + histórico.
+ */
+export interface GetEPDSResponse {
+  instructions: string;
+  questions: ScreeningQuestion[];
+  schedule: EPDSScheduleStatus;
+  /** Resultados anteriores (mais recente primeiro) */
+  history: StoredEPDSResult[];
+}
+
+/**
+ * Request para enviar um questionário pré-natal.
+ */
+export interface SubmitPrenatalScreeningRequest {
+  instrument: ScreeningInstrument;
+  answers: ScreeningAnswer[];
+}
+
+/**
+ * Resposta do envio de um questionário pré-natal.
+ */
+export interface SubmitPrenatalScreeningResponse {
+  result: StoredPrenatalScreeningResult;
+  /** Intervenção de segurança (presente apenas se algum critério foi atingido) */
+  safety?: SafetyIntervention;
+  schedule: PrenatalScreeningScheduleStatus;
+}
+
+/**
+ * Questionários + agendamento + histórico da gestação.
+ */
+export interface GetPrenatalScreeningResponse {
+  questionnaires: Record<
+    ScreeningInstrument,
+    { instructions: string; questions: ScreeningQuestion[] }
+  >;
+  schedule: PrenatalScreeningScheduleStatus;
+  /** Resultados anteriores (mais recente primeiro) */
+  history: StoredPrenatalScreeningResult[];
+}
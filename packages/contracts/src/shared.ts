@@ -153,66 +153,7 @@ export function canShowHighLevelOutputs(context: EmotionalContext): boolean {
 // HELPERS - DATA E TEMPO
 // ============================================
 
-/**
- * Retorna a data-chave no formato YYYY-MM-DD.
- *
- * IMPORTANTE: O dia começa às 4h da manhã.
- * - 03:59 = ainda é "ontem"
- * - 04:00 = já é "hoje"
- *
- * @param timezone - Timezone do usuário (default: America/Sao_Paulo)
- * @param date - Data específica (default: agora)
- * @returns DateKey no formato YYYY-MM-DD
- */
-export function getDateKey(
-  timezone: string = DEFAULT_TIMEZONE,
-  date?: Date
-): DateKey {
-  const now = date || new Date();
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: timezone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    hour12: false,
-  });
-
-  const parts = formatter.formatToParts(now);
-  const year = parts.find((p) => p.type === "year")?.value;
-  const month = parts.find((p) => p.type === "month")?.value;
-  const day = parts.find((p) => p.type === "day")?.value;
-  const hour = parseInt(parts.find((p) => p.type === "hour")?.value || "12");
-
-  // Se for antes das 4h, considera como dia anterior
-  if (hour < DAY_START_HOUR) {
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yFormatter = new Intl.DateTimeFormat("en-CA", {
-      timeZone: timezone,
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-    });
-    return yFormatter.format(yesterday);
-  }
-
-  return `${year}-${month}-${day}`;
-}
-
-/**
- * Verifica se uma dateKey é de hoje.
- *
- * @param dateKey - Data no formato YYYY-MM-DD
- * @param timezone - Timezone do usuário
- * @returns true se for o dia atual
- */
-export function isToday(
-  dateKey: DateKey,
-  timezone: string = DEFAULT_TIMEZONE
-): boolean {
-  return dateKey === getDateKey(timezone);
-}
+// getDateKey, isToday e demais datas: ver ./dates (kernel de datas)
 
 /**
  * Retorna timestamp ISO atual.
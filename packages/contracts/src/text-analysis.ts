@@ -0,0 +1,106 @@
+/**
+ * @fluia/contracts - Text Analysis Types
+ *
+ * Leitura das notas livres e das emoções do check-in.
+ * Análise LOCAL (léxico pt-BR), sem nenhum serviço externo.
+ *
+ * REGRAS:
+ * - O texto da usuária nunca sai do servidor da FLUIA
+ * - O resultado guarda apenas tags e tipos de sinal, nunca trechos do texto
+ * - Sinais de risco NÃO são diagnósticos: acionam cuidado e a camada de segurança
+ */
+
+import type { EmotionTag } from "./checkin";
+
+// ============================================
+// EMOÇÕES
+// ============================================
+
+/**
+ * Emoções reconhecidas nas notas, além das tags do check-in (EMOTION_TAGS).
+ */
+export const EXTENDED_EMOTION_TAGS = [
+  "culpada",
+  "sozinha",
+  "com medo",
+  "frustrada",
+  "exausta",
+  "desanimada",
+  "vazia",
+  "sem esperança",
+  "envergonhada",
+  "confusa",
+  "aliviada",
+  "amada",
+  "apoiada",
+  "orgulhosa",
+  "emocionada",
+] as const;
+
+export type ExtendedEmotionTag = typeof EXTENDED_EMOTION_TAGS[number];
+
+/** Qualquer emoção que a análise reconhece */
+export type DetectedEmotionTag = EmotionTag | ExtendedEmotionTag;
+
+/** Valência de uma emoção */
+export type EmotionValence = "positive" | "negative" | "neutral";
+
+// ============================================
+// SINAIS DE RISCO
+// ============================================
+
+/**
+ * Tipos de sinal de risco na linguagem.
+ * - self_harm: machucar a si mesma
+ * - suicidal_ideation: desejo de morrer / não existir
+ * - harm_to_baby: pensamentos de machucar o bebê
+ * - hopelessness: desesperança intensa
+ */
+export type RiskSignalType =
+  | "self_harm"
+  | "suicidal_ideation"
+  | "harm_to_baby"
+  | "hopelessness";
+
+/**
+ * Gravidade do sinal.
+ * - crisis: linguagem de crise (camada de segurança imediata)
+ * - concern: atenção (cuidado extra, sem alarme)
+ */
+export type RiskSignalSeverity = "crisis" | "concern";
+
+/**
+ * Sinal de risco detectado (sem o trecho do texto).
+ */
+export interface RiskSignal {
+  type: RiskSignalType;
+  severity: RiskSignalSeverity;
+}
+
+// ============================================
+// RESULTADO
+// ============================================
+
+/**
+ * Resultado da análise de um check-in (notas + emoções).
+ * Persistido na sessão e, combinado, no agregado do dia.
+ */
+export interface TextAnalysis {
+  /** Emoções reconhecidas nas notas (sem repetir as tags selecionadas) */
+  detectedEmotions: DetectedEmotionTag[];
+
+  /** Contagem por valência (tags selecionadas + emoções das notas) */
+  valence: {
+    positive: number;
+    negative: number;
+  };
+
+  /** Sinais de risco (um por tipo) */
+  riskSignals: RiskSignal[];
+
+  /** Há linguagem de crise? (algum sinal "crisis") */
+  hasCrisisLanguage: boolean;
+
+  /** Versão do léxico usado */
+  lexiconVersion: string;
+}
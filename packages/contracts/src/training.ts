@@ -9,7 +9,7 @@
  * - Esforço > Resultado
  */
 
-import type { DateKey, MetricKey } from "./shared";
+import type { DateKey, MetricKey, ISOTimestamp } from "./shared";
 
 // ============================================
 // EXECUÇÃO DE TREINO
@@ -20,6 +20,15 @@ export interface TrainingStartRequest {
   trainingId: string;
 }
 
+/** Response ao registrar treino iniciado */
+export interface TrainingStartResponse {
+  /** Registro do treino (status "started") */
+  training: StoredTraining;
+  
+  /** Instruções passo a passo do catálogo */
+  instructions: string[];
+}
+
 /** Request para registrar treino concluído */
 export interface TrainingCompleteRequest {
   trainingId: string;
@@ -30,6 +39,9 @@ export interface TrainingCompleteRequest {
   /** Feedback opcional da usuária (1-5) */
   userRating?: 1 | 2 | 3 | 4 | 5;
   
+  /** Esforço percebido (1-5, opcional) */
+  perceivedEffort?: 1 | 2 | 3 | 4 | 5;
+  
   /** Notas opcionais */
   notes?: string;
 }
@@ -79,8 +91,8 @@ export interface StoredTraining {
   /** Categoria do treino */
   category: MetricKey;
   
-  /** Status */
-  status: "started" | "completed" | "skipped";
+  /** Status (abandoned = parou antes de 70% do tempo) */
+  status: "started" | "completed" | "skipped" | "abandoned";
   
   /** Duração planejada (minutos) */
   plannedDurationMinutes: number;
@@ -88,9 +100,15 @@ export interface StoredTraining {
   /** Duração real (segundos) */
   actualDurationSeconds?: number;
   
+  /** Problema que o treino atacava na prescrição (prescrição adaptativa) */
+  targetsProblem?: string;
+  
   /** Avaliação da usuária */
   userRating?: 1 | 2 | 3 | 4 | 5;
   
+  /** Esforço percebido */
+  perceivedEffort?: 1 | 2 | 3 | 4 | 5;
+  
   /** Notas */
   notes?: string;
   
@@ -110,49 +128,14 @@ export interface StoredTraining {
  * Foco no esforço, não no resultado.
  */
 export interface FeedbackTemplate {
-  /** Contexto de uso */
-  context: "completion" | "streak" | "firstTime" | "difficult_day";
+  /** Contexto de uso (incomplete = parou antes de 70% do tempo) */
+  context: "completion" | "streak" | "firstTime" | "difficult_day" | "incomplete";
   
   /** Mensagens possíveis (escolha aleatória) */
   messages: string[];
 }
 
-/** Feedbacks padrão */
-export const DEFAULT_FEEDBACKS: FeedbackTemplate[] = [
-  {
-    context: "completion",
-    messages: [
-      "Você esteve aqui. Isso já é cuidado. 💜",
-      "Cada pequeno passo conta. Parabéns! ✨",
-      "Cuidar de si é um ato de amor. 🌸",
-      "Você dedicou esse momento a você. Isso importa. 💗",
-    ],
-  },
-  {
-    context: "streak",
-    messages: [
-      "Você está construindo um hábito de cuidado. Continue! 🌟",
-      "Sua constância é inspiradora. 💪",
-      "Dia após dia, você escolhe cuidar de si. 🌺",
-    ],
-  },
-  {
-    context: "firstTime",
-    messages: [
-      "Primeira prática concluída! Bem-vinda à jornada. 🎉",
-      "O primeiro passo é sempre especial. Parabéns! 💜",
-      "Você começou. Isso é o mais importante. ✨",
-    ],
-  },
-  {
-    context: "difficult_day",
-    messages: [
-      "Mesmo num dia difícil, você cuidou de si. Isso é força. 💜",
-      "Não precisa ser perfeito. Só precisa ser possível. 🌸",
-      "Você mostrou que se importa consigo. Isso basta. 💗",
-    ],
-  },
-];
+// Feedbacks e badges padrão: pacote de conteúdo (ver ./content)
 
 // ============================================
 // BADGES
@@ -191,45 +174,6 @@ export interface BadgeCondition {
   category?: MetricKey;
 }
 
-/** Badges padrão */
-export const DEFAULT_BADGES: Badge[] = [
-  {
-    id: "first-step",
-    name: "Primeiro Passo",
-    description: "Completou seu primeiro treino",
-    icon: "🌱",
-    condition: { type: "first_training" },
-  },
-  {
-    id: "week-streak",
-    name: "Semana de Cuidado",
-    description: "7 dias seguidos de prática",
-    icon: "🌟",
-    condition: { type: "streak", value: 7 },
-  },
-  {
-    id: "month-streak",
-    name: "Mês de Dedicação",
-    description: "30 dias seguidos de prática",
-    icon: "🏆",
-    condition: { type: "streak", value: 30 },
-  },
-  {
-    id: "regulation-master",
-    name: "Mestre da Regulação",
-    description: "10 treinos de Regulação Emocional",
-    icon: "💜",
-    condition: { type: "category_focus", value: 10, category: "RE" },
-  },
-  {
-    id: "bond-builder",
-    name: "Construtora de Vínculo",
-    description: "10 treinos de Conexão Afetiva",
-    icon: "💗",
-    condition: { type: "category_focus", value: 10, category: "CA" },
-  },
-];
-
 // ============================================
 // STREAK
 // ============================================
@@ -250,3 +194,41 @@ export interface StreakInfo {
   /** Streak vai quebrar hoje se não treinar? */
   atRisk: boolean;
 }
+
+// ============================================
+// PROGRESSO
+// ============================================
+
+/**
+ * Badge conquistado pela usuária.
+ */
+export interface EarnedBadge {
+  /** ID do badge no catálogo */
+  id: string;
+  
+  /** Dia da conquista */
+  dateKey: DateKey;
+  
+  awardedAt: ISOTimestamp;
+}
+
+/**
+ * Progresso de treinos (streaks e badges).
+ * Atualizado a cada treino concluído.
+ * Persistido em profiles/{uid}.trainingProgress
+ */
+export interface TrainingProgress {
+  /** Dias consecutivos com treino */
+  currentStreak: number;
+  
+  /** Maior sequência já alcançada */
+  longestStreak: number;
+  
+  /** Último dia com treino concluído */
+  lastCompletedDate: DateKey;
+  
+  /** Badges conquistados (sem repetição) */
+  badges: EarnedBadge[];
+  
+  updatedAt: ISOTimestamp;
+}
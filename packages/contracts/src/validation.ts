@@ -0,0 +1,274 @@
+/**
+ * @fluia/contracts - Validation
+ *
+ * Validadores de runtime para os contratos.
+ *
+ * Os tipos continuam sendo a fonte de verdade: cada schema é declarado
+ * como Validator<Contrato>, então qualquer divergência entre o schema
+ * e a interface quebra a compilação.
+ *
+ * Sem dependências externas — apenas helpers puros.
+ */
+
+import type { ApiErrorResponse } from "./system";
+
+// ============================================
+// TIPOS BASE
+// ============================================
+
+/** Erros por campo (caminho → mensagem), ex: "dimensions.mood" */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Validador de runtime.
+ * Registra erros em `errors` e retorna o valor normalizado.
+ */
+export type Validator<T> = (value: unknown, path: string, errors: FieldErrors) => T;
+
+/** Resultado da validação */
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors };
+
+/** Shape de um objeto: um validador por campo (inclusive opcionais) */
+export type ObjectShape<T> = {
+  [K in keyof T]-?: Validator<T[K]>;
+};
+
+// ============================================
+// VALIDADORES PRIMITIVOS
+// ============================================
+
+function fail<T>(errors: FieldErrors, path: string, message: string): T {
+  const key = path || "body";
+
+  // Mantém apenas o primeiro erro de cada campo
+  if (!(key in errors)) {
+    errors[key] = message;
+  }
+  return undefined as T;
+}
+
+/**
+ * String com limites opcionais.
+ * Strings são aparadas (trim) antes da validação.
+ */
+export function string(
+  options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}
+): Validator<string> {
+  const { minLength = 1, maxLength, pattern } = options;
+
+  return (value, path, errors) => {
+    if (typeof value !== "string") {
+      return fail(errors, path, "must be a string");
+    }
+    const trimmed = value.trim();
+    if (trimmed.length < minLength) {
+      return fail(errors, path, minLength === 1 ? "is required" : `must have at least ${minLength} characters`);
+    }
+    if (maxLength !== undefined && trimmed.length > maxLength) {
+      return fail(errors, path, `must have at most ${maxLength} characters`);
+    }
+    if (pattern && !pattern.test(trimmed)) {
+      return fail(errors, path, "has an invalid format");
+    }
+    return trimmed;
+  };
+}
+
+/**
+ * Número com limites opcionais.
+ */
+export function number(
+  options: { min?: number; max?: number; integer?: boolean } = {}
+): Validator<number> {
+  const { min, max, integer = false } = options;
+
+  return (value, path, errors) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return fail(errors, path, "must be a number");
+    }
+    if (integer && !Number.isInteger(value)) {
+      return fail(errors, path, "must be an integer");
+    }
+    if (min !== undefined && value < min) {
+      return fail(errors, path, `must be at least ${min}`);
+    }
+    if (max !== undefined && value > max) {
+      return fail(errors, path, `must be at most ${max}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * Booleano.
+ */
+export function boolean(): Validator<boolean> {
+  return (value, path, errors) => {
+    if (typeof value !== "boolean") {
+      return fail(errors, path, "must be a boolean");
+    }
+    return value;
+  };
+}
+
+/**
+ * Um dos valores literais permitidos.
+ */
+export function oneOf<T extends string | number>(values: readonly T[]): Validator<T> {
+  return (value, path, errors) => {
+    if (!values.includes(value as T)) {
+      return fail(errors, path, `must be one of: ${values.join(", ")}`);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * Data válida (YYYY-MM-DD ou ISO 8601 completo).
+ */
+export function isoDate(): Validator<string> {
+  const pattern = /^(\d{4})-(\d{2})-(\d{2})(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+  return (value, path, errors) => {
+    const match = typeof value === "string" ? pattern.exec(value) : null;
+
+    if (!match) {
+      return fail(errors, path, "must be a date (YYYY-MM-DD)");
+    }
+
+    // O dia precisa existir no calendário: Date "rola" 2025-02-30 para 2 de março
+    const [year, month, day] = match.slice(1, 4).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    if (
+      date.getUTCFullYear() !== year ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day ||
+      Number.isNaN(new Date(value as string).getTime())
+    ) {
+      return fail(errors, path, "must be a valid date");
+    }
+    return value as string;
+  };
+}
+
+// ============================================
+// VALIDADORES COMPOSTOS
+// ============================================
+
+/**
+ * Campo opcional (aceita undefined).
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path, errors) => {
+    if (value === undefined) return undefined;
+    return validator(value, path, errors);
+  };
+}
+
+/**
+ * Array de itens validados.
+ */
+export function array<T>(
+  item: Validator<T>,
+  options: { minLength?: number; maxLength?: number } = {}
+): Validator<T[]> {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      return fail(errors, path, "must be an array");
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      return fail(errors, path, `must have at least ${options.minLength} items`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return fail(errors, path, `must have at most ${options.maxLength} items`);
+    }
+    return value.map((v, i) => item(v, `${path}[${i}]`, errors));
+  };
+}
+
+/**
+ * Objeto com shape fixo.
+ * Campos desconhecidos e opcionais ausentes são descartados
+ * (Firestore não aceita undefined).
+ */
+export function object<T>(shape: ObjectShape<T>): Validator<T> {
+  return (value, path, errors) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(errors, path, "must be an object");
+    }
+
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const result = shape[key](input[key], fieldPath, errors);
+      if (result !== undefined) {
+        output[key] = result;
+      }
+    }
+
+    return output as T;
+  };
+}
+
+/**
+ * Registro com chaves fixas e valores do mesmo tipo.
+ */
+export function record<K extends string, V>(
+  keys: readonly K[],
+  item: Validator<V>
+): Validator<Record<K, V>> {
+  const shape = Object.fromEntries(keys.map((k) => [k, item])) as ObjectShape<Record<K, V>>;
+  return object(shape);
+}
+
+/**
+ * União discriminada por `type`: valida com o schema do tipo informado.
+ */
+export function discriminated<T extends { type: string }>(
+  schemas: { [K in T["type"]]: Validator<Extract<T, { type: K }>> }
+): Validator<T> {
+  const types = Object.keys(schemas) as T["type"][];
+
+  return (value, path, errors) => {
+    const head = object<{ type: T["type"] }>({ type: oneOf(types) })(value, path, errors);
+
+    if (!head?.type) {
+      return fail(errors, path, "must have a valid type");
+    }
+    return schemas[head.type](value, path, errors);
+  };
+}
+
+// ============================================
+// EXECUÇÃO
+// ============================================
+
+/**
+ * Valida um valor desconhecido (ex: body de request).
+ */
+export function validate<T>(validator: Validator<T>, value: unknown): ValidationResult<T> {
+  const errors: FieldErrors = {};
+  const data = validator(value, "", errors);
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * Monta o ApiErrorResponse padrão de validação.
+ */
+export function toValidationErrorResponse(errors: FieldErrors): ApiErrorResponse {
+  return {
+    error: "Invalid request",
+    code: "VALIDATION_ERROR",
+    details: { fields: errors },
+  };
+}
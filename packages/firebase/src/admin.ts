@@ -81,6 +81,25 @@ let _adminApp: App | null = null;
 let _adminAuth: Auth | null = null;
 let _adminDb: Firestore | null = null;
 
+/**
+ * Serviços Admin injetáveis (ex: fakes em memória para testes).
+ */
+export interface AdminServices {
+  app?: App;
+  auth: Auth;
+  firestore: Firestore;
+}
+
+/**
+ * Injeta serviços Admin, evitando a inicialização com service account.
+ * Passar null volta à inicialização real (lazy).
+ */
+export function setAdminServices(services: AdminServices | null): void {
+  _adminApp = services?.app ?? null;
+  _adminAuth = services?.auth ?? null;
+  _adminDb = services?.firestore ?? null;
+}
+
 export function getAdminApp(): App {
   if (!_adminApp) {
     _adminApp = initializeAdminApp();
@@ -101,6 +120,7 @@ export function getAdminFirestore(): Firestore {
   }
   return _adminDb;
 }
+
 // ============================================
 // Sessão - Criação e Verificação
 // ============================================
@@ -7,7 +7,14 @@
 
 import { getAdminAuth, getAdminFirestore, verifySessionCookie } from "./admin";
 import { FieldValue, Timestamp } from "firebase-admin/firestore";
-import { getDateKey } from "@fluia/contracts";
+import {
+  getDateKey,
+  getGestationalWeek,
+  type JourneyMode,
+  type PersonalBaseline,
+  type TrainingProgress,
+  type TransitionState,
+} from "@fluia/contracts";
 
 // ============================================
 // Tipos
@@ -28,7 +35,11 @@ export interface UserProfile {
   dueDate: Timestamp | null;
   gestationalWeekAtCreation: number | null;
   isFirstPregnancy: boolean | null;
+  // Gestação ativa (ausente = padrão; null = nenhuma)
+  activePregnancyId?: string | null;
   baselineMood: number | null;
+  personalBaseline?: PersonalBaseline;
+  trainingProgress?: TrainingProgress;
   timezone: string;
   locale: string;
 
@@ -36,6 +47,16 @@ export interface UserProfile {
   consentHealthData: boolean;
   consentMarketing: boolean;
 
+  // Assinatura
+  isPremium?: boolean;
+
+  // Convite ao parceiro(a) aceito (micromomento MM6)
+  partnerInvitedAt?: Timestamp;
+
+  // Puerpério (ausente = gestante)
+  mode?: JourneyMode;
+  postpartum?: TransitionState;
+
   // Metadata
   createdAt: Timestamp;
   updatedAt: Timestamp;
@@ -211,22 +232,10 @@ export async function getOrCreateUserProfile(
 
 /**
  * Calcula a semana gestacional a partir da DPP.
+ * Usa o kernel de datas (@fluia/contracts): dia com reset às 04:00.
  */
-export function calculateGestationalWeek(dueDate: Date): number {
-  const now = new Date();
-  const msPerDay = 24 * 60 * 60 * 1000;
-  const msPerWeek = 7 * msPerDay;
-
-  const daysUntilDue = Math.floor(
-    (dueDate.getTime() - now.getTime()) / msPerDay
-  );
-  const weeksUntilDue = Math.floor(daysUntilDue / 7);
-
-  // GestaÃƒÂ§ÃƒÂ£o normal = 40 semanas
-  const currentWeek = 40 - weeksUntilDue;
-
-  // Clamp entre 1 e 42 semanas
-  return Math.max(1, Math.min(42, currentWeek));
+export function calculateGestationalWeek(dueDate: Date, today: string = getDateKey()): number {
+  return getGestationalWeek(dueDate.toISOString(), today);
 }
 
 // ============================================
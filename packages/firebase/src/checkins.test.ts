@@ -0,0 +1,58 @@
+/**
+ * Check-ins por gestação (store em memória, via build como os consumidores).
+ *
+ * O limite vale depois do filtro; check-ins sem pregnancyId são da gestação padrão.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryStore,
+  setDocumentStore,
+  saveCheckin,
+  listRecentPregnancyCheckins,
+  listEarliestPregnancyCheckins,
+} from "../dist/index.mjs";
+import type { StoredCheckin } from "@fluia/contracts";
+
+function checkin(dateKey: string, pregnancyId?: string): StoredCheckin {
+  return {
+    uid: "u1",
+    dateKey,
+    ...(pregnancyId && { pregnancyId }),
+  } as StoredCheckin;
+}
+
+describe("pregnancy check-ins", () => {
+  beforeEach(async () => {
+    setDocumentStore(createMemoryStore());
+
+    // Gestação padrão (legado, sem pregnancyId) intercalada com a nova gestação
+    for (const [day, pregnancyId] of [
+      ["01", undefined],
+      ["02", "primary"],
+      ["03", "p2"],
+      ["04", undefined],
+      ["05", "p2"],
+      ["06", "p2"],
+      ["07", "p2"],
+    ] as const) {
+      await saveCheckin(checkin(`2026-06-${day}`, pregnancyId));
+    }
+  });
+
+  afterEach(() => setDocumentStore(null));
+
+  it("applies the limit after filtering by pregnancy", async () => {
+    const recent = await listRecentPregnancyCheckins("u1", "p2", 3, "2026-06-07");
+
+    expect(recent.map((c) => c.dateKey)).toEqual(["2026-06-06", "2026-06-05", "2026-06-03"]);
+  });
+
+  it("includes legacy check-ins in the default pregnancy", async () => {
+    const recent = await listRecentPregnancyCheckins("u1", "primary", 2, "2026-06-08");
+    const earliest = await listEarliestPregnancyCheckins("u1", "primary", 5);
+
+    expect(recent.map((c) => c.dateKey)).toEqual(["2026-06-04", "2026-06-02"]);
+    expect(earliest.map((c) => c.dateKey)).toEqual(["2026-06-01", "2026-06-02", "2026-06-04"]);
+  });
+});
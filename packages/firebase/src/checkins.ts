@@ -0,0 +1,254 @@
+/**
+ * @fluia/firebase - Checkins Repository
+ *
+ * Persistência dos check-ins diários.
+ * Um documento por dia: agregado + sessões por momento (manhã, tarde, ...).
+ * Check-ins sem pregnancyId pertencem a DEFAULT_PREGNANCY_ID.
+ * Collection: profiles/{uid}/checkins/{dateKey}
+ */
+
+import { getDocumentStore, type WhereClause } from "./store";
+import { DEFAULT_PREGNANCY_ID, getCheckinSessions, getPregnancyScope } from "@fluia/contracts";
+import type { DateKey, StoredCheckin, HistoricalCheckin } from "@fluia/contracts";
+import type { Page, PageOptions } from "./pagination";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const CHECKINS_COLLECTION = "checkins";
+
+// ============================================
+// Helpers
+// ============================================
+
+function checkinsPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${CHECKINS_COLLECTION}`;
+}
+
+/**
+ * Check-ins de uma gestação, com o limite aplicado depois do filtro.
+ * Gestações com ID consultam por pregnancyId. A gestação padrão inclui os
+ * check-ins sem o campo (Firestore não consulta campo ausente): o histórico
+ * é percorrido em páginas e filtrado.
+ */
+async function queryPregnancyCheckins(
+  uid: string,
+  pregnancyId: string,
+  options: { limit: number; beforeDateKey?: DateKey; direction: "asc" | "desc" }
+): Promise<StoredCheckin[]> {
+  const { limit, beforeDateKey, direction } = options;
+  const where: WhereClause[] = beforeDateKey
+    ? [{ field: "dateKey", op: "<", value: beforeDateKey }]
+    : [];
+  const orderBy = { field: "dateKey", direction };
+
+  if (pregnancyId !== DEFAULT_PREGNANCY_ID) {
+    const docs = await getDocumentStore().query<StoredCheckin>(checkinsPath(uid), {
+      where: [...where, { field: "pregnancyId", op: "==", value: pregnancyId }],
+      orderBy,
+      limit,
+    });
+
+    return docs.map((doc) => doc.data);
+  }
+
+  const checkins: StoredCheckin[] = [];
+  let cursor: DateKey | undefined;
+
+  while (checkins.length < limit) {
+    const docs = await getDocumentStore().query<StoredCheckin>(checkinsPath(uid), {
+      where,
+      orderBy,
+      startAfter: cursor,
+      limit,
+    });
+
+    checkins.push(
+      ...docs.map((doc) => doc.data).filter((c) => getPregnancyScope(c) === pregnancyId)
+    );
+
+    if (docs.length < limit) break;
+    cursor = docs[docs.length - 1].data.dateKey;
+  }
+
+  return checkins.slice(0, limit);
+}
+
+// ============================================
+// Check-ins
+// ============================================
+
+/**
+ * Obtém o check-in de um dia.
+ * Retorna null se não existir.
+ */
+export async function getCheckin(
+  uid: string,
+  dateKey: DateKey
+): Promise<StoredCheckin | null> {
+  return getDocumentStore().get<StoredCheckin>(checkinsPath(uid), dateKey);
+}
+
+/**
+ * Salva (cria ou sobrescreve) o check-in do dia, com todas as sessões.
+ * O documento é identificado pela dateKey do próprio check-in.
+ */
+export async function saveCheckin(checkin: StoredCheckin): Promise<void> {
+  await getDocumentStore().set(checkinsPath(checkin.uid), checkin.dateKey, checkin);
+}
+
+/**
+ * Verifica se o usuário já fez algum check-in.
+ * Usado para identificar o primeiro check-in.
+ */
+export async function hasAnyCheckin(uid: string): Promise<boolean> {
+  const docs = await getDocumentStore().query(checkinsPath(uid), { limit: 1 });
+  return docs.length > 0;
+}
+
+/**
+ * Lista check-ins em um intervalo de dias (inclusivo), em ordem cronológica.
+ */
+export async function listCheckinsInRange(
+  uid: string,
+  fromDateKey: DateKey,
+  toDateKey: DateKey
+): Promise<StoredCheckin[]> {
+  const docs = await getDocumentStore().query<StoredCheckin>(checkinsPath(uid), {
+    where: [
+      { field: "dateKey", op: ">=", value: fromDateKey },
+      { field: "dateKey", op: "<=", value: toDateKey },
+    ],
+    orderBy: { field: "dateKey" },
+  });
+
+  return docs.map((doc) => doc.data);
+}
+
+/**
+ * Lista os últimos N check-ins (mais recente primeiro).
+ * Opcionalmente apenas anteriores a uma dateKey (exclusivo).
+ */
+export async function listRecentCheckins(
+  uid: string,
+  limit: number,
+  beforeDateKey?: DateKey
+): Promise<StoredCheckin[]> {
+  const docs = await getDocumentStore().query<StoredCheckin>(checkinsPath(uid), {
+    where: beforeDateKey ? [{ field: "dateKey", op: "<", value: beforeDateKey }] : [],
+    orderBy: { field: "dateKey", direction: "desc" },
+    limit,
+  });
+
+  return docs.map((doc) => doc.data);
+}
+
+/**
+ * Lista os primeiros N check-ins (mais antigo primeiro).
+ * Usado na calibração do baseline pessoal.
+ */
+export async function listEarliestCheckins(
+  uid: string,
+  limit: number
+): Promise<StoredCheckin[]> {
+  const docs = await getDocumentStore().query<StoredCheckin>(checkinsPath(uid), {
+    orderBy: { field: "dateKey" },
+    limit,
+  });
+
+  return docs.map((doc) => doc.data);
+}
+
+/**
+ * Lista os últimos N check-ins de uma gestação (mais recente primeiro).
+ * Opcionalmente apenas anteriores a uma dateKey (exclusivo).
+ */
+export async function listRecentPregnancyCheckins(
+  uid: string,
+  pregnancyId: string,
+  limit: number,
+  beforeDateKey?: DateKey
+): Promise<StoredCheckin[]> {
+  return queryPregnancyCheckins(uid, pregnancyId, { limit, beforeDateKey, direction: "desc" });
+}
+
+/**
+ * Lista os primeiros N check-ins de uma gestação (mais antigo primeiro).
+ * Usado na calibração do baseline pessoal.
+ */
+export async function listEarliestPregnancyCheckins(
+  uid: string,
+  pregnancyId: string,
+  limit: number
+): Promise<StoredCheckin[]> {
+  return queryPregnancyCheckins(uid, pregnancyId, { limit, direction: "asc" });
+}
+
+/**
+ * Paginação de check-ins (mais recente primeiro).
+ * Cursor = dateKey do último item.
+ */
+export async function paginateCheckins(
+  uid: string,
+  options: PageOptions = {}
+): Promise<Page<StoredCheckin>> {
+  const pageSize = options.pageSize ?? 20;
+  const docs = await getDocumentStore().query<StoredCheckin>(checkinsPath(uid), {
+    orderBy: { field: "dateKey", direction: "desc" },
+    startAfter: options.cursor ?? undefined,
+    limit: pageSize,
+  });
+
+  const items = docs.map((doc) => doc.data);
+
+  return {
+    items,
+    nextCursor: items.length === pageSize ? items[items.length - 1].dateKey : null,
+  };
+}
+
+/**
+ * Total de dias com check-in (presenceDays).
+ */
+export async function countCheckins(uid: string): Promise<number> {
+  return getDocumentStore().count(checkinsPath(uid));
+}
+
+/**
+ * Total de dias completos (check-in + prática).
+ * Usado como completedJourneys.
+ */
+export async function countCompletedDays(uid: string): Promise<number> {
+  return getDocumentStore().count(checkinsPath(uid), [
+    { field: "recovery.completedAt", op: ">", value: "" },
+  ]);
+}
+
+// ============================================
+// Mapeamento para engines
+// ============================================
+
+/**
+ * Converte check-in persistido no formato histórico das engines.
+ * Zona e scores vêm do agregado; a zona de cada sessão alimenta a leitura intradiária.
+ * Retorna null se o check-in ainda não tem estado/métricas derivados.
+ */
+export function toHistoricalCheckin(checkin: StoredCheckin): HistoricalCheckin | null {
+  if (!checkin.emotionalState || !checkin.metrics) {
+    return null;
+  }
+
+  return {
+    date: checkin.dateKey,
+    zone: checkin.emotionalState.zone,
+    scores: { ...checkin.metrics },
+    dayCompleted: !!checkin.recovery,
+    sessions: getCheckinSessions(checkin).flatMap((session) =>
+      session.emotionalState
+        ? [{ moment: session.moment, zone: session.emotionalState.zone }]
+        : []
+    ),
+  };
+}
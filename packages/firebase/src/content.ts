@@ -0,0 +1,55 @@
+/**
+ * @fluia/firebase - Content Repository
+ *
+ * Persistência do pacote de conteúdo versionado (treinos, feedbacks, badges, prompts).
+ * O documento ativo é lido pela API; versões antigas ficam para histórico e diff.
+ * Collections: content/active e contentVersions/{version}
+ */
+
+import { getDocumentStore } from "./store";
+import type { ContentPackage } from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const CONTENT_COLLECTION = "content";
+const ACTIVE_CONTENT_ID = "active";
+const CONTENT_VERSIONS_COLLECTION = "contentVersions";
+
+// ============================================
+// Pacote de conteúdo
+// ============================================
+
+/**
+ * Obtém o pacote publicado, SEM validação.
+ * Deve passar por loadContentPackage (engines) antes de ser usado.
+ * Retorna null se nenhum pacote foi publicado.
+ */
+export async function getPublishedContent(): Promise<unknown | null> {
+  return getDocumentStore().get<Record<string, unknown>>(
+    CONTENT_COLLECTION,
+    ACTIVE_CONTENT_ID
+  );
+}
+
+/**
+ * Obtém uma versão específica do pacote (histórico).
+ */
+export async function getContentVersion(version: string): Promise<unknown | null> {
+  return getDocumentStore().get<Record<string, unknown>>(
+    CONTENT_VERSIONS_COLLECTION,
+    version
+  );
+}
+
+/**
+ * Publica um pacote já validado.
+ * Grava a versão no histórico e a torna ativa.
+ */
+export async function publishContentPackage(content: ContentPackage): Promise<void> {
+  const store = getDocumentStore();
+
+  await store.set(CONTENT_VERSIONS_COLLECTION, content.version, content);
+  await store.set(CONTENT_COLLECTION, ACTIVE_CONTENT_ID, content);
+}
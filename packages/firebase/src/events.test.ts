@@ -0,0 +1,90 @@
+/**
+ * Eventos: paginação com timestamps repetidos e registro idempotente
+ * (via build, como os consumidores).
+ *
+ * O cursor é o ID do documento: nenhum evento se repete ou se perde entre páginas,
+ * no store em memória e no Firestore (fake do Admin SDK).
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { createMemoryStore, setDocumentStore, ritualEvents } from "../dist/index.mjs";
+import { installFakeAdmin, uninstallFakeAdmin } from "../dist/testing.mjs";
+import type { RitualEvent } from "@fluia/contracts";
+
+/** 5 eventos, 3 deles no mesmo instante */
+const TIMESTAMPS = [
+  "2026-06-01T12:00:00.000Z",
+  "2026-06-02T12:00:00.000Z",
+  "2026-06-02T12:00:00.000Z",
+  "2026-06-02T12:00:00.000Z",
+  "2026-06-03T12:00:00.000Z",
+];
+
+async function paginateAll(): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await ritualEvents.paginate("u1", { pageSize: 2, cursor });
+    ids.push(...page.items.map((e) => e.ritualId));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return ids;
+}
+
+async function appendEvents(): Promise<void> {
+  for (const [i, timestamp] of TIMESTAMPS.entries()) {
+    const event: RitualEvent = {
+      ritualId: `r${i}`,
+      type: "morning",
+      action: "completed",
+      timestamp,
+      date: timestamp.slice(0, 10),
+    };
+    await ritualEvents.append("u1", event);
+  }
+}
+
+describe("event pagination", () => {
+  // Também volta o store ao default
+  afterEach(() => uninstallFakeAdmin());
+
+  it.each([
+    ["memory store", () => setDocumentStore(createMemoryStore())],
+    ["Firestore", () => installFakeAdmin()],
+  ])("pages through equal timestamps on the %s", async (_, install) => {
+    install();
+    await appendEvents();
+
+    const ids = await paginateAll();
+
+    expect(ids).toHaveLength(TIMESTAMPS.length);
+    expect(new Set(ids)).toEqual(new Set(["r0", "r1", "r2", "r3", "r4"]));
+    expect(ids[0]).toBe("r4");
+    expect(ids[ids.length - 1]).toBe("r0");
+  });
+});
+
+describe("appendOnce", () => {
+  afterEach(() => uninstallFakeAdmin());
+
+  it.each([
+    ["memory store", () => setDocumentStore(createMemoryStore())],
+    ["Firestore", () => installFakeAdmin()],
+  ])("records a deterministic event only once on the %s", async (_, install) => {
+    install();
+
+    const event: RitualEvent = {
+      ritualId: "r1",
+      type: "morning",
+      action: "completed",
+      timestamp: TIMESTAMPS[0],
+      date: "2026-06-01",
+    };
+
+    expect(await ritualEvents.appendOnce("u1", "r1-completed", event)).toBe(true);
+    expect(await ritualEvents.appendOnce("u1", "r1-completed", event)).toBe(false);
+    expect(await ritualEvents.count("u1")).toBe(1);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @fluia/firebase - Events Repository
+ *
+ * Eventos factuais append-only (nunca atualizados ou apagados).
+ * - profiles/{uid}/micromoments/{eventId}
+ * - profiles/{uid}/milestones/{eventId}
+ * - profiles/{uid}/rituals/{eventId}
+ * - profiles/{uid}/safety/{eventId} (auditoria de intervenções)
+ */
+
+import { getDocumentStore, type WhereClause } from "./store";
+import type {
+  ISOTimestamp,
+  MicromomentEvent,
+  MilestoneEvent,
+  RitualEvent,
+  SafetyEvent,
+} from "@fluia/contracts";
+import type { Page, PageOptions } from "./pagination";
+
+// ============================================
+// Tipos
+// ============================================
+
+/** Campos comuns a todos os eventos */
+interface BaseEvent {
+  action: string;
+  timestamp: ISOTimestamp;
+}
+
+export interface ListEventsOptions {
+  /** Apenas eventos a partir deste instante (inclusivo) */
+  since?: ISOTimestamp;
+  /** Máximo de eventos (mais recentes) */
+  limit?: number;
+}
+
+export interface EventRepository<E extends BaseEvent> {
+  /** Registra um evento. Retorna o ID gerado. */
+  append(uid: string, event: E): Promise<string>;
+  /**
+   * Registra um evento com ID determinístico, apenas se ainda não existe.
+   * Idempotente: false = já registrado (nada gravado).
+   */
+  appendOnce(uid: string, eventId: string, event: E): Promise<boolean>;
+  /** Lista eventos em ordem cronológica */
+  list(uid: string, options?: ListEventsOptions): Promise<E[]>;
+  /**
+   * Paginação (mais recente primeiro).
+   * Cursor = ID do documento do último item (timestamps podem se repetir).
+   */
+  paginate(uid: string, options?: PageOptions): Promise<Page<E>>;
+  /** Conta eventos (opcionalmente por ação) */
+  count(uid: string, action?: E["action"]): Promise<number>;
+}
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+
+// ============================================
+// Factory
+// ============================================
+
+function createEventRepository<E extends BaseEvent>(
+  collectionName: string
+): EventRepository<E> {
+  const path = (uid: string) => `${PROFILES_COLLECTION}/${uid}/${collectionName}`;
+
+  return {
+    async append(uid, event) {
+      return getDocumentStore().add(path(uid), event);
+    },
+
+    async appendOnce(uid, eventId, event) {
+      return getDocumentStore().create(path(uid), eventId, event);
+    },
+
+    async list(uid, options = {}) {
+      const where: WhereClause[] = options.since
+        ? [{ field: "timestamp", op: ">=", value: options.since }]
+        : [];
+
+      // Busca os mais recentes e devolve em ordem cronológica
+      const docs = await getDocumentStore().query<E>(path(uid), {
+        where,
+        orderBy: { field: "timestamp", direction: "desc" },
+        limit: options.limit,
+      });
+
+      return docs.map((doc) => doc.data).reverse();
+    },
+
+    async paginate(uid, options = {}) {
+      const pageSize = options.pageSize ?? 20;
+      const docs = await getDocumentStore().query<E>(path(uid), {
+        orderBy: { field: "timestamp", direction: "desc" },
+        startAfterId: options.cursor ?? undefined,
+        limit: pageSize,
+      });
+
+      return {
+        items: docs.map((doc) => doc.data),
+        nextCursor: docs.length === pageSize ? docs[docs.length - 1].id : null,
+      };
+    },
+
+    async count(uid, action) {
+      return getDocumentStore().count(
+        path(uid),
+        action ? [{ field: "action", op: "==", value: action }] : []
+      );
+    },
+  };
+}
+
+// ============================================
+// Repositórios
+// ============================================
+
+export const micromomentEvents = createEventRepository<MicromomentEvent>("micromoments");
+
+export const milestoneEvents = createEventRepository<MilestoneEvent>("milestones");
+
+export const ritualEvents = createEventRepository<RitualEvent>("rituals");
+
+export const safetyEvents = createEventRepository<SafetyEvent>("safety");
@@ -25,6 +25,7 @@ export {
   createSessionCookie,
   verifySessionCookie,
   revokeUserSessions,
+  setAdminServices,
 } from "./admin";
 
 // Auth module exports
@@ -37,6 +38,91 @@ export {
   calculateGestationalWeek,
 } from "./auth";
 
+// Document store (backend plugável dos repositórios)
+export {
+  createFirestoreStore,
+  createMemoryStore,
+  getDocumentStore,
+  setDocumentStore,
+} from "./store";
+
+// Checkins repository
+export {
+  getCheckin,
+  saveCheckin,
+  hasAnyCheckin,
+  listCheckinsInRange,
+  listRecentCheckins,
+  listEarliestCheckins,
+  listRecentPregnancyCheckins,
+  listEarliestPregnancyCheckins,
+  paginateCheckins,
+  countCheckins,
+  countCompletedDays,
+  toHistoricalCheckin,
+} from "./checkins";
+
+// Practices repository
+export {
+  getPracticeId,
+  getPractice,
+  savePractice,
+  listPracticesInRange,
+  paginatePractices,
+  countCompletedPractices,
+  toHistoricalPractice,
+} from "./practices";
+
+// Prescriptions repository
+export { getPrescription, savePrescription } from "./prescriptions";
+
+// Pregnancies repository (gestações da conta)
+export {
+  getPregnancy,
+  addPregnancy,
+  savePregnancy,
+  listPregnancies,
+} from "./pregnancies";
+
+// Personal milestones repository (marcos criados pela usuária)
+export { addPersonalMilestone, listPersonalMilestones } from "./personal-milestones";
+
+// Postpartum repository (check-in combinado mãe + bebê, registro do bebê)
+export {
+  getCombinedCheckin,
+  saveCombinedCheckin,
+  listRecentCombinedCheckins,
+  countCombinedCheckins,
+  addBabyLogEntry,
+  listBabyLogEntries,
+} from "./postpartum";
+
+// Screenings repository (histórico de questionários)
+export {
+  saveEPDSResult,
+  listEPDSResults,
+  getLatestEPDSResult,
+  savePrenatalScreeningResult,
+  listPrenatalScreeningResults,
+} from "./screenings";
+
+// Content repository (pacote de conteúdo versionado)
+export {
+  getPublishedContent,
+  getContentVersion,
+  publishContentPackage,
+} from "./content";
+
+// Micromoment rules repository (regras versionadas por coorte)
+export {
+  getPublishedMicromomentRules,
+  getMicromomentRulesVersion,
+  publishMicromomentRules,
+} from "./micromoment-rules";
+
+// Events repositories (append-only)
+export { micromomentEvents, milestoneEvents, ritualEvents, safetyEvents } from "./events";
+
 // Re-export getDateKey from contracts (centralizado)
 export { getDateKey } from "@fluia/contracts";
 
@@ -45,5 +131,15 @@ export { Timestamp } from "firebase-admin/firestore";
 
 // Types
 export type { UserProfile, SessionUser } from "./auth";
+export type {
+  DocumentStore,
+  StoreQuery,
+  StoredDocument,
+  WhereClause,
+  WhereOperator,
+  FieldValueType,
+} from "./store";
+export type { Page, PageOptions } from "./pagination";
+export type { EventRepository, ListEventsOptions } from "./events";
 export type { User, Auth as ClientAuth, Firestore as ClientFirestore } from "./client";
-export type { App as AdminApp, Auth as AdminAuth, Firestore as AdminFirestore } from "./admin";
\ No newline at end of file
+export type { App as AdminApp, Auth as AdminAuth, Firestore as AdminFirestore, AdminServices } from "./admin";
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * @fluia/firebase - Micromoment Rules Repository
+ *
+ * Persistência da configuração versionada das regras de micromomento.
+ * O documento ativo é lido pela API; versões antigas ficam para histórico.
+ * Collections: micromomentRules/active e micromomentRulesVersions/{version}
+ */
+
+import { getDocumentStore } from "./store";
+import type { MicromomentRulesConfig } from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const RULES_COLLECTION = "micromomentRules";
+const ACTIVE_RULES_ID = "active";
+const RULES_VERSIONS_COLLECTION = "micromomentRulesVersions";
+
+// ============================================
+// Configuração de regras
+// ============================================
+
+/**
+ * Obtém a configuração publicada, SEM validação.
+ * Deve passar por loadMicromomentRules (engines) antes de ser usada.
+ * Retorna null se nenhuma configuração foi publicada.
+ */
+export async function getPublishedMicromomentRules(): Promise<unknown | null> {
+  return getDocumentStore().get<Record<string, unknown>>(RULES_COLLECTION, ACTIVE_RULES_ID);
+}
+
+/**
+ * Obtém uma versão específica da configuração (histórico).
+ */
+export async function getMicromomentRulesVersion(version: string): Promise<unknown | null> {
+  return getDocumentStore().get<Record<string, unknown>>(RULES_VERSIONS_COLLECTION, version);
+}
+
+/**
+ * Publica uma configuração já validada.
+ * Grava a versão no histórico e a torna ativa.
+ */
+export async function publishMicromomentRules(config: MicromomentRulesConfig): Promise<void> {
+  const store = getDocumentStore();
+
+  await store.set(RULES_VERSIONS_COLLECTION, config.version, config);
+  await store.set(RULES_COLLECTION, ACTIVE_RULES_ID, config);
+}
@@ -0,0 +1,18 @@
+/**
+ * @fluia/firebase - Pagination
+ *
+ * Tipos de paginação por cursor compartilhados pelos repositórios.
+ */
+
+export interface PageOptions {
+  /** Itens por página (default: 20) */
+  pageSize?: number;
+  /** Cursor retornado pela página anterior */
+  cursor?: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** null = não há mais páginas */
+  nextCursor: string | null;
+}
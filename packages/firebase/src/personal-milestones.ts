@@ -0,0 +1,54 @@
+/**
+ * @fluia/firebase - Personal Milestones Repository
+ *
+ * Marcos criados pela usuária (primeiro chute, ultrassom, chá de bebê...).
+ * Collection: profiles/{uid}/personalMilestones/{personalMilestoneId}
+ */
+
+import { getDocumentStore } from "./store";
+import type { PersonalMilestone } from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const PERSONAL_MILESTONES_COLLECTION = "personalMilestones";
+
+// ============================================
+// Helpers
+// ============================================
+
+function personalMilestonesPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${PERSONAL_MILESTONES_COLLECTION}`;
+}
+
+// ============================================
+// Marcos pessoais
+// ============================================
+
+/**
+ * Registra um marco pessoal.
+ * O personalMilestoneId é o ID gerado do documento.
+ */
+export async function addPersonalMilestone(
+  milestone: Omit<PersonalMilestone, "personalMilestoneId">
+): Promise<PersonalMilestone> {
+  const personalMilestoneId = await getDocumentStore().add(
+    personalMilestonesPath(milestone.uid),
+    milestone
+  );
+
+  return { ...milestone, personalMilestoneId };
+}
+
+/**
+ * Marcos pessoais da conta (ordem cronológica).
+ */
+export async function listPersonalMilestones(uid: string): Promise<PersonalMilestone[]> {
+  const docs = await getDocumentStore().query<PersonalMilestone>(personalMilestonesPath(uid), {
+    orderBy: { field: "date", direction: "asc" },
+  });
+
+  return docs.map((doc) => ({ ...doc.data, personalMilestoneId: doc.id }));
+}
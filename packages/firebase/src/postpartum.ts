@@ -0,0 +1,127 @@
+/**
+ * @fluia/firebase - Postpartum Repository
+ *
+ * Persistência do puerpério.
+ * - Check-in combinado (mãe + bebê): um documento por dia
+ *   Collection: profiles/{uid}/combinedCheckins/{dateKey}
+ * - Registro do bebê (sono, mamadas, fraldas, peso): um documento por registro
+ *   Collection: profiles/{uid}/babyLog/{entryId}
+ *   Cada registro é de um bebê (babyId) de uma gestação (pregnancyId)
+ *
+ * O estado da transição vive no perfil (profiles/{uid}.postpartum).
+ */
+
+import { getDocumentStore } from "./store";
+import type {
+  BabyLogEntry,
+  DateKey,
+  StoredBabyLogEntry,
+  StoredCombinedCheckin,
+} from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const COMBINED_CHECKINS_COLLECTION = "combinedCheckins";
+const BABY_LOG_COLLECTION = "babyLog";
+
+// ============================================
+// Helpers
+// ============================================
+
+function combinedCheckinsPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${COMBINED_CHECKINS_COLLECTION}`;
+}
+
+function babyLogPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${BABY_LOG_COLLECTION}`;
+}
+
+// ============================================
+// Check-in combinado
+// ============================================
+
+/**
+ * Obtém o check-in combinado de um dia.
+ * Retorna null se não existir.
+ */
+export async function getCombinedCheckin(
+  uid: string,
+  dateKey: DateKey
+): Promise<StoredCombinedCheckin | null> {
+  return getDocumentStore().get<StoredCombinedCheckin>(combinedCheckinsPath(uid), dateKey);
+}
+
+/**
+ * Salva (cria ou substitui) o check-in combinado do dia.
+ */
+export async function saveCombinedCheckin(checkin: StoredCombinedCheckin): Promise<void> {
+  await getDocumentStore().set(combinedCheckinsPath(checkin.uid), checkin.dateKey, checkin);
+}
+
+/**
+ * Lista os check-ins combinados mais recentes (mais recente primeiro).
+ * beforeDateKey exclui o dia informado e os seguintes.
+ */
+export async function listRecentCombinedCheckins(
+  uid: string,
+  limit: number,
+  beforeDateKey?: DateKey
+): Promise<StoredCombinedCheckin[]> {
+  const docs = await getDocumentStore().query<StoredCombinedCheckin>(combinedCheckinsPath(uid), {
+    where: beforeDateKey ? [{ field: "dateKey", op: "<", value: beforeDateKey }] : [],
+    orderBy: { field: "dateKey", direction: "desc" },
+    limit,
+  });
+
+  return docs.map((doc) => doc.data);
+}
+
+/**
+ * Total de dias com check-in combinado (presença no puerpério).
+ */
+export async function countCombinedCheckins(uid: string): Promise<number> {
+  return getDocumentStore().count(combinedCheckinsPath(uid));
+}
+
+// ============================================
+// Registro do bebê
+// ============================================
+
+/**
+ * Registra um cuidado do bebê.
+ * O entryId é o ID gerado do documento.
+ */
+export async function addBabyLogEntry(
+  uid: string,
+  dateKey: DateKey,
+  entry: BabyLogEntry & { pregnancyId: string; babyId: string },
+  createdAt: string
+): Promise<StoredBabyLogEntry> {
+  const data = { ...entry, uid, dateKey, createdAt };
+  const entryId = await getDocumentStore().add(babyLogPath(uid), data);
+
+  return { ...data, entryId };
+}
+
+/**
+ * Registros do bebê entre dois dias (inclusive), mais antigo primeiro.
+ * Inclui todos os bebês: os agregados filtram por bebê (filterBabyLogEntries).
+ */
+export async function listBabyLogEntries(
+  uid: string,
+  fromDateKey: DateKey,
+  toDateKey: DateKey
+): Promise<StoredBabyLogEntry[]> {
+  const docs = await getDocumentStore().query<StoredBabyLogEntry>(babyLogPath(uid), {
+    where: [
+      { field: "dateKey", op: ">=", value: fromDateKey },
+      { field: "dateKey", op: "<=", value: toDateKey },
+    ],
+    orderBy: { field: "dateKey", direction: "asc" },
+  });
+
+  return docs.map((doc) => ({ ...doc.data, entryId: doc.id }));
+}
@@ -0,0 +1,147 @@
+/**
+ * @fluia/firebase - Practices Repository
+ *
+ * Persistência das práticas (treinos) realizadas.
+ * Collection: profiles/{uid}/trainings/{id}
+ */
+
+import { getDocumentStore } from "./store";
+import type {
+  DateKey,
+  StoredTraining,
+  HistoricalPractice,
+  EmotionalPillar,
+  MetricKey,
+} from "@fluia/contracts";
+import type { Page, PageOptions } from "./pagination";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const TRAININGS_COLLECTION = "trainings";
+
+// ============================================
+// Helpers
+// ============================================
+
+function trainingsPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${TRAININGS_COLLECTION}`;
+}
+
+// ============================================
+// Práticas
+// ============================================
+
+/**
+ * ID do registro de um treino no dia.
+ * Um registro por treino prescrito: reiniciar sobrescreve o mesmo documento.
+ */
+export function getPracticeId(dateKey: DateKey, trainingId: string): string {
+  return `${dateKey}_${trainingId}`;
+}
+
+/**
+ * Obtém uma prática pelo ID do registro.
+ */
+export async function getPractice(
+  uid: string,
+  id: string
+): Promise<StoredTraining | null> {
+  return getDocumentStore().get<StoredTraining>(trainingsPath(uid), id);
+}
+
+/**
+ * Salva (cria ou sobrescreve) uma prática.
+ */
+export async function savePractice(training: StoredTraining): Promise<void> {
+  await getDocumentStore().set(trainingsPath(training.uid), training.id, training);
+}
+
+/**
+ * Lista práticas em um intervalo de dias (inclusivo).
+ * Ordem cronológica por início.
+ */
+export async function listPracticesInRange(
+  uid: string,
+  fromDateKey: DateKey,
+  toDateKey: DateKey
+): Promise<StoredTraining[]> {
+  const docs = await getDocumentStore().query<StoredTraining>(trainingsPath(uid), {
+    where: [
+      { field: "dateKey", op: ">=", value: fromDateKey },
+      { field: "dateKey", op: "<=", value: toDateKey },
+    ],
+    orderBy: { field: "dateKey" },
+  });
+
+  return docs
+    .map((doc) => doc.data)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * Paginação de práticas (mais recente primeiro).
+ * Cursor = startedAt do último item.
+ */
+export async function paginatePractices(
+  uid: string,
+  options: PageOptions = {}
+): Promise<Page<StoredTraining>> {
+  const pageSize = options.pageSize ?? 20;
+  const docs = await getDocumentStore().query<StoredTraining>(trainingsPath(uid), {
+    orderBy: { field: "startedAt", direction: "desc" },
+    startAfter: options.cursor ?? undefined,
+    limit: pageSize,
+  });
+
+  const items = docs.map((doc) => doc.data);
+
+  return {
+    items,
+    nextCursor: items.length === pageSize ? items[items.length - 1].startedAt : null,
+  };
+}
+
+/**
+ * Total de práticas concluídas (opcionalmente de uma categoria).
+ */
+export async function countCompletedPractices(
+  uid: string,
+  category?: MetricKey
+): Promise<number> {
+  return getDocumentStore().count(trainingsPath(uid), [
+    { field: "status", op: "==", value: "completed" },
+    ...(category ? [{ field: "category", op: "==" as const, value: category }] : []),
+  ]);
+}
+
+// ============================================
+// Mapeamento para engines
+// ============================================
+
+/**
+ * Converte prática concluída no formato histórico das engines.
+ * Tipo e nome vêm do catálogo (engines), por isso são recebidos aqui.
+ * Retorna null se a prática não foi concluída.
+ */
+export function toHistoricalPractice(
+  training: StoredTraining,
+  details: { type: string; name: string }
+): HistoricalPractice | null {
+  if (training.status !== "completed" || !training.completedAt) {
+    return null;
+  }
+
+  return {
+    date: training.dateKey,
+    type: details.type,
+    name: details.name,
+    duration: training.actualDurationSeconds
+      ? Math.round(training.actualDurationSeconds / 60)
+      : training.plannedDurationMinutes,
+    pillar: training.category as EmotionalPillar,
+    completedAt: training.completedAt,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * @fluia/firebase - Pregnancies Repository
+ *
+ * Gestações da conta (gemelar, gestações seguintes, perda).
+ * A gestação ativa é apontada por profiles/{uid}.activePregnancyId.
+ * Collection: profiles/{uid}/pregnancies/{pregnancyId}
+ */
+
+import { getDocumentStore } from "./store";
+import type { Pregnancy } from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const PREGNANCIES_COLLECTION = "pregnancies";
+
+// ============================================
+// Helpers
+// ============================================
+
+function pregnanciesPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${PREGNANCIES_COLLECTION}`;
+}
+
+// ============================================
+// Gestações
+// ============================================
+
+/**
+ * Obtém uma gestação.
+ * Retorna null se não existir.
+ */
+export async function getPregnancy(uid: string, pregnancyId: string): Promise<Pregnancy | null> {
+  return getDocumentStore().get<Pregnancy>(pregnanciesPath(uid), pregnancyId);
+}
+
+/**
+ * Registra uma nova gestação.
+ * O pregnancyId é o ID gerado do documento.
+ */
+export async function addPregnancy(
+  pregnancy: Omit<Pregnancy, "pregnancyId">
+): Promise<Pregnancy> {
+  const pregnancyId = await getDocumentStore().add(pregnanciesPath(pregnancy.uid), pregnancy);
+
+  return { ...pregnancy, pregnancyId };
+}
+
+/**
+ * Salva (cria ou substitui) uma gestação com ID conhecido.
+ */
+export async function savePregnancy(pregnancy: Pregnancy): Promise<void> {
+  await getDocumentStore().set(pregnanciesPath(pregnancy.uid), pregnancy.pregnancyId, pregnancy);
+}
+
+/**
+ * Gestações da conta (mais recente primeiro).
+ */
+export async function listPregnancies(uid: string): Promise<Pregnancy[]> {
+  const docs = await getDocumentStore().query<Pregnancy>(pregnanciesPath(uid), {
+    orderBy: { field: "createdAt", direction: "desc" },
+  });
+
+  return docs.map((doc) => ({ ...doc.data, pregnancyId: doc.id }));
+}
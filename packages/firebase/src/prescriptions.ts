@@ -0,0 +1,52 @@
+/**
+ * @fluia/firebase - Prescriptions Repository
+ *
+ * Persistência da prescrição diária.
+ * Gerada uma vez por dia: recargas retornam a mesma prescrição.
+ * Collection: profiles/{uid}/prescriptions/{dateKey}
+ */
+
+import { getDocumentStore } from "./store";
+import type { DateKey, StoredPrescription } from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const PRESCRIPTIONS_COLLECTION = "prescriptions";
+
+// ============================================
+// Helpers
+// ============================================
+
+function prescriptionsPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${PRESCRIPTIONS_COLLECTION}`;
+}
+
+// ============================================
+// Prescrições
+// ============================================
+
+/**
+ * Obtém a prescrição de um dia.
+ * Retorna null se ainda não foi gerada.
+ */
+export async function getPrescription(
+  uid: string,
+  dateKey: DateKey
+): Promise<StoredPrescription | null> {
+  return getDocumentStore().get<StoredPrescription>(prescriptionsPath(uid), dateKey);
+}
+
+/**
+ * Salva a prescrição do dia.
+ * O documento é identificado pela dateKey da própria prescrição.
+ */
+export async function savePrescription(prescription: StoredPrescription): Promise<void> {
+  await getDocumentStore().set(
+    prescriptionsPath(prescription.uid),
+    prescription.dateKey,
+    prescription
+  );
+}
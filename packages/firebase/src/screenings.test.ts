@@ -0,0 +1,71 @@
+/**
+ * Rastreios por gestação (store em memória, via build como os consumidores).
+ *
+ * O limite vale depois do filtro; resultados sem pregnancyId são da gestação padrão.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryStore,
+  setDocumentStore,
+  saveEPDSResult,
+  listEPDSResults,
+  getLatestEPDSResult,
+  savePrenatalScreeningResult,
+  listPrenatalScreeningResults,
+} from "../dist/index.mjs";
+import type { EPDSResult, PrenatalScreeningResult } from "@fluia/contracts";
+
+function epds(screenedAt: string, daysSinceBirth: number): EPDSResult {
+  return {
+    instrument: "epds",
+    period: "postpartum",
+    screenedAt,
+    daysSinceBirth,
+  } as EPDSResult;
+}
+
+function prenatal(screenedAt: string, trimester: 1 | 2 | 3): PrenatalScreeningResult {
+  return {
+    instrument: "gad7",
+    period: "prenatal",
+    screenedAt,
+    trimester,
+  } as PrenatalScreeningResult;
+}
+
+describe("pregnancy screenings", () => {
+  let store: ReturnType<typeof createMemoryStore>;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    setDocumentStore(store);
+  });
+
+  afterEach(() => setDocumentStore(null));
+
+  it("keeps a new baby's EPDS history apart from the previous one", async () => {
+    // Resultado legado (sem pregnancyId) e os do primeiro bebê
+    await store.add("profiles/u1/screenings", { ...epds("2026-01-01T12:00:00.000Z", 30), uid: "u1" });
+    await saveEPDSResult("u1", "primary", epds("2026-06-01T12:00:00.000Z", 200));
+    await saveEPDSResult("u1", "p2", epds("2026-07-01T12:00:00.000Z", 14));
+
+    expect(await getLatestEPDSResult("u1", "p3")).toBeNull();
+    expect((await getLatestEPDSResult("u1", "p2"))?.daysSinceBirth).toBe(14);
+    expect((await listEPDSResults("u1", "primary")).map((r) => r.daysSinceBirth)).toEqual([200, 30]);
+  });
+
+  it("applies the limit after filtering by pregnancy", async () => {
+    // O mais recente é de outra gestação: a gestação padrão percorre páginas
+    await savePrenatalScreeningResult("u1", "p2", prenatal("2026-06-05T12:00:00.000Z", 1));
+    for (const day of ["02", "03", "04"]) {
+      await savePrenatalScreeningResult("u1", "primary", prenatal(`2026-06-${day}T12:00:00.000Z`, 3));
+    }
+
+    const [latest] = await listPrenatalScreeningResults("u1", "p2", 1);
+    const primary = await listPrenatalScreeningResults("u1", "primary", 2);
+
+    expect(latest).toMatchObject({ pregnancyId: "p2", trimester: 1 });
+    expect(primary.map((r) => r.screenedAt.slice(0, 10))).toEqual(["2026-06-04", "2026-06-03"]);
+  });
+});
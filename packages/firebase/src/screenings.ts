@@ -0,0 +1,169 @@
+/**
+ * @fluia/firebase - Screenings Repository
+ *
+ * Histórico de questionários de rastreio (EPDS e GAD-7).
+ * Resultados nunca são atualizados: cada aplicação é um novo documento.
+ * Gestação e puerpério dividem a collection (campo period).
+ * Cada resultado pertence a uma gestação (pregnancyId): o agendamento de um
+ * novo bebê ou de uma nova gestação não herda o histórico anterior.
+ * Resultados sem pregnancyId pertencem a DEFAULT_PREGNANCY_ID.
+ * Collection: profiles/{uid}/screenings/{screeningId}
+ */
+
+import { getDocumentStore, type WhereClause } from "./store";
+import { DEFAULT_PREGNANCY_ID, getPregnancyScope } from "@fluia/contracts";
+import type {
+  EPDSResult,
+  PrenatalScreeningResult,
+  ScreeningPeriod,
+  StoredEPDSResult,
+  StoredPrenatalScreeningResult,
+} from "@fluia/contracts";
+
+// ============================================
+// Constantes
+// ============================================
+
+const PROFILES_COLLECTION = "profiles";
+const SCREENINGS_COLLECTION = "screenings";
+
+/** Tamanho padrão do histórico */
+const DEFAULT_HISTORY_LIMIT = 10;
+
+// ============================================
+// Helpers
+// ============================================
+
+function screeningsPath(uid: string): string {
+  return `${PROFILES_COLLECTION}/${uid}/${SCREENINGS_COLLECTION}`;
+}
+
+/**
+ * Resultados de um período numa gestação (mais recente primeiro), com o
+ * limite aplicado depois do filtro. O screeningId vem do ID do documento.
+ * Gestações com ID consultam por pregnancyId. A gestação padrão inclui os
+ * resultados sem o campo (Firestore não consulta campo ausente): o histórico
+ * é percorrido em páginas e filtrado.
+ */
+async function listByPeriod<T extends { uid: string; pregnancyId?: string }>(
+  uid: string,
+  period: ScreeningPeriod,
+  pregnancyId: string,
+  limit: number
+): Promise<Array<T & { screeningId: string }>> {
+  const where: WhereClause[] = [{ field: "period", op: "==", value: period }];
+  const orderBy = { field: "screenedAt", direction: "desc" as const };
+
+  if (pregnancyId !== DEFAULT_PREGNANCY_ID) {
+    const docs = await getDocumentStore().query<T>(screeningsPath(uid), {
+      where: [...where, { field: "pregnancyId", op: "==", value: pregnancyId }],
+      orderBy,
+      limit,
+    });
+
+    return docs.map((doc) => ({ ...doc.data, screeningId: doc.id }));
+  }
+
+  const results: Array<T & { screeningId: string }> = [];
+  let cursor: string | undefined;
+
+  while (results.length < limit) {
+    const docs = await getDocumentStore().query<T>(screeningsPath(uid), {
+      where,
+      orderBy,
+      startAfterId: cursor,
+      limit,
+    });
+
+    results.push(
+      ...docs
+        .filter((doc) => getPregnancyScope(doc.data) === pregnancyId)
+        .map((doc) => ({ ...doc.data, screeningId: doc.id }))
+    );
+
+    if (docs.length < limit) break;
+    cursor = docs[docs.length - 1].id;
+  }
+
+  return results.slice(0, limit);
+}
+
+// ============================================
+// Puerpério (EPDS)
+// ============================================
+
+/**
+ * Registra um resultado da EPDS no puerpério, na gestação que o originou.
+ * O screeningId é o ID gerado do documento.
+ */
+export async function saveEPDSResult(
+  uid: string,
+  pregnancyId: string,
+  result: EPDSResult
+): Promise<StoredEPDSResult> {
+  const data = { ...result, uid, pregnancyId };
+  const screeningId = await getDocumentStore().add(screeningsPath(uid), data);
+
+  return { ...data, screeningId };
+}
+
+/**
+ * Histórico da EPDS no puerpério de uma gestação (mais recente primeiro).
+ */
+export async function listEPDSResults(
+  uid: string,
+  pregnancyId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<StoredEPDSResult[]> {
+  return listByPeriod<Omit<StoredEPDSResult, "screeningId">>(
+    uid,
+    "postpartum",
+    pregnancyId,
+    limit
+  );
+}
+
+/**
+ * Última EPDS respondida no puerpério da gestação (null se nunca respondeu).
+ */
+export async function getLatestEPDSResult(
+  uid: string,
+  pregnancyId: string
+): Promise<StoredEPDSResult | null> {
+  const [latest] = await listEPDSResults(uid, pregnancyId, 1);
+  return latest ?? null;
+}
+
+// ============================================
+// Gestação (EPDS antenatal + GAD-7)
+// ============================================
+
+/**
+ * Registra um questionário respondido na gestação.
+ */
+export async function savePrenatalScreeningResult(
+  uid: string,
+  pregnancyId: string,
+  result: PrenatalScreeningResult
+): Promise<StoredPrenatalScreeningResult> {
+  const data = { ...result, uid, pregnancyId };
+  const screeningId = await getDocumentStore().add(screeningsPath(uid), data);
+
+  return { ...data, screeningId };
+}
+
+/**
+ * Histórico de uma gestação (mais recente primeiro).
+ */
+export async function listPrenatalScreeningResults(
+  uid: string,
+  pregnancyId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<StoredPrenatalScreeningResult[]> {
+  return listByPeriod<Omit<StoredPrenatalScreeningResult, "screeningId">>(
+    uid,
+    "prenatal",
+    pregnancyId,
+    limit
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * @fluia/firebase - Document Store
+ *
+ * Backend plugável dos repositórios.
+ * - Produção: Firestore (Admin SDK)
+ * - Testes/local: memória
+ *
+ * Os repositórios só conhecem esta interface, nunca o SDK diretamente.
+ */
+
+import { getAdminFirestore } from "./admin";
+import type { DocumentSnapshot, Firestore, Query } from "firebase-admin/firestore";
+
+// ============================================
+// Tipos
+// ============================================
+
+export type WhereOperator = "==" | "<" | "<=" | ">" | ">=";
+
+export type FieldValueType = string | number | boolean;
+
+export interface WhereClause {
+  /** Campo (aceita caminho com ponto, ex: "recovery.completedAt") */
+  field: string;
+  op: WhereOperator;
+  value: FieldValueType;
+}
+
+export interface StoreQuery {
+  where?: WhereClause[];
+  orderBy?: {
+    field: string;
+    direction?: "asc" | "desc";
+  };
+  limit?: number;
+  /** Cursor: valor do campo de orderBy do último item da página anterior */
+  startAfter?: FieldValueType;
+  /**
+   * Cursor: ID do último documento da página anterior (com orderBy).
+   * Valores iguais no campo de orderBy são desempatados pelo ID,
+   * como a ordenação implícita do Firestore. Documento inexistente = fim.
+   */
+  startAfterId?: string;
+}
+
+export interface StoredDocument<T> {
+  id: string;
+  data: T;
+}
+
+/**
+ * Contrato do backend.
+ * collectionPath usa o formato do Firestore: "profiles/{uid}/checkins".
+ */
+export interface DocumentStore {
+  get<T>(collectionPath: string, id: string): Promise<T | null>;
+  set<T extends object>(collectionPath: string, id: string, data: T): Promise<void>;
+  /** Cria o documento apenas se ainda não existe. false = já existia (nada gravado). */
+  create<T extends object>(collectionPath: string, id: string, data: T): Promise<boolean>;
+  add<T extends object>(collectionPath: string, data: T): Promise<string>;
+  query<T>(collectionPath: string, query?: StoreQuery): Promise<StoredDocument<T>[]>;
+  count(collectionPath: string, where?: WhereClause[]): Promise<number>;
+}
+
+// ============================================
+// Firestore
+// ============================================
+
+/**
+ * Documento já existe (create)?
+ * Admin SDK: código gRPC 6 (ALREADY_EXISTS); fakes: "already-exists".
+ */
+function isAlreadyExistsError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === 6 || code === "already-exists";
+}
+
+/**
+ * Backend Firestore (produção).
+ */
+export function createFirestoreStore(db: Firestore): DocumentStore {
+  function buildQuery(
+    collectionPath: string,
+    query: StoreQuery = {},
+    cursor?: DocumentSnapshot
+  ): Query {
+    let ref: Query = db.collection(collectionPath);
+
+    for (const clause of query.where ?? []) {
+      ref = ref.where(clause.field, clause.op, clause.value);
+    }
+    if (query.orderBy) {
+      ref = ref.orderBy(query.orderBy.field, query.orderBy.direction ?? "asc");
+    }
+    if (cursor) {
+      ref = ref.startAfter(cursor);
+    } else if (query.startAfter !== undefined) {
+      ref = ref.startAfter(query.startAfter);
+    }
+    if (query.limit !== undefined) {
+      ref = ref.limit(query.limit);
+    }
+
+    return ref;
+  }
+
+  return {
+    async get<T>(collectionPath: string, id: string) {
+      const doc = await db.collection(collectionPath).doc(id).get();
+      return doc.exists ? (doc.data() as T) : null;
+    },
+
+    async set(collectionPath, id, data) {
+      await db.collection(collectionPath).doc(id).set(data);
+    },
+
+    async create(collectionPath, id, data) {
+      try {
+        await db.collection(collectionPath).doc(id).create(data);
+        return true;
+      } catch (error) {
+        if (isAlreadyExistsError(error)) return false;
+        throw error;
+      }
+    },
+
+    async add(collectionPath, data) {
+      const ref = await db.collection(collectionPath).add(data);
+      return ref.id;
+    },
+
+    async query<T>(collectionPath: string, query?: StoreQuery) {
+      let cursor: DocumentSnapshot | undefined;
+
+      if (query?.startAfterId !== undefined) {
+        cursor = await db.collection(collectionPath).doc(query.startAfterId).get();
+        if (!cursor.exists) return [];
+      }
+
+      const snapshot = await buildQuery(collectionPath, query, cursor).get();
+      return snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() as T }));
+    },
+
+    async count(collectionPath, where) {
+      const snapshot = await buildQuery(collectionPath, { where }).count().get();
+      return snapshot.data().count;
+    },
+  };
+}
+
+// ============================================
+// Memória
+// ============================================
+
+/**
+ * Lê um campo por caminho com ponto.
+ * @internal Compartilhado com os fakes de testing.ts
+ */
+export function readField(data: unknown, field: string): unknown {
+  return field.split(".").reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    data
+  );
+}
+
+/** @internal */
+export function compare(a: FieldValueType, b: FieldValueType): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+/** @internal */
+export function matches(data: unknown, clause: WhereClause): boolean {
+  const value = readField(data, clause.field);
+
+  // Firestore ignora documentos sem o campo ou com tipo diferente
+  if (value === undefined || typeof value !== typeof clause.value) return false;
+
+  const result = compare(value as FieldValueType, clause.value);
+  switch (clause.op) {
+    case "==": return result === 0;
+    case "<": return result < 0;
+    case "<=": return result <= 0;
+    case ">": return result > 0;
+    case ">=": return result >= 0;
+  }
+}
+
+/**
+ * Backend em memória (testes e desenvolvimento local).
+ * Copia os dados na escrita e na leitura, como o Firestore.
+ */
+export function createMemoryStore(): DocumentStore {
+  const collections = new Map<string, Map<string, unknown>>();
+  let autoId = 0;
+
+  function collection(path: string): Map<string, unknown> {
+    let docs = collections.get(path);
+    if (!docs) {
+      docs = new Map();
+      collections.set(path, docs);
+    }
+    return docs;
+  }
+
+  function runQuery<T>(collectionPath: string, query: StoreQuery = {}): StoredDocument<T>[] {
+    let docs = Array.from(collection(collectionPath).entries())
+      .filter(([, data]) => (query.where ?? []).every((clause) => matches(data, clause)))
+      .map(([id, data]) => ({ id, data: structuredClone(data) as T }));
+
+    const { orderBy } = query;
+    if (orderBy) {
+      const direction = orderBy.direction === "desc" ? -1 : 1;
+      const key = (data: unknown) => readField(data, orderBy.field) as FieldValueType;
+      // Desempate pelo ID (ordenação implícita do Firestore)
+      const order = (a: { id: string; data: unknown }, b: { id: string; data: unknown }) =>
+        direction * (compare(key(a.data), key(b.data)) || compare(a.id, b.id));
+
+      docs = docs
+        .filter((doc) => key(doc.data) !== undefined)
+        .sort(order);
+
+      if (query.startAfterId !== undefined) {
+        const data = collection(collectionPath).get(query.startAfterId);
+        if (data === undefined) return [];
+
+        const cursor = { id: query.startAfterId, data };
+        docs = docs.filter((doc) => order(doc, cursor) > 0);
+      } else if (query.startAfter !== undefined) {
+        const cursor = query.startAfter;
+        docs = docs.filter((doc) => direction * compare(key(doc.data), cursor) > 0);
+      }
+    }
+
+    return query.limit !== undefined ? docs.slice(0, query.limit) : docs;
+  }
+
+  return {
+    async get<T>(collectionPath: string, id: string) {
+      const data = collection(collectionPath).get(id);
+      return data === undefined ? null : (structuredClone(data) as T);
+    },
+
+    async set(collectionPath, id, data) {
+      collection(collectionPath).set(id, structuredClone(data));
+    },
+
+    async create(collectionPath, id, data) {
+      const docs = collection(collectionPath);
+      if (docs.has(id)) return false;
+
+      docs.set(id, structuredClone(data));
+      return true;
+    },
+
+    async add(collectionPath, data) {
+      autoId += 1;
+      const id = `mem-${autoId.toString().padStart(8, "0")}`;
+      collection(collectionPath).set(id, structuredClone(data));
+      return id;
+    },
+
+    async query<T>(collectionPath: string, query?: StoreQuery) {
+      return runQuery<T>(collectionPath, query);
+    },
+
+    async count(collectionPath, where) {
+      return runQuery(collectionPath, { where }).length;
+    },
+  };
+}
+
+// ============================================
+// Store ativo
+// ============================================
+
+let activeStore: DocumentStore | null = null;
+
+/**
+ * Obtém o store ativo.
+ * Default: Firestore (lazy, só inicializa o Admin SDK quando usado).
+ */
+export function getDocumentStore(): DocumentStore {
+  if (!activeStore) {
+    activeStore = createFirestoreStore(getAdminFirestore());
+  }
+  return activeStore;
+}
+
+/**
+ * Substitui o store ativo (ex: memória em testes).
+ * Passar null volta ao Firestore.
+ */
+export function setDocumentStore(store: DocumentStore | null): void {
+  activeStore = store;
+}
@@ -0,0 +1,140 @@
+/**
+ * Fakes do Admin SDK vistos pelos pacotes publicados.
+ *
+ * Importa o build (dist), como os consumidores: @fluia/firebase/testing
+ * precisa afetar os repositórios de @fluia/firebase (mesma instância de
+ * admin.ts/store.ts). Requer `pnpm build` antes (turbo: test depende de build).
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { installFakeAdmin, uninstallFakeAdmin } from "../dist/testing.mjs";
+import {
+  getPregnancy,
+  savePregnancy,
+  micromomentEvents,
+  createSessionCookie,
+  verifySessionCookie,
+  revokeUserSessions,
+  getOrCreateUserProfile,
+} from "../dist/index.mjs";
+
+const pregnancy = {
+  pregnancyId: "p1",
+  uid: "u1",
+  status: "active" as const,
+  dueDate: "2027-01-01",
+  gestationalWeekAtCreation: 12,
+  isFirstPregnancy: true,
+  babies: [],
+  createdAt: "2026-06-01T12:00:00.000Z",
+  updatedAt: "2026-06-01T12:00:00.000Z",
+};
+
+describe("installFakeAdmin", () => {
+  afterEach(() => uninstallFakeAdmin());
+
+  it("backs the published repositories with the fake Firestore", async () => {
+    const fake = installFakeAdmin();
+
+    await savePregnancy(pregnancy);
+    await micromomentEvents.append("u1", {
+      micromomentId: "MM2-1",
+      type: "MM2",
+      action: "shown",
+      timestamp: "2026-06-01T12:00:00.000Z",
+    });
+
+    expect(await getPregnancy("u1", "p1")).toEqual(pregnancy);
+    expect(await micromomentEvents.list("u1")).toHaveLength(1);
+    expect(Object.keys(fake.firestore.dump())).toContain("profiles/u1/pregnancies/p1");
+  });
+});
+
+describe("FakeAuth sessions", () => {
+  afterEach(() => uninstallFakeAdmin());
+
+  it("creates and verifies a session cookie from an ID token", async () => {
+    const fake = installFakeAdmin();
+    const idToken = fake.auth.registerUser({ uid: "u1", email: "a@b.com", name: "Ana" });
+
+    const cookie = await createSessionCookie(idToken);
+
+    expect(await verifySessionCookie(cookie)).toEqual({
+      uid: "u1",
+      email: "a@b.com",
+      name: "Ana",
+      picture: undefined,
+    });
+  });
+
+  it("rejects unknown ID tokens and session cookies", async () => {
+    installFakeAdmin();
+
+    await expect(createSessionCookie("not-a-token")).rejects.toMatchObject({
+      code: "auth/argument-error",
+    });
+    await expect(verifySessionCookie("not-a-cookie")).rejects.toMatchObject({
+      code: "auth/argument-error",
+    });
+  });
+
+  it("rejects revoked sessions only when checking revocation", async () => {
+    const fake = installFakeAdmin();
+    const cookie = await createSessionCookie(fake.auth.registerUser({ uid: "u1" }));
+
+    await revokeUserSessions("u1");
+
+    await expect(verifySessionCookie(cookie)).rejects.toMatchObject({
+      code: "auth/session-cookie-revoked",
+    });
+    expect((await verifySessionCookie(cookie, false)).uid).toBe("u1");
+
+    // Sessão emitida depois da revogação vale
+    const fresh = await createSessionCookie(fake.auth.registerUser({ uid: "u1" }));
+    expect((await verifySessionCookie(fresh)).uid).toBe("u1");
+  });
+});
+
+describe("getOrCreateUserProfile", () => {
+  afterEach(() => uninstallFakeAdmin());
+
+  it("creates the profile from the Auth user on first access", async () => {
+    const fake = installFakeAdmin();
+    fake.auth.registerUser({ uid: "u1", email: "a@b.com", name: "Ana", providerId: "password" });
+
+    const profile = await getOrCreateUserProfile("u1");
+
+    expect(profile).toMatchObject({
+      uid: "u1",
+      email: "a@b.com",
+      displayName: "Ana",
+      photoURL: null,
+      provider: "password",
+      onboardingCompleted: false,
+    });
+    expect(fake.firestore.dump()["profiles/u1"]).toMatchObject({ uid: "u1", email: "a@b.com" });
+  });
+
+  it("touches an existing profile without recreating it", async () => {
+    const fake = installFakeAdmin();
+    await fake.firestore.collection("profiles").doc("u1").set({
+      uid: "u1",
+      email: "old@b.com",
+      timezone: "America/Sao_Paulo",
+      lastActiveDate: "2020-01-01",
+    });
+
+    const profile = await getOrCreateUserProfile("u1", {
+      email: "new@b.com",
+      displayName: null,
+      photoURL: null,
+      provider: "google.com",
+    });
+    const stored = fake.firestore.dump()["profiles/u1"];
+
+    expect(profile.email).toBe("old@b.com");
+    expect(stored.email).toBe("old@b.com");
+    expect(stored.lastActiveDate).not.toBe("2020-01-01");
+    expect(stored.lastSeenAt).toBeDefined();
+  });
+});
@@ -0,0 +1,523 @@
+/**
+ * @fluia/firebase - Testing
+ *
+ * Fakes em memória do Admin SDK (App, Auth, Firestore).
+ * Implementam apenas o subconjunto usado pela FLUIA:
+ * - Auth: verifyIdToken, createSessionCookie, verifySessionCookie,
+ *         revokeRefreshTokens, getUser
+ * - Firestore: doc get/set/create/update/delete, collection add,
+ *              where/orderBy/limit/startAfter (valor ou snapshot), count()
+ *
+ * Uso (testes ou desenvolvimento offline, sem service account):
+ *   const fake = installFakeAdmin();
+ *   const idToken = fake.auth.registerUser({ uid: "u1", email: "a@b.com" });
+ *   const cookie = await createSessionCookie(idToken);
+ *   ...
+ *   uninstallFakeAdmin();
+ *
+ * NUNCA importar em código de produção.
+ */
+
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { App } from "firebase-admin/app";
+import type { Auth } from "firebase-admin/auth";
+import type { Firestore } from "firebase-admin/firestore";
+import { setAdminServices } from "./admin";
+import { setDocumentStore, readField, compare, matches, type WhereOperator, type FieldValueType } from "./store";
+
+// ============================================
+// Erros
+// ============================================
+
+/**
+ * Erro no formato do Admin SDK (com `code`).
+ */
+export class FakeFirebaseError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "FakeFirebaseError";
+  }
+}
+
+// ============================================
+// Helpers de dados
+// ============================================
+
+type DocumentData = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is DocumentData {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Cópia profunda preservando instâncias (Timestamp é imutável).
+ */
+function cloneData<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneData) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, cloneData(v)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Resolve sentinelas de FieldValue suportadas.
+ */
+function resolveValue(value: unknown): unknown {
+  if (value instanceof FieldValue) {
+    if (value.isEqual(FieldValue.serverTimestamp())) {
+      return Timestamp.now();
+    }
+    throw new FakeFirebaseError(
+      "unimplemented",
+      "[Fake Firestore] Only FieldValue.serverTimestamp() is supported"
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(resolveValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, resolveValue(v)])
+    );
+  }
+  return value;
+}
+
+function deepMerge(target: DocumentData, source: DocumentData): DocumentData {
+  const result: DocumentData = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? deepMerge(result[key] as DocumentData, value)
+        : value;
+  }
+  return result;
+}
+
+function setField(data: DocumentData, fieldPath: string, value: unknown): void {
+  const keys = fieldPath.split(".");
+  let current = data;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as DocumentData;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function parentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf("/"));
+}
+
+function lastSegment(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/** Valor comparável (Timestamp → millis) */
+function comparable(value: unknown): FieldValueType | undefined {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return undefined;
+}
+
+// ============================================
+// Fake Firestore
+// ============================================
+
+interface QueryState {
+  where: { field: string; op: WhereOperator; value: FieldValueType }[];
+  orderBy?: { field: string; direction: "asc" | "desc" };
+  limit?: number;
+  /** Valor do campo de orderBy ou snapshot do último documento */
+  startAfter?: FieldValueType | FakeDocumentSnapshot;
+}
+
+class FakeDocumentSnapshot {
+  constructor(
+    public readonly ref: FakeDocumentReference,
+    private readonly _data: DocumentData | undefined
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this._data !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this._data === undefined ? undefined : cloneData(this._data);
+  }
+
+  get(field: string): unknown {
+    return readField(this._data, field);
+  }
+}
+
+class FakeDocumentReference {
+  constructor(
+    private readonly db: FakeFirestore,
+    public readonly path: string
+  ) {}
+
+  get id(): string {
+    return lastSegment(this.path);
+  }
+
+  get parent(): FakeCollectionReference {
+    return new FakeCollectionReference(this.db, parentPath(this.path));
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.db, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return new FakeDocumentSnapshot(this, this.db._read(this.path));
+  }
+
+  async set(data: DocumentData, options?: { merge?: boolean }): Promise<void> {
+    const resolved = resolveValue(data) as DocumentData;
+    const existing = this.db._read(this.path);
+    this.db._write(
+      this.path,
+      options?.merge && existing ? deepMerge(existing, resolved) : resolved
+    );
+  }
+
+  async create(data: DocumentData): Promise<void> {
+    if (this.db._read(this.path)) {
+      throw new FakeFirebaseError(
+        "already-exists",
+        `[Fake Firestore] Document already exists: ${this.path}`
+      );
+    }
+    this.db._write(this.path, resolveValue(data) as DocumentData);
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    const existing = this.db._read(this.path);
+    if (!existing) {
+      throw new FakeFirebaseError("not-found", `[Fake Firestore] No document to update: ${this.path}`);
+    }
+    const updated = cloneData(existing);
+    for (const [fieldPath, value] of Object.entries(data)) {
+      setField(updated, fieldPath, resolveValue(value));
+    }
+    this.db._write(this.path, updated);
+  }
+
+  async delete(): Promise<void> {
+    this.db._delete(this.path);
+  }
+}
+
+class FakeQuery {
+  constructor(
+    protected readonly db: FakeFirestore,
+    public readonly path: string,
+    protected readonly state: QueryState = { where: [] }
+  ) {}
+
+  where(field: string, op: WhereOperator, value: FieldValueType): FakeQuery {
+    return new FakeQuery(this.db, this.path, {
+      ...this.state,
+      where: [...this.state.where, { field, op, value }],
+    });
+  }
+
+  orderBy(field: string, direction: "asc" | "desc" = "asc"): FakeQuery {
+    return new FakeQuery(this.db, this.path, { ...this.state, orderBy: { field, direction } });
+  }
+
+  limit(limit: number): FakeQuery {
+    return new FakeQuery(this.db, this.path, { ...this.state, limit });
+  }
+
+  startAfter(value: FieldValueType | FakeDocumentSnapshot): FakeQuery {
+    return new FakeQuery(this.db, this.path, { ...this.state, startAfter: value });
+  }
+
+  async get() {
+    const docs = this.run();
+    return {
+      docs,
+      empty: docs.length === 0,
+      size: docs.length,
+      forEach: (fn: (doc: FakeDocumentSnapshot) => void) => docs.forEach(fn),
+    };
+  }
+
+  count() {
+    return {
+      get: async () => {
+        const count = this.run().length;
+        return { data: () => ({ count }) };
+      },
+    };
+  }
+
+  private run(): FakeDocumentSnapshot[] {
+    const { where, orderBy, limit, startAfter } = this.state;
+
+    let entries = this.db
+      ._list(this.path)
+      .filter(([, data]) => where.every((clause) => matches(data, clause)));
+
+    if (orderBy) {
+      const direction = orderBy.direction === "desc" ? -1 : 1;
+      const key = (data: DocumentData) => comparable(readField(data, orderBy.field));
+      // Desempate implícito pelo ID do documento, na direção do orderBy
+      const order = (a: [string, DocumentData], b: [string, DocumentData]) =>
+        direction *
+        (compare(key(a[1])!, key(b[1])!) || compare(lastSegment(a[0]), lastSegment(b[0])));
+
+      entries = entries.filter(([, data]) => key(data) !== undefined).sort(order);
+
+      if (startAfter instanceof FakeDocumentSnapshot) {
+        const cursor: [string, DocumentData] = [startAfter.ref.path, startAfter.data() ?? {}];
+        entries = entries.filter((entry) => order(entry, cursor) > 0);
+      } else if (startAfter !== undefined) {
+        entries = entries.filter(([, data]) => direction * compare(key(data)!, startAfter) > 0);
+      }
+    }
+
+    if (limit !== undefined) {
+      entries = entries.slice(0, limit);
+    }
+
+    return entries.map(
+      ([path, data]) => new FakeDocumentSnapshot(new FakeDocumentReference(this.db, path), data)
+    );
+  }
+}
+
+class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return lastSegment(this.path);
+  }
+
+  doc(id?: string): FakeDocumentReference {
+    return new FakeDocumentReference(this.db, `${this.path}/${id ?? this.db._nextId()}`);
+  }
+
+  async add(data: DocumentData): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+/**
+ * Firestore em memória.
+ * Documentos indexados pelo caminho completo ("profiles/u1/checkins/2025-01-01").
+ */
+export class FakeFirestore {
+  private readonly documents = new Map<string, DocumentData>();
+  private autoId = 0;
+
+  collection(path: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, path);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  /** Snapshot de todos os documentos (para asserções) */
+  dump(): Record<string, DocumentData> {
+    return Object.fromEntries(
+      Array.from(this.documents.entries()).map(([path, data]) => [path, cloneData(data)])
+    );
+  }
+
+  /** Remove todos os documentos */
+  clear(): void {
+    this.documents.clear();
+  }
+
+  /** @internal */
+  _read(path: string): DocumentData | undefined {
+    const data = this.documents.get(path);
+    return data === undefined ? undefined : cloneData(data);
+  }
+
+  /** @internal */
+  _write(path: string, data: DocumentData): void {
+    this.documents.set(path, cloneData(data));
+  }
+
+  /** @internal */
+  _delete(path: string): void {
+    this.documents.delete(path);
+  }
+
+  /** @internal Documentos diretamente sob uma collection */
+  _list(collectionPath: string): [string, DocumentData][] {
+    return Array.from(this.documents.entries())
+      .filter(([path]) => parentPath(path) === collectionPath)
+      .map(([path, data]) => [path, cloneData(data)]);
+  }
+
+  /** @internal */
+  _nextId(): string {
+    this.autoId += 1;
+    return `fake-${this.autoId.toString().padStart(8, "0")}`;
+  }
+}
+
+// ============================================
+// Fake Auth
+// ============================================
+
+export interface FakeUser {
+  uid: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+  providerId?: string;
+}
+
+const ID_TOKEN_PREFIX = "fake-id-token:";
+const SESSION_COOKIE_PREFIX = "fake-session:";
+
+/**
+ * Auth em memória.
+ * Tokens são opacos e só valem dentro da mesma instância.
+ */
+export class FakeAuth {
+  private readonly users = new Map<string, FakeUser>();
+  private readonly sessions = new Map<string, { uid: string; issuedAt: number; expiresAt: number }>();
+  private readonly revokedAt = new Map<string, number>();
+  private sessionCount = 0;
+  private clock = 0;
+
+  /**
+   * Registra um usuário e retorna um idToken válido.
+   */
+  registerUser(user: FakeUser): string {
+    this.users.set(user.uid, { ...user });
+    return `${ID_TOKEN_PREFIX}${user.uid}`;
+  }
+
+  async verifyIdToken(idToken: string) {
+    const uid = idToken.startsWith(ID_TOKEN_PREFIX) ? idToken.slice(ID_TOKEN_PREFIX.length) : "";
+    const user = this.users.get(uid);
+
+    if (!user) {
+      throw new FakeFirebaseError("auth/argument-error", "[Fake Auth] Invalid ID token");
+    }
+
+    return { uid: user.uid, email: user.email, name: user.name, picture: user.picture };
+  }
+
+  async createSessionCookie(idToken: string, options: { expiresIn: number }): Promise<string> {
+    const { uid } = await this.verifyIdToken(idToken);
+
+    this.sessionCount += 1;
+    const cookie = `${SESSION_COOKIE_PREFIX}${uid}:${this.sessionCount}`;
+    const issuedAt = this.tick();
+    this.sessions.set(cookie, { uid, issuedAt, expiresAt: Date.now() + options.expiresIn });
+
+    return cookie;
+  }
+
+  async verifySessionCookie(sessionCookie: string, checkRevoked = false) {
+    const session = this.sessions.get(sessionCookie);
+
+    if (!session) {
+      throw new FakeFirebaseError("auth/argument-error", "[Fake Auth] Invalid session cookie");
+    }
+    if (session.expiresAt <= Date.now()) {
+      throw new FakeFirebaseError("auth/session-cookie-expired", "[Fake Auth] Session cookie expired");
+    }
+
+    const revokedAt = this.revokedAt.get(session.uid);
+    if (checkRevoked && revokedAt !== undefined && revokedAt >= session.issuedAt) {
+      throw new FakeFirebaseError("auth/session-cookie-revoked", "[Fake Auth] Session cookie revoked");
+    }
+
+    const user = this.users.get(session.uid);
+    return { uid: session.uid, email: user?.email, name: user?.name, picture: user?.picture };
+  }
+
+  async revokeRefreshTokens(uid: string): Promise<void> {
+    this.revokedAt.set(uid, this.tick());
+  }
+
+  async getUser(uid: string) {
+    const user = this.users.get(uid);
+
+    if (!user) {
+      throw new FakeFirebaseError("auth/user-not-found", `[Fake Auth] No user: ${uid}`);
+    }
+
+    return {
+      uid: user.uid,
+      email: user.email,
+      displayName: user.name,
+      photoURL: user.picture,
+      providerData: [{ providerId: user.providerId ?? "google.com" }],
+    };
+  }
+
+  /** Relógio lógico (revogação vs emissão no mesmo milissegundo) */
+  private tick(): number {
+    this.clock += 1;
+    return this.clock;
+  }
+}
+
+// ============================================
+// Instalação
+// ============================================
+
+export interface FakeAdmin {
+  auth: FakeAuth;
+  firestore: FakeFirestore;
+}
+
+/**
+ * Injeta fakes no lugar do Admin SDK.
+ * Afeta getAdminAuth/getAdminFirestore e o Document Store dos repositórios.
+ */
+export function installFakeAdmin(): FakeAdmin {
+  const auth = new FakeAuth();
+  const firestore = new FakeFirestore();
+  const app = { name: "[fluia-fake]", options: {} } as App;
+
+  setAdminServices({
+    app,
+    auth: auth as unknown as Auth,
+    firestore: firestore as unknown as Firestore,
+  });
+  setDocumentStore(null);
+
+  return { auth, firestore };
+}
+
+/**
+ * Remove os fakes (volta à inicialização real).
+ */
+export function uninstallFakeAdmin(): void {
+  setAdminServices(null);
+  setDocumentStore(null);
+}
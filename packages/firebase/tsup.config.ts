@@ -6,10 +6,13 @@ export default defineConfig({
     client: "src/client.ts",
     admin: "src/admin.ts",
     auth: "src/auth.ts",
+    testing: "src/testing.ts",
   },
   format: ["cjs", "esm"],
   dts: true,
-  splitting: false,
+  // Entradas compartilham os chunks: admin.ts e store.ts têm uma única instância
+  // (installFakeAdmin de ./testing afeta os repositórios de .)
+  splitting: true,
   sourcemap: true,
   clean: true,
   external: ["firebase", "firebase-admin", "@fluia/contracts"],
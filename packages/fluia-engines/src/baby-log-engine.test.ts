@@ -0,0 +1,63 @@
+/**
+ * Baby Log Engine - agregados por bebê
+ *
+ * Gêmeos não se misturam: cada bebê tem seus registros e sua série de peso;
+ * registros sem babyId/pregnancyId são do bebê e da gestação padrão.
+ */
+
+import { describe, expect, it } from "vitest";
+import type { StoredBabyLogEntry } from "@fluia/contracts";
+import { buildWeightSeries, filterBabyLogEntries } from "./baby-log-engine";
+
+const BIRTH_DATE = "2026-03-01";
+
+function weight(
+  entryId: string,
+  dateKey: string,
+  weightGrams: number,
+  scope: { pregnancyId?: string; babyId?: string } = {}
+): StoredBabyLogEntry {
+  return {
+    type: "weight",
+    at: `${dateKey}T10:00:00.000Z`,
+    weightGrams,
+    entryId,
+    uid: "u1",
+    dateKey,
+    createdAt: `${dateKey}T10:00:00.000Z`,
+    ...scope,
+  };
+}
+
+describe("filterBabyLogEntries", () => {
+  const entries = [
+    weight("legacy", "2026-03-02", 3100),
+    weight("a", "2026-03-03", 2500, { pregnancyId: "p2", babyId: "baby-1" }),
+    weight("b", "2026-03-03", 2300, { pregnancyId: "p2", babyId: "baby-2" }),
+  ];
+
+  it("separa os bebês da mesma gestação", () => {
+    expect(filterBabyLogEntries(entries, "p2", "baby-2").map((e) => e.entryId)).toEqual(["b"]);
+  });
+
+  it("registros sem escopo são do bebê e da gestação padrão", () => {
+    expect(filterBabyLogEntries(entries, "primary", "baby-1").map((e) => e.entryId)).toEqual([
+      "legacy",
+    ]);
+  });
+});
+
+describe("buildWeightSeries", () => {
+  it("série de um gêmeo ignora as pesagens do outro", () => {
+    const entries = [
+      weight("a1", "2026-03-03", 2500, { pregnancyId: "p2", babyId: "baby-1" }),
+      weight("b1", "2026-03-03", 2300, { pregnancyId: "p2", babyId: "baby-2" }),
+      weight("a2", "2026-03-05", 2600, { pregnancyId: "p2", babyId: "baby-1" }),
+    ];
+
+    expect(buildWeightSeries(filterBabyLogEntries(entries, "p2", "baby-1"), BIRTH_DATE)).toEqual([
+      { dateKey: "2026-03-03", weightGrams: 2500, daysOld: 2 },
+      { dateKey: "2026-03-05", weightGrams: 2600, daysOld: 4 },
+    ]);
+  });
+});
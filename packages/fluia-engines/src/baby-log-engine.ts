@@ -0,0 +1,349 @@
+/**
+ * @fluia/engines - Baby Log Engine
+ *
+ * Agregados do registro de cuidados do bebê (sono, mamadas, fraldas, peso).
+ *
+ * RESPONSABILIDADE:
+ * - Separar os registros de cada bebê (gêmeos)
+ * - Resumir registros por dia e por semana
+ * - Montar a série de peso por dias de vida
+ * - Correlacionar o sono do bebê com a zona emocional da mãe
+ * - Gerar insights tipados a partir dos agregados
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Descritivo, não clínico: sem percentis, curvas ou alertas de saúde do bebê
+ * - Agregados recebem os registros de um só bebê (filterBabyLogEntries)
+ * - Correlação só com dias pareados suficientes (BABY_LOG_RULES)
+ * - Não persiste nada (a API grava os registros)
+ */
+
+import {
+  addDays,
+  daysBetween,
+  getBabyScope,
+  getPregnancyScope,
+  getWeekBounds,
+  type BabyLogDailySummary,
+  type BabyLogEntry,
+  type BabyLogWeeklySummary,
+  type BabySleepZoneCorrelation,
+  type BabyWeightPoint,
+  type CorrelationStrength,
+  type DateKey,
+  type FeedingMethod,
+  type PostpartumInsight,
+  type StoredBabyLogEntry,
+} from "@fluia/contracts";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Zona da mãe em um dia (check-in combinado) */
+export interface MotherZoneDay {
+  dateKey: DateKey;
+  zone: number;
+}
+
+export interface BabyLogInsightInput {
+  babyName: string;
+  weekly: BabyLogWeeklySummary[];
+  sleepZoneCorrelation: BabySleepZoneCorrelation | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const BABY_LOG_RULES = {
+  /** Dias pareados (sono + zona) mínimos para correlacionar */
+  MIN_CORRELATION_DAYS: 5,
+  /** Dias registrados na semana para celebrar a constância */
+  CONSISTENT_WEEK_DAYS: 5,
+  /** Sono de 24h em minutos (limite de uma sessão) */
+  MAX_SLEEP_SESSION_MINUTES: 24 * 60,
+} as const;
+
+/** Limites de |r| por intensidade (menor que o limite = intensidade anterior) */
+const CORRELATION_THRESHOLDS: Array<{ min: number; strength: CorrelationStrength }> = [
+  { min: 0.5, strength: "strong" },
+  { min: 0.3, strength: "moderate" },
+  { min: 0.1, strength: "weak" },
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Instante de referência do registro (início do sono).
+ */
+export function getBabyLogEntryTime(entry: BabyLogEntry): string {
+  return entry.type === "sleep" ? entry.startedAt : entry.at;
+}
+
+/**
+ * Duração de um período de sono em minutos (0 se inválido).
+ */
+export function getSleepMinutes(entry: { startedAt: string; endedAt: string }): number {
+  const minutes = Math.round(
+    (new Date(entry.endedAt).getTime() - new Date(entry.startedAt).getTime()) / 60000
+  );
+
+  return minutes > 0 ? Math.min(minutes, BABY_LOG_RULES.MAX_SLEEP_SESSION_MINUTES) : 0;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Registros ordenados pelo instante (mais antigo primeiro).
+ */
+function sortByTime<T extends BabyLogEntry>(entries: T[]): T[] {
+  return [...entries].sort((a, b) =>
+    getBabyLogEntryTime(a).localeCompare(getBabyLogEntryTime(b))
+  );
+}
+
+/**
+ * Coeficiente de Pearson (0 se alguma série é constante).
+ */
+function pearson(xs: number[], ys: number[]): number {
+  const mx = average(xs);
+  const my = average(ys);
+
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+
+  return vx === 0 || vy === 0 ? 0 : cov / Math.sqrt(vx * vy);
+}
+
+// ============================================
+// AGREGADOS
+// ============================================
+
+/**
+ * Registros de um bebê de uma gestação.
+ * Sem babyId/pregnancyId = bebê e gestação padrão.
+ */
+export function filterBabyLogEntries(
+  entries: StoredBabyLogEntry[],
+  pregnancyId: string,
+  babyId: string
+): StoredBabyLogEntry[] {
+  return entries.filter(
+    (e) => getPregnancyScope(e) === pregnancyId && getBabyScope(e) === babyId
+  );
+}
+
+/**
+ * Resumo de um dia a partir dos registros desse dia.
+ */
+export function summarizeBabyLogDay(
+  dateKey: DateKey,
+  entries: StoredBabyLogEntry[]
+): BabyLogDailySummary {
+  const byMethod: Record<FeedingMethod, number> = {
+    breast: 0,
+    bottle_breastmilk: 0,
+    formula: 0,
+  };
+  const sleepMinutes: number[] = [];
+  let changes = 0;
+  let wet = 0;
+  let dirty = 0;
+  let weightGrams: number | undefined;
+
+  for (const entry of sortByTime(entries.filter((e) => e.dateKey === dateKey))) {
+    switch (entry.type) {
+      case "sleep":
+        sleepMinutes.push(getSleepMinutes(entry));
+        break;
+      case "feeding":
+        byMethod[entry.method]++;
+        break;
+      case "diaper":
+        changes++;
+        if (entry.kind !== "dirty") wet++;
+        if (entry.kind !== "wet") dirty++;
+        break;
+      case "weight":
+        weightGrams = entry.weightGrams;
+        break;
+    }
+  }
+
+  return {
+    dateKey,
+    sleep: {
+      totalMinutes: sleepMinutes.reduce((sum, m) => sum + m, 0),
+      sessions: sleepMinutes.length,
+      longestMinutes: sleepMinutes.length > 0 ? Math.max(...sleepMinutes) : 0,
+    },
+    feedings: {
+      count: byMethod.breast + byMethod.bottle_breastmilk + byMethod.formula,
+      byMethod,
+    },
+    diapers: { changes, wet, dirty },
+    ...(weightGrams !== undefined && { weightGrams }),
+  };
+}
+
+/**
+ * Resumos diários dos dias com registro (mais antigo primeiro).
+ */
+export function summarizeBabyLogDays(entries: StoredBabyLogEntry[]): BabyLogDailySummary[] {
+  const dateKeys = Array.from(new Set(entries.map((e) => e.dateKey))).sort();
+
+  return dateKeys.map((dateKey) => summarizeBabyLogDay(dateKey, entries));
+}
+
+/**
+ * Resumos semanais (domingo a sábado) a partir dos resumos diários.
+ * Médias consideram apenas os dias com registro.
+ */
+export function summarizeBabyLogWeeks(daily: BabyLogDailySummary[]): BabyLogWeeklySummary[] {
+  const weeks = new Map<DateKey, BabyLogDailySummary[]>();
+
+  for (const day of daily) {
+    const { start } = getWeekBounds(day.dateKey);
+    weeks.set(start, [...(weeks.get(start) ?? []), day]);
+  }
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, days]) => {
+      const weights = days
+        .map((d) => d.weightGrams)
+        .filter((w): w is number => w !== undefined);
+
+      return {
+        weekStart,
+        daysLogged: days.length,
+        avgSleepMinutes: Math.round(average(days.map((d) => d.sleep.totalMinutes))),
+        avgFeedings: Math.round(average(days.map((d) => d.feedings.count)) * 10) / 10,
+        avgDiapers: Math.round(average(days.map((d) => d.diapers.changes)) * 10) / 10,
+        ...(weights.length >= 2 && {
+          weightChangeGrams: weights[weights.length - 1] - weights[0],
+        }),
+      };
+    });
+}
+
+/**
+ * Série de peso de um bebê: última pesagem de cada dia, por dias de vida.
+ */
+export function buildWeightSeries(
+  entries: StoredBabyLogEntry[],
+  birthDate: DateKey
+): BabyWeightPoint[] {
+  const byDay = new Map<DateKey, number>();
+
+  for (const entry of sortByTime(entries)) {
+    if (entry.type === "weight") byDay.set(entry.dateKey, entry.weightGrams);
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateKey, weightGrams]) => ({
+      dateKey,
+      weightGrams,
+      daysOld: Math.max(0, daysBetween(birthDate, dateKey)),
+    }));
+}
+
+// ============================================
+// CORRELAÇÃO
+// ============================================
+
+/**
+ * Correlação entre o sono total do bebê e a zona da mãe no mesmo dia.
+ * Retorna null com menos de MIN_CORRELATION_DAYS dias pareados.
+ */
+export function correlateBabySleepWithZone(
+  daily: BabyLogDailySummary[],
+  motherZones: MotherZoneDay[]
+): BabySleepZoneCorrelation | null {
+  const zoneByDay = new Map(motherZones.map((z) => [z.dateKey, z.zone]));
+  const pairs = daily
+    .filter((d) => d.sleep.sessions > 0 && zoneByDay.has(d.dateKey))
+    .map((d) => [d.sleep.totalMinutes, zoneByDay.get(d.dateKey)!] as const);
+
+  if (pairs.length < BABY_LOG_RULES.MIN_CORRELATION_DAYS) return null;
+
+  const coefficient = pearson(
+    pairs.map(([sleep]) => sleep),
+    pairs.map(([, zone]) => zone)
+  );
+  const strength =
+    CORRELATION_THRESHOLDS.find((t) => Math.abs(coefficient) >= t.min)?.strength ?? "none";
+
+  return {
+    coefficient: Math.round(coefficient * 100) / 100,
+    strength,
+    direction: strength === "none" ? "none" : coefficient > 0 ? "positive" : "negative",
+    sampleSize: pairs.length,
+  };
+}
+
+// ============================================
+// INSIGHTS
+// ============================================
+
+/**
+ * Insights do registro do bebê no período.
+ */
+export function generateBabyLogInsights(input: BabyLogInsightInput): PostpartumInsight[] {
+  const { babyName, weekly, sleepZoneCorrelation } = input;
+  const insights: PostpartumInsight[] = [];
+  const currentWeek = weekly[weekly.length - 1];
+
+  // Sono do bebê acompanha o humor da mãe
+  if (
+    sleepZoneCorrelation?.direction === "positive" &&
+    sleepZoneCorrelation.strength !== "weak"
+  ) {
+    insights.push({
+      type: "tip",
+      title: "Descanso em Dupla",
+      message: `Nos dias em que ${babyName} dorme mais, você costuma se sentir melhor. Aproveite esses momentos para descansar também.`,
+      icon: "🌙",
+    });
+  }
+
+  // Ganho de peso na semana
+  if (currentWeek?.weightChangeGrams !== undefined && currentWeek.weightChangeGrams > 0) {
+    insights.push({
+      type: "celebration",
+      title: "Crescendo!",
+      message: `${babyName} ganhou peso nesta semana. Seu cuidado está fazendo diferença.`,
+      icon: "🌱",
+    });
+  }
+
+  // Constância no registro
+  if (currentWeek && currentWeek.daysLogged >= BABY_LOG_RULES.CONSISTENT_WEEK_DAYS) {
+    insights.push({
+      type: "celebration",
+      title: "Rotina Registrada",
+      message: "Você acompanhou os cuidados quase todos os dias desta semana. Isso ajuda a conhecer o ritmo de vocês.",
+      icon: "📖",
+    });
+  }
+
+  return insights;
+}
+
+/**
+ * Período padrão de consulta: últimos `days` dias até `today`.
+ */
+export function getBabyLogRange(today: DateKey, days: number): { from: DateKey; to: DateKey } {
+  return { from: addDays(today, -(days - 1)), to: today };
+}
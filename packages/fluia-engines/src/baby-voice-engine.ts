@@ -28,6 +28,8 @@ import type {
   MilestoneMessage,
   Trimester,
 } from "@fluia/contracts";
+import { getDateKey, toDateKey } from "@fluia/contracts";
+import { pickOne, type Rng } from "./utils/random";
 
 // ============================================
 // EXTENDED TYPES (para campos não existentes no contracts)
@@ -39,6 +41,10 @@ import type {
 export interface BabyVoiceInput extends BaseBabyVoiceInput {
   /** IDs de milestones já vistos */
   seenMilestones?: string[];
+  /** Dia da mensagem YYYY-MM-DD (default: hoje no timezone padrão, reset 04:00) */
+  dateKey?: string;
+  /** RNG da seleção (use createDailyRng(uid, dateKey) para mensagem estável no dia) */
+  rng?: Rng;
 }
 
 /**
@@ -133,18 +139,6 @@ function normalizeTimeOfDay(
   return timeOfDay;
 }
 
-// ============================================
-// HELPER: RANDOM SELECTION
-// ============================================
-
-/**
- * Seleciona item aleatório de um array.
- */
-function selectRandom<T>(array: T[]): T {
-  const index = Math.floor(Math.random() * array.length);
-  return array[index];
-}
-
 // ============================================
 // HELPER: FILTER UNSEEN
 // ============================================
@@ -179,7 +173,8 @@ function filterUnseen<T extends { id: string }>(
 function selectOpening(
   trimester: Trimester,
   timeOfDay: "morning" | "afternoon" | "evening",
-  seenOpenings: string[]
+  seenOpenings: string[],
+  rng: Rng
 ): { opening: OpeningComponent; exhausted: boolean } {
   // Buscar openings do catálogo real
   const openings = getOpenings(trimester, timeOfDay);
@@ -190,11 +185,11 @@ function selectOpening(
       (o) => o.trimester === trimester
     );
     const { filtered, exhausted } = filterUnseen(fallbackOpenings, seenOpenings);
-    return { opening: selectRandom(filtered), exhausted };
+    return { opening: pickOne(filtered, rng), exhausted };
   }
 
   const { filtered, exhausted } = filterUnseen(openings, seenOpenings);
-  return { opening: selectRandom(filtered), exhausted };
+  return { opening: pickOne(filtered, rng), exhausted };
 }
 
 // ============================================
@@ -210,7 +205,8 @@ function selectCore(
   zone: EmotionalZone,
   gestationalWeeks: number,
   presenceDays: number,
-  seenCores: string[]
+  seenCores: string[],
+  rng: Rng
 ): { core: CoreComponent; exhausted: boolean } {
   // Buscar cores do catálogo real (zona + semana)
   const cores = getCores(zone, gestationalWeeks);
@@ -223,15 +219,15 @@ function selectCore(
       // Fallback extremo: qualquer core zona 3 (neutra)
       const neutralCores = ALL_CORES.filter((c) => c.zone === 3);
       const { filtered, exhausted } = filterUnseen(neutralCores, seenCores);
-      return { core: selectRandom(filtered), exhausted };
+      return { core: pickOne(filtered, rng), exhausted };
     }
 
     const { filtered, exhausted } = filterUnseen(fallbackCores, seenCores);
-    return { core: selectRandom(filtered), exhausted };
+    return { core: pickOne(filtered, rng), exhausted };
   }
 
   const { filtered, exhausted } = filterUnseen(cores, seenCores);
-  return { core: selectRandom(filtered), exhausted };
+  return { core: pickOne(filtered, rng), exhausted };
 }
 
 // ============================================
@@ -245,7 +241,8 @@ function selectCore(
  */
 function selectClosing(
   presenceDays: number,
-  seenClosings: string[]
+  seenClosings: string[],
+  rng: Rng
 ): { closing: ClosingComponent; exhausted: boolean } {
   // Buscar closings do catálogo real
   const closings = getClosings(presenceDays);
@@ -254,11 +251,11 @@ function selectClosing(
     // Fallback: closings para novos usuários
     const fallbackClosings = getClosings(1);
     const { filtered, exhausted } = filterUnseen(fallbackClosings, seenClosings);
-    return { closing: selectRandom(filtered), exhausted };
+    return { closing: pickOne(filtered, rng), exhausted };
   }
 
   const { filtered, exhausted } = filterUnseen(closings, seenClosings);
-  return { closing: selectRandom(filtered), exhausted };
+  return { closing: pickOne(filtered, rng), exhausted };
 }
 
 // ============================================
@@ -279,10 +276,9 @@ function composeMessage(
     timeOfDay: "morning" | "afternoon" | "evening";
     presenceDays: number;
     babyName: string;
-  }
+  },
+  today: string
 ): ComposedMessage {
-  const today = new Date().toISOString().split("T")[0];
-
   // Substituir placeholders se houver (ex: {babyName})
   const openingText = opening.text.replace(/{babyName}/g, context.babyName);
   const coreText = core.text.replace(/{babyName}/g, context.babyName);
@@ -323,10 +319,9 @@ function composeMilestoneMessage(
     timeOfDay: "morning" | "afternoon" | "evening";
     presenceDays: number;
     babyName: string;
-  }
+  },
+  today: string
 ): ComposedMessage {
-  const today = new Date().toISOString().split("T")[0];
-
   const text = milestone.text.replace(/{babyName}/g, context.babyName);
   const fullText = `${milestone.emoji ?? ""} ${milestone.title}\n\n${text}`;
 
@@ -360,18 +355,13 @@ function composeMilestoneMessage(
  * Verifica se já viu mensagem hoje.
  *
  * @param lastMessageDate - ISO string da última mensagem vista
+ * @param timezone - Timezone da usuária (dia com reset às 04:00)
  * @returns true se já viu hoje
  */
-export function hasSeenTodayMessage(lastMessageDate?: string): boolean {
+export function hasSeenTodayMessage(lastMessageDate?: string, timezone?: string): boolean {
   if (!lastMessageDate) return false;
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const lastDate = new Date(lastMessageDate);
-  lastDate.setHours(0, 0, 0, 0);
-
-  return today.getTime() === lastDate.getTime();
+  return toDateKey(lastMessageDate, timezone) === getDateKey(timezone);
 }
 
 // ============================================
@@ -404,6 +394,8 @@ export function generateBabyVoiceMessage(
     seenClosings = [],
     seenMilestones = [],
     isFirstCheckIn = false,
+    dateKey = getDateKey(),
+    rng = Math.random,
   } = input;
 
   // Normalizar inputs
@@ -434,7 +426,7 @@ export function generateBabyVoiceMessage(
   );
 
   if (milestone) {
-    const message = composeMilestoneMessage(milestone, context);
+    const message = composeMilestoneMessage(milestone, context, dateKey);
 
     return {
       message,
@@ -466,7 +458,8 @@ export function generateBabyVoiceMessage(
   const { opening, exhausted: openingsExhausted } = selectOpening(
     trimester,
     timeOfDay,
-    seenOpenings
+    seenOpenings,
+    rng
   );
 
   // Selecionar Core (zona + semana)
@@ -474,17 +467,19 @@ export function generateBabyVoiceMessage(
     zone,
     gestationalWeeks,
     presenceDays,
-    seenCores
+    seenCores,
+    rng
   );
 
   // Selecionar Closing (presença)
   const { closing, exhausted: closingsExhausted } = selectClosing(
     presenceDays,
-    seenClosings
+    seenClosings,
+    rng
   );
 
   // Compor mensagem
-  const message = composeMessage(opening, core, closing, context);
+  const message = composeMessage(opening, core, closing, context, dateKey);
 
   // ============================================
   // PASSO 3: VERIFICAR RESET DE CATÁLOGOS
@@ -0,0 +1,166 @@
+/**
+ * @fluia/engines - Content Loader
+ *
+ * Conteúdo ativo das engines: catálogo de treinos, feedbacks, badges e prompts.
+ *
+ * FLUXO:
+ * 1. O pacote embutido (data/content/content-package.json) é o padrão
+ * 2. A API lê o pacote publicado e chama loadContentPackage
+ * 3. Se válido, setActiveContent troca o conteúdo sem release
+ *
+ * REGRA:
+ * Pacote inválido NUNCA substitui o ativo — as engines seguem com o anterior.
+ */
+
+import {
+  validate,
+  contentPackageSchema,
+  CONTENT_SECTIONS,
+  getContentItemId,
+  type ContentPackage,
+  type FeedbackTemplate,
+  type PostpartumPhase,
+  type FieldErrors,
+  type ValidationResult,
+} from "@fluia/contracts";
+import bundledContent from "./data/content/content-package.json";
+
+// ============================================
+// CONSTANTES
+// ============================================
+
+/** Treino de fallback da prescrição (precisa cobrir todas as zonas) */
+export const FALLBACK_TRAINING_ID = "pause-micro";
+
+/** Contextos de feedback usados pela Training Engine */
+const REQUIRED_FEEDBACK_CONTEXTS: FeedbackTemplate["context"][] = [
+  "completion",
+  "streak",
+  "firstTime",
+  "difficult_day",
+  "incomplete",
+];
+
+/** Fases que precisam de ao menos um prompt do diário */
+const REQUIRED_POSTPARTUM_PHASES: PostpartumPhase[] = ["immediate", "early", "late"];
+
+// ============================================
+// VALIDAÇÃO
+// ============================================
+
+/**
+ * Regras entre itens que o schema não cobre.
+ * Garante que as engines nunca fiquem sem opção.
+ */
+function checkIntegrity(content: ContentPackage): FieldErrors {
+  const errors: FieldErrors = {};
+
+  // IDs únicos por seção
+  for (const section of CONTENT_SECTIONS) {
+    const seen = new Set<string>();
+    (content[section] as unknown[]).forEach((item, index) => {
+      const id = getContentItemId(section, item);
+      if (seen.has(id)) {
+        errors[`${section}[${index}]`] = `duplicate id "${id}"`;
+      }
+      seen.add(id);
+    });
+  }
+
+  content.trainings.forEach((t, index) => {
+    if (t.minZone > t.maxZone) {
+      errors[`trainings[${index}].minZone`] = "must be at most maxZone";
+    }
+  });
+
+  const fallback = content.trainings.find((t) => t.id === FALLBACK_TRAINING_ID);
+  if (!fallback || fallback.minZone !== 1 || fallback.maxZone !== 5) {
+    errors.trainings = `must include "${FALLBACK_TRAINING_ID}" for zones 1-5`;
+  }
+
+  for (const context of REQUIRED_FEEDBACK_CONTEXTS) {
+    const template = content.feedbacks.find((f) => f.context === context);
+    if (!template || template.messages.length === 0) {
+      errors.feedbacks = `must include messages for "${context}"`;
+    }
+  }
+
+  content.badges.forEach((b, index) => {
+    const { type, value, category } = b.condition;
+    if ((type === "streak" || type === "total_trainings" || type === "category_focus") && !value) {
+      errors[`badges[${index}].condition.value`] = "is required";
+    }
+    if (type === "category_focus" && !category) {
+      errors[`badges[${index}].condition.category`] = "is required";
+    }
+  });
+
+  if (!content.diaryPrompts.some((p) => !p.isContextual)) {
+    errors.diaryPrompts = "must include at least one non-contextual prompt";
+  }
+
+  if (content.letterTemplates.length === 0) {
+    errors.letterTemplates = "must not be empty";
+  }
+
+  for (const phase of REQUIRED_POSTPARTUM_PHASES) {
+    if (!content.postpartumPrompts.some((p) => p.relevantPhases.includes(phase))) {
+      errors.postpartumPrompts = `must include a prompt for phase "${phase}"`;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Valida um pacote de conteúdo (ex: JSON publicado pelo time de conteúdo).
+ * Schema (formato) + integridade (regras entre itens).
+ */
+export function loadContentPackage(raw: unknown): ValidationResult<ContentPackage> {
+  const parsed = validate(contentPackageSchema, raw);
+
+  if (!parsed.success) return parsed;
+
+  const errors = checkIntegrity(parsed.data);
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  return parsed;
+}
+
+// ============================================
+// CONTEÚDO ATIVO
+// ============================================
+
+/**
+ * Pacote embutido no build.
+ * Passa pela mesma validação: conteúdo quebrado falha no primeiro import.
+ */
+export const DEFAULT_CONTENT: ContentPackage = (() => {
+  const result = loadContentPackage(bundledContent);
+
+  if (!result.success) {
+    throw new Error(
+      `[Content] Bundled content package is invalid: ${JSON.stringify(result.errors)}`
+    );
+  }
+  return result.data;
+})();
+
+let activeContent: ContentPackage = DEFAULT_CONTENT;
+
+/**
+ * Conteúdo em uso pelas engines.
+ */
+export function getActiveContent(): ContentPackage {
+  return activeContent;
+}
+
+/**
+ * Troca o conteúdo em uso (pacote já validado por loadContentPackage).
+ */
+export function setActiveContent(content: ContentPackage): void {
+  activeContent = content;
+}
@@ -0,0 +1,166 @@
+/**
+ * @fluia/engines - Léxico pt-BR (Text Analysis Engine)
+ *
+ * Termos NORMALIZADOS: minúsculas, sem acentos, só letras e espaços.
+ * "*" no fim de uma palavra = qualquer terminação (ex: "cansad*").
+ *
+ * REGRAS:
+ * - Léxico de risco é revisado por especialista antes de cada versão
+ * - Sinais de risco ignoram negação de propósito: na dúvida, acolher
+ * - Mudou algum termo? Suba TEXT_LEXICON_VERSION
+ */
+
+import type {
+  DetectedEmotionTag,
+  EmotionValence,
+  RiskSignalSeverity,
+  RiskSignalType,
+} from "@fluia/contracts";
+
+/** Versão do léxico (gravada em cada análise) */
+export const TEXT_LEXICON_VERSION = "pt-BR-1.0.0";
+
+/**
+ * Palavras que negam a emoção seguinte ("não estou feliz").
+ * Termos que já começam com negação ("nao dou conta") não são anulados.
+ */
+export const NEGATION_TERMS = ["nao", "nem", "nunca", "jamais", "sem"];
+
+// ============================================
+// EMOÇÕES
+// ============================================
+
+export const EMOTION_LEXICON: Record<
+  DetectedEmotionTag,
+  { valence: EmotionValence; terms: string[] }
+> = {
+  // Tags do check-in (EMOTION_TAGS)
+  ansiosa: { valence: "negative", terms: ["ansios*", "ansiedade", "nervos*", "aflit*", "agonia"] },
+  calma: { valence: "positive", terms: ["calm*", "tranquil*", "serena"] },
+  feliz: { valence: "positive", terms: ["feliz*", "alegr*", "contente"] },
+  triste: {
+    valence: "negative",
+    terms: ["trist*", "chorei", "chorando", "chorar", "deprimid*", "pra baixo", "para baixo"],
+  },
+  irritada: { valence: "negative", terms: ["irritad*", "raiva", "brava", "estressad*"] },
+  esperançosa: { valence: "positive", terms: ["esperancos*", "otimista"] },
+  preocupada: { valence: "negative", terms: ["preocupad*", "preocupacao", "preocupacoes"] },
+  grata: { valence: "positive", terms: ["grata", "gratidao", "agradecid*"] },
+  cansada: { valence: "negative", terms: ["cansad*", "cansaco"] },
+  animada: { valence: "positive", terms: ["animad*", "empolgad*", "disposta"] },
+  insegura: { valence: "negative", terms: ["insegur*", "incapaz"] },
+  confiante: { valence: "positive", terms: ["confiante", "capaz", "segura de mim"] },
+  sobrecarregada: {
+    valence: "negative",
+    terms: ["sobrecarregad*", "sobrecarga", "no limite", "nao dou conta"],
+  },
+  "em paz": { valence: "positive", terms: ["em paz"] },
+
+  // Emoções estendidas (EXTENDED_EMOTION_TAGS)
+  culpada: { valence: "negative", terms: ["culpad*", "culpa", "ma mae", "pessima mae"] },
+  sozinha: {
+    valence: "negative",
+    terms: ["sozinh*", "solidao", "abandonad*", "isolad*", "ninguem me ajuda"],
+  },
+  "com medo": {
+    valence: "negative",
+    terms: ["medo", "assustad*", "apavorad*", "panico", "pavor"],
+  },
+  frustrada: { valence: "negative", terms: ["frustrad*", "frustracao", "decepcionad*"] },
+  exausta: {
+    valence: "negative",
+    terms: ["exaust*", "esgotad*", "acabada", "sem forcas", "morta de cansaco"],
+  },
+  desanimada: {
+    valence: "negative",
+    terms: ["desanimad*", "desmotivad*", "sem vontade", "sem animo"],
+  },
+  vazia: { valence: "negative", terms: ["vazia", "vazio", "anestesiad*", "nao sinto nada"] },
+  "sem esperança": {
+    valence: "negative",
+    terms: ["sem esperanca", "desesperanc*", "desesperad*", "nao vejo saida"],
+  },
+  envergonhada: { valence: "negative", terms: ["envergonhad*", "vergonha"] },
+  confusa: { valence: "neutral", terms: ["confus*", "perdida"] },
+  aliviada: { valence: "positive", terms: ["aliviad*", "alivio"] },
+  amada: { valence: "positive", terms: ["amada", "acolhid*"] },
+  apoiada: { valence: "positive", terms: ["apoiad*", "apoio", "me ajudou", "me ajudaram"] },
+  orgulhosa: { valence: "positive", terms: ["orgulhos*", "orgulho"] },
+  emocionada: { valence: "neutral", terms: ["emocionad*"] },
+};
+
+// ============================================
+// SINAIS DE RISCO
+// ============================================
+
+export const RISK_LEXICON: Record<
+  RiskSignalType,
+  { severity: RiskSignalSeverity; terms: string[] }
+> = {
+  suicidal_ideation: {
+    severity: "crisis",
+    terms: [
+      "quero morrer",
+      "queria morrer",
+      "vontade de morrer",
+      "penso em morrer",
+      "pensando em morrer",
+      "cansada de viver",
+      "quero sumir",
+      "queria sumir",
+      "vontade de sumir",
+      "nao quero mais viver",
+      "nao quero viver",
+      "tirar minha vida",
+      "tirar a minha vida",
+      "acabar com minha vida",
+      "acabar com a minha vida",
+      "me matar",
+      "suicid*",
+      "melhor sem mim",
+      "queria nao existir",
+      "nao queria existir",
+      "dormir e nao acordar",
+    ],
+  },
+  self_harm: {
+    severity: "crisis",
+    terms: [
+      "me machucar",
+      "me cortar",
+      "me corto",
+      "me cortei",
+      "me ferir",
+      "me bater",
+      "automutil*",
+    ],
+  },
+  harm_to_baby: {
+    severity: "crisis",
+    terms: [
+      "machucar o bebe",
+      "machucar meu bebe",
+      "machucar a bebe",
+      "machucar minha bebe",
+      "fazer mal ao bebe",
+      "fazer mal pro bebe",
+      "fazer mal para o bebe",
+      "me livrar do bebe",
+      "sacudir o bebe",
+    ],
+  },
+  hopelessness: {
+    severity: "concern",
+    terms: [
+      "sem esperanca",
+      "nao vejo saida",
+      "nao tem saida",
+      "nada vai melhorar",
+      "nunca vai melhorar",
+      "nao aguento mais",
+      "sou um peso",
+      "sou um fardo",
+      "desisti de tudo",
+    ],
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * Emotional State Engine - persistência longitudinal
+ *
+ * Um sinal só é persistente em dias seguidos de check-in até hoje.
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CheckinDimensions } from "@fluia/contracts";
+import { deriveEmotionalState } from "./emotional-state-engine";
+
+const LOW: CheckinDimensions = { mood: 1, energy: 2, body: 2, bond: 2 };
+const HIGH: CheckinDimensions = { mood: 4, energy: 4, body: 4, bond: 4 };
+
+function persistence(recentHistoryDates?: string[], recentHistory = [LOW, LOW]) {
+  return deriveEmotionalState({
+    dimensions: LOW,
+    recentHistory,
+    dateKey: "2026-06-10",
+    recentHistoryDates,
+  }).trend?.persistence;
+}
+
+describe("persistence", () => {
+  it("flags a low zone on consecutive days", () => {
+    expect(persistence(["2026-06-09", "2026-06-08"])).toMatchObject({
+      lowZone: true,
+      lowMood: true,
+    });
+  });
+
+  it("resets the streak when check-ins are more than one day apart", () => {
+    expect(persistence(["2026-06-09", "2026-06-01"])).toEqual({});
+    expect(persistence(["2026-06-05", "2026-06-04"])).toEqual({});
+  });
+
+  it("needs the signal on every day of the streak", () => {
+    expect(persistence(["2026-06-09", "2026-06-08"], [LOW, HIGH])?.lowZone).toBeUndefined();
+  });
+
+  it("treats undated history as consecutive check-ins", () => {
+    expect(persistence(undefined)?.lowZone).toBe(true);
+  });
+});
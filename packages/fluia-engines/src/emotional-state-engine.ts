@@ -5,7 +5,8 @@
  * 
  * RESPONSABILIDADE:
  * - Transformar dimensões numéricas em estado emocional qualitativo
- * - Identificar padrões e flags de atenção
+ * - Identificar padrões e flags de atenção (dimensões + leitura das notas)
+ * - Ler tendências no histórico recente (persistência, volatilidade, recuperação)
  * - NÃO calcula métricas (isso é responsabilidade do Metrics Engine)
  * 
  * REGRA FUNDAMENTAL (Documento p.12):
@@ -13,7 +14,13 @@
  *  Ela traduz emoções para que a gestante aprenda a cuidar de si."
  */
 
-import type { CheckinDimensions } from "@fluia/contracts";
+import {
+  daysBetween,
+  type CheckinDimensions,
+  type DateKey,
+  type TextAnalysis,
+} from "@fluia/contracts";
+import { hasDistressLanguage } from "./text-analysis-engine";
 
 // ============================================
 // TYPES
@@ -26,12 +33,16 @@ export type DominantDimension = "mood" | "energy" | "body" | "bond";
 export interface EmotionalStateFlags {
   /** Carga emocional muito alta (múltiplas dimensões em zona baixa) */
   overload?: boolean;
-  /** Energia consistentemente baixa */
+  /** Energia baixa no dia (persistência fica em trend.persistence) */
   lowEnergy?: boolean;
   /** Distância emocional com o bebê */
   emotionalDistance?: boolean;
   /** Desconforto corporal significativo */
   physicalDiscomfort?: boolean;
+  /** Notas/emoções com predominância de sofrimento */
+  distressLanguage?: boolean;
+  /** Linguagem de crise nas notas (aciona a camada de segurança) */
+  crisisLanguage?: boolean;
 }
 
 export interface EmotionalState {
@@ -45,6 +56,42 @@ export interface EmotionalState {
   dominantDimension: DominantDimension;
   /** Flags de atenção (opcional) */
   flags?: EmotionalStateFlags;
+  /** Leitura longitudinal (apenas quando há histórico) */
+  trend?: EmotionalTrend;
+}
+
+/**
+ * Sinais que se repetem em dias seguidos de check-in (incluindo hoje).
+ * NÃO são diagnósticos - indicam que o cuidado precisa ser contínuo.
+ */
+export interface PersistenceFlags {
+  /** Zona baixa (<=2) persistente */
+  lowZone?: boolean;
+  /** Humor baixo persistente */
+  lowMood?: boolean;
+  /** Energia baixa persistente */
+  lowEnergy?: boolean;
+  /** Desconforto corporal persistente */
+  physicalDiscomfort?: boolean;
+  /** Distância emocional persistente */
+  emotionalDistance?: boolean;
+}
+
+export type VolatilityLevel = "low" | "medium" | "high";
+
+export type RecoverySpeed = "fast" | "moderate" | "slow" | "ongoing";
+
+export interface EmotionalTrend {
+  /** Check-ins analisados (incluindo hoje) */
+  daysAnalyzed: number;
+  /** Flags de persistência */
+  persistence: PersistenceFlags;
+  /** Variação média dia-a-dia (0-1, quanto maior mais oscilação) */
+  volatility: number;
+  /** Nível de volatilidade */
+  volatilityLevel: VolatilityLevel;
+  /** Velocidade de recuperação da última queda (null = sem queda na janela) */
+  recoverySpeed: RecoverySpeed | null;
 }
 
 export interface EmotionalStateInput {
@@ -54,6 +101,14 @@ export interface EmotionalStateInput {
   gestationalWeek?: number;
   /** Momento do dia */
   moment?: "morning" | "afternoon" | "evening" | "night";
+  /** Check-ins anteriores (mais recente primeiro, sem o de hoje) */
+  recentHistory?: CheckinDimensions[];
+  /** Dia do check-in (com recentHistoryDates: persistência só em dias seguidos) */
+  dateKey?: DateKey;
+  /** Dia de cada check-in de recentHistory (mesma ordem) */
+  recentHistoryDates?: DateKey[];
+  /** Leitura das notas e emoções (Text Analysis Engine) */
+  textAnalysis?: TextAnalysis;
 }
 
 // ============================================
@@ -84,20 +139,48 @@ const COHERENCE_THRESHOLDS = {
   // > 0.75 → alta coerência
 } as const;
 
+/** Regras da leitura longitudinal */
+const TREND_RULES = {
+  /** Máximo de check-ins analisados (incluindo hoje) */
+  WINDOW: 7,
+  /** Dias seguidos com check-in para considerar um sinal persistente */
+  PERSISTENCE_DAYS: 3,
+  /** Valor de dimensão considerado baixo */
+  LOW_VALUE: 2,
+  /** Limiares de volatilidade (0-1) */
+  VOLATILITY: {
+    medium: 0.15,
+    high: 0.3,
+  },
+  /** Dias até sair da zona baixa */
+  RECOVERY_DAYS: {
+    fast: 1,
+    moderate: 3,
+  },
+} as const;
+
 // ============================================
 // CORE FUNCTIONS
 // ============================================
 
 /**
- * Calcula a zona emocional predominante.
- * Usa média ponderada das dimensões.
+ * Média ponderada das dimensões (escala 1-5).
  */
-function calculateZone(dimensions: CheckinDimensions): Zone {
-  const weighted =
+function calculateWeightedScore(dimensions: CheckinDimensions): number {
+  return (
     dimensions.mood * DIMENSION_WEIGHTS.mood +
     dimensions.energy * DIMENSION_WEIGHTS.energy +
     dimensions.body * DIMENSION_WEIGHTS.body +
-    dimensions.bond * DIMENSION_WEIGHTS.bond;
+    dimensions.bond * DIMENSION_WEIGHTS.bond
+  );
+}
+
+/**
+ * Calcula a zona emocional predominante.
+ * Usa média ponderada das dimensões.
+ */
+function calculateZone(dimensions: CheckinDimensions): Zone {
+  const weighted = calculateWeightedScore(dimensions);
 
   if (weighted <= ZONE_THRESHOLDS.veryLow) return 1;
   if (weighted <= ZONE_THRESHOLDS.low) return 2;
@@ -186,7 +269,8 @@ function findDominantDimension(dimensions: CheckinDimensions): DominantDimension
 function identifyFlags(
   dimensions: CheckinDimensions,
   zone: Zone,
-  coherence: number
+  coherence: number,
+  textAnalysis?: TextAnalysis
 ): EmotionalStateFlags | undefined {
   const flags: EmotionalStateFlags = {};
 
@@ -202,7 +286,7 @@ function identifyFlags(
     flags.overload = true;
   }
 
-  // Low energy: energia persistentemente baixa
+  // Low energy: energia baixa no dia
   if (dimensions.energy <= 2) {
     flags.lowEnergy = true;
   }
@@ -217,10 +301,138 @@ function identifyFlags(
     flags.physicalDiscomfort = true;
   }
 
+  // Notas e emoções: sofrimento / linguagem de crise
+  if (textAnalysis && hasDistressLanguage(textAnalysis)) {
+    flags.distressLanguage = true;
+  }
+
+  if (textAnalysis?.hasCrisisLanguage) {
+    flags.crisisLanguage = true;
+  }
+
   // Retorna undefined se não houver flags
   return Object.keys(flags).length > 0 ? flags : undefined;
 }
 
+// ============================================
+// LONGITUDINAL FUNCTIONS
+// ============================================
+
+/**
+ * Verifica se um sinal se repete em PERSISTENCE_DAYS dias seguidos até hoje.
+ * Mais de um dia entre dois check-ins quebra a sequência.
+ * @param series - Mais recente primeiro (hoje na posição 0)
+ * @param dates - Dia de cada item da série (sem datas: check-ins tratados como dias seguidos)
+ */
+function isPersistent(
+  series: CheckinDimensions[],
+  dates: DateKey[] | undefined,
+  predicate: (d: CheckinDimensions) => boolean
+): boolean {
+  let streak = 0;
+
+  for (let i = 0; i < series.length; i++) {
+    const gap = i > 0 && dates ? daysBetween(dates[i], dates[i - 1]) : 1;
+    if (gap > 1 || !predicate(series[i])) return false;
+    if (++streak >= TREND_RULES.PERSISTENCE_DAYS) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Identifica sinais persistentes.
+ */
+function identifyPersistence(
+  series: CheckinDimensions[],
+  dates: DateKey[] | undefined
+): PersistenceFlags {
+  const low = TREND_RULES.LOW_VALUE;
+  const persistence: PersistenceFlags = {};
+  const persists = (predicate: (d: CheckinDimensions) => boolean) =>
+    isPersistent(series, dates, predicate);
+
+  if (persists((d) => calculateZone(d) <= 2)) persistence.lowZone = true;
+  if (persists((d) => d.mood <= low)) persistence.lowMood = true;
+  if (persists((d) => d.energy <= low)) persistence.lowEnergy = true;
+  if (persists((d) => d.body <= low)) persistence.physicalDiscomfort = true;
+  if (persists((d) => d.bond <= low)) persistence.emotionalDistance = true;
+
+  return persistence;
+}
+
+/**
+ * Calcula volatilidade: variação média dia-a-dia da média ponderada.
+ * Normalizada pela maior variação possível (4 pontos).
+ */
+function calculateVolatility(series: CheckinDimensions[]): number {
+  if (series.length < 2) return 0;
+
+  const scores = series.map(calculateWeightedScore);
+  let totalChange = 0;
+
+  for (let i = 1; i < scores.length; i++) {
+    totalChange += Math.abs(scores[i] - scores[i - 1]);
+  }
+
+  const volatility = totalChange / (scores.length - 1) / 4;
+  return Math.round(volatility * 100) / 100;
+}
+
+function getVolatilityLevel(volatility: number): VolatilityLevel {
+  if (volatility >= TREND_RULES.VOLATILITY.high) return "high";
+  if (volatility >= TREND_RULES.VOLATILITY.medium) return "medium";
+  return "low";
+}
+
+/**
+ * Mede quanto tempo levou para sair da última queda (zona <= 2).
+ * "ongoing" = a queda continua hoje.
+ */
+function calculateRecoverySpeed(series: CheckinDimensions[]): RecoverySpeed | null {
+  // Ordem cronológica (mais antigo primeiro)
+  const zones = [...series].reverse().map(calculateZone);
+
+  const lastLow = zones.map((z) => z <= 2).lastIndexOf(true);
+  if (lastLow === -1) return null;
+  if (lastLow === zones.length - 1) return "ongoing";
+
+  // Início da queda
+  let dipStart = lastLow;
+  while (dipStart > 0 && zones[dipStart - 1] <= 2) dipStart--;
+
+  const daysInDip = lastLow - dipStart + 1;
+
+  if (daysInDip <= TREND_RULES.RECOVERY_DAYS.fast) return "fast";
+  if (daysInDip <= TREND_RULES.RECOVERY_DAYS.moderate) return "moderate";
+  return "slow";
+}
+
+/**
+ * Leitura longitudinal do estado emocional.
+ * Retorna undefined sem histórico (apenas o dia atual).
+ * Datas só são usadas quando cobrem hoje e todo o histórico.
+ */
+function deriveTrend(input: EmotionalStateInput): EmotionalTrend | undefined {
+  const { dimensions, recentHistory = [], dateKey, recentHistoryDates } = input;
+  if (recentHistory.length === 0) return undefined;
+
+  const series = [dimensions, ...recentHistory].slice(0, TREND_RULES.WINDOW);
+  const dates =
+    dateKey && recentHistoryDates?.length === recentHistory.length
+      ? [dateKey, ...recentHistoryDates].slice(0, TREND_RULES.WINDOW)
+      : undefined;
+  const volatility = calculateVolatility(series);
+
+  return {
+    daysAnalyzed: series.length,
+    persistence: identifyPersistence(series, dates),
+    volatility,
+    volatilityLevel: getVolatilityLevel(volatility),
+    recoverySpeed: calculateRecoverySpeed(series),
+  };
+}
+
 // ============================================
 // MAIN ENGINE FUNCTION
 // ============================================
@@ -229,8 +441,9 @@ function identifyFlags(
  * ENGINE 1: Emotional State Engine
  * 
  * Transforma check-in bruto em estado emocional interpretado.
+ * Com histórico, inclui leitura longitudinal (trend).
  * 
- * @param input - Check-in dimensions + contexto
+ * @param input - Check-in dimensions + contexto + histórico recente
  * @returns EmotionalState - Estado emocional qualitativo
  */
 export function deriveEmotionalState(input: EmotionalStateInput): EmotionalState {
@@ -249,7 +462,10 @@ export function deriveEmotionalState(input: EmotionalStateInput): EmotionalState
   const dominantDimension = findDominantDimension(dimensions);
 
   // 5. Identificar flags de atenção
-  const flags = identifyFlags(dimensions, zone, coherence);
+  const flags = identifyFlags(dimensions, zone, coherence, input.textAnalysis);
+
+  // 6. Leitura longitudinal (se houver histórico)
+  const trend = deriveTrend(input);
 
   return {
     zone,
@@ -257,6 +473,7 @@ export function deriveEmotionalState(input: EmotionalStateInput): EmotionalState
     coherence,
     dominantDimension,
     flags,
+    ...(trend && { trend }),
   };
 }
 
@@ -266,9 +483,22 @@ export function deriveEmotionalState(input: EmotionalStateInput): EmotionalState
 
 /**
  * Verifica se estado é vulnerável (precisa de cuidado extra).
+ * Linguagem de crise torna o dia vulnerável em qualquer zona.
  */
 export function isVulnerableState(state: EmotionalState): boolean {
-  return state.zone <= 2 || state.flags?.overload === true;
+  return (
+    state.zone <= 2 ||
+    state.flags?.overload === true ||
+    state.flags?.crisisLanguage === true
+  );
+}
+
+/**
+ * Verifica se há sinal persistente de baixa (precisa de cuidado contínuo).
+ */
+export function hasPersistentLowSignal(state: EmotionalState): boolean {
+  const persistence = state.trend?.persistence;
+  return !!(persistence?.lowZone || persistence?.lowMood);
 }
 
 /**
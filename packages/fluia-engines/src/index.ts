@@ -5,12 +5,14 @@
  *
  * Contém a lógica de negócio para:
  * - Cálculo de estado emocional
+ * - Leitura das notas do check-in (léxico local)
  * - Métricas derivadas
  * - Prescrições de treinos
  * - Termômetros emocionais
  * - Progressão de treinos
  * - Mensagens do Baby Voice
  * - Avaliação de Micromomentos
+ * - Pipeline diário (orquestração)
  */
 
 // ============================================
@@ -33,6 +35,41 @@ export type { BabyVoiceOutputV2 } from "./baby-voice-engine";
 // ============================================
 export * from "./emotional-state-engine";
 
+// ============================================
+// TEXT ANALYSIS ENGINE (notas e emoções, léxico pt-BR local)
+// ============================================
+export {
+  analyzeCheckinText,
+  mergeTextAnalyses,
+  hasDistressLanguage,
+  TEXT_ANALYSIS_RULES,
+} from "./text-analysis-engine";
+
+export type { TextAnalysisInput } from "./text-analysis-engine";
+
+// ============================================
+// SAFETY ENGINE (crise → intervenção e encaminhamento)
+// ============================================
+export {
+  evaluateCheckinSafety,
+  evaluateDiarySafety,
+  evaluateScreeningSafety,
+  isOutputAllowedBySafety,
+  toSafetyEvent,
+  SAFETY_TRIGGER_SEVERITY,
+  SAFETY_RULES,
+  SAFETY_MESSAGES,
+} from "./safety-engine";
+
+export type { CheckinSafetyInput, DiarySafetyInput } from "./safety-engine";
+
+// ============================================
+// AGREGADO DIÁRIO (check-ins por momento)
+// ============================================
+export { aggregateCheckinSessions } from "./utils/checkin-aggregate";
+
+export type { DailyCheckinAggregate } from "./utils/checkin-aggregate";
+
 // ============================================
 // METRICS ENGINE
 // ============================================
@@ -67,6 +104,24 @@ export type {
   DetectedProblem,
 } from "./prescription-engine";
 
+// ============================================
+// PRESCRIÇÃO ADAPTATIVA (efetividade por usuária)
+// ============================================
+export {
+  buildTrainingEffectiveness,
+  calculateOutcomeReward,
+  scoreTraining,
+  wasRecentlyAbandoned,
+  ADAPTIVE_RULES,
+} from "./utils/training-effectiveness";
+
+export type {
+  TrainingOutcome,
+  TrainingArmStats,
+  TrainingEffectiveness,
+  AdaptiveReason,
+} from "./utils/training-effectiveness";
+
 // ============================================
 // THERMOMETERS ENGINE
 // ============================================
@@ -82,7 +137,11 @@ export * from "./training-engine";
 // ============================================
 export {
   evaluateMicromoment,
-  MICROMOMENT_RULES,
+  deriveRiskLevel,
+  derivePostpartumRiskLevel,
+  findMicromomentResponse,
+  getMicromomentNextAction,
+  MICROMOMENT_FIXED_RULES,
 } from "./micromoment-engine";
 
 export type {
@@ -90,12 +149,30 @@ export type {
   IneligibilityReason,
 } from "./micromoment-engine";
 
+export { MICROMOMENT_PRIORITY } from "./utils/micromoment-rules";
+
+export {
+  loadMicromomentRules,
+  getActiveMicromomentRules,
+  setActiveMicromomentRules,
+  resolveMicromomentRules,
+  DEFAULT_MICROMOMENT_RULES,
+} from "./micromoment-rules-loader";
+
+export type {
+  MicromomentCohort,
+  ResolvedMicromomentRules,
+} from "./micromoment-rules-loader";
+
 // ============================================
 // MILESTONE ENGINE (v1.0)
 // ============================================
 export {
   evaluateMilestones,
   getMilestoneConfig,
+  getMilestoneProduct,
+  createPersonalMilestone,
+  getPersonalMilestoneBadge,
   MILESTONE_RULES,
   WEEK_MESSAGES,
 } from "./milestone-engine";
@@ -104,6 +181,7 @@ export type {
   MilestoneEvaluationResult,
   SingleMilestoneResult,
   MilestoneIneligibilityReason,
+  CreatePersonalMilestoneInput,
 } from "./milestone-engine";
 
 // ============================================
@@ -159,8 +237,6 @@ export {
   suggestTemplate,
   compileLetterContent,
   generateNarrativeReflection,
-  DIARY_PROMPTS,
-  LETTER_TEMPLATES,
 } from "./coauthoring-engine";
 
 // ============================================
@@ -173,19 +249,126 @@ export {
   determinePhase,
   // Transição
   createInitialTransitionState,
+  advanceTransitionState,
+  completeTransitionSteps,
   generateWelcomeMessage,
   // Diário
   selectPostpartumPrompt,
   getAlternativePostpartumPrompts,
-  POSTPARTUM_DIARY_PROMPTS,
   // Check-in
   generateCheckinMessage,
   suggestPractice,
   generateCheckinInsights,
-  // Screening
+  // Sinal de risco (gatilho da EPDS)
   evaluatePPDRisk,
   // Constantes
   PHASE_DAYS,
   PHASE_NAMES,
   ZONE_MESSAGES,
-} from "./postpartum-engine";
\ No newline at end of file
+} from "./postpartum-engine";
+
+export type { TransitionStep } from "./postpartum-engine";
+
+// ============================================
+// PREGNANCY ENGINE (gestações da conta)
+// ============================================
+export {
+  // Ciclo de vida
+  createPregnancy,
+  createLegacyPregnancy,
+  recordPregnancyBirth,
+  recordPregnancyLoss,
+  // Contexto
+  buildPregnancyContext,
+  getBabiesDisplayName,
+  filterByPregnancy,
+} from "./pregnancy-engine";
+
+export type { CreatePregnancyInput, LegacyPregnancyProfile } from "./pregnancy-engine";
+
+// ============================================
+// BABY LOG ENGINE (cuidados do bebê)
+// ============================================
+export {
+  // Agregados
+  filterBabyLogEntries,
+  summarizeBabyLogDay,
+  summarizeBabyLogDays,
+  summarizeBabyLogWeeks,
+  buildWeightSeries,
+  // Correlação
+  correlateBabySleepWithZone,
+  // Insights
+  generateBabyLogInsights,
+  // Helpers
+  getBabyLogEntryTime,
+  getSleepMinutes,
+  getBabyLogRange,
+  // Constantes
+  BABY_LOG_RULES,
+} from "./baby-log-engine";
+
+export type { MotherZoneDay, BabyLogInsightInput } from "./baby-log-engine";
+// ============================================
+// SCREENING ENGINE (questionários validados)
+// ============================================
+export {
+  // Puerpério (EPDS)
+  scoreEPDS,
+  getEPDSScheduleStatus,
+  EPDS_RULES,
+  EPDS_SCHEDULE,
+  // Gestação (EPDS antenatal + GAD-7)
+  scorePrenatalScreening,
+  getPrenatalScreeningSchedule,
+  PRENATAL_SCREENING_SCHEDULE,
+  PRENATAL_SCREENING_RULES,
+} from "./screening-engine";
+
+export type {
+  EPDSScoringContext,
+  EPDSScheduleInput,
+  PrenatalScoringContext,
+  PrenatalScheduleInput,
+} from "./screening-engine";
+
+// ============================================
+// CONTENT (pacote de conteúdo versionado)
+// ============================================
+export {
+  loadContentPackage,
+  getActiveContent,
+  setActiveContent,
+  DEFAULT_CONTENT,
+  FALLBACK_TRAINING_ID,
+} from "./content-loader";
+
+// ============================================
+// RANDOM (semente uid + dateKey)
+// ============================================
+export {
+  createSeededRng,
+  createDailyRng,
+  randomInt,
+  pickOne,
+  shuffle,
+} from "./utils/random";
+
+export type { Rng } from "./utils/random";
+
+// ============================================
+// DAILY PIPELINE (v1.0)
+// ============================================
+export {
+  runDailyPipeline,
+  isStageAllowed,
+  PIPELINE_STAGE_LEVELS,
+} from "./pipeline-engine";
+
+export type {
+  DailyPipelineStage,
+  GatedPipelineStage,
+  DailyPipelineHistory,
+  DailyPipelineOptions,
+  DailyBundle,
+} from "./pipeline-engine";
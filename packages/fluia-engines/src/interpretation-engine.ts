@@ -32,6 +32,15 @@ import type {
   InterpretationContext,
   HistoricalCheckin,
   HistoricalPractice,
+  IntradayPoint,
+} from "@fluia/contracts";
+import {
+  addDays,
+  daysBetween,
+  getDayOfWeek,
+  isNextDay,
+  DAY_MOMENT_ORDER,
+  DAY_MOMENT_LABELS,
 } from "@fluia/contracts";
 
 // ============================================
@@ -61,6 +70,12 @@ export const MONTH_NAMES = [
   "Setembro", "Outubro", "Novembro", "Dezembro",
 ];
 
+/** Check-ins mínimos por momento para comparar momentos do dia */
+const INTRADAY_MIN_SAMPLES = 2;
+
+/** Diferença mínima de zona média entre momentos para virar padrão */
+const INTRADAY_MIN_DIFFERENCE = 0.5;
+
 // ============================================
 // HELPERS
 // ============================================
@@ -107,7 +122,7 @@ function groupByDayOfWeek(checkins: HistoricalCheckin[]): Map<number, Historical
   const grouped = new Map<number, HistoricalCheckin[]>();
   
   for (const checkin of checkins) {
-    const day = new Date(checkin.date).getDay();
+    const day = getDayOfWeek(checkin.date);
     if (!grouped.has(day)) {
       grouped.set(day, []);
     }
@@ -117,6 +132,23 @@ function groupByDayOfWeek(checkins: HistoricalCheckin[]): Map<number, Historical
   return grouped;
 }
 
+/**
+ * Zona média por momento do dia (gráfico intradiário)
+ */
+function buildIntradayChart(checkins: HistoricalCheckin[]): IntradayPoint[] {
+  const sessions = checkins.flatMap((c) => c.sessions ?? []);
+
+  return DAY_MOMENT_ORDER.flatMap((moment) => {
+    const zones = sessions.filter((s) => s.moment === moment).map((s) => s.zone);
+    if (zones.length === 0) return [];
+    return [{
+      moment,
+      averageZone: Math.round(average(zones) * 10) / 10,
+      sampleSize: zones.length,
+    }];
+  });
+}
+
 /**
  * Agrupa práticas por tipo
  */
@@ -138,13 +170,10 @@ function groupByPracticeType(practices: HistoricalPractice[]): Map<string, Histo
  */
 function filterCheckinsByPeriod(
   checkins: HistoricalCheckin[],
-  startDate: Date,
-  endDate: Date
+  startDate: string,
+  endDate: string
 ): HistoricalCheckin[] {
-  return checkins.filter((c) => {
-    const date = new Date(c.date);
-    return date >= startDate && date <= endDate;
-  });
+  return checkins.filter((c) => c.date >= startDate && c.date <= endDate);
 }
 
 /**
@@ -152,13 +181,10 @@ function filterCheckinsByPeriod(
  */
 function filterPracticesByPeriod(
   practices: HistoricalPractice[],
-  startDate: Date,
-  endDate: Date
+  startDate: string,
+  endDate: string
 ): HistoricalPractice[] {
-  return practices.filter((p) => {
-    const date = new Date(p.date);
-    return date >= startDate && date <= endDate;
-  });
+  return practices.filter((p) => p.date >= startDate && p.date <= endDate);
 }
 
 // ============================================
@@ -172,9 +198,8 @@ export function generateEmotionalPatterns(
   context: InterpretationContext,
   days: number = 14
 ): EmotionalPatternsResponse {
-  const endDate = new Date(context.referenceDate);
-  const startDate = new Date(endDate);
-  startDate.setDate(startDate.getDate() - days);
+  const endDate = context.referenceDate;
+  const startDate = addDays(endDate, -days);
   
   const checkins = filterCheckinsByPeriod(context.checkins, startDate, endDate);
   const practices = filterPracticesByPeriod(context.practices, startDate, endDate);
@@ -324,17 +349,49 @@ export function generateEmotionalPatterns(
     });
   }
   
+  // Padrão 5: Momento do dia (check-ins em mais de um momento)
+  const intraday = buildIntradayChart(checkins);
+  const comparable = intraday.filter((p) => p.sampleSize >= INTRADAY_MIN_SAMPLES);
+  
+  if (comparable.length >= 2) {
+    const hardest = comparable.reduce((a, b) => (b.averageZone < a.averageZone ? b : a));
+    const easiest = comparable.reduce((a, b) => (b.averageZone > a.averageZone ? b : a));
+    const difference = easiest.averageZone - hardest.averageZone;
+    
+    if (difference >= INTRADAY_MIN_DIFFERENCE) {
+      const hardestName = DAY_MOMENT_LABELS[hardest.moment];
+      const easiestName = DAY_MOMENT_LABELS[easiest.moment];
+      
+      patterns.push({
+        patternId: `time-${hardest.moment}-${Date.now()}`,
+        patternType: "time_correlation",
+        title: `${hardestName}s são mais difíceis que ${easiestName.toLowerCase()}s`,
+        description: `Nos seus check-ins, a ${hardestName.toLowerCase()} fica em média ${(difference * 20).toFixed(0)}% abaixo da ${easiestName.toLowerCase()}. Vale reservar um cuidado extra para esse momento.`,
+        data: {
+          value: Math.round(difference * 20),
+          unit: "%",
+          comparison: `abaixo da ${easiestName.toLowerCase()}`,
+        },
+        confidence: Math.min(0.9, Math.min(hardest.sampleSize, easiest.sampleSize) / 4),
+        relatedTo: {
+          timeOfDay: hardest.moment,
+        },
+      });
+    }
+  }
+  
   // Gerar resumo
   const topPattern = patterns[0];
   
   return {
     patterns,
     period: {
-      startDate: startDate.toISOString().split("T")[0],
-      endDate: endDate.toISOString().split("T")[0],
+      startDate,
+      endDate,
       totalDays: days,
       daysWithData: checkins.length,
     },
+    intraday,
     summary: {
       headline: patterns.length > 0
         ? `Descobrimos ${patterns.length} padrão${patterns.length > 1 ? "s" : ""} na sua jornada`
@@ -354,17 +411,12 @@ export function generateEmotionalPatterns(
 export function generateWeeklyTrends(
   context: InterpretationContext
 ): WeeklyTrendsResponse {
-  const refDate = new Date(context.referenceDate);
-  
-  // Calcular datas das semanas
-  const currentWeekEnd = new Date(refDate);
-  const currentWeekStart = new Date(refDate);
-  currentWeekStart.setDate(currentWeekStart.getDate() - 6);
+  // Calcular datas das semanas (janelas móveis de 7 dias)
+  const currentWeekEnd = context.referenceDate;
+  const currentWeekStart = addDays(currentWeekEnd, -6);
   
-  const previousWeekEnd = new Date(currentWeekStart);
-  previousWeekEnd.setDate(previousWeekEnd.getDate() - 1);
-  const previousWeekStart = new Date(previousWeekEnd);
-  previousWeekStart.setDate(previousWeekStart.getDate() - 6);
+  const previousWeekEnd = addDays(currentWeekStart, -1);
+  const previousWeekStart = addDays(previousWeekEnd, -6);
   
   // Filtrar dados por semana
   const currentCheckins = filterCheckinsByPeriod(
@@ -487,13 +539,13 @@ export function generateWeeklyTrends(
     pillarTrends,
     practiceTrend,
     currentWeek: {
-      startDate: currentWeekStart.toISOString().split("T")[0],
-      endDate: currentWeekEnd.toISOString().split("T")[0],
+      startDate: currentWeekStart,
+      endDate: currentWeekEnd,
       daysWithData: currentCheckins.length,
     },
     previousWeek: {
-      startDate: previousWeekStart.toISOString().split("T")[0],
-      endDate: previousWeekEnd.toISOString().split("T")[0],
+      startDate: previousWeekStart,
+      endDate: previousWeekEnd,
       daysWithData: previousCheckins.length,
     },
     summary: {
@@ -515,11 +567,9 @@ export function generatePillarInsights(
   context: InterpretationContext,
   specificPillar?: EmotionalPillar
 ): PillarInsightsResponse {
-  const endDate = new Date(context.referenceDate);
-  const startDate30 = new Date(endDate);
-  startDate30.setDate(startDate30.getDate() - 30);
-  const startDate7 = new Date(endDate);
-  startDate7.setDate(startDate7.getDate() - 7);
+  const endDate = context.referenceDate;
+  const startDate30 = addDays(endDate, -30);
+  const startDate7 = addDays(endDate, -7);
   
   const checkins30 = filterCheckinsByPeriod(context.checkins, startDate30, endDate);
   const checkins7 = filterCheckinsByPeriod(context.checkins, startDate7, endDate);
@@ -644,8 +694,8 @@ export function generatePillarInsights(
     needsAttentionPillar: weakestPillar,
     period: {
       days: 30,
-      startDate: startDate30.toISOString().split("T")[0],
-      endDate: endDate.toISOString().split("T")[0],
+      startDate: startDate30,
+      endDate,
     },
     summary: {
       headline: `${PILLAR_NAMES[strongestPillar]} é seu ponto forte, ${PILLAR_NAMES[weakestPillar]} pode melhorar.`,
@@ -668,19 +718,20 @@ export function generateMonthlyReport(
   month?: number,
   year?: number
 ): MonthlyReportResponse {
-  const refDate = new Date(context.referenceDate);
-  const targetMonth = month ?? refDate.getMonth(); // 0-indexed
-  const targetYear = year ?? refDate.getFullYear();
+  // referenceDate é uma dateKey (YYYY-MM-DD)
+  const refMonth = Number(context.referenceDate.slice(5, 7)) - 1; // 0-indexed
+  const targetYear = year ?? Number(context.referenceDate.slice(0, 4));
   
   // Se não especificou mês, usar mês anterior
-  const reportMonth = month !== undefined ? month - 1 : refDate.getMonth() - 1;
+  const reportMonth = month !== undefined ? month - 1 : refMonth - 1;
   const reportYear = reportMonth < 0 ? targetYear - 1 : targetYear;
   const adjustedMonth = reportMonth < 0 ? 11 : reportMonth;
   
   // Datas do mês
-  const startDate = new Date(reportYear, adjustedMonth, 1);
-  const endDate = new Date(reportYear, adjustedMonth + 1, 0);
-  const daysInMonth = endDate.getDate();
+  const startDate = `${reportYear}-${String(adjustedMonth + 1).padStart(2, "0")}-01`;
+  const nextMonthStart = `${addDays(startDate, 31).slice(0, 7)}-01`;
+  const endDate = addDays(nextMonthStart, -1);
+  const daysInMonth = daysBetween(startDate, endDate) + 1;
   
   // Filtrar dados do mês
   const checkins = filterCheckinsByPeriod(context.checkins, startDate, endDate);
@@ -692,13 +743,16 @@ export function generateMonthlyReport(
   // Calcular streak máximo
   let maxStreak = 0;
   let currentStreak = 0;
-  const sortedCheckins = [...checkins].sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-  );
+  const sortedCheckins = [...checkins].sort((a, b) => a.date.localeCompare(b.date));
   
   for (let i = 0; i < sortedCheckins.length; i++) {
     if (sortedCheckins[i].dayCompleted) {
-      currentStreak++;
+      // Dia sem check-in quebra a sequência
+      const previous = sortedCheckins[i - 1];
+      currentStreak =
+        previous?.dayCompleted && isNextDay(previous.date, sortedCheckins[i].date)
+          ? currentStreak + 1
+          : 1;
       maxStreak = Math.max(maxStreak, currentStreak);
     } else {
       currentStreak = 0;
@@ -31,7 +31,11 @@ import type {
   CapsuleItem,
   EmotionalCapsule,
   MemoryGenerationContext,
+  PersonalMilestone,
 } from "@fluia/contracts";
+import { getDateKey, getGestationalWeek } from "@fluia/contracts";
+import { getPersonalMilestoneBadge } from "./milestone-engine";
+import { pickOne, type Rng } from "./utils/random";
 
 // ============================================
 // CONSTANTES
@@ -70,10 +74,6 @@ const TRIMESTER_NAMES: Record<number, string> = {
 // HELPERS
 // ============================================
 
-function randomFrom<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
 function getTrimester(week: number): 1 | 2 | 3 {
   if (week < 14) return 1;
   if (week < 28) return 2;
@@ -92,7 +92,7 @@ function getDominantPillar(scores: Record<string, number>): string {
   return dominant;
 }
 
-function getMoodFromZone(zone: number): string {
+function getMoodFromZone(zone: number, rng: Rng): string {
   const moods: Record<number, string[]> = {
     1: ["vulnerável", "precisando de apoio", "sensível"],
     2: ["cansada", "introspectiva", "pensativa"],
@@ -100,7 +100,7 @@ function getMoodFromZone(zone: number): string {
     4: ["otimista", "grata", "esperançosa"],
     5: ["radiante", "plena", "feliz"],
   };
-  return randomFrom(moods[zone] || moods[3]);
+  return pickOne(moods[zone] || moods[3], rng);
 }
 
 // ============================================
@@ -122,7 +122,8 @@ interface RawCheckinData {
  */
 export function generateEmotionalDiary(
   checkins: RawCheckinData[],
-  context: MemoryGenerationContext
+  context: MemoryGenerationContext,
+  rng: Rng = Math.random
 ): EmotionalDiaryResponse {
   const entries: DiaryEntry[] = checkins.map((checkin, index) => {
     const zone = checkin.zone || 3;
@@ -134,8 +135,8 @@ export function generateEmotionalDiary(
       zone,
       scores: checkin.scores,
       emoji: ZONE_EMOJIS[zone] || "😐",
-      title: randomFrom(ZONE_TITLES[zone] || ZONE_TITLES[3]),
-      summary: generateDaySummary(checkin, context.babyName),
+      title: pickOne(ZONE_TITLES[zone] || ZONE_TITLES[3], rng),
+      summary: generateDaySummary(checkin, context.babyName, rng),
       practices: checkin.practices || [],
       babyMessage: checkin.babyMessage,
       personalNote: checkin.personalNote,
@@ -153,7 +154,7 @@ export function generateEmotionalDiary(
   // Contar emoções
   const emotionCounts: Record<string, number> = {};
   entries.forEach((e) => {
-    const mood = getMoodFromZone(e.zone);
+    const mood = getMoodFromZone(e.zone, rng);
     emotionCounts[mood] = (emotionCounts[mood] || 0) + 1;
   });
   const mostFrequent = Object.entries(emotionCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || "equilibrada";
@@ -175,7 +176,7 @@ export function generateEmotionalDiary(
   };
 }
 
-function generateDaySummary(checkin: RawCheckinData, babyName: string): string {
+function generateDaySummary(checkin: RawCheckinData, babyName: string, rng: Rng): string {
   const zone = checkin.zone || 3;
   const week = checkin.gestationalWeek;
   const practiceCount = checkin.practices?.length || 0;
@@ -203,7 +204,7 @@ function generateDaySummary(checkin: RawCheckinData, babyName: string): string {
     ],
   };
 
-  let summary = randomFrom(templates[zone] || templates[3]);
+  let summary = pickOne(templates[zone] || templates[3], rng);
 
   if (practiceCount > 0) {
     summary += ` Você fez ${practiceCount} prática${practiceCount > 1 ? "s" : ""}.`;
@@ -220,6 +221,8 @@ interface RawTimelineData {
   checkins: RawCheckinData[];
   milestones: Array<{ date: string; type: string; title: string }>;
   practices: Array<{ date: string; type: string; name: string }>;
+  /** Marcos criados pela usuária */
+  personalMilestones?: PersonalMilestone[];
 }
 
 /**
@@ -227,7 +230,8 @@ interface RawTimelineData {
  */
 export function generateVisualTimeline(
   data: RawTimelineData,
-  context: MemoryGenerationContext
+  context: MemoryGenerationContext,
+  rng: Rng = Math.random
 ): VisualTimelineResponse {
   const points: TimelinePoint[] = [];
 
@@ -242,7 +246,7 @@ export function generateVisualTimeline(
       week: checkin.gestationalWeek,
       type: isHighMoment ? "high_moment" : isLowMoment ? "low_moment" : "checkin",
       title: isHighMoment ? "Momento Alto" : isLowMoment ? "Momento Difícil" : "Check-in",
-      description: generateDaySummary(checkin, context.babyName),
+      description: generateDaySummary(checkin, context.babyName, rng),
       icon: ZONE_EMOJIS[checkin.zone] || "📍",
       color: getZoneColor(checkin.zone),
       intensity: checkin.zone,
@@ -272,6 +276,27 @@ export function generateVisualTimeline(
     });
   });
 
+  // Adicionar marcos pessoais
+  data.personalMilestones?.forEach((milestone) => {
+    const week = getWeekFromDate(milestone.date, context.dueDate);
+    const badge = getPersonalMilestoneBadge(milestone.kind);
+    points.push({
+      pointId: `personal-${milestone.personalMilestoneId}`,
+      date: milestone.date,
+      week,
+      type: "milestone",
+      title: milestone.title,
+      description: milestone.note || `Marco pessoal na semana ${week}`,
+      icon: badge.icon,
+      color: badge.color,
+      intensity: 5,
+      metadata: {
+        milestoneType: milestone.kind,
+        ...(milestone.photoUrl && { photoUrl: milestone.photoUrl }),
+      },
+    });
+  });
+
   // Ordenar por data
   points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
@@ -307,11 +332,7 @@ function getZoneColor(zone: number): string {
 }
 
 function getWeekFromDate(dateStr: string, dueDate: string): number {
-  const date = new Date(dateStr);
-  const due = new Date(dueDate);
-  const diffMs = due.getTime() - date.getTime();
-  const diffWeeks = Math.floor(diffMs / (7 * 24 * 60 * 60 * 1000));
-  return Math.max(4, Math.min(42, 40 - diffWeeks));
+  return Math.max(4, getGestationalWeek(dueDate, dateStr));
 }
 
 function groupByTrimester(points: TimelinePoint[]): TimelineSegment[] {
@@ -362,10 +383,11 @@ function groupByTrimester(points: TimelinePoint[]): TimelineSegment[] {
 export function generateBabyLetter(
   type: LetterType,
   context: MemoryGenerationContext,
-  emotionalContext: { zone: number; dominantPillar: string }
+  emotionalContext: { zone: number; dominantPillar: string },
+  rng: Rng = Math.random
 ): BabyLetter {
   const { babyName, gestationalWeek } = context;
-  const mood = getMoodFromZone(emotionalContext.zone);
+  const mood = getMoodFromZone(emotionalContext.zone, rng);
 
   const letterTemplates: Record<LetterType, { title: string; content: string }> = {
     first_heartbeat: {
@@ -531,6 +553,15 @@ interface BookGenerationData {
   letters: BabyLetter[];
   milestones: Array<{ date: string; type: string; title: string }>;
   practices: Array<{ date: string; type: string; name: string }>;
+  /** Marcos criados pela usuária */
+  personalMilestones?: PersonalMilestone[];
+}
+
+interface BookMilestone {
+  date: string;
+  type: string;
+  title: string;
+  note?: string;
 }
 
 /**
@@ -568,15 +599,30 @@ export function generateJourneyBook(
     }
   }
 
-  // Capítulo de Marcos
-  if (data.milestones.length > 0) {
+  // Capítulo de Marcos (da jornada e pessoais, em ordem cronológica)
+  const personalMilestones = data.personalMilestones ?? [];
+  const milestones: BookMilestone[] = [
+    ...data.milestones,
+    ...personalMilestones.map((m) => ({
+      date: m.date,
+      type: m.kind,
+      title: m.title,
+      note: m.note,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  const milestoneImages = personalMilestones
+    .map((m) => m.photoUrl)
+    .filter((url): url is string => !!url);
+
+  if (milestones.length > 0) {
     chapters.push({
       chapterId: `chapter-${chapterNumber}`,
       number: chapterNumber++,
       title: "Marcos da Jornada",
       type: "milestones",
-      content: generateMilestonesChapter(data.milestones, context),
-      dataPoints: data.milestones.length,
+      content: generateMilestonesChapter(milestones, context),
+      dataPoints: milestones.length,
+      ...(milestoneImages.length > 0 && { images: milestoneImages }),
     });
   }
 
@@ -609,7 +655,7 @@ export function generateJourneyBook(
     generatedAt: new Date().toISOString(),
     period: {
       startDate: context.trackingStartDate,
-      endDate: new Date().toISOString().split("T")[0],
+      endDate: getDateKey(),
       totalWeeks: context.gestationalWeek,
     },
     chapters,
@@ -662,13 +708,14 @@ Cada dia foi um passo mais perto de ${context.babyName}.`;
 }
 
 function generateMilestonesChapter(
-  milestones: Array<{ date: string; type: string; title: string }>,
+  milestones: BookMilestone[],
   context: MemoryGenerationContext
 ): string {
   let content = `Esta jornada foi marcada por conquistas especiais. Cada marco representa um momento único na espera por ${context.babyName}.\n\n`;
 
   milestones.forEach((m, index) => {
     content += `${index + 1}. **${m.title}** - ${m.date}\n`;
+    if (m.note) content += `   ${m.note}\n`;
   });
 
   content += `\nCada um desses momentos está gravado no coração.`;
@@ -5,7 +5,7 @@
  * 
  * RESPONSABILIDADE:
  * - Transformar EmotionalState em métricas RE/BS/RS/CA
- * - Considerar baseline do onboarding
+ * - Considerar baseline pessoal (ou do onboarding, no cold start)
  * - Considerar histórico curto (tendências)
  * 
  * MÉTRICAS (Documento p.14-15):
@@ -19,7 +19,13 @@
  *  nunca rótulos ou diagnósticos apresentados à usuária."
  */
 
-import type { CheckinDimensions } from "@fluia/contracts";
+import type {
+  CheckinDimensions,
+  DateKey,
+  DimensionBaseline,
+  PersonalBaseline,
+} from "@fluia/contracts";
+import { daysBetween } from "@fluia/contracts";
 import type { EmotionalState, Zone } from "./emotional-state-engine";
 
 // ============================================
@@ -42,16 +48,27 @@ export interface MetricsInput {
   emotionalState: EmotionalState;
   /** Dimensões brutas do check-in */
   dimensions: CheckinDimensions;
-  /** Baseline do onboarding (opcional) */
+  /** Baseline do onboarding (opcional, cold start) */
   baseline?: {
     mood: number;
   };
+  /** Baseline pessoal calibrado (opcional, prevalece sobre o do onboarding) */
+  personalBaseline?: PersonalBaseline;
   /** Histórico recente (opcional, últimos 7 dias) */
   recentHistory?: CheckinDimensions[];
 }
 
 export type MetricKey = keyof Metrics;
 
+/** Check-in usado na calibração do baseline pessoal */
+export interface BaselineSample {
+  dateKey: DateKey;
+  dimensions: CheckinDimensions;
+}
+
+/** Pontuação 0-100 de cada dimensão */
+type DimensionScores = Record<keyof CheckinDimensions, number>;
+
 export interface MetricTrend {
   metric: MetricKey;
   direction: "improving" | "stable" | "declining";
@@ -106,6 +123,26 @@ const FLAG_ADJUSTMENTS = {
   physicalDiscomfort: { BS: -10 }, // Desconforto afeta base de segurança
 } as const;
 
+/**
+ * Regras do baseline pessoal.
+ */
+export const BASELINE_RULES = {
+  /** Janela de calibração inicial (primeiras 2 semanas) */
+  CALIBRATION_DAYS: 14,
+  /** Mínimo de check-ins para calibrar */
+  MIN_CHECKINS: 7,
+  /** Intervalo de recalculação (dias) */
+  RECALCULATION_DAYS: 14,
+  /** Máximo de check-ins recentes na recalculação */
+  RECALCULATION_WINDOW: 28,
+  /** Dispersão mínima (evita desvios extremos em quem varia pouco) */
+  MIN_SPREAD: 0.5,
+  /** Desvio máximo considerado (em unidades de dispersão) */
+  MAX_DEVIATION: 2,
+} as const;
+
+const DIMENSION_KEYS: (keyof CheckinDimensions)[] = ["mood", "energy", "body", "bond"];
+
 // ============================================
 // CORE FUNCTIONS
 // ============================================
@@ -125,17 +162,55 @@ function scaleToPercentage(value: 1 | 2 | 3 | 4 | 5): number {
   return mapping[value];
 }
 
+/**
+ * Pontua as dimensões na escala absoluta (cold start).
+ */
+function scoreAbsolute(dimensions: CheckinDimensions): DimensionScores {
+  return {
+    mood: scaleToPercentage(dimensions.mood),
+    energy: scaleToPercentage(dimensions.energy),
+    body: scaleToPercentage(dimensions.body),
+    bond: scaleToPercentage(dimensions.bond),
+  };
+}
+
+/**
+ * Pontua as dimensões relativas à norma pessoal.
+ * Na média pessoal = 50; ±MAX_DEVIATION dispersões = 5/95.
+ */
+function scoreRelative(
+  dimensions: CheckinDimensions,
+  baseline: PersonalBaseline
+): DimensionScores {
+  const score = (key: keyof CheckinDimensions): number => {
+    const { mean, spread } = baseline.dimensions[key];
+    const deviation = (dimensions[key] - mean) / Math.max(spread, BASELINE_RULES.MIN_SPREAD);
+    const clamped = Math.max(
+      -BASELINE_RULES.MAX_DEVIATION,
+      Math.min(BASELINE_RULES.MAX_DEVIATION, deviation)
+    );
+    return 50 + (clamped / BASELINE_RULES.MAX_DEVIATION) * 45;
+  };
+
+  return {
+    mood: score("mood"),
+    energy: score("energy"),
+    body: score("body"),
+    bond: score("bond"),
+  };
+}
+
 /**
  * Calcula métrica RE (Regulação Emocional).
  */
 function calculateRE(
-  dimensions: CheckinDimensions,
+  scores: DimensionScores,
   emotionalState: EmotionalState
 ): number {
   const formula = METRIC_FORMULAS.RE;
   
-  const moodScore = scaleToPercentage(dimensions.mood);
-  const energyScore = scaleToPercentage(dimensions.energy);
+  const moodScore = scores.mood;
+  const energyScore = scores.energy;
   const coherenceScore = emotionalState.coherence * 100;
 
   const base =
@@ -150,14 +225,14 @@ function calculateRE(
  * Calcula métrica BS (Base de Segurança).
  */
 function calculateBS(
-  dimensions: CheckinDimensions,
+  scores: DimensionScores,
   emotionalState: EmotionalState
 ): number {
   const formula = METRIC_FORMULAS.BS;
   
-  const bodyScore = scaleToPercentage(dimensions.body);
-  const moodScore = scaleToPercentage(dimensions.mood);
-  const bondScore = scaleToPercentage(dimensions.bond);
+  const bodyScore = scores.body;
+  const moodScore = scores.mood;
+  const bondScore = scores.bond;
 
   const base =
     bodyScore * formula.body +
@@ -171,14 +246,14 @@ function calculateBS(
  * Calcula métrica RS (Resiliência ao Estresse).
  */
 function calculateRS(
-  dimensions: CheckinDimensions,
+  scores: DimensionScores,
   emotionalState: EmotionalState
 ): number {
   const formula = METRIC_FORMULAS.RS;
   
-  const energyScore = scaleToPercentage(dimensions.energy);
-  const moodScore = scaleToPercentage(dimensions.mood);
-  const bodyScore = scaleToPercentage(dimensions.body);
+  const energyScore = scores.energy;
+  const moodScore = scores.mood;
+  const bodyScore = scores.body;
 
   const base =
     energyScore * formula.energy +
@@ -192,13 +267,13 @@ function calculateRS(
  * Calcula métrica CA (Conexão Afetiva).
  */
 function calculateCA(
-  dimensions: CheckinDimensions,
+  scores: DimensionScores,
   emotionalState: EmotionalState
 ): number {
   const formula = METRIC_FORMULAS.CA;
   
-  const bondScore = scaleToPercentage(dimensions.bond);
-  const moodScore = scaleToPercentage(dimensions.mood);
+  const bondScore = scores.bond;
+  const moodScore = scores.mood;
 
   const base =
     bondScore * formula.bond +
@@ -251,7 +326,7 @@ function applyFlagAdjustments(
 }
 
 /**
- * Ajusta métricas baseado no baseline do onboarding.
+ * Ajusta métricas baseado no baseline do onboarding (cold start).
  * Se baseline foi muito baixo, ajusta expectativas.
  */
 function adjustForBaseline(
@@ -284,29 +359,135 @@ function adjustForBaseline(
  * 
  * Calcula as 4 métricas pedagógicas (RE/BS/RS/CA).
  * 
+ * Com baseline pessoal, as dimensões são lidas relativas à norma da
+ * usuária. Sem ele (cold start), usa a escala absoluta + baselineMood.
+ * 
  * @param input - Estado emocional + dimensões + contexto
  * @returns Metrics - As 4 métricas (0-100)
  */
 export function calculateMetrics(input: MetricsInput): Metrics {
-  const { emotionalState, dimensions, baseline } = input;
+  const { emotionalState, dimensions, baseline, personalBaseline } = input;
+
+  // 1. Pontuar dimensões (norma pessoal ou escala absoluta)
+  const scores = personalBaseline
+    ? scoreRelative(dimensions, personalBaseline)
+    : scoreAbsolute(dimensions);
 
-  // 1. Calcular cada métrica
+  // 2. Calcular cada métrica
   let metrics: Metrics = {
-    RE: calculateRE(dimensions, emotionalState),
-    BS: calculateBS(dimensions, emotionalState),
-    RS: calculateRS(dimensions, emotionalState),
-    CA: calculateCA(dimensions, emotionalState),
+    RE: calculateRE(scores, emotionalState),
+    BS: calculateBS(scores, emotionalState),
+    RS: calculateRS(scores, emotionalState),
+    CA: calculateCA(scores, emotionalState),
   };
 
-  // 2. Aplicar ajustes por flags
+  // 3. Aplicar ajustes por flags
   metrics = applyFlagAdjustments(metrics, emotionalState);
 
-  // 3. Ajustar por baseline (se existir)
-  metrics = adjustForBaseline(metrics, baseline);
+  // 4. Cold start: ajustar pelo baseline do onboarding (se existir)
+  if (!personalBaseline) {
+    metrics = adjustForBaseline(metrics, baseline);
+  }
 
   return metrics;
 }
 
+// ============================================
+// PERSONAL BASELINE
+// ============================================
+
+/**
+ * Média e dispersão de uma série.
+ */
+function describe(values: number[]): DimensionBaseline {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+
+  return {
+    mean: Math.round(mean * 100) / 100,
+    spread: Math.round(Math.sqrt(variance) * 100) / 100,
+  };
+}
+
+/**
+ * Verifica se o baseline pessoal deve ser (re)calculado hoje.
+ * 
+ * - Sem baseline: após a janela de calibração desde o primeiro check-in
+ * - Com baseline: a cada RECALCULATION_DAYS
+ */
+export function isBaselineRecalculationDue(
+  baseline: PersonalBaseline | undefined,
+  firstCheckinDateKey: DateKey | null,
+  todayDateKey: DateKey
+): boolean {
+  if (baseline) {
+    return daysBetween(baseline.calculatedOn, todayDateKey) >= BASELINE_RULES.RECALCULATION_DAYS;
+  }
+
+  if (!firstCheckinDateKey) return false;
+  return daysBetween(firstCheckinDateKey, todayDateKey) >= BASELINE_RULES.CALIBRATION_DAYS;
+}
+
+/**
+ * Seleciona a amostra de calibração.
+ * 
+ * - Sem baseline: check-ins das 2 primeiras semanas
+ *   (se forem poucos, os primeiros RECALCULATION_WINDOW check-ins)
+ * - Com baseline: últimos RECALCULATION_WINDOW check-ins
+ * 
+ * @param samples - Check-ins em qualquer ordem
+ */
+export function selectBaselineSamples<T extends BaselineSample>(
+  samples: T[],
+  hasBaseline: boolean
+): T[] {
+  const sorted = [...samples].sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
+  if (hasBaseline) {
+    return sorted.slice(-BASELINE_RULES.RECALCULATION_WINDOW);
+  }
+
+  const first = sorted[0];
+  if (!first) return [];
+
+  const firstWeeks = sorted.filter(
+    (s) => daysBetween(first.dateKey, s.dateKey) < BASELINE_RULES.CALIBRATION_DAYS
+  );
+
+  return firstWeeks.length >= BASELINE_RULES.MIN_CHECKINS
+    ? firstWeeks
+    : sorted.slice(0, BASELINE_RULES.RECALCULATION_WINDOW);
+}
+
+/**
+ * Calcula o baseline pessoal (média e dispersão por dimensão).
+ * Retorna null se não há check-ins suficientes (mantém cold start).
+ */
+export function calculatePersonalBaseline(
+  samples: BaselineSample[],
+  todayDateKey: DateKey,
+  now: Date = new Date()
+): PersonalBaseline | null {
+  if (samples.length < BASELINE_RULES.MIN_CHECKINS) {
+    return null;
+  }
+
+  const sorted = [...samples].sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
+  const dimensions = Object.fromEntries(
+    DIMENSION_KEYS.map((key) => [key, describe(sorted.map((s) => s.dimensions[key]))])
+  ) as PersonalBaseline["dimensions"];
+
+  return {
+    dimensions,
+    sampleSize: sorted.length,
+    fromDateKey: sorted[0].dateKey,
+    toDateKey: sorted[sorted.length - 1].dateKey,
+    calculatedOn: todayDateKey,
+    calculatedAt: now.toISOString(),
+  };
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -4,7 +4,7 @@
  * Avalia elegibilidade para micromomentos baseado em:
  * - Eventos factuais passados
  * - Contexto atual
- * - Regras congeladas
+ * - Regras configuradas (versionadas, com overrides por coorte)
  * 
  * ❌ Não faz: persistência, decisão de UX, conhece billing
  * ✅ Faz: avalia, decide, sugere
@@ -18,92 +18,37 @@
  */
 
 import type {
+  EPDSResult,
   MicromomentType,
+  MicromomentAction,
   MicromomentEvent,
+  MicromomentNextAction,
   MicromomentSuggestion,
   MicromomentEvaluationContext,
 } from "@fluia/contracts";
+import { daysBetween, getDateKey, isSameWeek, toDateKey } from "@fluia/contracts";
+import { hasPersistentLowSignal, type EmotionalState } from "./emotional-state-engine";
+import {
+  getActiveMicromomentRules,
+  resolveMicromomentRules,
+  type ResolvedMicromomentRules,
+} from "./micromoment-rules-loader";
+import { MICROMOMENT_PRIORITY } from "./utils/micromoment-rules";
 
 // ============================================
-// REGRAS CONGELADAS (v1.1)
+// REGRAS FIXAS (não configuráveis)
 // ============================================
 
-const RULES = {
-  /** 
-   * Dias de presença (check-ins) antes de mostrar qualquer MM
-   * Responde: "Essa usuária voltou porque algo fez sentido?"
-   */
-  GRACE_PERIOD_PRESENCE: 7,
-  
-  /**
-   * Jornadas completas para MM4 (Relatório Semanal)
-   * Responde: "Temos dados suficientes para relatório real?"
-   */
-  MM4_MIN_COMPLETED_JOURNEYS: 7,
-  
-  /** Máximo de MM por dia */
-  MAX_PER_DAY: 1,
-  
-  /** Máximo de MM por semana */
-  MAX_PER_WEEK: 2,
-  
-  /** Dias de cooldown após dismiss */
-  COOLDOWN_AFTER_DISMISS_DAYS: 3,
-  
-  /** Dias de cooldown após conversão (accept) */
-  COOLDOWN_AFTER_ACCEPT_DAYS: 7,
-  
+/**
+ * Frequência, cooldowns e triggers vêm da configuração ativa
+ * (micromoment-rules-loader), com overrides por coorte.
+ * A proteção da usuária vulnerável fica aqui: nenhuma configuração a altera.
+ */
+export const MICROMOMENT_FIXED_RULES = {
   /** Bloquear se riskLevel >= este valor */
   BLOCK_RISK_LEVEL: 4,
 } as const;
 
-// ============================================
-// TRIGGERS POR TIPO
-// ============================================
-
-const TRIGGERS: Record<MicromomentType, {
-  zones: number[];
-  pillars?: string[];
-  requiresPractice: boolean;
-  requiresCompletedJourneys?: number;
-  minPresenceDays: number;
-}> = {
-  /**
-   * MM2: Rituais de Conexão
-   * - Zona 4-5 (momento emocional intenso)
-   * - Após valor percebido (7 dias presença)
-   */
-  MM2: {
-    zones: [4, 5],
-    requiresPractice: false,
-    minPresenceDays: 7,
-  },
-  
-  /**
-   * MM3: Interpretação da Conexão
-   * - Prática satisfatória realizada
-   * - Pilares específicos (BS, RE, RS)
-   */
-  MM3: {
-    zones: [1, 2, 3, 4, 5],
-    pillars: ["BS", "RE", "RS"],
-    requiresPractice: true,
-    minPresenceDays: 7,
-  },
-  
-  /**
-   * MM4: Relatório Semanal
-   * - 7+ jornadas completas (dados reais)
-   * - Qualquer zona
-   */
-  MM4: {
-    zones: [1, 2, 3, 4, 5],
-    requiresPractice: true,
-    requiresCompletedJourneys: 7,
-    minPresenceDays: 7,
-  },
-};
-
 // ============================================
 // CONTEÚDO POR TIPO
 // ============================================
@@ -132,6 +77,29 @@ const CONTENT: Record<MicromomentType, {
     tone: "reflective",
     reason: "7 dias de jornada completa",
   },
+  MM5: {
+    title: "Seus Primeiros 40 Dias",
+    message: "O começo com o bebê pede cuidado com você também. Conheça apoios pensados para esta fase.",
+    tone: "gentle",
+    reason: "Você está nas primeiras semanas do puerpério",
+  },
+  MM6: {
+    title: "Convide Quem Caminha com Você",
+    message: "Quem está ao seu lado também pode acompanhar essa jornada. Que tal convidar essa pessoa para a FLUIA?",
+    tone: "gentle",
+    reason: "Você tem cuidado da sua jornada com constância",
+  },
+};
+
+/**
+ * Próxima ação sugerida após accept (UI decide a apresentação)
+ */
+const NEXT_ACTION: Record<MicromomentType, MicromomentNextAction> = {
+  MM2: "premium-info",
+  MM3: "premium-info",
+  MM4: "learn-more",
+  MM5: "learn-more",
+  MM6: "invite-partner",
 };
 
 // ============================================
@@ -139,51 +107,62 @@ const CONTENT: Record<MicromomentType, {
 // ============================================
 
 /**
- * Verifica se está no mesmo dia (timezone-aware)
+ * Dia (timezone + reset 04:00) de cada evento
  */
-function isSameDay(date1: Date, date2: Date): boolean {
-  return (
-    date1.getFullYear() === date2.getFullYear() &&
-    date1.getMonth() === date2.getMonth() &&
-    date1.getDate() === date2.getDate()
-  );
+function eventDateKey(event: MicromomentEvent, timezone?: string): string {
+  return toDateKey(event.timestamp, timezone);
 }
 
 /**
- * Verifica se está na mesma semana
+ * Conta eventos de um tipo específico hoje
  */
-function isSameWeek(date1: Date, date2: Date): boolean {
-  const oneDay = 24 * 60 * 60 * 1000;
-  const diffDays = Math.floor(Math.abs(date1.getTime() - date2.getTime()) / oneDay);
-  return diffDays < 7;
+function countEventsToday(
+  events: MicromomentEvent[],
+  action: string,
+  today: string,
+  timezone?: string
+): number {
+  return events.filter(
+    (e) => e.action === action && eventDateKey(e, timezone) === today
+  ).length;
 }
 
 /**
- * Conta eventos de um tipo específico hoje
+ * Conta eventos de um tipo específico esta semana (domingo a sábado)
  */
-function countEventsToday(events: MicromomentEvent[], action: string): number {
-  const today = new Date();
-  return events.filter((e) => {
-    const eventDate = new Date(e.timestamp);
-    return e.action === action && isSameDay(eventDate, today);
-  }).length;
+function countEventsThisWeek(
+  events: MicromomentEvent[],
+  action: string,
+  today: string,
+  timezone?: string
+): number {
+  return events.filter(
+    (e) => e.action === action && isSameWeek(eventDateKey(e, timezone), today)
+  ).length;
 }
 
 /**
- * Conta eventos de um tipo específico esta semana
+ * Evento mais recente de uma ação (eventos em ordem cronológica)
  */
-function countEventsThisWeek(events: MicromomentEvent[], action: string): number {
-  const today = new Date();
-  return events.filter((e) => {
-    const eventDate = new Date(e.timestamp);
-    return e.action === action && isSameWeek(eventDate, today);
-  }).length;
+function findLastEvent(
+  events: MicromomentEvent[],
+  action: MicromomentAction
+): MicromomentEvent | undefined {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].action === action) return events[i];
+  }
+  return undefined;
 }
 
 /**
  * Verifica cooldown baseado em eventos
  */
-function isInCooldown(events: MicromomentEvent[]): {
+function isInCooldown(
+  events: MicromomentEvent[],
+  rules: ResolvedMicromomentRules["rules"],
+  today: string,
+  timezone?: string
+): {
   inCooldown: boolean;
   reason?: string;
 } {
@@ -191,29 +170,24 @@ function isInCooldown(events: MicromomentEvent[]): {
     return { inCooldown: false };
   }
 
-  const now = new Date();
-  const oneDay = 24 * 60 * 60 * 1000;
-
   // Buscar último evento relevante
-  const lastAccept = events.find((e) => e.action === "accept");
-  const lastDismiss = events.find((e) => e.action === "dismiss");
+  const lastAccept = findLastEvent(events, "accept");
+  const lastDismiss = findLastEvent(events, "dismiss");
 
-  // Cooldown após accept (7 dias)
+  // Cooldown após accept
   if (lastAccept) {
-    const acceptDate = new Date(lastAccept.timestamp);
-    const daysSinceAccept = Math.floor((now.getTime() - acceptDate.getTime()) / oneDay);
+    const daysSinceAccept = daysBetween(eventDateKey(lastAccept, timezone), today);
     
-    if (daysSinceAccept < RULES.COOLDOWN_AFTER_ACCEPT_DAYS) {
+    if (daysSinceAccept < rules.cooldownAfterAcceptDays) {
       return { inCooldown: true, reason: "cooldown_after_accept" };
     }
   }
 
-  // Cooldown após dismiss (3 dias)
+  // Cooldown após dismiss
   if (lastDismiss) {
-    const dismissDate = new Date(lastDismiss.timestamp);
-    const daysSinceDismiss = Math.floor((now.getTime() - dismissDate.getTime()) / oneDay);
+    const daysSinceDismiss = daysBetween(eventDateKey(lastDismiss, timezone), today);
     
-    if (daysSinceDismiss < RULES.COOLDOWN_AFTER_DISMISS_DAYS) {
+    if (daysSinceDismiss < rules.cooldownAfterDismissDays) {
       return { inCooldown: true, reason: "cooldown_after_dismiss" };
     }
   }
@@ -239,7 +213,9 @@ export type IneligibilityReason =
   | "first_access_today"
   | "no_checkin_today"
   | "no_eligible_type"
-  | "insufficient_journeys";
+  | "insufficient_journeys"
+  | "postpartum_phase_mismatch"
+  | "partner_already_invited";
 
 /**
  * Resultado da avaliação
@@ -248,6 +224,8 @@ export interface EvaluationResult {
   eligible: boolean;
   suggestion: MicromomentSuggestion | null;
   reason?: IneligibilityReason;
+  /** Sugestão já apresentada hoje e ainda sem resposta (não gera novo "shown") */
+  alreadyShown?: boolean;
 }
 
 /**
@@ -259,41 +237,57 @@ export interface EvaluationResult {
 export function evaluateMicromoment(
   context: MicromomentEvaluationContext
 ): EvaluationResult {
-  const { events } = context;
+  const { events, timezone } = context;
+  const today = context.today ?? getDateKey(timezone);
+  const { rules, triggers } = resolveMicromomentRules(getActiveMicromomentRules(), {
+    isFirstPregnancy: context.isFirstPregnancy,
+    trimester: context.trimester,
+    isPremium: context.isPremium,
+  });
   
   // ----------------------------------------
   // HARD BLOCKS (ordem importa)
   // ----------------------------------------
   
-  // 1. Premium não recebe MM
-  if (context.isPremium) {
+  // 1. Premium não recebe MM (salvo configuração da coorte)
+  if (context.isPremium && !rules.showToPremium) {
     return { eligible: false, suggestion: null, reason: "premium_user" };
   }
   
   // 2. Período de graça (presença mínima - check-ins)
-  if (context.presenceDays < RULES.GRACE_PERIOD_PRESENCE) {
+  if (context.presenceDays < rules.gracePeriodPresence) {
     return { eligible: false, suggestion: null, reason: "grace_period" };
   }
   
   // 3. Risco emocional alto
-  if (context.riskLevel >= RULES.BLOCK_RISK_LEVEL) {
+  if (context.riskLevel >= MICROMOMENT_FIXED_RULES.BLOCK_RISK_LEVEL) {
     return { eligible: false, suggestion: null, reason: "risk_level_high" };
   }
   
-  // 4. Máximo por dia
-  const shownToday = countEventsToday(events, "shown");
-  if (shownToday >= RULES.MAX_PER_DAY) {
+  // 4. Apresentado hoje e sem resposta: reapresenta o mesmo
+  const pending = findPendingEvent(events, today, timezone);
+  if (pending) {
+    return {
+      eligible: true,
+      suggestion: createSuggestion(pending.type, context, pending.micromomentId),
+      alreadyShown: true,
+    };
+  }
+  
+  // 5. Máximo por dia
+  const shownToday = countEventsToday(events, "shown", today, timezone);
+  if (shownToday >= rules.maxPerDay) {
     return { eligible: false, suggestion: null, reason: "max_per_day" };
   }
   
-  // 5. Máximo por semana
-  const shownThisWeek = countEventsThisWeek(events, "shown");
-  if (shownThisWeek >= RULES.MAX_PER_WEEK) {
+  // 6. Máximo por semana
+  const shownThisWeek = countEventsThisWeek(events, "shown", today, timezone);
+  if (shownThisWeek >= rules.maxPerWeek) {
     return { eligible: false, suggestion: null, reason: "max_per_week" };
   }
   
-  // 6. Cooldown
-  const cooldownCheck = isInCooldown(events);
+  // 7. Cooldown
+  const cooldownCheck = isInCooldown(events, rules, today, timezone);
   if (cooldownCheck.inCooldown) {
     return { 
       eligible: false, 
@@ -302,12 +296,12 @@ export function evaluateMicromoment(
     };
   }
   
-  // 7. Primeiro acesso do dia (dar tempo para check-in)
+  // 8. Primeiro acesso do dia (dar tempo para check-in)
   if (context.isFirstAccessToday) {
     return { eligible: false, suggestion: null, reason: "first_access_today" };
   }
   
-  // 8. Precisa ter check-in hoje
+  // 9. Precisa ter check-in hoje
   if (!context.hasCheckinToday) {
     return { eligible: false, suggestion: null, reason: "no_checkin_today" };
   }
@@ -316,11 +310,37 @@ export function evaluateMicromoment(
   // AVALIAR TIPOS ELEGÍVEIS (prioridade)
   // ----------------------------------------
   
-  // Ordem de prioridade: MM4 > MM3 > MM2
-  const typePriority: MicromomentType[] = ["MM4", "MM3", "MM2"];
+  // Ordem de prioridade: MICROMOMENT_PRIORITY (menor = primeiro)
+  const typePriority = (Object.keys(triggers) as MicromomentType[]).sort(
+    (a, b) => MICROMOMENT_PRIORITY[a] - MICROMOMENT_PRIORITY[b]
+  );
+  const mode = context.mode ?? "gestante";
+  
+  // Razão específica do tipo de maior prioridade que ficou de fora
+  let typeReason: IneligibilityReason | undefined;
   
   for (const type of typePriority) {
-    const trigger = TRIGGERS[type];
+    const trigger = triggers[type];
+    
+    // Verificar modo da jornada (gestante/mae)
+    if (trigger.modes && !trigger.modes.includes(mode)) {
+      continue;
+    }
+    
+    // Verificar fase do puerpério (MM5)
+    if (
+      trigger.phases &&
+      (mode !== "mae" || !context.postpartumPhase || !trigger.phases.includes(context.postpartumPhase))
+    ) {
+      typeReason ??= "postpartum_phase_mismatch";
+      continue;
+    }
+    
+    // Convite ao parceiro(a) só uma vez (MM6)
+    if (type === "MM6" && context.partnerInvited) {
+      typeReason ??= "partner_already_invited";
+      continue;
+    }
     
     // Verificar presença mínima
     if (context.presenceDays < trigger.minPresenceDays) {
@@ -328,12 +348,12 @@ export function evaluateMicromoment(
     }
     
     // Verificar zona
-    if (!trigger.zones.includes(context.zone)) {
+    if (!trigger.zones.some((zone) => zone === context.zone)) {
       continue;
     }
     
     // Verificar pilar (se aplicável)
-    if (trigger.pillars && context.pillar && !trigger.pillars.includes(context.pillar)) {
+    if (trigger.pillars && context.pillar && !trigger.pillars.some((p) => p === context.pillar)) {
       continue;
     }
     
@@ -345,37 +365,114 @@ export function evaluateMicromoment(
     // Verificar jornadas completas (para MM4)
     if (trigger.requiresCompletedJourneys) {
       if (context.completedJourneys < trigger.requiresCompletedJourneys) {
+        typeReason ??= "insufficient_journeys";
         continue;
       }
     }
     
     // Passou em todas as verificações!
-    const suggestion = createSuggestion(type);
+    const suggestion = createSuggestion(type, context);
     return { eligible: true, suggestion };
   }
   
   // Nenhum tipo elegível
-  return { eligible: false, suggestion: null, reason: "no_eligible_type" };
+  return { eligible: false, suggestion: null, reason: typeReason ?? "no_eligible_type" };
 }
 
 /**
  * Cria sugestão de micromomento
  */
-function createSuggestion(type: MicromomentType): MicromomentSuggestion {
+function createSuggestion(
+  type: MicromomentType,
+  context: MicromomentEvaluationContext,
+  micromomentId: string = `${type}-${Date.now()}`
+): MicromomentSuggestion {
   const content = CONTENT[type];
   
   return {
-    micromomentId: `${type}-${Date.now()}`,
+    micromomentId,
     type,
     title: content.title,
     message: content.message,
     tone: content.tone,
-    reason: content.reason,
+    reason: getSuggestionReason(type, context) ?? content.reason,
   };
 }
 
-// ============================================
-// EXPORTS
-// ============================================
+/**
+ * Razão contextual por tipo (undefined = razão padrão do conteúdo).
+ */
+function getSuggestionReason(
+  type: MicromomentType,
+  context: MicromomentEvaluationContext
+): string | undefined {
+  if (type === "MM5" && context.postpartumPhase === "immediate") {
+    return "Você está nos primeiros dias com seu bebê";
+  }
+  if (type === "MM6" && context.mode === "mae") {
+    return "Os primeiros tempos com o bebê ficam mais leves a dois";
+  }
+  return undefined;
+}
+
+/**
+ * Micromomento apresentado hoje ainda sem accept/dismiss.
+ */
+function findPendingEvent(
+  events: MicromomentEvent[],
+  today: string,
+  timezone?: string
+): MicromomentEvent | undefined {
+  const lastShown = findLastEvent(events, "shown");
+
+  if (!lastShown || eventDateKey(lastShown, timezone) !== today) {
+    return undefined;
+  }
+
+  return findMicromomentResponse(events, lastShown.micromomentId) ? undefined : lastShown;
+}
+
+/**
+ * Resposta (accept/dismiss) já registrada para um micromomento.
+ */
+export function findMicromomentResponse(
+  events: MicromomentEvent[],
+  micromomentId: string
+): MicromomentEvent | undefined {
+  return events.find((e) => e.micromomentId === micromomentId && e.action !== "shown");
+}
+
+/**
+ * Próxima ação após accept.
+ */
+export function getMicromomentNextAction(type: MicromomentType): MicromomentNextAction {
+  return NEXT_ACTION[type];
+}
+
+/**
+ * Nível de risco (1-5) a partir do estado emocional do dia.
+ * Zona mais baixa = risco mais alto; sobrecarga, baixa persistente ou
+ * linguagem de sofrimento nunca ficam abaixo de 4; linguagem de crise = 5.
+ */
+export function deriveRiskLevel(state: EmotionalState): number {
+  if (state.flags?.crisisLanguage) return 5;
+
+  const risk = 6 - state.zone;
+  return state.flags?.overload || state.flags?.distressLanguage || hasPersistentLowSignal(state)
+    ? Math.max(risk, 4)
+    : risk;
+}
 
-export { RULES as MICROMOMENT_RULES };
\ No newline at end of file
+/**
+ * Nível de risco (1-5) no puerpério: zona da mãe e último rastreio EPDS.
+ * EPDS moderado nunca fica abaixo de 4; EPDS alto ou item 10 pontuado = 5.
+ */
+export function derivePostpartumRiskLevel(
+  zone: number,
+  latestEPDS?: Pick<EPDSResult, "riskLevel" | "selfHarmRisk"> | null
+): number {
+  if (latestEPDS?.selfHarmRisk || latestEPDS?.riskLevel === "high") return 5;
+
+  const risk = 6 - zone;
+  return latestEPDS?.riskLevel === "moderate" ? Math.max(risk, 4) : risk;
+}
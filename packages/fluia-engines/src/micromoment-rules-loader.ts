@@ -0,0 +1,282 @@
+/**
+ * @fluia/engines - Micromoment Rules Loader
+ *
+ * Regras de micromomento em uso pela Micromoment Engine.
+ *
+ * FLUXO:
+ * 1. DEFAULT_MICROMOMENT_RULES (catálogo v1.2) é o padrão
+ * 2. A API lê a configuração publicada e chama loadMicromomentRules
+ * 3. Se válida, setActiveMicromomentRules troca as regras sem deploy
+ * 4. resolveMicromomentRules aplica os overrides da coorte da usuária
+ *
+ * REGRAS:
+ * - Configuração inválida NUNCA substitui a ativa
+ * - BLOCK_RISK_LEVEL não é configurável (MICROMOMENT_FIXED_RULES na Engine, nenhum override o altera)
+ */
+
+import {
+  validate,
+  micromomentRulesConfigSchema,
+  MICROMOMENT_RULES_SCHEMA_VERSION,
+  type FieldErrors,
+  type MicromomentCohortFilter,
+  type MicromomentFrequencyRules,
+  type MicromomentRulesConfig,
+  type MicromomentRulesOverride,
+  type MicromomentTrigger,
+  type MicromomentType,
+  type Trimester,
+  type ValidationResult,
+} from "@fluia/contracts";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Coorte da usuária (para os overrides) */
+export interface MicromomentCohort {
+  isFirstPregnancy?: boolean | null;
+  trimester?: Trimester;
+  isPremium: boolean;
+}
+
+/** Regras efetivas para uma coorte */
+export interface ResolvedMicromomentRules {
+  /** Versão da configuração */
+  version: string;
+  rules: MicromomentFrequencyRules;
+  triggers: Record<MicromomentType, MicromomentTrigger>;
+  /** Overrides aplicados (em ordem) */
+  overrideIds: string[];
+}
+
+// ============================================
+// PADRÃO (catálogo v1.2)
+// ============================================
+
+/**
+ * Regras embutidas no build.
+ * Valores do catálogo v1.1 (antes fixos na Engine) + MM5/MM6 (v1.2).
+ */
+export const DEFAULT_MICROMOMENT_RULES: MicromomentRulesConfig = {
+  schemaVersion: MICROMOMENT_RULES_SCHEMA_VERSION,
+  version: "1.2.0",
+  publishedAt: "2024-12-27T00:00:00.000Z",
+  rules: {
+    gracePeriodPresence: 7,
+    maxPerDay: 1,
+    maxPerWeek: 2,
+    cooldownAfterDismissDays: 3,
+    cooldownAfterAcceptDays: 7,
+    showToPremium: false,
+  },
+  triggers: {
+    /** MM2: Rituais de Conexão — zona 4-5, após 7 dias de presença */
+    MM2: {
+      zones: [4, 5],
+      requiresPractice: false,
+      minPresenceDays: 7,
+      modes: ["gestante"],
+    },
+    /** MM3: Interpretação da Conexão — prática satisfatória em BS, RE ou RS */
+    MM3: {
+      zones: [1, 2, 3, 4, 5],
+      pillars: ["BS", "RE", "RS"],
+      requiresPractice: true,
+      minPresenceDays: 7,
+      modes: ["gestante"],
+    },
+    /** MM4: Relatório Semanal — 7+ jornadas completas, qualquer zona */
+    MM4: {
+      zones: [1, 2, 3, 4, 5],
+      requiresPractice: true,
+      requiresCompletedJourneys: 7,
+      minPresenceDays: 7,
+      modes: ["gestante"],
+    },
+    /** MM5: Primeiros 40 Dias — puerpério imediato e inicial, qualquer zona */
+    MM5: {
+      zones: [1, 2, 3, 4, 5],
+      requiresPractice: false,
+      minPresenceDays: 7,
+      modes: ["mae"],
+      phases: ["immediate", "early"],
+    },
+    /** MM6: Convite ao Parceiro(a) — zona estável, após 14 dias de presença */
+    MM6: {
+      zones: [3, 4, 5],
+      requiresPractice: false,
+      minPresenceDays: 14,
+    },
+  },
+  overrides: [],
+};
+
+/** Campos recusados na configuração (proteção da usuária vulnerável) */
+const NON_CONFIGURABLE_RULES = ["blockRiskLevel", "BLOCK_RISK_LEVEL"];
+
+// ============================================
+// VALIDAÇÃO
+// ============================================
+
+/**
+ * Campos não configuráveis presentes no JSON bruto.
+ * O schema os descartaria em silêncio; aqui a publicação é recusada.
+ */
+function findNonConfigurableRules(raw: unknown): FieldErrors {
+  const errors: FieldErrors = {};
+  const config = raw as { rules?: unknown; overrides?: unknown } | null;
+
+  const check = (rules: unknown, path: string) => {
+    if (!rules || typeof rules !== "object") return;
+    for (const key of NON_CONFIGURABLE_RULES) {
+      if (key in rules) errors[`${path}.${key}`] = "is not configurable";
+    }
+  };
+
+  check(config?.rules, "rules");
+
+  if (Array.isArray(config?.overrides)) {
+    config.overrides.forEach((override: { rules?: unknown } | null, index) =>
+      check(override?.rules, `overrides[${index}].rules`)
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Regras entre campos que o schema não cobre.
+ */
+function checkIntegrity(config: MicromomentRulesConfig): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (config.rules.maxPerDay > config.rules.maxPerWeek) {
+    errors["rules.maxPerDay"] = "must be at most maxPerWeek";
+  }
+
+  const seen = new Set<string>();
+
+  config.overrides.forEach((override, index) => {
+    if (seen.has(override.id)) {
+      errors[`overrides[${index}].id`] = `duplicate id "${override.id}"`;
+    }
+    seen.add(override.id);
+
+    if (Object.keys(override.when).length === 0) {
+      errors[`overrides[${index}].when`] = "must set at least one cohort criterion";
+    }
+
+    const rules = { ...config.rules, ...override.rules };
+    if (rules.maxPerDay > rules.maxPerWeek) {
+      errors[`overrides[${index}].rules.maxPerDay`] = "must be at most maxPerWeek";
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Valida uma configuração de regras (ex: JSON publicado pelo time de produto).
+ * Campos não configuráveis + schema (formato) + integridade.
+ */
+export function loadMicromomentRules(raw: unknown): ValidationResult<MicromomentRulesConfig> {
+  const blocked = findNonConfigurableRules(raw);
+
+  if (Object.keys(blocked).length > 0) {
+    return { success: false, errors: blocked };
+  }
+
+  const parsed = validate(micromomentRulesConfigSchema, raw);
+
+  if (!parsed.success) return parsed;
+
+  const errors = checkIntegrity(parsed.data);
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  return parsed;
+}
+
+// ============================================
+// REGRAS ATIVAS
+// ============================================
+
+let activeRules: MicromomentRulesConfig = DEFAULT_MICROMOMENT_RULES;
+
+/**
+ * Configuração em uso pela Micromoment Engine.
+ */
+export function getActiveMicromomentRules(): MicromomentRulesConfig {
+  return activeRules;
+}
+
+/**
+ * Troca a configuração em uso (já validada por loadMicromomentRules).
+ */
+export function setActiveMicromomentRules(config: MicromomentRulesConfig): void {
+  activeRules = config;
+}
+
+// ============================================
+// COORTES
+// ============================================
+
+/**
+ * A coorte atende a todos os critérios informados?
+ * Dado ausente na coorte nunca atende ao critério.
+ */
+function matchesCohort(filter: MicromomentCohortFilter, cohort: MicromomentCohort): boolean {
+  if (filter.isFirstPregnancy !== undefined && cohort.isFirstPregnancy !== filter.isFirstPregnancy) {
+    return false;
+  }
+  if (filter.trimesters && (!cohort.trimester || !filter.trimesters.includes(cohort.trimester))) {
+    return false;
+  }
+  if (filter.isPremium !== undefined && cohort.isPremium !== filter.isPremium) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Aplica um override (campo a campo) sobre as regras.
+ */
+function applyOverride(
+  resolved: ResolvedMicromomentRules,
+  override: MicromomentRulesOverride
+): ResolvedMicromomentRules {
+  const triggers = { ...resolved.triggers };
+
+  for (const type of Object.keys(triggers) as MicromomentType[]) {
+    triggers[type] = { ...triggers[type], ...override.triggers?.[type] };
+  }
+
+  return {
+    ...resolved,
+    rules: { ...resolved.rules, ...override.rules },
+    triggers,
+    overrideIds: [...resolved.overrideIds, override.id],
+  };
+}
+
+/**
+ * Regras efetivas para a coorte (overrides aplicados em ordem).
+ */
+export function resolveMicromomentRules(
+  config: MicromomentRulesConfig,
+  cohort: MicromomentCohort
+): ResolvedMicromomentRules {
+  const base: ResolvedMicromomentRules = {
+    version: config.version,
+    rules: config.rules,
+    triggers: config.triggers,
+    overrideIds: [],
+  };
+
+  return config.overrides
+    .filter((override) => matchesCohort(override.when, cohort))
+    .reduce(applyOverride, base);
+}
@@ -0,0 +1,99 @@
+/**
+ * Milestone Engine - marcos pessoais e perda gestacional
+ *
+ * Marcos pessoais valem do dia marcado até PERSONAL_GRACE_DAYS depois (enquanto
+ * não vistos); após perda, nada do bebê.
+ */
+
+import { describe, expect, it } from "vitest";
+import type {
+  MilestoneEvaluationContext,
+  MilestoneEvent,
+  PersonalMilestone,
+} from "@fluia/contracts";
+import { MILESTONE_RULES, evaluateMilestones } from "./milestone-engine";
+
+const TODAY = "2026-06-10";
+
+function personal(personalMilestoneId: string, date: string): PersonalMilestone {
+  return {
+    personalMilestoneId,
+    uid: "u1",
+    kind: "ultrasound",
+    title: "Ultrassom",
+    date,
+    createdAt: "2026-06-01T12:00:00.000Z",
+  };
+}
+
+function context(overrides: Partial<MilestoneEvaluationContext> = {}): MilestoneEvaluationContext {
+  return {
+    uid: "u1",
+    presenceDays: 0,
+    completedJourneys: 0,
+    gestationalWeek: 20,
+    trimester: 2,
+    isPremium: false,
+    isPostpartum: false,
+    events: [],
+    today: TODAY,
+    ...overrides,
+  };
+}
+
+const personalIds = (ctx: MilestoneEvaluationContext) =>
+  evaluateMilestones(ctx).milestones.map((m) => m.milestoneId);
+
+describe("personal milestones", () => {
+  it("surfaces due milestones within the grace window", () => {
+    const milestones = [
+      personal("today", TODAY),
+      personal("late", "2026-06-07"),
+      personal("expired", "2026-06-06"),
+      personal("future", "2026-06-11"),
+    ];
+
+    expect(MILESTONE_RULES.PERSONAL_GRACE_DAYS).toBe(3);
+    expect(personalIds(context({ personalMilestones: milestones }))).toEqual([
+      "PERSONAL-today",
+      "PERSONAL-late",
+    ]);
+  });
+
+  it("skips milestones already seen", () => {
+    const seen: MilestoneEvent = {
+      milestoneId: "PERSONAL-late",
+      type: "PERSONAL",
+      category: "personal",
+      action: "shown",
+      timestamp: "2026-06-08T12:00:00.000Z",
+    };
+
+    expect(
+      personalIds(context({ personalMilestones: [personal("late", "2026-06-07")], events: [seen] }))
+    ).toEqual([]);
+  });
+});
+
+describe("pregnancy loss", () => {
+  it("omits the baby message and gestational milestones", () => {
+    const ctx = context({
+      presenceDays: 7,
+      gestationalWeek: 14,
+      personalMilestones: [personal("today", TODAY)],
+      pregnancyLost: true,
+    });
+    const { milestones } = evaluateMilestones(ctx);
+
+    expect(milestones.map((m) => m.category)).toEqual(["personal", "presence"]);
+    expect(milestones.every((m) => !("babyMessage" in m))).toBe(true);
+  });
+
+  it("keeps the baby message otherwise", () => {
+    const { milestones } = evaluateMilestones(
+      context({ personalMilestones: [personal("today", TODAY)] })
+    );
+
+    expect(milestones[0].babyMessage).toBeDefined();
+  });
+});
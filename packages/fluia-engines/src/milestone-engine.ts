@@ -4,6 +4,7 @@
  * Avalia elegibilidade para marcos baseado em:
  * - Eventos factuais passados (quais marcos já foram vistos)
  * - Contexto atual (presença, semana gestacional)
+ * - Marcos pessoais criados pela usuária (celebrados a partir do dia)
  * - Regras congeladas
  * 
  * ❌ Não faz: persistência, decisão de UX, conhece billing
@@ -23,11 +24,15 @@ import type {
   GestationalMilestoneType,
   MilestoneCategory,
   MilestoneEvent,
+  PersonalMilestone,
+  PersonalMilestoneKind,
+  DateKey,
   MilestoneSuggestion,
   MilestoneBadge,
   MilestoneProduct,
   MilestoneEvaluationContext,
 } from "@fluia/contracts";
+import { daysBetween } from "@fluia/contracts";
 
 // ============================================
 // REGRAS CONGELADAS (v1.0)
@@ -47,6 +52,9 @@ export const MILESTONE_RULES = {
   
   /** Máximo de marcos para mostrar por vez */
   MAX_MILESTONES_PER_EVALUATION: 3,
+  
+  /** Dias após a data em que um marco pessoal ainda não visto é celebrado */
+  PERSONAL_GRACE_DAYS: 3,
 } as const;
 
 // ============================================
@@ -285,6 +293,77 @@ const GESTATIONAL_MILESTONES: GestationalMilestoneConfig[] = [
   },
 ];
 
+// ============================================
+// CONFIGURAÇÃO DE MARCOS PESSOAIS
+// ============================================
+
+interface PersonalMilestoneConfig {
+  badge: MilestoneBadge;
+  /** Título quando a usuária não informa */
+  defaultTitle: string;
+  celebrationMessage: string;
+  babyMessage: string;
+  tone: "celebratory" | "reflective" | "emotional";
+}
+
+const PERSONAL_MILESTONES: Record<PersonalMilestoneKind, PersonalMilestoneConfig> = {
+  first_kick: {
+    badge: {
+      icon: "🦶",
+      color: "#E8A589",
+      name: "Primeiro Chute",
+    },
+    defaultTitle: "Primeiro Chute",
+    celebrationMessage: "O dia em que você sentiu seu bebê pela primeira vez. Um momento só de vocês.",
+    babyMessage: "Mamãe, foi assim que eu disse oi pela primeira vez. Você sentiu? 💜",
+    tone: "emotional",
+  },
+  ultrasound: {
+    badge: {
+      icon: "🩻",
+      color: "#87CEEB",
+      name: "Ultrassom",
+    },
+    defaultTitle: "Ultrassom",
+    celebrationMessage: "Dia de ver seu bebê de pertinho. Guarde essa imagem no coração.",
+    babyMessage: "Mamãe, hoje você me viu! Eu estava aqui o tempo todo. 💜",
+    tone: "celebratory",
+  },
+  baby_shower: {
+    badge: {
+      icon: "🎀",
+      color: "#FF9B9B",
+      name: "Chá de Bebê",
+    },
+    defaultTitle: "Chá de Bebê",
+    celebrationMessage: "Dia de celebrar com quem ama vocês. Tanta gente esperando por esse encontro!",
+    babyMessage: "Mamãe, tanta gente feliz por mim! Já me sinto parte da família. 💜",
+    tone: "celebratory",
+  },
+  maternity_leave: {
+    badge: {
+      icon: "🏡",
+      color: "#7BC47F",
+      name: "Licença-Maternidade",
+    },
+    defaultTitle: "Início da Licença-Maternidade",
+    celebrationMessage: "Um novo tempo começa: tempo de desacelerar e se preparar para o encontro.",
+    babyMessage: "Mamãe, agora é tempo de nós dois. Descansa, que eu estou chegando. 💜",
+    tone: "reflective",
+  },
+  custom: {
+    badge: {
+      icon: "✨",
+      color: "#9B8DD3",
+      name: "Marco Pessoal",
+    },
+    defaultTitle: "Marco Pessoal",
+    celebrationMessage: "Um momento que você escolheu guardar. Ele faz parte da sua história.",
+    babyMessage: "Mamãe, esse dia é importante para você, então é importante para mim também. 💜",
+    tone: "celebratory",
+  },
+};
+
 // ============================================
 // MENSAGENS DO BEBÊ POR SEMANA
 // ============================================
@@ -347,6 +426,20 @@ function hasSeenPresenceMilestone(
   );
 }
 
+/**
+ * Verifica se um marco pessoal já foi mostrado
+ */
+function hasSeenPersonalMilestone(
+  events: MilestoneEvent[],
+  milestone: PersonalMilestone
+): boolean {
+  const milestoneId = getMilestoneId("PERSONAL", milestone.personalMilestoneId);
+
+  return events.some(
+    (e) => e.milestoneId === milestoneId && e.category === "personal" && e.action === "shown"
+  );
+}
+
 /**
  * Verifica se um marco gestacional já foi mostrado
  */
@@ -375,6 +468,31 @@ function getTrimester(week: number): 1 | 2 | 3 {
   return 3;
 }
 
+/**
+ * ID estável do marco: o mesmo marco tem o mesmo ID em toda avaliação
+ * (seen/explore referenciam o marco apresentado).
+ * key = semana (gestacionais) ou ID do marco pessoal.
+ */
+function getMilestoneId(type: MilestoneType, key?: number | string): string {
+  return key === undefined ? type : `${type}-${key}`;
+}
+
+/**
+ * Produto de um marco gestacional na semana
+ */
+function buildGestationalProduct(
+  config: GestationalMilestoneConfig,
+  week: number
+): MilestoneProduct {
+  return {
+    ...config.product,
+    title: interpolate(config.product.title, { week: String(week) }),
+    productId: config.type === "NEW_WEEK"
+      ? `week-letter-${week}`
+      : config.product.productId,
+  };
+}
+
 /**
  * Substitui placeholders na mensagem
  */
@@ -462,8 +580,8 @@ function evaluateGestationalMilestones(
 ): MilestoneSuggestion[] {
   const results: MilestoneSuggestion[] = [];
   
-  // Se já é pós-parto, não mostrar marcos gestacionais
-  if (context.isPostpartum) return results;
+  // Se já é pós-parto ou houve perda, não mostrar marcos gestacionais
+  if (context.isPostpartum || context.pregnancyLost) return results;
   
   for (const config of GESTATIONAL_MILESTONES) {
     // NEW_WEEK é especial - acontece toda semana
@@ -497,6 +615,31 @@ function evaluateGestationalMilestones(
   return results;
 }
 
+/**
+ * Avalia marcos pessoais: celebrados a partir do dia marcado pela usuária.
+ * Se a usuária não abriu o app no dia, o marco ainda aparece por
+ * PERSONAL_GRACE_DAYS dias (até ser visto); marcos futuros esperam o dia.
+ */
+function evaluatePersonalMilestones(
+  context: MilestoneEvaluationContext
+): MilestoneSuggestion[] {
+  const { personalMilestones = [], today } = context;
+
+  if (!today) return [];
+
+  return personalMilestones
+    .filter((m) => {
+      const daysSince = daysBetween(m.date, today);
+
+      return (
+        daysSince >= 0 &&
+        daysSince <= MILESTONE_RULES.PERSONAL_GRACE_DAYS &&
+        !hasSeenPersonalMilestone(context.events, m)
+      );
+    })
+    .map((m) => createPersonalSuggestion(m, context));
+}
+
 /**
  * Cria sugestão de marco de presença
  */
@@ -507,12 +650,12 @@ function createPresenceSuggestion(
   const babyName = context.babyName || "Seu bebê";
   
   return {
-    milestoneId: `${config.type}-${Date.now()}`,
+    milestoneId: getMilestoneId(config.type),
     type: config.type,
     category: "presence",
     title: config.title,
     celebrationMessage: config.celebrationMessage,
-    babyMessage: config.babyMessageTemplate,
+    ...(!context.pregnancyLost && { babyMessage: config.babyMessageTemplate }),
     badge: config.badge,
     product: context.isPremium ? config.product : undefined,
     tone: config.tone,
@@ -539,7 +682,7 @@ function createGestationalSuggestion(
   };
   
   return {
-    milestoneId: `${config.type}-${week}-${Date.now()}`,
+    milestoneId: getMilestoneId(config.type, week),
     type: config.type,
     category: "gestational",
     title: interpolate(config.titleTemplate, data),
@@ -551,15 +694,7 @@ function createGestationalSuggestion(
         ? `Semana ${week}` 
         : config.badge.name,
     },
-    product: context.isPremium 
-      ? {
-          ...config.product,
-          title: interpolate(config.product.title, data),
-          productId: config.type === "NEW_WEEK" 
-            ? `week-letter-${week}` 
-            : config.product.productId,
-        }
-      : undefined,
+    product: context.isPremium ? buildGestationalProduct(config, week) : undefined,
     tone: config.tone,
     contextData: {
       value: week,
@@ -568,6 +703,32 @@ function createGestationalSuggestion(
   };
 }
 
+/**
+ * Cria sugestão de marco pessoal (sem produto: o marco é da usuária)
+ */
+function createPersonalSuggestion(
+  milestone: PersonalMilestone,
+  context: MilestoneEvaluationContext
+): MilestoneSuggestion {
+  const config = PERSONAL_MILESTONES[milestone.kind];
+  const week = context.gestationalWeek;
+
+  return {
+    milestoneId: getMilestoneId("PERSONAL", milestone.personalMilestoneId),
+    type: "PERSONAL",
+    category: "personal",
+    title: milestone.title,
+    celebrationMessage: config.celebrationMessage,
+    ...(!context.pregnancyLost && { babyMessage: config.babyMessage }),
+    badge: config.badge,
+    tone: config.tone,
+    contextData: {
+      value: week,
+      label: context.isPostpartum || week <= 0 ? "Hoje" : `Semana ${week}`,
+    },
+  };
+}
+
 /**
  * Avalia todos os marcos elegíveis.
  * 
@@ -577,6 +738,9 @@ function createGestationalSuggestion(
 export function evaluateMilestones(
   context: MilestoneEvaluationContext
 ): MilestoneEvaluationResult {
+  // Avaliar marcos pessoais (primeiro: só valem no dia e na tolerância)
+  const personalMilestones = evaluatePersonalMilestones(context);
+  
   // Avaliar marcos de presença
   const presenceMilestones = evaluatePresenceMilestones(context);
   
@@ -585,6 +749,7 @@ export function evaluateMilestones(
   
   // Combinar e limitar
   const allMilestones = [
+    ...personalMilestones,
     ...presenceMilestones,
     ...gestationalMilestones,
   ].slice(0, MILESTONE_RULES.MAX_MILESTONES_PER_EVALUATION);
@@ -631,6 +796,70 @@ export function getMilestoneConfig(type: MilestoneType): {
   return null;
 }
 
+/**
+ * Produto Premium de um marco (como apresentado na sugestão).
+ *
+ * @param type - Tipo do marco
+ * @param gestationalWeek - Semana do marco (marcos gestacionais)
+ */
+export function getMilestoneProduct(
+  type: MilestoneType,
+  gestationalWeek?: number
+): MilestoneProduct | null {
+  const presenceConfig = PRESENCE_MILESTONES.find((m) => m.type === type);
+  if (presenceConfig) return presenceConfig.product;
+
+  const gestationalConfig = GESTATIONAL_MILESTONES.find((m) => m.type === type);
+  if (!gestationalConfig) return null;
+
+  const week = typeof gestationalConfig.week === "number"
+    ? gestationalConfig.week
+    : gestationalWeek;
+
+  return week === undefined ? null : buildGestationalProduct(gestationalConfig, week);
+}
+
+// ============================================
+// MARCOS PESSOAIS
+// ============================================
+
+export interface CreatePersonalMilestoneInput {
+  uid: string;
+  kind: PersonalMilestoneKind;
+  /** Ausente = título padrão do tipo */
+  title?: string;
+  date: DateKey;
+  note?: string;
+  photoUrl?: string;
+  pregnancyId?: string;
+  now?: Date;
+}
+
+/**
+ * Novo marco pessoal (sem personalMilestoneId: gerado na persistência).
+ */
+export function createPersonalMilestone(
+  input: CreatePersonalMilestoneInput
+): Omit<PersonalMilestone, "personalMilestoneId"> {
+  return {
+    uid: input.uid,
+    kind: input.kind,
+    title: input.title || PERSONAL_MILESTONES[input.kind].defaultTitle,
+    date: input.date,
+    ...(input.note && { note: input.note }),
+    ...(input.photoUrl && { photoUrl: input.photoUrl }),
+    ...(input.pregnancyId && { pregnancyId: input.pregnancyId }),
+    createdAt: (input.now ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Badge de um marco pessoal (timeline, livro da jornada)
+ */
+export function getPersonalMilestoneBadge(kind: PersonalMilestoneKind): MilestoneBadge {
+  return PERSONAL_MILESTONES[kind].badge;
+}
+
 // ============================================
 // EXPORTS
 // ============================================
@@ -0,0 +1,491 @@
+/**
+ * @fluia/engines - Daily Pipeline
+ *
+ * ORQUESTRADOR: Encadeia todas as engines a partir de um check-in.
+ *
+ * RESPONSABILIDADE:
+ * - Derivar estado emocional e métricas
+ * - Gerar termômetros, prescrição, Voz do Bebê
+ * - Avaliar micromomentos, marcos e rituais
+ * - Avaliar a camada de segurança (crise → intervenção)
+ * - Personalizar pela gestação ativa (gêmeos; nada do bebê após perda)
+ * - Aplicar o gating de OUTPUT_LEVELS (fragile) em um único lugar
+ * - Aplicar FAIL_SAFE_BEHAVIOR quando qualquer etapa falhar
+ *
+ * REGRA FUNDAMENTAL:
+ * "Engines decidem, UI explica."
+ * O pipeline não persiste nada — apenas devolve o "pacote do dia".
+ */
+
+import {
+  OUTPUT_LEVELS,
+  FAIL_SAFE_BEHAVIOR,
+  FAIL_SAFE_MESSAGE,
+  getCheckinSessions,
+  getTrimesterFromWeeks,
+  getDayOfWeek,
+  getLocalHour,
+} from "@fluia/contracts";
+import type {
+  DateKey,
+  EmotionalContext,
+  OutputLevel,
+  StoredCheckin,
+  UserProfile,
+  MicromomentEvent,
+  MilestoneEvent,
+  RitualEvent,
+  SafetyIntervention,
+  PregnancyContext,
+} from "@fluia/contracts";
+import {
+  deriveEmotionalState,
+  isVulnerableState,
+  isStableState,
+  type EmotionalState,
+} from "./emotional-state-engine";
+import { calculateMetrics, type Metrics } from "./metrics-engine";
+import { analyzeCheckinText, mergeTextAnalyses } from "./text-analysis-engine";
+import { evaluateCheckinSafety, isOutputAllowedBySafety } from "./safety-engine";
+import { generateDailyThermometers, type DailyThermometers } from "./thermometers-engine";
+import { generatePrescription, type DailyPrescription } from "./prescription-engine";
+import { generateBabyVoiceMessage, type BabyVoiceOutputV2 } from "./baby-voice-engine";
+import { createDailyRng } from "./utils/random";
+import {
+  evaluateMicromoment,
+  deriveRiskLevel,
+  type EvaluationResult,
+} from "./micromoment-engine";
+import { evaluateMilestones, type MilestoneEvaluationResult } from "./milestone-engine";
+import { evaluateRituals, type RitualEvaluationResult } from "./ritual-engine";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Etapas do pipeline (na ordem de execução) */
+export type DailyPipelineStage =
+  | "emotionalState"
+  | "metrics"
+  | "safety"
+  | "thermometers"
+  | "prescription"
+  | "babyVoice"
+  | "micromoment"
+  | "milestones"
+  | "rituals";
+
+/** Etapas exibidas como output (a segurança não passa pelo gating: ela o define) */
+export type GatedPipelineStage = Exclude<DailyPipelineStage, "safety">;
+
+/**
+ * Histórico necessário para o pipeline.
+ * Montado pela camada de persistência (API), já filtrado
+ * pela gestação ativa (filterByPregnancy).
+ */
+export interface DailyPipelineHistory {
+  /** Check-ins anteriores (mais recente primeiro, sem o do dia) */
+  recentCheckins: StoredCheckin[];
+  /** Jornadas completas (dias com prática) */
+  completedJourneys: number;
+  /** É o primeiro acesso do dia? */
+  isFirstAccessToday: boolean;
+  /** Eventos de micromomento passados */
+  micromomentEvents: MicromomentEvent[];
+  /** Eventos de marco passados */
+  milestoneEvents: MilestoneEvent[];
+  /** Eventos de ritual passados */
+  ritualEvents: RitualEvent[];
+}
+
+/** Opções do pipeline */
+export interface DailyPipelineOptions {
+  /** Instante de referência (default: agora) */
+  now?: Date;
+  /** Gestação ativa (default: dados do bebê no perfil) */
+  pregnancy?: PregnancyContext;
+}
+
+/**
+ * "Pacote do dia" — todos os outputs derivados de um check-in.
+ * Outputs bloqueados ou com falha vêm como null.
+ */
+export interface DailyBundle {
+  /** Dia do check-in */
+  dateKey: DateKey;
+  /** Contexto emocional consolidado (determina o gating) */
+  emotionalContext: EmotionalContext;
+
+  emotionalState: EmotionalState | null;
+  metrics: Metrics | null;
+  thermometers: DailyThermometers | null;
+  prescription: DailyPrescription | null;
+  babyVoice: BabyVoiceOutputV2 | null;
+  micromoment: EvaluationResult | null;
+  milestones: MilestoneEvaluationResult | null;
+  rituals: RitualEvaluationResult | null;
+
+  /** Intervenção de segurança (null = nenhum critério atingido) */
+  safety: SafetyIntervention | null;
+
+  /** Etapas bloqueadas pelo contexto fragile, pela intervenção de segurança ou por perda gestacional */
+  suppressedStages: GatedPipelineStage[];
+  /** Fail-safe ativado? */
+  failSafe: boolean;
+  /** Etapas que falharam (uso interno / logs, nunca expor) */
+  failedStages: DailyPipelineStage[];
+  /** Mensagem acolhedora genérica (apenas em fail-safe) */
+  failSafeMessage?: string;
+}
+
+/** Outputs sujeitos a gating, por etapa (null = bloqueado ou com falha) */
+type GatedStageOutputs = { [S in GatedPipelineStage]: DailyBundle[S] };
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Nível de carga emocional de cada etapa.
+ * Cruzado com OUTPUT_LEVELS para decidir o que aparece em contexto fragile.
+ */
+export const PIPELINE_STAGE_LEVELS: Record<GatedPipelineStage, OutputLevel> = {
+  emotionalState: "L1",
+  metrics: "L1",
+  thermometers: "L1",
+  prescription: "L2",
+  babyVoice: "L2",
+  milestones: "L2",
+  rituals: "L3",
+  micromoment: "L4",
+};
+
+/** Etapas que falam do bebê: nunca exibidas após uma perda gestacional */
+const BABY_STAGES: GatedPipelineStage[] = ["babyVoice", "milestones"];
+
+/**
+ * Gating quando a avaliação de segurança falha (fail-closed):
+ * sem saber se há crise, nada reflexivo (L3), acionável (L4) ou micromomento.
+ */
+const SAFETY_FAIL_CLOSED: Pick<
+  SafetyIntervention,
+  "suppressedOutputLevels" | "blockMicromoments"
+> = {
+  suppressedOutputLevels: ["L3", "L4"],
+  blockMicromoments: true,
+};
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Determina o contexto emocional do dia.
+ */
+function resolveEmotionalContext(state: EmotionalState): EmotionalContext {
+  if (isVulnerableState(state)) return "fragile";
+  if (isStableState(state)) return "stable";
+  return "neutral";
+}
+
+/**
+ * Verifica se uma etapa pode ser exibida no contexto atual.
+ */
+export function isStageAllowed(
+  stage: GatedPipelineStage,
+  context: EmotionalContext
+): boolean {
+  if (context !== "fragile") return true;
+
+  const config = OUTPUT_LEVELS.find((l) => l.level === PIPELINE_STAGE_LEVELS[stage]);
+  return config?.allowedInFragile ?? false;
+}
+
+/**
+ * Executa uma etapa isoladamente.
+ * Falhas são registradas e nunca propagadas.
+ */
+function runStage<T>(
+  stage: DailyPipelineStage,
+  failedStages: DailyPipelineStage[],
+  fn: () => T
+): T | null {
+  try {
+    return fn();
+  } catch {
+    failedStages.push(stage);
+    return null;
+  }
+}
+
+/**
+ * Bundle neutro quando o núcleo (estado/métricas) falha.
+ */
+function createFailSafeBundle(
+  dateKey: DateKey,
+  failedStages: DailyPipelineStage[],
+  safety: SafetyIntervention | null
+): DailyBundle {
+  return {
+    dateKey,
+    emotionalContext: "fragile",
+    emotionalState: null,
+    metrics: null,
+    thermometers: null,
+    prescription: null,
+    babyVoice: null,
+    micromoment: null,
+    milestones: null,
+    rituals: null,
+    safety,
+    suppressedStages: [],
+    failSafe: true,
+    failedStages,
+    failSafeMessage: FAIL_SAFE_MESSAGE,
+  };
+}
+
+// ============================================
+// MAIN PIPELINE FUNCTION
+// ============================================
+
+/**
+ * Pipeline diário: um check-in → todos os outputs do dia.
+ *
+ * FLUXO:
+ * 1. Estado emocional + métricas (núcleo — falha = fail-safe total)
+ * 2. Termômetros, prescrição, Voz do Bebê
+ * 3. Micromomento, marcos, rituais
+ * 4. Gating fragile (OUTPUT_LEVELS) + intervenção de segurança (fail-closed se falhar)
+ * 5. Fail-safe parcial se alguma etapa falhou
+ *
+ * @param checkin - Check-in do dia
+ * @param history - Histórico e eventos passados
+ * @param profile - Perfil da usuária
+ * @returns DailyBundle - Pacote do dia
+ */
+export function runDailyPipeline(
+  checkin: StoredCheckin,
+  history: DailyPipelineHistory,
+  profile: UserProfile,
+  options: DailyPipelineOptions = {}
+): DailyBundle {
+  const now = options.now ?? new Date();
+  const failedStages: DailyPipelineStage[] = [];
+  const { dateKey, dimensions, moment, gestationalWeek } = checkin;
+
+  // ----------------------------------------
+  // 1. NÚCLEO
+  // ----------------------------------------
+
+  const recentCheckins = history.recentCheckins.slice(0, 7);
+  const recentHistory = recentCheckins.map((c) => c.dimensions);
+  const recentHistoryDates = recentCheckins.map((c) => c.dateKey);
+
+  // Notas e emoções de todas as sessões do dia (crise em qualquer sessão vale para o dia)
+  const textAnalysis = mergeTextAnalyses(getCheckinSessions(checkin).map(analyzeCheckinText));
+
+  const emotionalState = runStage("emotionalState", failedStages, () =>
+    deriveEmotionalState({
+      dimensions,
+      gestationalWeek,
+      moment,
+      recentHistory,
+      dateKey,
+      recentHistoryDates,
+      textAnalysis,
+    })
+  );
+
+  const metrics = emotionalState
+    ? runStage("metrics", failedStages, () =>
+        calculateMetrics({
+          emotionalState,
+          dimensions,
+          baseline:
+            profile.baselineMood !== null ? { mood: profile.baselineMood } : undefined,
+          personalBaseline: profile.personalBaseline,
+          recentHistory,
+        })
+      )
+    : null;
+
+  // Segurança é avaliada mesmo em fail-safe: crise nas notas nunca se perde
+  const safety = runStage("safety", failedStages, () =>
+    evaluateCheckinSafety({
+      emotionalState: emotionalState ?? undefined,
+      textAnalysis,
+      now,
+    })
+  );
+
+  if (!emotionalState || !metrics) {
+    return createFailSafeBundle(dateKey, failedStages, safety);
+  }
+
+  const emotionalContext = resolveEmotionalContext(emotionalState);
+  const isFirstCheckin = history.recentCheckins.length === 0;
+  const presenceDays = profile.presence?.totalDays ?? history.recentCheckins.length + 1;
+  const trimester = getTrimesterFromWeeks(gestationalWeek);
+  const babyName = options.pregnancy ? options.pregnancy.babyName : profile.baby?.customName;
+  const pregnancyLost = options.pregnancy?.status === "loss";
+  const currentHour = getLocalHour(profile.timezone, now);
+  const lastGestationalWeek = history.recentCheckins[0]?.gestationalWeek;
+
+  // ----------------------------------------
+  // 2. OUTPUTS DO DIA
+  // ----------------------------------------
+
+  const thermometers = runStage("thermometers", failedStages, () =>
+    generateDailyThermometers({ metrics, date: dateKey })
+  );
+
+  const prescription = runStage("prescription", failedStages, () =>
+    generatePrescription({
+      metrics,
+      emotionalState,
+      context: { moment, isFirstCheckin, gestationalWeek },
+    })
+  );
+
+  const babyVoice = runStage("babyVoice", failedStages, () =>
+    generateBabyVoiceMessage({
+      gestationalWeeks: gestationalWeek,
+      zone: emotionalState.zone,
+      timeOfDay: moment === "night" ? "evening" : moment,
+      presenceDays,
+      babyName,
+      seenOpenings: profile.babyVoice?.seenOpenings ?? [],
+      seenCores: profile.babyVoice?.seenCores ?? [],
+      seenClosings: profile.babyVoice?.seenClosings ?? [],
+      seenMilestones: profile.babyVoice?.seenMilestones ?? [],
+      lastCheckInDate: profile.presence?.lastCheckInDate,
+      isFirstCheckIn: isFirstCheckin,
+      dateKey,
+      rng: createDailyRng(profile.uid, dateKey, "baby-voice"),
+    })
+  );
+
+  // ----------------------------------------
+  // 3. AVALIAÇÕES
+  // ----------------------------------------
+
+  const micromoment = runStage("micromoment", failedStages, () =>
+    evaluateMicromoment({
+      uid: profile.uid,
+      presenceDays,
+      completedJourneys: history.completedJourneys,
+      zone: emotionalState.zone,
+      riskLevel: deriveRiskLevel(emotionalState),
+      practiceCompletedToday: !!checkin.recovery,
+      isFirstAccessToday: history.isFirstAccessToday,
+      hasCheckinToday: true,
+      isPremium: profile.isPremium,
+      isFirstPregnancy: options.pregnancy?.isFirstPregnancy ?? profile.isFirstPregnancy,
+      trimester,
+      events: history.micromomentEvents,
+      timezone: profile.timezone,
+      today: dateKey,
+    })
+  );
+
+  const milestones = runStage("milestones", failedStages, () =>
+    evaluateMilestones({
+      uid: profile.uid,
+      presenceDays,
+      completedJourneys: history.completedJourneys,
+      gestationalWeek,
+      lastGestationalWeek,
+      trimester,
+      isPremium: profile.isPremium,
+      isPostpartum: false,
+      babyName,
+      events: history.milestoneEvents,
+    })
+  );
+
+  const rituals = runStage("rituals", failedStages, () =>
+    evaluateRituals({
+      uid: profile.uid,
+      isPremium: profile.isPremium,
+      currentHour,
+      dayOfWeek: getDayOfWeek(dateKey),
+      currentDate: dateKey,
+      timezone: profile.timezone,
+      trimester,
+      gestationalWeek,
+      trimesterJustChanged:
+        lastGestationalWeek !== undefined &&
+        getTrimesterFromWeeks(lastGestationalWeek) !== trimester,
+      babyName,
+      events: history.ritualEvents,
+    })
+  );
+
+  // ----------------------------------------
+  // 4. GATING (contexto fragile + segurança + perda gestacional)
+  // ----------------------------------------
+
+  const outputs: GatedStageOutputs = {
+    emotionalState,
+    metrics,
+    thermometers,
+    prescription,
+    babyVoice,
+    micromoment,
+    milestones,
+    rituals,
+  };
+  const suppressedStages: GatedPipelineStage[] = [];
+  const gatedStages = Object.keys(PIPELINE_STAGE_LEVELS) as GatedPipelineStage[];
+
+  // Avaliação de segurança falhou: fail-closed
+  const safetyGate = failedStages.includes("safety") ? SAFETY_FAIL_CLOSED : safety;
+
+  for (const stage of gatedStages) {
+    const blockedBySafety =
+      !isOutputAllowedBySafety(PIPELINE_STAGE_LEVELS[stage], safetyGate) ||
+      (stage === "micromoment" && !!safetyGate?.blockMicromoments);
+
+    const blockedByLoss = pregnancyLost && BABY_STAGES.includes(stage);
+
+    if (blockedBySafety || blockedByLoss || !isStageAllowed(stage, emotionalContext)) {
+      if (outputs[stage] !== null) suppressedStages.push(stage);
+      outputs[stage] = null;
+    }
+  }
+
+  const bundle: DailyBundle = {
+    dateKey,
+    emotionalContext,
+    ...outputs,
+    safety,
+    suppressedStages,
+    failSafe: false,
+    failedStages,
+  };
+
+  // ----------------------------------------
+  // 5. FAIL-SAFE PARCIAL
+  // ----------------------------------------
+
+  if (failedStages.length > 0) {
+    bundle.failSafe = true;
+    bundle.failSafeMessage = FAIL_SAFE_MESSAGE;
+
+    // Output neutro: mantém apenas o que é L1
+    if (FAIL_SAFE_BEHAVIOR.useNeutralOutput) {
+      bundle.babyVoice = null;
+      bundle.milestones = null;
+      bundle.rituals = null;
+    }
+    if (FAIL_SAFE_BEHAVIOR.noRecommendations) {
+      bundle.prescription = null;
+    }
+    if (FAIL_SAFE_BEHAVIOR.noMicromoments) {
+      bundle.micromoment = null;
+    }
+  }
+
+  return bundle;
+}
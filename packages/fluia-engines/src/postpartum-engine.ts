@@ -27,9 +27,13 @@ import type {
   WelcomeMessage,
   PostpartumDiaryPrompt,
   CombinedCheckin,
-  PPDScreeningResult,
+  PPDRiskSignal,
   PostpartumContext,
+  PostpartumInsight,
 } from "@fluia/contracts";
+import { getPostpartumDay } from "@fluia/contracts";
+import { getActiveContent } from "./content-loader";
+import { pickOne, shuffle, type Rng } from "./utils/random";
 
 // ============================================
 // CONSTANTES
@@ -77,13 +81,10 @@ export const ZONE_MESSAGES: Record<number, string[]> = {
 // ============================================
 
 /**
- * Calcula dias desde o nascimento
+ * Calcula dias desde o nascimento (dia do puerpério)
  */
-export function calculateDaysSinceBirth(birthDate: string): number {
-  const birth = new Date(birthDate);
-  const now = new Date();
-  const diffMs = now.getTime() - birth.getTime();
-  return Math.floor(diffMs / (24 * 60 * 60 * 1000));
+export function calculateDaysSinceBirth(birthDate: string, today?: string): number {
+  return getPostpartumDay(birthDate, today);
 }
 
 /**
@@ -110,8 +111,11 @@ export function calculateWeeksSinceBirth(daysSinceBirth: number): number {
 /**
  * Gera estado inicial da transição
  */
-export function createInitialTransitionState(birthInfo: BirthInfo): TransitionState {
-  const daysSinceBirth = calculateDaysSinceBirth(birthInfo.birthDate);
+export function createInitialTransitionState(
+  birthInfo: BirthInfo,
+  today?: string
+): TransitionState {
+  const daysSinceBirth = calculateDaysSinceBirth(birthInfo.birthDate, today);
   
   return {
     status: "initiated",
@@ -129,6 +133,59 @@ export function createInitialTransitionState(birthInfo: BirthInfo): TransitionSt
   };
 }
 
+/**
+ * Etapa do onboarding do puerpério
+ */
+export type TransitionStep = keyof TransitionState["onboardingSteps"];
+
+/**
+ * Atualiza a transição para o dia de referência.
+ * Recalcula dias/semanas/fase e avança o status:
+ * initiated → in_progress (primeiro check-in) → completed (todas as etapas)
+ */
+export function advanceTransitionState(
+  state: TransitionState,
+  today?: string,
+  now: Date = new Date()
+): TransitionState {
+  if (!state.birthInfo) return state;
+
+  const daysSinceBirth = calculateDaysSinceBirth(state.birthInfo.birthDate, today);
+  const steps = state.onboardingSteps;
+
+  let status = state.status;
+  if (Object.values(steps).every(Boolean)) {
+    status = "completed";
+  } else if (status === "initiated" && (steps.firstPostpartumCheckin || steps.firstBabyCheckin)) {
+    status = "in_progress";
+  }
+
+  return {
+    ...state,
+    status,
+    phase: determinePhase(daysSinceBirth),
+    daysSinceBirth,
+    weeksSinceBirth: calculateWeeksSinceBirth(daysSinceBirth),
+    ...(status === "completed" &&
+      !state.transitionCompletedAt && { transitionCompletedAt: now.toISOString() }),
+  };
+}
+
+/**
+ * Marca etapas do onboarding do puerpério como concluídas.
+ */
+export function completeTransitionSteps(
+  state: TransitionState,
+  steps: TransitionStep[],
+  today?: string,
+  now: Date = new Date()
+): TransitionState {
+  const onboardingSteps = { ...state.onboardingSteps };
+  for (const step of steps) onboardingSteps[step] = true;
+
+  return advanceTransitionState({ ...state, onboardingSteps }, today, now);
+}
+
 /**
  * Gera mensagem de boas-vindas ao puerpério
  */
@@ -223,137 +280,18 @@ export function generateWelcomeMessage(
 // PROMPTS DO DIÁRIO DO PUERPÉRIO
 // ============================================
 
-export const POSTPARTUM_DIARY_PROMPTS: PostpartumDiaryPrompt[] = [
-  // RECUPERAÇÃO
-  {
-    promptId: "pp-recovery-1",
-    category: "recovery",
-    text: "Como seu corpo está se sentindo hoje?",
-    relevantPhases: ["immediate", "early", "late"],
-    placeholder: "Descreva as sensações físicas...",
-    writingTip: "Seu corpo fez algo extraordinário. Seja gentil com ele.",
-  },
-  {
-    promptId: "pp-recovery-2",
-    category: "recovery",
-    text: "O que seu corpo precisa agora que você pode oferecer?",
-    relevantPhases: ["immediate", "early"],
-    placeholder: "Descanso, água, movimento leve...",
-    writingTip: "Ouvir o corpo é um ato de amor próprio.",
-  },
-
-  // EMOÇÃO
-  {
-    promptId: "pp-emotion-1",
-    category: "emotion",
-    text: "Que emoções te visitaram hoje?",
-    relevantPhases: ["immediate", "early", "late", "extended"],
-    placeholder: "Alegria, medo, amor, exaustão...",
-    writingTip: "Todas as emoções são válidas no puerpério.",
-  },
-  {
-    promptId: "pp-emotion-2",
-    category: "emotion",
-    text: "O que você diria para si mesma há uma semana?",
-    relevantPhases: ["early", "late"],
-    placeholder: "Se pudesse voltar no tempo...",
-    writingTip: "Você aprendeu muito em pouco tempo.",
-  },
-  {
-    promptId: "pp-emotion-3",
-    category: "emotion",
-    text: "Quando foi a última vez que você chorou? O que sentiu?",
-    relevantPhases: ["immediate", "early"],
-    placeholder: "Chorar faz parte...",
-    writingTip: "Chorar é liberação. Não se julgue.",
-  },
-
-  // VÍNCULO
-  {
-    promptId: "pp-bonding-1",
-    category: "bonding",
-    text: "Qual foi o momento mais especial com o bebê hoje?",
-    relevantPhases: ["immediate", "early", "late", "extended"],
-    placeholder: "Um olhar, um sorriso, um momento de calma...",
-    writingTip: "Os pequenos momentos são os mais preciosos.",
-  },
-  {
-    promptId: "pp-bonding-2",
-    category: "bonding",
-    text: "O que você descobriu sobre o bebê esta semana?",
-    relevantPhases: ["early", "late"],
-    placeholder: "Gostos, manias, jeitos...",
-    writingTip: "Você está conhecendo uma pessoa nova.",
-  },
-
-  // APOIO
-  {
-    promptId: "pp-support-1",
-    category: "support",
-    text: "Quem te ajudou hoje? Como?",
-    relevantPhases: ["immediate", "early", "late"],
-    placeholder: "Parceiro, família, amigos, profissionais...",
-    writingTip: "Reconhecer apoio fortalece conexões.",
-  },
-  {
-    promptId: "pp-support-2",
-    category: "support",
-    text: "Que ajuda você gostaria de pedir mas ainda não pediu?",
-    relevantPhases: ["immediate", "early"],
-    placeholder: "Seja honesta consigo...",
-    writingTip: "Pedir ajuda é força, não fraqueza.",
-  },
-
-  // SONO
-  {
-    promptId: "pp-sleep-1",
-    category: "sleep",
-    text: "Como foi sua noite? Como você está lidando com o sono fragmentado?",
-    relevantPhases: ["immediate", "early"],
-    placeholder: "Descreva sua experiência...",
-    writingTip: "O sono vai melhorar. Aguente firme.",
-  },
-
-  // AMAMENTAÇÃO
-  {
-    promptId: "pp-feeding-1",
-    category: "feeding",
-    text: "Como está sendo a experiência de alimentar o bebê?",
-    relevantPhases: ["immediate", "early"],
-    placeholder: "Amamentação, fórmula, misto...",
-    writingTip: "Não existe jeito certo. Existe o que funciona para vocês.",
-  },
-
-  // IDENTIDADE
-  {
-    promptId: "pp-identity-1",
-    category: "identity",
-    text: "O que você sente sobre sua nova identidade de mãe?",
-    relevantPhases: ["early", "late", "extended"],
-    placeholder: "Quem você está se tornando...",
-    writingTip: "Você ainda é você, e também é mãe. As duas coisas.",
-  },
-
-  // RELACIONAMENTO
-  {
-    promptId: "pp-relationship-1",
-    category: "relationship",
-    text: "Como está seu relacionamento com seu parceiro/a depois do nascimento?",
-    relevantPhases: ["early", "late"],
-    placeholder: "Mudanças, desafios, descobertas...",
-    writingTip: "Relacionamentos também passam por puerpério.",
-  },
-];
+// Prompts: pacote de conteúdo (getActiveContent().postpartumPrompts)
 
 /**
  * Seleciona prompt para o dia
  */
 export function selectPostpartumPrompt(
   context: PostpartumContext,
-  usedPromptIds: string[] = []
+  usedPromptIds: string[] = [],
+  rng: Rng = Math.random
 ): PostpartumDiaryPrompt {
   // Filtrar por fase
-  const phasePrompts = POSTPARTUM_DIARY_PROMPTS.filter(
+  const phasePrompts = getActiveContent().postpartumPrompts.filter(
     (p) => p.relevantPhases.includes(context.phase)
   );
 
@@ -362,10 +300,10 @@ export function selectPostpartumPrompt(
 
   if (available.length === 0) {
     // Resetar se todos foram usados
-    return phasePrompts[Math.floor(Math.random() * phasePrompts.length)];
+    return pickOne(phasePrompts, rng);
   }
 
-  return available[Math.floor(Math.random() * available.length)];
+  return pickOne(available, rng);
 }
 
 /**
@@ -374,13 +312,14 @@ export function selectPostpartumPrompt(
 export function getAlternativePostpartumPrompts(
   context: PostpartumContext,
   excludePromptId: string,
-  count: number = 3
+  count: number = 3,
+  rng: Rng = Math.random
 ): PostpartumDiaryPrompt[] {
-  const phasePrompts = POSTPARTUM_DIARY_PROMPTS.filter(
+  const phasePrompts = getActiveContent().postpartumPrompts.filter(
     (p) => p.relevantPhases.includes(context.phase) && p.promptId !== excludePromptId
   );
 
-  const shuffled = phasePrompts.sort(() => Math.random() - 0.5);
+  const shuffled = shuffle(phasePrompts, rng);
   return shuffled.slice(0, count);
 }
 
@@ -393,7 +332,8 @@ export function getAlternativePostpartumPrompts(
  */
 export function generateCheckinMessage(
   checkin: Omit<CombinedCheckin, "generatedMessage" | "suggestedPractice">,
-  context: PostpartumContext
+  context: PostpartumContext,
+  rng: Rng = Math.random
 ): string {
   const { motherCheckin, babyCheckin } = checkin;
   const zone = motherCheckin.zone;
@@ -401,7 +341,7 @@ export function generateCheckinMessage(
 
   // Mensagem base
   const baseMessages = ZONE_MESSAGES[zone] || ZONE_MESSAGES[3];
-  let message = baseMessages[Math.floor(Math.random() * baseMessages.length)];
+  let message = pickOne(baseMessages, rng);
 
   // Adicionar sobre sono se muito pouco
   if (motherCheckin.sleepHours && motherCheckin.sleepHours < 4) {
@@ -467,13 +407,8 @@ export function suggestPractice(
 export function generateCheckinInsights(
   checkin: Omit<CombinedCheckin, "generatedMessage" | "suggestedPractice">,
   context: PostpartumContext
-): CombinedCheckin["suggestedPractice"][] {
-  const insights: Array<{
-    type: "tip" | "warning" | "celebration";
-    title: string;
-    message: string;
-    icon: string;
-  }> = [];
+): PostpartumInsight[] {
+  const insights: PostpartumInsight[] = [];
 
   const { motherCheckin, babyCheckin } = checkin;
 
@@ -507,21 +442,21 @@ export function generateCheckinInsights(
     });
   }
 
-  return insights as any;
+  return insights;
 }
 
 // ============================================
-// SCREENING PPD (SIMPLIFICADO)
+// SINAL DE RISCO PPD (gatilho da EPDS)
 // ============================================
 
 /**
- * Avalia risco de depressão pós-parto
- * Baseado em padrões de check-ins recentes
+ * Sinal de risco de depressão pós-parto a partir dos check-ins recentes.
+ * NÃO é rastreio: apenas sugere antecipar a EPDS (screening-engine).
  */
 export function evaluatePPDRisk(
   recentCheckins: Array<{ zone: number; sleepQuality: number }>,
   context: PostpartumContext
-): PPDScreeningResult | null {
+): PPDRiskSignal | null {
   // Precisa de pelo menos 5 check-ins para avaliar
   if (recentCheckins.length < 5) return null;
 
@@ -533,7 +468,7 @@ export function evaluatePPDRisk(
   const lowDays = recentCheckins.filter((c) => c.zone <= 2).length;
   const lowDaysPercentage = lowDays / recentCheckins.length;
 
-  // Calcular score simplificado (0-10)
+  // Calcular score heurístico (0-10)
   let score = 0;
 
   if (avgZone <= 2) score += 4;
@@ -545,30 +480,26 @@ export function evaluatePPDRisk(
   if (lowDaysPercentage >= 0.6) score += 3;
   else if (lowDaysPercentage >= 0.4) score += 2;
 
-  // Determinar nível de risco
-  let riskLevel: PPDScreeningResult["riskLevel"];
-  let recommendation: string;
-  let suggestProfessionalHelp: boolean;
+  // Determinar nível do sinal
+  let riskLevel: PPDRiskSignal["riskLevel"];
+  let message: string;
 
   if (score >= 7) {
     riskLevel = "high";
-    recommendation = "Seus registros mostram sinais que merecem atenção. Considere conversar com um profissional de saúde mental.";
-    suggestProfessionalHelp = true;
+    message = `${context.motherName ? `${context.motherName}, seus` : "Seus"} últimos dias parecem pesados. Que tal responder um questionário rápido sobre como você tem se sentido?`;
   } else if (score >= 4) {
     riskLevel = "moderate";
-    recommendation = "Alguns sinais pedem atenção. Continue monitorando e não hesite em buscar ajuda se precisar.";
-    suggestProfessionalHelp = false;
+    message = "Alguns dias têm sido difíceis. Um questionário curto pode ajudar a entender melhor como você está.";
   } else {
     riskLevel = "low";
-    recommendation = "Seus registros mostram um padrão saudável. Continue cuidando de você!";
-    suggestProfessionalHelp = false;
+    message = "Seus registros mostram um padrão saudável. Continue cuidando de você!";
   }
 
   return {
     score,
     riskLevel,
-    recommendation,
-    suggestProfessionalHelp,
-    screenedAt: new Date().toISOString(),
+    suggestScreening: riskLevel !== "low",
+    message,
+    evaluatedAt: new Date().toISOString(),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,209 @@
+/**
+ * @fluia/engines - Pregnancy Engine
+ *
+ * Ciclo de vida das gestações da conta e contexto da gestação ativa.
+ *
+ * RESPONSABILIDADE:
+ * - Criar gestações (um BabyProfile por bebê, gêmeos inclusos)
+ * - Materializar a gestação padrão de contas anteriores (perfil legado)
+ * - Registrar nascimento e perda
+ * - Montar o PregnancyContext consumido pelas engines
+ * - Filtrar registros pela gestação (pregnancyId)
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Registros sem pregnancyId pertencem a DEFAULT_PREGNANCY_ID
+ * - Gestação encerrada (born/loss) nunca volta a ficar ativa
+ * - Não persiste nada (a API grava as gestações)
+ */
+
+import {
+  DEFAULT_PREGNANCY_ID,
+  createDefaultBabyProfile,
+  getGestationalWeek,
+  getPregnancyScope,
+  getTrimesterFromWeeks,
+  type BabyProfile,
+  type BirthInfo,
+  type DateKey,
+  type Pregnancy,
+  type PregnancyContext,
+  type PregnancyScoped,
+} from "@fluia/contracts";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CreatePregnancyInput {
+  uid: string;
+  dueDate: DateKey;
+  /** Um item por bebê (gêmeos = 2) */
+  babies: Array<{ customName?: string }>;
+  isFirstPregnancy: boolean | null;
+  /** Dia de referência (default: hoje) */
+  today?: DateKey;
+  now?: Date;
+}
+
+/** Dados gestacionais do perfil legado (antes das gestações múltiplas) */
+export interface LegacyPregnancyProfile {
+  uid: string;
+  dueDate: DateKey;
+  gestationalWeekAtCreation: number | null;
+  isFirstPregnancy: boolean | null;
+  /** Nome carinhoso salvo no perfil (profile.baby) */
+  babyName?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Perfis dos bebês da gestação (babyId = posição na gestação).
+ */
+function createBabies(
+  dueDate: DateKey,
+  babies: Array<{ customName?: string }>
+): BabyProfile[] {
+  return babies.map((baby, index) => ({
+    babyId: `baby-${index + 1}`,
+    ...createDefaultBabyProfile(dueDate),
+    ...(baby.customName && { customName: baby.customName }),
+  }));
+}
+
+/**
+ * Nome para mensagens: "Ana", "Ana e Bia", "Ana, Bia e Lia".
+ * undefined se nenhum bebê tem nome.
+ */
+export function getBabiesDisplayName(babies: BabyProfile[]): string | undefined {
+  const names = babies.map((b) => b.customName).filter((n): n is string => !!n);
+
+  if (names.length <= 1) return names[0];
+  return `${names.slice(0, -1).join(", ")} e ${names[names.length - 1]}`;
+}
+
+// ============================================
+// CICLO DE VIDA
+// ============================================
+
+/**
+ * Nova gestação ativa (sem pregnancyId: gerado na persistência).
+ */
+export function createPregnancy(input: CreatePregnancyInput): Omit<Pregnancy, "pregnancyId"> {
+  const now = (input.now ?? new Date()).toISOString();
+
+  return {
+    uid: input.uid,
+    status: "active",
+    dueDate: input.dueDate,
+    gestationalWeekAtCreation: getGestationalWeek(input.dueDate, input.today),
+    isFirstPregnancy: input.isFirstPregnancy,
+    babies: createBabies(input.dueDate, input.babies),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Gestação padrão a partir do perfil legado.
+ * Os registros sem pregnancyId passam a pertencer a ela.
+ */
+export function createLegacyPregnancy(
+  profile: LegacyPregnancyProfile,
+  now: Date = new Date()
+): Pregnancy {
+  const timestamp = now.toISOString();
+
+  return {
+    pregnancyId: DEFAULT_PREGNANCY_ID,
+    uid: profile.uid,
+    status: "active",
+    dueDate: profile.dueDate,
+    gestationalWeekAtCreation: profile.gestationalWeekAtCreation,
+    isFirstPregnancy: profile.isFirstPregnancy,
+    babies: createBabies(profile.dueDate, [{ customName: profile.babyName }]),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Registra o nascimento (transição para o puerpério).
+ */
+export function recordPregnancyBirth(
+  pregnancy: Pregnancy,
+  birthInfo: BirthInfo,
+  now: Date = new Date()
+): Pregnancy {
+  const timestamp = now.toISOString();
+
+  return { ...pregnancy, status: "born", birthInfo, endedAt: timestamp, updatedAt: timestamp };
+}
+
+/**
+ * Registra uma perda gestacional.
+ */
+export function recordPregnancyLoss(
+  pregnancy: Pregnancy,
+  lossDate: DateKey,
+  now: Date = new Date()
+): Pregnancy {
+  const timestamp = now.toISOString();
+
+  return { ...pregnancy, status: "loss", lossDate, endedAt: timestamp, updatedAt: timestamp };
+}
+
+// ============================================
+// CONTEXTO
+// ============================================
+
+/**
+ * Contexto da gestação para as engines, atualizado para o dia.
+ *
+ * @param pregnancy - Gestação ativa
+ * @param pregnancies - Todas as gestações da conta (para perdas anteriores)
+ * @param today - Dia de referência (default: hoje)
+ */
+export function buildPregnancyContext(
+  pregnancy: Pregnancy,
+  pregnancies: Pregnancy[],
+  today?: DateKey
+): PregnancyContext {
+  const gestationalWeek = getGestationalWeek(pregnancy.dueDate, today);
+  const trimester = getTrimesterFromWeeks(gestationalWeek);
+  const babies = pregnancy.babies.map((baby) => ({
+    ...baby,
+    gestationalWeeks: gestationalWeek,
+    trimester,
+  }));
+  const babyName = getBabiesDisplayName(babies);
+
+  return {
+    pregnancyId: pregnancy.pregnancyId,
+    status: pregnancy.status,
+    gestationalWeek,
+    trimester,
+    babies,
+    ...(babyName && { babyName }),
+    isMultiple: babies.length > 1,
+    isFirstPregnancy: pregnancy.isFirstPregnancy,
+    hasPreviousLoss: pregnancies.some(
+      (p) =>
+        p.pregnancyId !== pregnancy.pregnancyId &&
+        p.status === "loss" &&
+        p.createdAt < pregnancy.createdAt
+    ),
+  };
+}
+
+/**
+ * Registros da gestação (sem pregnancyId = gestação padrão).
+ */
+export function filterByPregnancy<T extends PregnancyScoped>(
+  records: T[],
+  pregnancyId: string
+): T[] {
+  return records.filter((record) => getPregnancyScope(record) === pregnancyId);
+}
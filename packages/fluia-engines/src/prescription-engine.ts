@@ -10,6 +10,12 @@
  * - DIVERSIFICA tipos entre treino 1 e 2
  * - Tom contextualizado por zona e quantidade de problemas
  *
+ * ADAPTAÇÃO (opcional):
+ * - Com histórico da usuária, ordena os candidatos por efetividade
+ *   (bandit por problema, ver utils/training-effectiveness)
+ * - Evita repetir treinos abandonados recentemente
+ * - Explica a escolha no "por que isso ajuda"
+ *
  * REGRAS FUNDAMENTAIS (Documento p.16-17):
  * - 1 a 3 treinos por dia
  * - Duração 1-3 minutos
@@ -19,26 +25,28 @@
  */
 
 import type { EmotionalState } from "./emotional-state-engine";
+import {
+  getDateKey,
+  type DateKey,
+  type CatalogTraining,
+  type CatalogTrainingType,
+  type CatalogTrainingIntensity,
+} from "@fluia/contracts";
+import { getActiveContent, FALLBACK_TRAINING_ID } from "./content-loader";
+import {
+  pickAdaptive,
+  explainAdaptiveChoice,
+  type AdaptiveReason,
+  type TrainingEffectiveness,
+} from "./utils/training-effectiveness";
 
 // ============================================
 // TYPES
 // ============================================
 
-export type TrainingType =
-  | "breathing"
-  | "grounding-body"
-  | "body-scan"
-  | "mindfulness"
-  | "bond"
-  | "reflection"
-  | "pause-micro"
-  | "self-compassion"
-  | "resilience"
-  | "boundary"
-  | "gratitude"
-  | "bonding";
-
-export type TrainingIntensity = "minimal" | "light" | "moderate" | "active";
+export type TrainingType = CatalogTrainingType;
+
+export type TrainingIntensity = CatalogTrainingIntensity;
 
 export type PrescriptionTone = "compassionate" | "gentle" | "balanced" | "encouraging" | "celebratory";
 
@@ -83,6 +91,10 @@ export interface PrescriptionInput {
     isFirstCheckin?: boolean;
     gestationalWeek?: number;
   };
+  /** Modelo de efetividade da usuária (ausente = seleção pelo catálogo) */
+  effectiveness?: TrainingEffectiveness;
+  /** Dia atual YYYY-MM-DD (default: hoje no timezone padrão, reset 04:00) */
+  today?: DateKey;
 }
 
 // ============================================
@@ -103,380 +115,18 @@ export interface DetectedProblem {
 }
 
 // ============================================
-// TRAINING CATALOG (EXPANDIDO)
+// TRAINING CATALOG (pacote de conteúdo)
 // ============================================
 
-interface TrainingTemplate {
-  id: string;
-  type: TrainingType;
-  title: string;
-  description: string;
-  whyTemplate: string;
-  durationMinutes: 1 | 2 | 3 | 4 | 5;
-  intensity: TrainingIntensity;
-  focusMetric: MetricKey;
-  /** Problemas que este treino resolve */
-  bestFor: string[];
-  /** Zona mínima para recomendar */
-  minZone: Zone;
-  /** Zona máxima para recomendar */
-  maxZone: Zone;
-  /** Instruções passo-a-passo */
-  instructions: string[];
-}
-
-const TRAINING_CATALOG: TrainingTemplate[] = [
-  // ============================================
-  // ZONA BAIXA / ACOLHIMENTO URGENTE
-  // ============================================
-  {
-    id: "grounding-body",
-    type: "grounding-body",
-    title: "Ancoragem no Corpo",
-    description: "Quando o mundo parece confuso, sentir seu corpo te traz de volta.",
-    whyTemplate: "Voltar para o corpo acalma a mente e traz presença.",
-    durationMinutes: 2,
-    intensity: "light",
-    focusMetric: "BS",
-    bestFor: ["lowZone", "overload", "anxiety", "physicalDiscomfort"],
-    minZone: 1,
-    maxZone: 3,
-    instructions: [
-      "Sente-se confortavelmente.",
-      "Feche os olhos se quiser.",
-      "Sinta o peso do seu corpo.",
-      "Perceba seus pés no chão.",
-      "Sua coluna apoiada.",
-      "Respire naturalmente.",
-      "Você está aqui, agora.",
-    ],
-  },
-  {
-    id: "self-compassion",
-    type: "self-compassion",
-    title: "Compaixão por Você Mesma",
-    description: "Você merece o mesmo cuidado que oferece aos outros.",
-    whyTemplate: "Ser gentil consigo mesma reduz o estresse e fortalece a resiliência.",
-    durationMinutes: 3,
-    intensity: "light",
-    focusMetric: "RE",
-    bestFor: ["lowZone", "selfCriticism", "overload"],
-    minZone: 1,
-    maxZone: 3,
-    instructions: [
-      "Coloque a mão no coração.",
-      "Sinta o calor da sua mão.",
-      "Respire fundo.",
-      "Diga mentalmente: 'Eu mereço cuidado'.",
-      "Repita: 'Estou fazendo o melhor que posso'.",
-      "Sinta essa gentileza por você mesma.",
-    ],
-  },
-
-  // ============================================
-  // BAIXA ENERGIA
-  // ============================================
-  {
-    id: "pause-micro",
-    type: "pause-micro",
-    title: "Micro-Pausa Consciente",
-    description: "Às vezes, 1 minuto de pausa consciente já faz diferença.",
-    whyTemplate: "Pausar conscientemente restaura energia e clareza mental.",
-    durationMinutes: 1,
-    intensity: "minimal",
-    focusMetric: "RE",
-    bestFor: ["lowEnergy", "overload"],
-    minZone: 1,
-    maxZone: 5,
-    instructions: [
-      "Pare o que está fazendo.",
-      "Respire fundo 3 vezes.",
-      "Sinta o peso do seu corpo.",
-      "Você está presente agora.",
-    ],
-  },
-  {
-    id: "breathing-calm",
-    type: "breathing",
-    title: "Respiração Tranquila",
-    description: "Sua respiração é uma âncora sempre disponível.",
-    whyTemplate: "Respirar devagar ativa o sistema nervoso parassimpático, trazendo calma.",
-    durationMinutes: 2,
-    intensity: "light",
-    focusMetric: "RE",
-    bestFor: ["lowEnergy", "anxiety", "lowZone"],
-    minZone: 1,
-    maxZone: 4,
-    instructions: [
-      "Encontre um lugar tranquilo.",
-      "Inspire contando até 4.",
-      "Segure por 2 segundos.",
-      "Expire contando até 6.",
-      "Repita esse ciclo.",
-      "Sua respiração te acalma.",
-    ],
-  },
-  {
-    id: "breathing-active",
-    type: "breathing",
-    title: "Respiração Energizante",
-    description: "Quando você precisa de disposição, respirar com intenção traz energia.",
-    whyTemplate: "Respiração mais rápida aumenta oxigenação e disposição.",
-    durationMinutes: 2,
-    intensity: "active",
-    focusMetric: "RS",
-    bestFor: ["needsEnergy", "highZone"],
-    minZone: 3,
-    maxZone: 5,
-    instructions: [
-      "Sente-se com a coluna ereta.",
-      "Inspire rapidamente pelo nariz.",
-      "Expire rapidamente pela boca.",
-      "Repita 10 vezes.",
-      "Volte ao ritmo normal.",
-      "Sinta a energia renovada.",
-    ],
-  },
+/** Treino do catálogo (ver content-loader) */
+type TrainingTemplate = CatalogTraining;
 
-  // ============================================
-  // DESCONFORTO FÍSICO
-  // ============================================
-  {
-    id: "body-scan",
-    type: "body-scan",
-    title: "Escaneamento Corporal",
-    description: "Reconhecer desconfortos sem julgamento já é cuidado.",
-    whyTemplate: "Perceber o corpo com gentileza reduz tensão e promove relaxamento.",
-    durationMinutes: 5,
-    intensity: "moderate",
-    focusMetric: "BS",
-    bestFor: ["physicalDiscomfort", "body", "tension"],
-    minZone: 2,
-    maxZone: 5,
-    instructions: [
-      "Deite-se ou sente-se confortavelmente.",
-      "Comece pelos pés.",
-      "Perceba sensações sem julgar.",
-      "Suba pelas pernas.",
-      "Pelve, barriga, peito.",
-      "Ombros, braços, mãos.",
-      "Pescoço, rosto, cabeça.",
-      "Seu corpo todo, presente.",
-    ],
-  },
-
-  // ============================================
-  // SOBRECARGA
-  // ============================================
-  {
-    id: "boundary-practice",
-    type: "boundary",
-    title: "Limites Saudáveis",
-    description: "Dizer não também é cuidar de vocês duas.",
-    whyTemplate: "Estabelecer limites protege sua energia e bem-estar.",
-    durationMinutes: 3,
-    intensity: "light",
-    focusMetric: "RS",
-    bestFor: ["overload", "boundary", "exhaustion"],
-    minZone: 1,
-    maxZone: 4,
-    instructions: [
-      "Pense em algo que está te sobrecarregando.",
-      "Imagine dizendo 'não' com gentileza.",
-      "Você pode dizer: 'Não posso agora'.",
-      "Ou: 'Preciso cuidar de mim primeiro'.",
-      "Sinta o alívio de proteger sua energia.",
-      "Seus limites são válidos.",
-    ],
-  },
-
-  // ============================================
-  // BAIXA RESILIÊNCIA (RS)
-  // ============================================
-  {
-    id: "resilience-focus",
-    type: "resilience",
-    title: "Cultivando Resiliência",
-    description: "Pequenos passos constroem força interior.",
-    whyTemplate: "Lembrar de superações passadas fortalece a confiança em si mesma.",
-    durationMinutes: 4,
-    intensity: "moderate",
-    focusMetric: "RS",
-    bestFor: ["lowRS", "lowConfidence"],
-    minZone: 2,
-    maxZone: 5,
-    instructions: [
-      "Lembre de uma dificuldade que você superou.",
-      "Pode ser pequena, não importa.",
-      "Como você se sentiu depois?",
-      "Que força você descobriu em si?",
-      "Essa mesma força está aqui agora.",
-      "Você é mais resiliente do que imagina.",
-    ],
-  },
-
-  // ============================================
-  // BAIXA REGULAÇÃO EMOCIONAL (RE)
-  // ============================================
-  {
-    id: "mindfulness-observation",
-    type: "mindfulness",
-    title: "Observação sem Julgamento",
-    description: "Perceber suas emoções sem julgá-las é o primeiro passo para regulá-las.",
-    whyTemplate: "Observar emoções cria espaço entre sentir e reagir.",
-    durationMinutes: 3,
-    intensity: "moderate",
-    focusMetric: "RE",
-    bestFor: ["lowRE", "emotionalReactivity"],
-    minZone: 2,
-    maxZone: 4,
-    instructions: [
-      "Feche os olhos suavemente.",
-      "Perceba o que está sentindo agora.",
-      "Não tente mudar, apenas observe.",
-      "Nomeie a emoção se conseguir.",
-      "Ela está aí, e está tudo bem.",
-      "Você não é sua emoção, você a sente.",
-    ],
-  },
-  {
-    id: "reflection-gentle",
-    type: "reflection",
-    title: "Pausa para Sentir",
-    description: "Parar para sentir é um ato de cuidado, não de fraqueza.",
-    whyTemplate: "Dar espaço para emoções evita que elas se acumulem.",
-    durationMinutes: 2,
-    intensity: "light",
-    focusMetric: "RE",
-    bestFor: ["lowRE", "emotionalSuppression"],
-    minZone: 1,
-    maxZone: 3,
-    instructions: [
-      "Pare por um momento.",
-      "Coloque a mão no peito.",
-      "Pergunte: 'Como estou me sentindo?'",
-      "Escute a resposta sem julgar.",
-      "Agradeça por esse momento de presença.",
-    ],
-  },
-
-  // ============================================
-  // BAIXA BASE DE SEGURANÇA (BS)
-  // ============================================
-  {
-    id: "grounding-present",
-    type: "grounding-body",
-    title: "Presente Aqui e Agora",
-    description: "Ancorar no momento presente reduz ansiedade e traz clareza.",
-    whyTemplate: "Focar no presente diminui preocupações com futuro e passado.",
-    durationMinutes: 3,
-    intensity: "moderate",
-    focusMetric: "BS",
-    bestFor: ["lowBS", "anxiety", "worry"],
-    minZone: 2,
-    maxZone: 4,
-    instructions: [
-      "Olhe ao redor e nomeie 5 coisas que vê.",
-      "Perceba 4 coisas que pode tocar.",
-      "Ouça 3 sons diferentes.",
-      "Sinta 2 cheiros.",
-      "Perceba 1 sabor na boca.",
-      "Você está aqui, segura, agora.",
-    ],
-  },
-
-  // ============================================
-  // BAIXA CONEXÃO AFETIVA (CA)
-  // ============================================
-  {
-    id: "baby-bond",
-    type: "bonding",
-    title: "Conexão com seu Bebê",
-    description: "Momentos intencionais fortalecem o vínculo.",
-    whyTemplate: "A conexão consciente fortalece o vínculo mãe-bebê.",
-    durationMinutes: 3,
-    intensity: "light",
-    focusMetric: "CA",
-    bestFor: ["lowCA", "emotionalDistance", "bond"],
-    minZone: 1,
-    maxZone: 5,
-    instructions: [
-      "Coloque as mãos na barriga.",
-      "Respire fundo e calma.",
-      "Diga mentalmente: 'Oi, bebê'.",
-      "Sinta a conexão entre vocês.",
-      "Envie amor através do toque.",
-      "Vocês duas, juntas.",
-    ],
-  },
-  {
-    id: "bond-gratitude",
-    type: "bonding",
-    title: "Gratidão Compartilhada",
-    description: "Agradecer junto com seu bebê fortalece a conexão afetiva.",
-    whyTemplate: "Gratidão eleva o estado emocional e fortalece vínculos.",
-    durationMinutes: 3,
-    intensity: "moderate",
-    focusMetric: "CA",
-    bestFor: ["lowCA", "highZone"],
-    minZone: 3,
-    maxZone: 5,
-    instructions: [
-      "Coloque as mãos na barriga.",
-      "Pense em algo pelo qual é grata hoje.",
-      "Compartilhe isso mentalmente com seu bebê.",
-      "Sinta a gratidão crescer no peito.",
-      "Vocês duas agradecem juntas.",
-    ],
-  },
-
-  // ============================================
-  // ZONA BOA / CELEBRAÇÃO
-  // ============================================
-  {
-    id: "gratitude-practice",
-    type: "gratitude",
-    title: "Celebrando o Presente",
-    description: "Momentos assim merecem ser saboreados.",
-    whyTemplate: "Celebrar momentos bons aumenta bem-estar e resiliência.",
-    durationMinutes: 3,
-    intensity: "light",
-    focusMetric: "CA",
-    bestFor: ["highZone", "celebration"],
-    minZone: 4,
-    maxZone: 5,
-    instructions: [
-      "Pense em 3 coisas boas de hoje.",
-      "Podem ser pequenas.",
-      "Sinta a gratidão por cada uma.",
-      "Deixe essa sensação preencher você.",
-      "Você merece esse momento.",
-      "Aproveite.",
-    ],
-  },
-  {
-    id: "baby-bond-deep",
-    type: "bonding",
-    title: "Conexão Profunda",
-    description: "Aproveite essa energia positiva para se conectar ainda mais.",
-    whyTemplate: "Estados positivos são ideais para fortalecer o vínculo.",
-    durationMinutes: 5,
-    intensity: "moderate",
-    focusMetric: "CA",
-    bestFor: ["highZone", "celebration", "deepConnection"],
-    minZone: 4,
-    maxZone: 5,
-    instructions: [
-      "Encontre um lugar tranquilo.",
-      "Coloque as duas mãos na barriga.",
-      "Feche os olhos e respire fundo.",
-      "Imagine seu bebê ali dentro.",
-      "Envie amor, luz, calor.",
-      "Diga o que quiser para ela.",
-      "Sinta a conexão profunda entre vocês.",
-    ],
-  },
-];
+/**
+ * Catálogo em uso (pacote de conteúdo ativo).
+ */
+function getCatalog(): TrainingTemplate[] {
+  return getActiveContent().trainings;
+}
 
 // ============================================
 // PROBLEM DETECTION
@@ -511,7 +161,10 @@ function detectProblems(
 
   // ============================================
   // PRIORIDADE 1: FLAGS ATIVAS
+  // (sinais persistentes sobem para prioridade 0)
   // ============================================
+  const persistence = emotionalState.trend?.persistence ?? {};
+
   if (emotionalState.flags?.overload) {
     problems.push({
       type: "flag",
@@ -525,7 +178,7 @@ function detectProblems(
     problems.push({
       type: "flag",
       issue: "lowEnergy",
-      priority: 1,
+      priority: persistence.lowEnergy ? 0 : 1,
       recommendedTypes: ["pause-micro", "breathing"],
     });
   }
@@ -534,7 +187,7 @@ function detectProblems(
     problems.push({
       type: "flag",
       issue: "physicalDiscomfort",
-      priority: 1,
+      priority: persistence.physicalDiscomfort ? 0 : 1,
       recommendedTypes: ["grounding-body", "body-scan"],
     });
   }
@@ -543,7 +196,7 @@ function detectProblems(
     problems.push({
       type: "flag",
       issue: "emotionalDistance",
-      priority: 1,
+      priority: persistence.emotionalDistance ? 0 : 1,
       recommendedTypes: ["bonding", "bond"],
     });
   }
@@ -595,19 +248,32 @@ function detectProblems(
 // TRAINING SELECTION
 // ============================================
 
+/** Contexto da seleção adaptativa */
+interface AdaptiveContext {
+  effectiveness: TrainingEffectiveness;
+  today: DateKey;
+}
+
+/** Treino escolhido (e motivo, quando adaptativo) */
+interface SelectedTraining {
+  template: TrainingTemplate;
+  reason?: AdaptiveReason;
+}
+
 /**
  * Seleciona treino específico para um problema.
  */
 function selectTrainingForProblem(
   problem: DetectedProblem,
   zone: Zone,
-  excludeTypes: TrainingType[] = []
-): TrainingTemplate | null {
+  excludeTypes: TrainingType[] = [],
+  adaptive?: AdaptiveContext
+): SelectedTraining | null {
   // Filtrar treinos que:
   // 1. Resolvem o problema (bestFor inclui o issue)
   // 2. São apropriados para a zona
   // 3. Não foram excluídos (diversificação)
-  const candidates = TRAINING_CATALOG.filter((t) => {
+  const candidates = getCatalog().filter((t) => {
     const matchesProblem =
       t.bestFor.includes(problem.issue) ||
       problem.recommendedTypes.includes(t.type);
@@ -619,23 +285,35 @@ function selectTrainingForProblem(
 
   if (candidates.length === 0) {
     // Fallback: qualquer treino apropriado para a zona
-    const fallbacks = TRAINING_CATALOG.filter(
+    const fallbacks = getCatalog().filter(
       (t) => zone >= t.minZone && zone <= t.maxZone && !excludeTypes.includes(t.type)
     );
-    return fallbacks.length > 0 ? fallbacks[0] : null;
+    return fallbacks.length > 0 ? { template: fallbacks[0] } : null;
   }
 
   // Priorizar treinos mais leves em zonas baixas
+  let pool = candidates;
   if (zone <= 2) {
     const gentleCandidates = candidates.filter(
       (t) => t.intensity === "minimal" || t.intensity === "light"
     );
     if (gentleCandidates.length > 0) {
-      return gentleCandidates[0];
+      pool = gentleCandidates;
     }
   }
 
-  return candidates[0];
+  if (!adaptive) {
+    return { template: pool[0] };
+  }
+
+  // Histórico da usuária reordena apenas candidatos já seguros
+  const { choice, reason } = pickAdaptive(
+    pool,
+    problem.issue,
+    adaptive.effectiveness,
+    adaptive.today
+  );
+  return { template: choice, reason };
 }
 
 /**
@@ -643,7 +321,8 @@ function selectTrainingForProblem(
  */
 function selectTrainings(
   problems: DetectedProblem[],
-  zone: Zone
+  zone: Zone,
+  adaptive?: AdaptiveContext
 ): TrainingPrescription[] {
   const trainings: TrainingPrescription[] = [];
   const usedTypes: TrainingType[] = [];
@@ -662,14 +341,15 @@ function selectTrainings(
   for (const problem of problems) {
     if (trainings.length >= maxTrainings) break;
 
-    const training = selectTrainingForProblem(problem, zone, usedTypes);
-    if (training) {
+    const selected = selectTrainingForProblem(problem, zone, usedTypes, adaptive);
+    if (selected) {
+      const training = selected.template;
       trainings.push({
         id: training.id,
         type: training.type,
         title: training.title,
         description: training.description,
-        why: training.whyTemplate,
+        why: explainAdaptiveChoice(training.whyTemplate, selected.reason),
         durationMinutes: training.durationMinutes,
         intensity: training.intensity,
         focusMetric: training.focusMetric,
@@ -681,7 +361,8 @@ function selectTrainings(
 
   // Fallback: sempre ter pelo menos 1 treino
   if (trainings.length === 0) {
-    const fallback = TRAINING_CATALOG.find((t) => t.id === "pause-micro")!;
+    // O loader garante que o fallback existe no pacote
+    const fallback = getCatalog().find((t) => t.id === FALLBACK_TRAINING_ID)!;
     trainings.push({
       id: fallback.id,
       type: fallback.type,
@@ -792,20 +473,25 @@ function generateGoal(
  * FLUXO:
  * 1. Detectar problemas (flags + métricas + zona)
  * 2. Ordenar por prioridade
- * 3. Selecionar treinos específicos (diversificando tipos)
+ * 3. Selecionar treinos específicos (diversificando tipos,
+ *    ordenados pelo histórico da usuária quando houver)
  * 4. Determinar tom e objetivo
  *
- * @param input - Métricas + estado emocional + contexto
+ * @param input - Métricas + estado emocional + contexto (+ efetividade)
  * @returns DailyPrescription - 1-3 treinos + objetivo + problemas
  */
 export function generatePrescription(input: PrescriptionInput): DailyPrescription {
-  const { metrics, emotionalState, context } = input;
+  const { metrics, emotionalState, context, effectiveness, today = getDateKey() } = input;
 
   // 1. Detectar e priorizar problemas
   const problems = detectProblems(emotionalState, metrics);
 
   // 2. Selecionar treinos baseado nos problemas
-  const trainings = selectTrainings(problems, emotionalState.zone);
+  const trainings = selectTrainings(
+    problems,
+    emotionalState.zone,
+    effectiveness ? { effectiveness, today } : undefined
+  );
 
   // 3. Determinar tom
   const tone = determineTone(emotionalState.zone, problems);
@@ -879,7 +565,7 @@ export function getToneLabel(tone: PrescriptionTone): string {
  * Retorna treino do catálogo por ID.
  */
 export function getTrainingById(id: string): TrainingTemplate | undefined {
-  return TRAINING_CATALOG.find((t) => t.id === id);
+  return getCatalog().find((t) => t.id === id);
 }
 
 /**
@@ -894,23 +580,26 @@ export function getTrainingInstructions(id: string): string[] {
  * Retorna todos os treinos do catálogo (para debug).
  */
 export function getAllTrainings(): TrainingTemplate[] {
-  return [...TRAINING_CATALOG];
+  return [...getCatalog()];
 }
 
 /**
  * Retorna estatísticas do catálogo.
  */
 export function getCatalogStats() {
+  const catalog = getCatalog();
+
   return {
-    totalTrainings: TRAINING_CATALOG.length,
-    byType: TRAINING_CATALOG.reduce(
+    version: getActiveContent().version,
+    totalTrainings: catalog.length,
+    byType: catalog.reduce(
       (acc, t) => {
         acc[t.type] = (acc[t.type] || 0) + 1;
         return acc;
       },
       {} as Record<string, number>
     ),
-    byIntensity: TRAINING_CATALOG.reduce(
+    byIntensity: catalog.reduce(
       (acc, t) => {
         acc[t.intensity] = (acc[t.intensity] || 0) + 1;
         return acc;
@@ -27,6 +27,7 @@ import type {
   RitualSuggestion,
   RitualEvaluationContext,
 } from "@fluia/contracts";
+import { getLocalInstant } from "@fluia/contracts";
 
 // ============================================
 // REGRAS CONGELADAS
@@ -344,11 +345,13 @@ function isInTimeWindow(hour: number, type: RitualType): boolean {
 /**
  * Calcula quando expira
  */
-function calculateExpiration(type: RitualType, currentDate: string): string {
+function calculateExpiration(
+  type: RitualType,
+  currentDate: string,
+  timezone?: string
+): string {
   const window = RITUAL_RULES.TIME_WINDOWS[type];
-  const date = new Date(currentDate);
-  date.setHours(window.end, 0, 0, 0);
-  return date.toISOString();
+  return getLocalInstant(currentDate, window.end, timezone);
 }
 
 // ============================================
@@ -398,7 +401,7 @@ export function evaluateRituals(
       availability: {
         startHour: RITUAL_RULES.TIME_WINDOWS.morning.start,
         endHour: RITUAL_RULES.TIME_WINDOWS.morning.end,
-        expiresAt: calculateExpiration("morning", context.currentDate),
+        expiresAt: calculateExpiration("morning", context.currentDate, context.timezone),
       },
       reason: "Disponível agora — comece o dia com calma",
     });
@@ -421,7 +424,7 @@ export function evaluateRituals(
       availability: {
         startHour: RITUAL_RULES.TIME_WINDOWS.evening.start,
         endHour: RITUAL_RULES.TIME_WINDOWS.evening.end,
-        expiresAt: calculateExpiration("evening", context.currentDate),
+        expiresAt: calculateExpiration("evening", context.currentDate, context.timezone),
       },
       reason: "Disponível agora — prepare-se para descansar",
     });
@@ -445,7 +448,7 @@ export function evaluateRituals(
       availability: {
         startHour: RITUAL_RULES.TIME_WINDOWS.sunday.start,
         endHour: RITUAL_RULES.TIME_WINDOWS.sunday.end,
-        expiresAt: calculateExpiration("sunday", context.currentDate),
+        expiresAt: calculateExpiration("sunday", context.currentDate, context.timezone),
       },
       reason: "Domingo é dia de pausa e conexão",
     });
@@ -469,7 +472,7 @@ export function evaluateRituals(
       availability: {
         startHour: 0,
         endHour: 23,
-        expiresAt: calculateExpiration("trimester", context.currentDate),
+        expiresAt: calculateExpiration("trimester", context.currentDate, context.timezone),
       },
       reason: "Você entrou em um novo trimestre!",
     });
@@ -480,19 +483,23 @@ export function evaluateRituals(
   
   if (available.length === 0) {
     if (context.currentHour < RITUAL_RULES.TIME_WINDOWS.morning.start) {
-      const availableAt = new Date(context.currentDate);
-      availableAt.setHours(RITUAL_RULES.TIME_WINDOWS.morning.start, 0, 0, 0);
       next = {
         type: "morning",
-        availableAt: availableAt.toISOString(),
+        availableAt: getLocalInstant(
+          context.currentDate,
+          RITUAL_RULES.TIME_WINDOWS.morning.start,
+          context.timezone
+        ),
         title: "Ritual Matinal",
       };
     } else if (context.currentHour < RITUAL_RULES.TIME_WINDOWS.evening.start) {
-      const availableAt = new Date(context.currentDate);
-      availableAt.setHours(RITUAL_RULES.TIME_WINDOWS.evening.start, 0, 0, 0);
       next = {
         type: "evening",
-        availableAt: availableAt.toISOString(),
+        availableAt: getLocalInstant(
+          context.currentDate,
+          RITUAL_RULES.TIME_WINDOWS.evening.start,
+          context.timezone
+        ),
         title: "Ritual Noturno",
       };
     }
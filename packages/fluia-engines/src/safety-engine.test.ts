@@ -0,0 +1,329 @@
+/**
+ * Safety Engine - matriz de critérios
+ *
+ * Gravidade → intervenção, supressão de L3/L4, bloqueio de micromomentos
+ * e linguagem de crise vinda do check-in, do diário e dos screenings.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  EPDS_QUESTIONS,
+  GAD7_QUESTIONS,
+  SAFETY_RESOURCES,
+  SYSTEM_DISCLAIMERS,
+  type OutputLevel,
+  type ScreeningAnswer,
+  type ScreeningQuestion,
+  type SafetySeverity,
+  type SafetyTrigger,
+} from "@fluia/contracts";
+import type { EmotionalState } from "./emotional-state-engine";
+import {
+  SAFETY_MESSAGES,
+  SAFETY_RULES,
+  SAFETY_TRIGGER_SEVERITY,
+  evaluateCheckinSafety,
+  evaluateDiarySafety,
+  evaluateScreeningSafety,
+  isOutputAllowedBySafety,
+  toSafetyEvent,
+} from "./safety-engine";
+import { scoreEPDS, scorePrenatalScreening } from "./screening-engine";
+import { analyzeCheckinText } from "./text-analysis-engine";
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+const OUTPUT_LEVELS: OutputLevel[] = ["L1", "L2", "L3", "L4"];
+
+/** Critério → gravidade esperada (tabela de referência da camada de segurança) */
+const EXPECTED_SEVERITY: [SafetyTrigger, SafetySeverity][] = [
+  ["suicidal_ideation", "emergency"],
+  ["self_harm", "emergency"],
+  ["harm_to_baby", "emergency"],
+  ["hopelessness", "urgent"],
+  ["depression_risk_high", "urgent"],
+  ["anxiety_risk_high", "urgent"],
+  ["persistent_low_zone", "attention"],
+  ["distress_language", "attention"],
+  ["depression_risk_moderate", "attention"],
+  ["anxiety_risk_moderate", "attention"],
+];
+
+/**
+ * Respostas com a pontuação de cada item (por id).
+ */
+function answersScoring(
+  questions: ScreeningQuestion[],
+  scoreFor: (questionId: number) => number
+): ScreeningAnswer[] {
+  return questions.map((q) => ({
+    questionId: q.id,
+    optionIndex: q.options.findIndex((o) => o.score === scoreFor(q.id)),
+  }));
+}
+
+/** EPDS sem o item 10 (autolesão) pontuado */
+const epdsScoring = (score: number, firstItemScore = score) =>
+  answersScoring(EPDS_QUESTIONS, (id) => (id === 10 ? 0 : id === 1 ? firstItemScore : score));
+
+/** Estado emocional com zona baixa persistente (apenas o que a Engine lê) */
+const persistentLowZone = {
+  zone: 2,
+  trend: { persistence: { lowZone: true } },
+} as unknown as EmotionalState;
+
+// ============================================
+// GRAVIDADE → INTERVENÇÃO
+// ============================================
+
+describe("severity → intervention", () => {
+  it("maps every trigger to its severity", () => {
+    expect(Object.keys(SAFETY_TRIGGER_SEVERITY)).toHaveLength(EXPECTED_SEVERITY.length);
+
+    for (const [trigger, severity] of EXPECTED_SEVERITY) {
+      expect(SAFETY_TRIGGER_SEVERITY[trigger]).toBe(severity);
+    }
+  });
+
+  it.each([
+    ["emergency", [SAFETY_RESOURCES.cvv, SAFETY_RESOURCES.samu, SAFETY_RESOURCES.emergencyRoom], true],
+    ["urgent", [SAFETY_RESOURCES.cvv, SAFETY_RESOURCES.healthCare], true],
+    ["attention", [SAFETY_RESOURCES.healthCare, SAFETY_RESOURCES.cvv], false],
+  ] as const)("builds the %s intervention", (severity, resources, emergencyGuidance) => {
+    // Cada gravidade a partir de um critério real
+    const bySeverity = {
+      emergency: evaluateDiarySafety({ text: "hoje eu quero morrer", now: NOW }),
+      urgent: evaluateDiarySafety({ text: "nao aguento mais", now: NOW }),
+      attention: evaluateCheckinSafety({ emotionalState: persistentLowZone, now: NOW }),
+    }[severity];
+
+    expect(bySeverity).toMatchObject({
+      severity,
+      message: SAFETY_MESSAGES[severity],
+      resources,
+      suppressedOutputLevels: SAFETY_RULES[severity].suppressedOutputLevels,
+      blockMicromoments: true,
+      evaluatedAt: NOW.toISOString(),
+    });
+    expect(bySeverity?.emergencyGuidance).toBe(
+      emergencyGuidance ? SYSTEM_DISCLAIMERS.emergency : undefined
+    );
+  });
+
+  it("keeps the highest severity when triggers are mixed", () => {
+    const intervention = evaluateCheckinSafety({
+      emotionalState: persistentLowZone,
+      textAnalysis: analyzeCheckinText({ notes: "estou sem esperanca e penso em me matar" }),
+      now: NOW,
+    });
+
+    expect(intervention?.severity).toBe("emergency");
+    expect(intervention?.triggers).toEqual(
+      expect.arrayContaining(["suicidal_ideation", "hopelessness", "persistent_low_zone"])
+    );
+  });
+
+  it("returns null without triggers", () => {
+    expect(evaluateCheckinSafety({ now: NOW })).toBeNull();
+    expect(evaluateDiarySafety({ text: "hoje foi um dia calmo e feliz", now: NOW })).toBeNull();
+  });
+});
+
+// ============================================
+// SUPRESSÃO DE OUTPUTS
+// ============================================
+
+describe("output suppression", () => {
+  it.each([
+    ["emergency", ["L3", "L4"]],
+    ["urgent", ["L3", "L4"]],
+    ["attention", ["L4"]],
+  ] as const)("%s suppresses %j", (severity, suppressed) => {
+    expect(SAFETY_RULES[severity].suppressedOutputLevels).toEqual(suppressed);
+  });
+
+  it("blocks L3 and L4 in a crisis", () => {
+    const crisis = evaluateDiarySafety({ text: "tenho vontade de me cortar", now: NOW });
+
+    expect(OUTPUT_LEVELS.filter((l) => isOutputAllowedBySafety(l, crisis))).toEqual(["L1", "L2"]);
+  });
+
+  it("blocks only L4 under attention", () => {
+    const attention = evaluateCheckinSafety({ emotionalState: persistentLowZone, now: NOW });
+
+    expect(OUTPUT_LEVELS.filter((l) => isOutputAllowedBySafety(l, attention))).toEqual([
+      "L1",
+      "L2",
+      "L3",
+    ]);
+  });
+
+  it("allows every level without an intervention", () => {
+    expect(OUTPUT_LEVELS.every((l) => isOutputAllowedBySafety(l, null))).toBe(true);
+  });
+});
+
+// ============================================
+// MICROMOMENTOS
+// ============================================
+
+describe("blockMicromoments", () => {
+  it.each(["emergency", "urgent", "attention"] as const)("is set for %s", (severity) => {
+    expect(SAFETY_RULES[severity].blockMicromoments).toBe(true);
+  });
+
+  it("is set for a persistent low zone alone", () => {
+    const intervention = evaluateCheckinSafety({ emotionalState: persistentLowZone, now: NOW });
+
+    expect(intervention?.triggers).toEqual(["persistent_low_zone"]);
+    expect(intervention?.blockMicromoments).toBe(true);
+  });
+});
+
+// ============================================
+// LINGUAGEM DE CRISE POR ORIGEM
+// ============================================
+
+describe("crisis text", () => {
+  it.each([
+    ["hoje eu quero morrer", "suicidal_ideation"],
+    ["tive vontade de me machucar", "self_harm"],
+    ["tenho medo de machucar o bebe", "harm_to_baby"],
+  ] as const)("check-in notes %j → emergency (%s)", (notes, trigger) => {
+    const intervention = evaluateCheckinSafety({
+      textAnalysis: analyzeCheckinText({ notes }),
+      now: NOW,
+    });
+
+    expect(intervention).toMatchObject({ severity: "emergency", source: "checkin" });
+    expect(intervention?.triggers).toContain(trigger);
+  });
+
+  it("check-in hopelessness → urgent", () => {
+    const intervention = evaluateCheckinSafety({
+      textAnalysis: analyzeCheckinText({ notes: "nao aguento mais" }),
+      now: NOW,
+    });
+
+    expect(intervention).toMatchObject({ severity: "urgent", source: "checkin" });
+    expect(intervention?.triggers).toContain("hopelessness");
+  });
+
+  it("check-in distress language → attention", () => {
+    const intervention = evaluateCheckinSafety({
+      textAnalysis: analyzeCheckinText({ emotions: ["ansiosa", "triste", "cansada"] }),
+      now: NOW,
+    });
+
+    expect(intervention).toMatchObject({
+      severity: "attention",
+      source: "checkin",
+      triggers: ["distress_language"],
+    });
+  });
+
+  it.each([
+    ["Não consigo parar de pensar em suicídio", "suicidal_ideation"],
+    ["Às vezes penso em me cortar", "self_harm"],
+    ["tenho vontade de sacudir o bebe", "harm_to_baby"],
+  ] as const)("diary %j → emergency (%s)", (text, trigger) => {
+    const intervention = evaluateDiarySafety({ text, now: NOW });
+
+    expect(intervention).toMatchObject({ severity: "emergency", source: "diary" });
+    expect(intervention?.triggers).toContain(trigger);
+  });
+
+  it("diary hopelessness → urgent", () => {
+    expect(evaluateDiarySafety({ text: "me sinto sem esperança", now: NOW })).toMatchObject({
+      severity: "urgent",
+      source: "diary",
+    });
+  });
+
+  it("postpartum EPDS with item 10 scored → emergency, whatever the total", () => {
+    const answers = answersScoring(EPDS_QUESTIONS, (id) => (id === 10 ? 1 : 0));
+    const screening = scoreEPDS(answers, { daysSinceBirth: 30, now: NOW })!;
+
+    expect(screening.riskLevel).toBe("low");
+    expect(evaluateScreeningSafety(screening, NOW)).toMatchObject({
+      severity: "emergency",
+      source: "postpartum_screening",
+      triggers: ["self_harm"],
+    });
+  });
+
+  it("postpartum EPDS high → urgent", () => {
+    const screening = scoreEPDS(epdsScoring(2), {
+      daysSinceBirth: 30,
+      now: NOW,
+    })!;
+
+    expect(screening.riskLevel).toBe("high");
+    expect(evaluateScreeningSafety(screening, NOW)).toMatchObject({
+      severity: "urgent",
+      source: "postpartum_screening",
+      triggers: ["depression_risk_high"],
+    });
+  });
+
+  it("prenatal EPDS moderate → attention", () => {
+    const screening = scorePrenatalScreening("epds", epdsScoring(1, 2), {
+      gestationalWeek: 20,
+      now: NOW,
+    })!;
+
+    expect(screening.riskLevel).toBe("moderate");
+    expect(evaluateScreeningSafety(screening, NOW)).toMatchObject({
+      severity: "attention",
+      source: "prenatal_screening",
+      triggers: ["depression_risk_moderate"],
+    });
+  });
+
+  it.each([
+    [2, "moderate", "attention", "anxiety_risk_moderate"],
+    [3, "high", "urgent", "anxiety_risk_high"],
+  ] as const)("prenatal GAD-7 at %i per item → %s → %s", (score, riskLevel, severity, trigger) => {
+    const answers = answersScoring(GAD7_QUESTIONS, () => score);
+    const screening = scorePrenatalScreening("gad7", answers, { gestationalWeek: 20, now: NOW })!;
+
+    expect(screening.riskLevel).toBe(riskLevel);
+    expect(evaluateScreeningSafety(screening, NOW)).toMatchObject({
+      severity,
+      source: "prenatal_screening",
+      triggers: [trigger],
+    });
+  });
+
+  it("low screenings need no intervention", () => {
+    const screening = scorePrenatalScreening("gad7", answersScoring(GAD7_QUESTIONS, () => 0), {
+      gestationalWeek: 20,
+      now: NOW,
+    })!;
+
+    expect(evaluateScreeningSafety(screening, NOW)).toBeNull();
+  });
+});
+
+// ============================================
+// AUDITORIA
+// ============================================
+
+describe("toSafetyEvent", () => {
+  it("records the intervention without the user's text", () => {
+    const text = "hoje eu quero morrer";
+    const intervention = evaluateDiarySafety({ text, now: NOW })!;
+    const event = toSafetyEvent(intervention, "entry-1");
+
+    expect(event).toEqual({
+      action: "intervention_triggered",
+      source: "diary",
+      severity: "emergency",
+      triggers: intervention.triggers,
+      suppressedOutputLevels: ["L3", "L4"],
+      sourceRef: "entry-1",
+      timestamp: NOW.toISOString(),
+    });
+    expect(JSON.stringify(event)).not.toContain(text);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * @fluia/engines - Safety Engine
+ *
+ * Camada de segurança: avalia check-ins, entradas do diário e screenings
+ * do puerpério contra critérios de crise e devolve a intervenção.
+ *
+ * RESPONSABILIDADE:
+ * - Detectar critérios de crise (linguagem, estado persistente, screening)
+ * - Definir gravidade, recursos de ajuda e outputs suprimidos
+ * - Gerar o registro de auditoria (sem texto da usuária)
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Não diagnostica: acolhe e encaminha (SYSTEM_LIMITS.emergencyGuidance)
+ * - A maior gravidade vence; nunca "rebaixa" um sinal de crise
+ * - Não persiste nada (a API registra o SafetyEvent)
+ */
+
+import {
+  SAFETY_RESOURCES,
+  SYSTEM_DISCLAIMERS,
+  SYSTEM_LIMITS,
+  type OutputLevel,
+  type SafetyEvent,
+  type SafetyIntervention,
+  type SafetyResource,
+  type SafetySeverity,
+  type SafetySource,
+  type SafetyTrigger,
+  type ScreeningResult,
+  type TextAnalysis,
+} from "@fluia/contracts";
+import type { EmotionalState } from "./emotional-state-engine";
+import { analyzeCheckinText, hasDistressLanguage } from "./text-analysis-engine";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CheckinSafetyInput {
+  /** Estado emocional do dia (agregado; ausente se a derivação falhou) */
+  emotionalState?: EmotionalState;
+  /** Leitura das notas e emoções do dia */
+  textAnalysis?: TextAnalysis;
+  /** Instante da avaliação (default: agora) */
+  now?: Date;
+}
+
+export interface DiarySafetyInput {
+  /** Texto da entrada do diário */
+  text: string;
+  now?: Date;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Gravidade de cada critério */
+export const SAFETY_TRIGGER_SEVERITY: Record<SafetyTrigger, SafetySeverity> = {
+  suicidal_ideation: "emergency",
+  self_harm: "emergency",
+  harm_to_baby: "emergency",
+  hopelessness: "urgent",
+  depression_risk_high: "urgent",
+  anxiety_risk_high: "urgent",
+  persistent_low_zone: "attention",
+  distress_language: "attention",
+  depression_risk_moderate: "attention",
+  anxiety_risk_moderate: "attention",
+};
+
+/** O que cada gravidade exibe e suprime */
+export const SAFETY_RULES: Record<
+  SafetySeverity,
+  {
+    resources: SafetyResource[];
+    suppressedOutputLevels: OutputLevel[];
+    blockMicromoments: boolean;
+    emergencyGuidance: boolean;
+  }
+> = {
+  emergency: {
+    resources: [SAFETY_RESOURCES.cvv, SAFETY_RESOURCES.samu, SAFETY_RESOURCES.emergencyRoom],
+    suppressedOutputLevels: ["L3", "L4"],
+    blockMicromoments: true,
+    emergencyGuidance: true,
+  },
+  urgent: {
+    resources: [SAFETY_RESOURCES.cvv, SAFETY_RESOURCES.healthCare],
+    suppressedOutputLevels: ["L3", "L4"],
+    blockMicromoments: true,
+    emergencyGuidance: true,
+  },
+  attention: {
+    resources: [SAFETY_RESOURCES.healthCare, SAFETY_RESOURCES.cvv],
+    suppressedOutputLevels: ["L4"],
+    blockMicromoments: true,
+    emergencyGuidance: false,
+  },
+};
+
+/** Mensagens acolhedoras por gravidade */
+export const SAFETY_MESSAGES: Record<SafetySeverity, string> = {
+  emergency:
+    "Você não está sozinha. O que você sente importa muito, e agora é hora de pedir ajuda: ligue para o CVV (188), é gratuito e funciona 24h. Se estiver em perigo, ligue 192 ou vá ao pronto-socorro. 💜",
+  urgent:
+    "Percebemos que os dias estão muito pesados. Você não precisa passar por isso sozinha: conversar com um profissional pode ajudar, e o CVV (188) está disponível a qualquer hora. 💜",
+  attention:
+    "Parece que as coisas estão difíceis. Cuidar de você inclui pedir apoio: que tal contar para quem acompanha sua gestação como tem se sentido? 💜",
+};
+
+/** Ordem de gravidade (maior vence) */
+const SEVERITY_ORDER: SafetySeverity[] = ["attention", "urgent", "emergency"];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Monta a intervenção a partir dos critérios atingidos.
+ * Retorna null sem critérios.
+ */
+function buildIntervention(
+  source: SafetySource,
+  triggers: SafetyTrigger[],
+  now: Date
+): SafetyIntervention | null {
+  if (triggers.length === 0) return null;
+
+  const severity = triggers
+    .map((t) => SAFETY_TRIGGER_SEVERITY[t])
+    .reduce((a, b) => (SEVERITY_ORDER.indexOf(b) > SEVERITY_ORDER.indexOf(a) ? b : a));
+
+  const rules = SAFETY_RULES[severity];
+
+  return {
+    severity,
+    source,
+    triggers: Array.from(new Set(triggers)),
+    message: SAFETY_MESSAGES[severity],
+    ...(rules.emergencyGuidance &&
+      SYSTEM_LIMITS.emergencyGuidance && { emergencyGuidance: SYSTEM_DISCLAIMERS.emergency }),
+    resources: [...rules.resources],
+    suppressedOutputLevels: [...rules.suppressedOutputLevels],
+    blockMicromoments: rules.blockMicromoments,
+    evaluatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Critérios de linguagem (notas do check-in ou diário).
+ */
+function getTextTriggers(analysis: TextAnalysis | undefined): SafetyTrigger[] {
+  if (!analysis) return [];
+
+  const triggers: SafetyTrigger[] = analysis.riskSignals.map((s) => s.type);
+
+  if (hasDistressLanguage(analysis)) triggers.push("distress_language");
+
+  return triggers;
+}
+
+// ============================================
+// MAIN ENGINE FUNCTIONS
+// ============================================
+
+/**
+ * Avalia o check-in do dia.
+ */
+export function evaluateCheckinSafety(input: CheckinSafetyInput): SafetyIntervention | null {
+  const { emotionalState } = input;
+  const triggers = getTextTriggers(input.textAnalysis);
+
+  if (emotionalState?.trend?.persistence.lowZone) triggers.push("persistent_low_zone");
+
+  return buildIntervention("checkin", triggers, input.now ?? new Date());
+}
+
+/**
+ * Avalia uma entrada do diário (texto livre da usuária fora do check-in,
+ * ex.: nota de um marco pessoal).
+ */
+export function evaluateDiarySafety(input: DiarySafetyInput): SafetyIntervention | null {
+  const analysis = analyzeCheckinText({ notes: input.text });
+
+  return buildIntervention("diary", getTextTriggers(analysis), input.now ?? new Date());
+}
+
+/**
+ * Avalia o resultado de um questionário de rastreio (gestação ou puerpério).
+ * Item 10 da EPDS pontuado escala como autolesão, independente do total.
+ */
+export function evaluateScreeningSafety(
+  screening: ScreeningResult,
+  now: Date = new Date()
+): SafetyIntervention | null {
+  const triggers: SafetyTrigger[] = [];
+
+  if (screening.selfHarmRisk) triggers.push("self_harm");
+
+  const risk = screening.instrument === "gad7" ? "anxiety_risk" : "depression_risk";
+  if (screening.riskLevel === "high") triggers.push(`${risk}_high`);
+  if (screening.riskLevel === "moderate") triggers.push(`${risk}_moderate`);
+
+  const source = screening.period === "prenatal" ? "prenatal_screening" : "postpartum_screening";
+
+  return buildIntervention(source, triggers, now);
+}
+
+/**
+ * O nível de output pode ser exibido sob a intervenção?
+ */
+export function isOutputAllowedBySafety(
+  level: OutputLevel,
+  intervention: Pick<SafetyIntervention, "suppressedOutputLevels"> | null
+): boolean {
+  return !intervention?.suppressedOutputLevels.includes(level);
+}
+
+/**
+ * Registro de auditoria da intervenção (sem texto da usuária).
+ */
+export function toSafetyEvent(
+  intervention: SafetyIntervention,
+  sourceRef?: string
+): SafetyEvent {
+  return {
+    action: "intervention_triggered",
+    source: intervention.source,
+    severity: intervention.severity,
+    triggers: intervention.triggers,
+    suppressedOutputLevels: intervention.suppressedOutputLevels,
+    ...(sourceRef && { sourceRef }),
+    timestamp: intervention.evaluatedAt,
+  };
+}
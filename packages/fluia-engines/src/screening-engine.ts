@@ -0,0 +1,342 @@
+/**
+ * @fluia/engines - Screening Engine
+ *
+ * Questionários validados de rastreio emocional.
+ *
+ * RESPONSABILIDADE:
+ * - Pontuar EPDS (escala original, itens invertidos) e GAD-7
+ * - Classificar risco pelos pontos de corte validados
+ * - Escalonar o item 10 da EPDS (autolesão) independente do total
+ * - Agendar aplicações por fase do puerpério e por trimestre na gestação
+ *
+ * REGRAS FUNDAMENTAIS:
+ * - Rastreio não é diagnóstico: recomendações acolhem e encaminham
+ * - evaluatePPDRisk (check-ins) só antecipa a EPDS, nunca a substitui
+ * - Na gestação, dia vulnerável (isVulnerableState) antecipa o rastreio
+ * - Não persiste nada (a API grava o histórico)
+ */
+
+import {
+  EPDS_QUESTIONS,
+  EPDS_THRESHOLDS,
+  GAD7_QUESTIONS,
+  GAD7_THRESHOLDS,
+  getTrimesterFromWeeks,
+  type EPDSResult,
+  type EPDSScheduleStatus,
+  type PostpartumPhase,
+  type PPDRiskSignal,
+  type PrenatalScreeningResult,
+  type PrenatalScreeningScheduleStatus,
+  type ScreeningAnswer,
+  type ScreeningInstrument,
+  type ScreeningQuestion,
+  type ScreeningRiskLevel,
+  type Trimester,
+} from "@fluia/contracts";
+import { determinePhase } from "./postpartum-engine";
+import { isVulnerableState, type EmotionalState } from "./emotional-state-engine";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EPDSScoringContext {
+  /** Dias desde o nascimento */
+  daysSinceBirth: number;
+  now?: Date;
+}
+
+export interface EPDSScheduleInput {
+  /** Dias desde o nascimento */
+  daysSinceBirth: number;
+  /** Dia pós-parto da última aplicação (undefined = nunca respondeu) */
+  lastScreenedDay?: number;
+  /** Sinal dos check-ins recentes (evaluatePPDRisk) */
+  riskSignal?: PPDRiskSignal | null;
+}
+
+export interface PrenatalScoringContext {
+  gestationalWeek: number;
+  now?: Date;
+}
+
+export interface PrenatalScheduleInput {
+  gestationalWeek: number;
+  /** Questionários já respondidos na gestação */
+  history: Array<Pick<PrenatalScreeningResult, "instrument" | "gestationalWeek">>;
+  /** Estado emocional do dia (se houver check-in) */
+  emotionalState?: EmotionalState;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const EPDS_RULES = {
+  /** Primeira aplicação: antes disso, sintomas de baby blues são esperados */
+  FIRST_DAY: 14,
+  /** Rastreio cobre o primeiro ano */
+  LAST_DAY: 365,
+  /** Intervalo mínimo quando antecipada por sinal de risco */
+  RISK_SIGNAL_MIN_INTERVAL_DAYS: 7,
+} as const;
+
+/**
+ * Intervalo entre aplicações por fase (dias).
+ * null = não agendar nesta fase.
+ */
+export const EPDS_SCHEDULE: Record<PostpartumPhase, number | null> = {
+  immediate: null,
+  early: 14,
+  late: 28,
+  extended: 60,
+};
+
+/**
+ * Rastreio pré-natal por trimestre.
+ * Cada questionário é oferecido uma vez por trimestre, a partir de fromWeek.
+ */
+export const PRENATAL_SCREENING_SCHEDULE: Record<
+  Trimester,
+  { fromWeek: number; instruments: ScreeningInstrument[] }
+> = {
+  1: { fromWeek: 8, instruments: ["gad7", "epds"] },
+  2: { fromWeek: 20, instruments: ["gad7", "epds"] },
+  3: { fromWeek: 32, instruments: ["gad7", "epds"] },
+};
+
+export const PRENATAL_SCREENING_RULES = {
+  /** Intervalo mínimo (semanas) quando antecipado por dia vulnerável */
+  VULNERABLE_MIN_INTERVAL_WEEKS: 2,
+  /** Última semana de rastreio na gestação */
+  LAST_WEEK: 40,
+} as const;
+
+const QUESTIONS: Record<ScreeningInstrument, ScreeningQuestion[]> = {
+  epds: EPDS_QUESTIONS,
+  gad7: GAD7_QUESTIONS,
+};
+
+const EPDS_RECOMMENDATIONS: Record<ScreeningRiskLevel, string> = {
+  low: "Suas respostas não indicam sinais de depressão agora. Continue cuidando de você e volte a responder no próximo convite. 💜",
+  moderate:
+    "Suas respostas mostram alguns sinais que merecem cuidado. Conte para quem acompanha você como tem se sentido — pedir apoio faz parte. 💜",
+  high: "Suas respostas mostram sinais importantes. Você não precisa passar por isso sozinha: procure um profissional de saúde para conversar. Isso tem tratamento. 💜",
+};
+
+const GAD7_RECOMMENDATIONS: Record<ScreeningRiskLevel, string> = {
+  low: "Suas respostas não indicam ansiedade importante agora. Preocupações fazem parte da gestação — siga se cuidando. 💜",
+  moderate:
+    "Suas respostas mostram uma ansiedade que merece cuidado. Converse no pré-natal sobre como tem se sentido — você não precisa carregar isso sozinha. 💜",
+  high: "Suas respostas mostram uma ansiedade intensa. Procure um profissional de saúde para conversar: isso tem tratamento, inclusive na gestação. 💜",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function classify(
+  totalScore: number,
+  thresholds: { MODERATE: number; HIGH: number }
+): ScreeningRiskLevel {
+  if (totalScore >= thresholds.HIGH) return "high";
+  if (totalScore >= thresholds.MODERATE) return "moderate";
+  return "low";
+}
+
+/**
+ * Pontua as respostas de um questionário.
+ * Retorna null se faltar algum item ou houver opção inválida.
+ */
+function scoreAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswer[]
+): { answers: ScreeningAnswer[]; scores: Map<number, number>; totalScore: number } | null {
+  const byQuestion = new Map(answers.map((a) => [a.questionId, a.optionIndex]));
+
+  if (byQuestion.size !== questions.length) return null;
+
+  const scores = new Map<number, number>();
+
+  for (const question of questions) {
+    const option = question.options[byQuestion.get(question.id) ?? -1];
+    if (!option) return null;
+    scores.set(question.id, option.score);
+  }
+
+  return {
+    // Normaliza na ordem dos itens
+    answers: questions.map((q) => ({ questionId: q.id, optionIndex: byQuestion.get(q.id)! })),
+    scores,
+    totalScore: Array.from(scores.values()).reduce((sum, score) => sum + score, 0),
+  };
+}
+
+// ============================================
+// MAIN ENGINE FUNCTIONS
+// ============================================
+
+/**
+ * Pontua a EPDS.
+ * Retorna null se faltar algum item ou houver opção inválida.
+ */
+export function scoreEPDS(
+  answers: ScreeningAnswer[],
+  context: EPDSScoringContext
+): EPDSResult | null {
+  const scored = scoreAnswers(EPDS_QUESTIONS, answers);
+  if (!scored) return null;
+
+  const selfHarmScore = scored.scores.get(EPDS_THRESHOLDS.SELF_HARM_ITEM) ?? 0;
+  const selfHarmRisk = selfHarmScore > 0;
+  const riskLevel = classify(scored.totalScore, EPDS_THRESHOLDS);
+
+  return {
+    instrument: "epds",
+    period: "postpartum",
+    answers: scored.answers,
+    totalScore: scored.totalScore,
+    selfHarmScore,
+    selfHarmRisk,
+    riskLevel,
+    recommendation: EPDS_RECOMMENDATIONS[riskLevel],
+    suggestProfessionalHelp: riskLevel === "high" || selfHarmRisk,
+    phase: determinePhase(context.daysSinceBirth),
+    daysSinceBirth: context.daysSinceBirth,
+    screenedAt: (context.now ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Pontua um questionário pré-natal (EPDS antenatal ou GAD-7).
+ * Retorna null se faltar algum item ou houver opção inválida.
+ */
+export function scorePrenatalScreening(
+  instrument: ScreeningInstrument,
+  answers: ScreeningAnswer[],
+  context: PrenatalScoringContext
+): PrenatalScreeningResult | null {
+  const scored = scoreAnswers(QUESTIONS[instrument], answers);
+  if (!scored) return null;
+
+  const isEPDS = instrument === "epds";
+  const selfHarmScore = isEPDS ? scored.scores.get(EPDS_THRESHOLDS.SELF_HARM_ITEM) ?? 0 : 0;
+  const selfHarmRisk = selfHarmScore > 0;
+  const riskLevel = classify(scored.totalScore, isEPDS ? EPDS_THRESHOLDS : GAD7_THRESHOLDS);
+
+  return {
+    instrument,
+    period: "prenatal",
+    answers: scored.answers,
+    totalScore: scored.totalScore,
+    ...(isEPDS && { selfHarmScore }),
+    selfHarmRisk,
+    riskLevel,
+    recommendation: (isEPDS ? EPDS_RECOMMENDATIONS : GAD7_RECOMMENDATIONS)[riskLevel],
+    suggestProfessionalHelp: riskLevel === "high" || selfHarmRisk,
+    trimester: getTrimesterFromWeeks(context.gestationalWeek),
+    gestationalWeek: context.gestationalWeek,
+    screenedAt: (context.now ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * A EPDS deve ser oferecida hoje?
+ *
+ * FLUXO:
+ * 1. Fora da janela (antes de FIRST_DAY / depois de LAST_DAY) → não
+ * 2. Nunca respondeu → first
+ * 3. Intervalo da fase venceu → scheduled
+ * 4. Sinal de risco dos check-ins e intervalo mínimo cumprido → risk_signal
+ */
+export function getEPDSScheduleStatus(input: EPDSScheduleInput): EPDSScheduleStatus {
+  const { daysSinceBirth, lastScreenedDay, riskSignal } = input;
+  const phase = determinePhase(daysSinceBirth);
+
+  const status = (
+    isDue: boolean,
+    reason: EPDSScheduleStatus["reason"],
+    nextDueDay: number | null
+  ): EPDSScheduleStatus => ({
+    isDue,
+    reason,
+    phase,
+    nextDueDay: nextDueDay !== null && nextDueDay <= EPDS_RULES.LAST_DAY ? nextDueDay : null,
+  });
+
+  if (daysSinceBirth > EPDS_RULES.LAST_DAY) return status(false, null, null);
+
+  if (lastScreenedDay === undefined) {
+    return daysSinceBirth >= EPDS_RULES.FIRST_DAY
+      ? status(true, "first", daysSinceBirth)
+      : status(false, null, EPDS_RULES.FIRST_DAY);
+  }
+
+  const interval = EPDS_SCHEDULE[phase];
+  if (interval === null) return status(false, null, EPDS_RULES.FIRST_DAY);
+
+  const nextDueDay = lastScreenedDay + interval;
+
+  if (daysSinceBirth >= nextDueDay) {
+    return status(true, "scheduled", daysSinceBirth);
+  }
+
+  if (
+    riskSignal?.suggestScreening &&
+    daysSinceBirth - lastScreenedDay >= EPDS_RULES.RISK_SIGNAL_MIN_INTERVAL_DAYS
+  ) {
+    return status(true, "risk_signal", daysSinceBirth);
+  }
+
+  return status(false, null, nextDueDay);
+}
+
+/**
+ * Quais questionários pré-natais oferecer hoje?
+ *
+ * FLUXO (por questionário):
+ * 1. Ainda não respondido neste trimestre e fromWeek atingida → scheduled
+ * 2. Dia vulnerável (mesma regra do isVulnerableState) e intervalo mínimo
+ *    desde a última resposta → vulnerable_state
+ */
+export function getPrenatalScreeningSchedule(
+  input: PrenatalScheduleInput
+): PrenatalScreeningScheduleStatus {
+  const { gestationalWeek, history, emotionalState } = input;
+  const trimester = getTrimesterFromWeeks(gestationalWeek);
+  const { fromWeek, instruments } = PRENATAL_SCREENING_SCHEDULE[trimester];
+  const vulnerable = !!emotionalState && isVulnerableState(emotionalState);
+
+  const due: PrenatalScreeningScheduleStatus["due"] = [];
+  let pendingThisTrimester = false;
+
+  if (gestationalWeek <= PRENATAL_SCREENING_RULES.LAST_WEEK) {
+    for (const instrument of instruments) {
+      const weeks = history.filter((h) => h.instrument === instrument).map((h) => h.gestationalWeek);
+      const answeredThisTrimester = weeks.some((w) => getTrimesterFromWeeks(w) === trimester);
+      const lastWeek = weeks.length > 0 ? Math.max(...weeks) : undefined;
+
+      if (!answeredThisTrimester && gestationalWeek >= fromWeek) {
+        due.push({ instrument, reason: "scheduled" });
+      } else if (
+        vulnerable &&
+        (lastWeek === undefined ||
+          gestationalWeek - lastWeek >= PRENATAL_SCREENING_RULES.VULNERABLE_MIN_INTERVAL_WEEKS)
+      ) {
+        due.push({ instrument, reason: "vulnerable_state" });
+      } else if (!answeredThisTrimester) {
+        pendingThisTrimester = true;
+      }
+    }
+  }
+
+  const nextTrimester = trimester < 3 ? ((trimester + 1) as Trimester) : null;
+  const nextDueWeek = pendingThisTrimester
+    ? fromWeek
+    : nextTrimester
+      ? PRENATAL_SCREENING_SCHEDULE[nextTrimester].fromWeek
+      : null;
+
+  return { trimester, gestationalWeek, due, nextDueWeek };
+}
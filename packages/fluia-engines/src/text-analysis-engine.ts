@@ -0,0 +1,198 @@
+/**
+ * @fluia/engines - Text Analysis Engine
+ *
+ * Lê as notas livres e as emoções do check-in.
+ *
+ * RESPONSABILIDADE:
+ * - Reconhecer emoções nas notas (além de EMOTION_TAGS)
+ * - Contar valência (tags selecionadas + notas)
+ * - Detectar linguagem de crise / risco
+ *
+ * REGRAS:
+ * - 100% local (léxico pt-BR): o texto nunca vai para serviço externo
+ * - O resultado não guarda trechos do texto
+ * - Sinais de risco ignoram negação: na dúvida, acolher
+ * - Não é diagnóstico: alimenta flags do estado emocional e a camada de segurança
+ */
+
+import type {
+  DetectedEmotionTag,
+  EmotionValence,
+  RiskSignal,
+  RiskSignalType,
+  TextAnalysis,
+} from "@fluia/contracts";
+import {
+  TEXT_LEXICON_VERSION,
+  NEGATION_TERMS,
+  EMOTION_LEXICON,
+  RISK_LEXICON,
+} from "./data/text-lexicon-pt-br";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TextAnalysisInput {
+  /** Notas livres do check-in */
+  notes?: string;
+  /** Emoções selecionadas (tags) */
+  emotions?: string[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const TEXT_ANALYSIS_RULES = {
+  /** Palavras antes do termo em que uma negação o anula */
+  NEGATION_WINDOW: 2,
+  /** Emoções negativas (sem predominância positiva) para "linguagem de sofrimento" */
+  DISTRESS_MIN_NEGATIVE: 3,
+} as const;
+
+/** Termo do léxico já separado em palavras */
+type CompiledTerm = string[];
+
+function compile(terms: string[]): CompiledTerm[] {
+  return terms.map((term) => term.split(" "));
+}
+
+type EmotionEntry = (typeof EMOTION_LEXICON)[DetectedEmotionTag];
+type RiskEntry = (typeof RISK_LEXICON)[RiskSignalType];
+
+const COMPILED_EMOTIONS = (Object.entries(EMOTION_LEXICON) as [DetectedEmotionTag, EmotionEntry][])
+  .map(([tag, entry]) => ({ tag, terms: compile(entry.terms) }));
+
+const COMPILED_RISKS = (Object.entries(RISK_LEXICON) as [RiskSignalType, RiskEntry][])
+  .map(([type, entry]) => ({ type, severity: entry.severity, terms: compile(entry.terms) }));
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Minúsculas, sem acentos, só letras → palavras.
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+function matchesWord(token: string, pattern: string): boolean {
+  return pattern.endsWith("*") ? token.startsWith(pattern.slice(0, -1)) : token === pattern;
+}
+
+/**
+ * Posições em que o termo aparece.
+ */
+function findTerm(tokens: string[], term: CompiledTerm): number[] {
+  const positions: number[] = [];
+
+  for (let i = 0; i + term.length <= tokens.length; i++) {
+    if (term.every((pattern, j) => matchesWord(tokens[i + j], pattern))) {
+      positions.push(i);
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Há negação logo antes da posição? ("não estou feliz")
+ */
+function isNegated(tokens: string[], position: number): boolean {
+  const window = tokens.slice(
+    Math.max(0, position - TEXT_ANALYSIS_RULES.NEGATION_WINDOW),
+    position
+  );
+  return window.some((token) => NEGATION_TERMS.includes(token));
+}
+
+/**
+ * Emoção presente (e não negada) no texto?
+ */
+function hasEmotion(tokens: string[], terms: CompiledTerm[]): boolean {
+  return terms.some((term) =>
+    findTerm(tokens, term).some((position) => !isNegated(tokens, position))
+  );
+}
+
+function valenceOf(tag: string): EmotionValence | undefined {
+  return EMOTION_LEXICON[tag as DetectedEmotionTag]?.valence;
+}
+
+// ============================================
+// MAIN ENGINE FUNCTIONS
+// ============================================
+
+/**
+ * Analisa notas e emoções de um check-in.
+ */
+export function analyzeCheckinText(input: TextAnalysisInput): TextAnalysis {
+  const selected = input.emotions ?? [];
+  const tokens = tokenize(input.notes ?? "");
+
+  const detectedEmotions = COMPILED_EMOTIONS.filter(
+    ({ tag, terms }) => !selected.includes(tag) && hasEmotion(tokens, terms)
+  ).map(({ tag }) => tag);
+
+  // Risco: sem checagem de negação
+  const riskSignals: RiskSignal[] = COMPILED_RISKS.filter(({ terms }) =>
+    terms.some((term) => findTerm(tokens, term).length > 0)
+  ).map(({ type, severity }) => ({ type, severity }));
+
+  const all = [...selected, ...detectedEmotions];
+
+  return {
+    detectedEmotions,
+    valence: {
+      positive: all.filter((tag) => valenceOf(tag) === "positive").length,
+      negative: all.filter((tag) => valenceOf(tag) === "negative").length,
+    },
+    riskSignals,
+    hasCrisisLanguage: riskSignals.some((s) => s.severity === "crisis"),
+    lexiconVersion: TEXT_LEXICON_VERSION,
+  };
+}
+
+/**
+ * Combina análises (ex: sessões do dia).
+ * Um sinal de crise em qualquer sessão vale para o dia todo.
+ */
+export function mergeTextAnalyses(analyses: TextAnalysis[]): TextAnalysis {
+  const riskSignals = new Map<RiskSignalType, RiskSignal>();
+
+  for (const signal of analyses.flatMap((a) => a.riskSignals)) {
+    riskSignals.set(signal.type, signal);
+  }
+
+  return {
+    detectedEmotions: Array.from(new Set(analyses.flatMap((a) => a.detectedEmotions))),
+    valence: {
+      positive: analyses.reduce((sum, a) => sum + a.valence.positive, 0),
+      negative: analyses.reduce((sum, a) => sum + a.valence.negative, 0),
+    },
+    riskSignals: Array.from(riskSignals.values()),
+    hasCrisisLanguage: analyses.some((a) => a.hasCrisisLanguage),
+    lexiconVersion: TEXT_LEXICON_VERSION,
+  };
+}
+
+/**
+ * Linguagem de sofrimento: sinal de atenção ou predominância de emoções negativas.
+ */
+export function hasDistressLanguage(analysis: TextAnalysis): boolean {
+  const { positive, negative } = analysis.valence;
+
+  return (
+    analysis.riskSignals.some((s) => s.severity === "concern") ||
+    (negative >= TEXT_ANALYSIS_RULES.DISTRESS_MIN_NEGATIVE && negative > positive)
+  );
+}
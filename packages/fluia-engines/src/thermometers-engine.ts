@@ -309,9 +309,11 @@ export function formatPeriod(start: string, end: string): string {
   const startDate = new Date(start);
   const endDate = new Date(end);
   
+  // DateKeys já são locais: formatar sem deslocar o dia
   const formatter = new Intl.DateTimeFormat("pt-BR", {
     day: "numeric",
     month: "short",
+    timeZone: "UTC",
   });
   
   return `${formatter.format(startDate)} - ${formatter.format(endDate)}`;
@@ -8,6 +8,8 @@
  * - Coletar feedback simples
  * - Calcular streaks e badges
  * - SEMPRE reconhecer esforço, não resultado
+ *
+ * Feedbacks e badges vêm do pacote de conteúdo ativo (content-loader).
  * 
  * REGRAS FUNDAMENTAIS (Documento p.18):
  * - Taxa de sucesso esperada ≥ 90%
@@ -16,7 +18,16 @@
  * - Concluir = microvitória
  */
 
-import type { TrainingPrescription } from "./prescription-engine";
+import type { TrainingPrescription, MetricKey } from "./prescription-engine";
+import {
+  daysBetween,
+  getDateKey,
+  type FeedbackTemplate,
+  type Badge as ContentBadge,
+  type BadgeCondition,
+} from "@fluia/contracts";
+import { getActiveContent } from "./content-loader";
+import { pickOne, type Rng } from "./utils/random";
 
 // ============================================
 // TYPES
@@ -71,10 +82,20 @@ export interface TrainingCompleteInput {
     currentStreak?: number;
     longestStreak?: number;
     totalCompleted?: number;
+    /** Concluídos por categoria (antes deste treino) */
+    completedByCategory?: Partial<Record<MetricKey, number>>;
+    /** Badges já conquistados (não são concedidos de novo) */
+    earnedBadgeIds?: string[];
   };
+  /** Dia atual YYYY-MM-DD (default: hoje no timezone padrão, reset 04:00) */
+  today?: string;
+  /** RNG do feedback (use createDailyRng(uid, dateKey) para resultado estável) */
+  rng?: Rng;
 }
 
 export interface TrainingCompleteResponse {
+  /** Treino concluído (>= 70% do tempo esperado) */
+  completed: boolean;
   /** Feedback imediato */
   feedback: TrainingFeedback;
   /** Badge conquistado (se aplicável) */
@@ -89,64 +110,12 @@ export interface TrainingCompleteResponse {
 // CONSTANTS
 // ============================================
 
-/** Catálogo de badges */
-const BADGE_CATALOG: Badge[] = [
-  {
-    id: "first-step",
-    name: "Primeiro Passo",
-    description: "Você completou seu primeiro treino!",
-    icon: "🌱",
-  },
-  {
-    id: "week-streak",
-    name: "Uma Semana",
-    description: "7 dias seguidos cuidando de você!",
-    icon: "✨",
-  },
-  {
-    id: "month-streak",
-    name: "Um Mês",
-    description: "30 dias de presença e cuidado!",
-    icon: "🌟",
-  },
-  {
-    id: "breathing-master",
-    name: "Respiração Consciente",
-    description: "Completou 10 treinos de respiração",
-    icon: "🌬️",
-  },
-  {
-    id: "bond-master",
-    name: "Conexão Profunda",
-    description: "Completou 10 treinos de vínculo",
-    icon: "💗",
-  },
-  {
-    id: "mindfulness-master",
-    name: "Atenção Plena",
-    description: "Completou 10 treinos de mindfulness",
-    icon: "🧘",
-  },
-];
-
-/** Templates de feedback por tom */
-const FEEDBACK_TEMPLATES = {
-  warm: [
-    "Você dedicou esse tempo para vocês duas. Isso importa. 💜",
-    "Cada treino é um cuidado. E você acabou de se cuidar. 🌸",
-    "Parar para praticar já é uma vitória. Parabéns! ✨",
-  ],
-  celebratory: [
-    "Incrível! Você está construindo um hábito lindo! 🌟",
-    "Que orgulho! Mais um treino completado! 🎉",
-    "Você está indo tão bem! Continue assim! 💪",
-  ],
-  gentle: [
-    "Você fez o possível hoje. E isso é suficiente. 💜",
-    "Obrigada por esse momento de presença. 🌸",
-    "Concluir é sempre uma vitória, não importa como foi. ✨",
-  ],
-} as const;
+/** Contexto do feedback (pacote de conteúdo) por tom */
+const FEEDBACK_CONTEXT_BY_TONE: Record<FeedbackTone, FeedbackTemplate["context"]> = {
+  warm: "completion",
+  celebratory: "streak",
+  gentle: "difficult_day",
+};
 
 // ============================================
 // CORE FUNCTIONS
@@ -168,12 +137,11 @@ function isTrainingCompleted(
  * Calcula streak atualizado.
  */
 function calculateStreak(
+  today: string,
   lastCompletedDate: string | undefined,
   currentStreak: number = 0,
   longestStreak: number = 0
 ): StreakInfo {
-  const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-
   if (!lastCompletedDate) {
     // Primeiro treino
     return {
@@ -183,10 +151,8 @@ function calculateStreak(
     };
   }
 
-  // Calcular diferença em dias
-  const lastDate = new Date(lastCompletedDate);
-  const todayDate = new Date(today);
-  const diffDays = Math.floor((todayDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
+  // Calcular diferença em dias (dateKeys já consideram timezone + reset)
+  const diffDays = daysBetween(lastCompletedDate, today);
 
   let newCurrent = currentStreak;
   let atRisk = false;
@@ -213,44 +179,66 @@ function calculateStreak(
 }
 
 /**
- * Verifica se deve conceder badge.
+ * Badge do pacote de conteúdo → badge exibido.
  */
-function checkBadgeAward(
-  totalCompleted: number,
-  currentStreak: number,
-  trainingType: string
-): Badge | undefined {
-  // Primeiro treino
-  if (totalCompleted === 1) {
-    return BADGE_CATALOG.find(b => b.id === "first-step");
-  }
+function toBadge({ id, name, description, icon }: ContentBadge): Badge {
+  return { id, name, description, icon };
+}
 
-  // Streak de 7 dias
-  if (currentStreak === 7) {
-    return BADGE_CATALOG.find(b => b.id === "week-streak");
+/**
+ * Condição de badge atingida exatamente neste treino.
+ */
+function meetsBadgeCondition(
+  condition: BadgeCondition,
+  progress: {
+    totalCompleted: number;
+    currentStreak: number;
+    category: MetricKey;
+    categoryCompleted: number;
   }
-
-  // Streak de 30 dias
-  if (currentStreak === 30) {
-    return BADGE_CATALOG.find(b => b.id === "month-streak");
+): boolean {
+  switch (condition.type) {
+    case "first_training":
+      return progress.totalCompleted === 1;
+    case "streak":
+      return progress.currentStreak === condition.value;
+    case "total_trainings":
+      return progress.totalCompleted === condition.value;
+    case "category_focus":
+      return (
+        progress.category === condition.category &&
+        progress.categoryCompleted === condition.value
+      );
+    default:
+      // first_checkin não é avaliado aqui
+      return false;
   }
+}
 
-  // Masters (10 treinos do mesmo tipo)
-  // TODO: implementar contagem por tipo quando tivermos histórico detalhado
+/**
+ * Verifica se deve conceder badge (primeiro do catálogo ainda não conquistado).
+ */
+function checkBadgeAward(
+  progress: Parameters<typeof meetsBadgeCondition>[1],
+  earnedBadgeIds: string[]
+): Badge | undefined {
+  const badge = getActiveContent().badges.find(
+    (b) => !earnedBadgeIds.includes(b.id) && meetsBadgeCondition(b.condition, progress)
+  );
 
-  return undefined;
+  return badge ? toBadge(badge) : undefined;
 }
 
 /**
- * Seleciona mensagem de feedback apropriada.
+ * Seleciona mensagem de feedback do pacote de conteúdo.
+ * (O loader garante mensagens para todos os contextos.)
  */
 function selectFeedback(
-  tone: FeedbackTone,
-  hasStreak: boolean
+  context: FeedbackTemplate["context"],
+  rng: Rng
 ): string {
-  const templates = FEEDBACK_TEMPLATES[tone];
-  const randomIndex = Math.floor(Math.random() * templates.length);
-  return templates[randomIndex];
+  const template = getActiveContent().feedbacks.find((f) => f.context === context);
+  return pickOne(template?.messages ?? [], rng);
 }
 
 /**
@@ -310,6 +298,8 @@ export function processTrainingCompletion(
     actualDurationSeconds,
     userFeedback,
     trainingHistory = {},
+    today = getDateKey(),
+    rng = Math.random,
   } = input;
 
   // 1. Verificar se foi completado
@@ -321,8 +311,9 @@ export function processTrainingCompletion(
   if (!completed) {
     // Treino não completado - feedback gentil
     return {
+      completed: false,
       feedback: {
-        message: "Tudo bem não completar. Você já fez o importante: parou para tentar. 💜",
+        message: selectFeedback("incomplete", rng),
         tone: "gentle",
       },
       micromomentEligible: false,
@@ -336,6 +327,7 @@ export function processTrainingCompletion(
 
   // 2. Calcular streak
   const streakInfo = calculateStreak(
+    today,
     trainingHistory.lastCompletedDate,
     trainingHistory.currentStreak,
     trainingHistory.longestStreak
@@ -343,17 +335,25 @@ export function processTrainingCompletion(
 
   // 3. Verificar badge
   const totalCompleted = (trainingHistory.totalCompleted || 0) + 1;
+  const category = training.focusMetric;
   const badgeAwarded = checkBadgeAward(
-    totalCompleted,
-    streakInfo.current,
-    training.type
+    {
+      totalCompleted,
+      currentStreak: streakInfo.current,
+      category,
+      categoryCompleted: (trainingHistory.completedByCategory?.[category] || 0) + 1,
+    },
+    trainingHistory.earnedBadgeIds ?? []
   );
 
   // 4. Determinar tom do feedback
   const tone = determineFeedbackTone(userFeedback, streakInfo.current);
 
-  // 5. Selecionar mensagem
-  const message = selectFeedback(tone, streakInfo.current > 1);
+  // 5. Selecionar mensagem (primeiro treino tem mensagem própria)
+  const message = selectFeedback(
+    totalCompleted === 1 ? "firstTime" : FEEDBACK_CONTEXT_BY_TONE[tone],
+    rng
+  );
 
   // 6. Verificar elegibilidade para micromoment
   const micromomentEligible = checkMicromomentEligibility(
@@ -362,6 +362,7 @@ export function processTrainingCompletion(
   );
 
   return {
+    completed: true,
     feedback: {
       message,
       tone,
@@ -381,14 +382,15 @@ export function processTrainingCompletion(
  * Retorna todos os badges disponíveis.
  */
 export function getAllBadges(): Badge[] {
-  return [...BADGE_CATALOG];
+  return getActiveContent().badges.map(toBadge);
 }
 
 /**
  * Busca badge por ID.
  */
 export function getBadgeById(id: string): Badge | undefined {
-  return BADGE_CATALOG.find(b => b.id === id);
+  const badge = getActiveContent().badges.find((b) => b.id === id);
+  return badge ? toBadge(badge) : undefined;
 }
 
 /**
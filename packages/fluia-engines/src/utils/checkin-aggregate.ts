@@ -0,0 +1,71 @@
+/**
+ * @fluia/engines - Check-in Aggregate
+ *
+ * Agregado diário dos check-ins por momento do dia.
+ * É o agregado que alimenta estado emocional, métricas e termômetros.
+ *
+ * REGRAS:
+ * - Cada dimensão = média das sessões, arredondada
+ * - Empate (x.5) arredonda para BAIXO: um momento difícil não some no dia
+ * - Emoções = união de todas as sessões (ordem de aparição)
+ * - Momento e notas = sessão mais recente
+ */
+
+import type {
+  CheckinDimensions,
+  CheckinSession,
+  DayMoment,
+  ScaleValue,
+} from "@fluia/contracts";
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Campos de topo do check-in do dia.
+ */
+export interface DailyCheckinAggregate {
+  dimensions: CheckinDimensions;
+  moment: DayMoment;
+  emotions?: string[];
+  notes?: string;
+}
+
+// ============================================
+// AGREGAÇÃO
+// ============================================
+
+/**
+ * Média arredondada com empate para baixo.
+ */
+function aggregateDimension(values: ScaleValue[]): ScaleValue {
+  const mean = values.reduce<number>((sum, v) => sum + v, 0) / values.length;
+  return Math.ceil(mean - 0.5) as ScaleValue;
+}
+
+/**
+ * Agrega as sessões do dia (ao menos uma).
+ */
+export function aggregateCheckinSessions(sessions: CheckinSession[]): DailyCheckinAggregate {
+  if (sessions.length === 0) {
+    throw new Error("[CheckinAggregate] At least one session is required");
+  }
+
+  const latest = sessions.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a));
+  const emotions = Array.from(new Set(sessions.flatMap((s) => s.emotions ?? [])));
+
+  const dimensions = Object.fromEntries(
+    (Object.keys(latest.dimensions) as (keyof CheckinDimensions)[]).map((key) => [
+      key,
+      aggregateDimension(sessions.map((s) => s.dimensions[key])),
+    ])
+  ) as unknown as CheckinDimensions;
+
+  return {
+    dimensions,
+    moment: latest.moment,
+    ...(emotions.length > 0 && { emotions }),
+    ...(latest.notes && { notes: latest.notes }),
+  };
+}
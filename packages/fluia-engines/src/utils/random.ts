@@ -0,0 +1,95 @@
+/**
+ * @fluia/engines - Random
+ *
+ * Aleatoriedade determinística e injetável para as engines de conteúdo.
+ *
+ * REGRA:
+ * Semente = uid + dateKey → a mensagem do dia é a mesma a cada recarga,
+ * e testes podem fixar as saídas com uma semente conhecida.
+ */
+
+import type { DateKey } from "@fluia/contracts";
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Gerador de números em [0, 1), mesma assinatura de Math.random.
+ */
+export type Rng = () => number;
+
+// ============================================
+// GERADORES
+// ============================================
+
+/**
+ * Hash de string para semente de 32 bits (xmur3).
+ */
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Cria RNG determinístico a partir de uma semente (mulberry32).
+ */
+export function createSeededRng(seed: string): Rng {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * RNG do dia da usuária.
+ * O escopo separa sequências independentes (ex: "baby-voice", "diary").
+ */
+export function createDailyRng(uid: string, dateKey: DateKey, scope?: string): Rng {
+  return createSeededRng(scope ? `${uid}:${dateKey}:${scope}` : `${uid}:${dateKey}`);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Inteiro em [0, max).
+ */
+export function randomInt(max: number, rng: Rng = Math.random): number {
+  return Math.floor(rng() * max);
+}
+
+/**
+ * Seleciona um item do array.
+ */
+export function pickOne<T>(items: readonly T[], rng: Rng = Math.random): T {
+  return items[randomInt(items.length, rng)];
+}
+
+/**
+ * Embaralha sem viés (Fisher-Yates). Não altera o array original.
+ */
+export function shuffle<T>(items: readonly T[], rng: Rng = Math.random): T[] {
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, rng);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
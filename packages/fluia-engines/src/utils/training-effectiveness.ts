@@ -0,0 +1,257 @@
+/**
+ * @fluia/engines - Training Effectiveness
+ *
+ * Modelo de efetividade por usuária para a prescrição adaptativa.
+ *
+ * MODELO:
+ * Bandit por problema (targetsProblem) sobre os treinos do catálogo.
+ * - Recompensa (0-1) vem do feedback pós-treino:
+ *   emotionalShift (como se sentiu) e perceivedEffort (esforço percebido)
+ * - Treino abandonado (< 70% do tempo) = recompensa 0
+ * - Score = média suavizada + bônus de exploração (UCB)
+ * - Sem histórico, todos empatam e vale a ordem curada do catálogo
+ *
+ * REGRA ÉTICA:
+ * O modelo só ordena candidatos já seguros para a zona do dia.
+ * Nunca aumenta intensidade nem remove a opção de fallback.
+ */
+
+import { daysBetween, type DateKey } from "@fluia/contracts";
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Resultado de um treino prescrito (histórico).
+ */
+export interface TrainingOutcome {
+  /** ID do treino do catálogo */
+  trainingId: string;
+  /** Problema que o treino atacava */
+  problem: string;
+  /** Dia do treino */
+  dateKey: DateKey;
+  /** Concluído (>= 70% do tempo) ou abandonado */
+  completed: boolean;
+  /** Como se sentiu após (1-5) */
+  emotionalShift?: 1 | 2 | 3 | 4 | 5;
+  /** Esforço percebido (1-5) */
+  perceivedEffort?: 1 | 2 | 3 | 4 | 5;
+}
+
+/**
+ * Estatísticas de um treino para um problema.
+ */
+export interface TrainingArmStats {
+  attempts: number;
+  completions: number;
+  abandoned: number;
+  /** Soma das recompensas (0-1 cada) */
+  rewardSum: number;
+}
+
+/**
+ * Modelo de efetividade da usuária.
+ */
+export interface TrainingEffectiveness {
+  /** problema → treino → estatísticas */
+  byProblem: Record<string, Record<string, TrainingArmStats>>;
+  /** Último abandono por treino (qualquer problema) */
+  lastAbandoned: Record<string, DateKey>;
+}
+
+/**
+ * Motivo da escolha adaptativa (explicado no "por que isso ajuda").
+ */
+export type AdaptiveReason = "effective" | "avoidedAbandoned";
+
+// ============================================
+// CONSTANTES
+// ============================================
+
+export const ADAPTIVE_RULES = {
+  /** Janela de histórico considerada (dias) */
+  HISTORY_DAYS: 90,
+  /** Média a priori de um treino sem histórico */
+  PRIOR_MEAN: 0.5,
+  /** Peso da priori (em tentativas) */
+  PRIOR_WEIGHT: 2,
+  /** Peso do bônus de exploração */
+  EXPLORATION: 0.3,
+  /** Dias sem repetir um treino abandonado */
+  ABANDON_COOLDOWN_DAYS: 7,
+  /** Conclusões mínimas para dizer que "já ajudou" */
+  EFFECTIVE_MIN_COMPLETIONS: 2,
+  /** Média mínima para dizer que "já ajudou" */
+  EFFECTIVE_MIN_MEAN: 0.6,
+  /** Peso do emotionalShift na recompensa */
+  SHIFT_WEIGHT: 0.7,
+  /** Peso do perceivedEffort na recompensa */
+  EFFORT_WEIGHT: 0.3,
+} as const;
+
+/** Frases acrescentadas ao "por que isso ajuda" */
+const ADAPTIVE_EXPLANATIONS: Record<AdaptiveReason, string> = {
+  effective: "Esse treino já te fez bem em dias assim.",
+  avoidedAbandoned: "Desta vez, trouxemos uma alternativa ao treino que ficou pela metade.",
+};
+
+// ============================================
+// MODELO
+// ============================================
+
+/**
+ * Recompensa (0-1) de um resultado.
+ * Sem feedback, cada componente vale neutro (0.5).
+ */
+export function calculateOutcomeReward(outcome: TrainingOutcome): number {
+  if (!outcome.completed) return 0;
+
+  const shift = outcome.emotionalShift ? (outcome.emotionalShift - 1) / 4 : 0.5;
+  const effort = outcome.perceivedEffort ? (5 - outcome.perceivedEffort) / 4 : 0.5;
+
+  return ADAPTIVE_RULES.SHIFT_WEIGHT * shift + ADAPTIVE_RULES.EFFORT_WEIGHT * effort;
+}
+
+/**
+ * Monta o modelo a partir do histórico de treinos.
+ */
+export function buildTrainingEffectiveness(
+  outcomes: TrainingOutcome[]
+): TrainingEffectiveness {
+  const model: TrainingEffectiveness = { byProblem: {}, lastAbandoned: {} };
+
+  for (const outcome of outcomes) {
+    const arms = (model.byProblem[outcome.problem] ??= {});
+    const stats = (arms[outcome.trainingId] ??= {
+      attempts: 0,
+      completions: 0,
+      abandoned: 0,
+      rewardSum: 0,
+    });
+
+    stats.attempts++;
+    stats.rewardSum += calculateOutcomeReward(outcome);
+
+    if (outcome.completed) {
+      stats.completions++;
+    } else {
+      stats.abandoned++;
+      const last = model.lastAbandoned[outcome.trainingId];
+      if (!last || outcome.dateKey > last) {
+        model.lastAbandoned[outcome.trainingId] = outcome.dateKey;
+      }
+    }
+  }
+
+  return model;
+}
+
+// ============================================
+// SELEÇÃO
+// ============================================
+
+/**
+ * Média suavizada da recompensa (priori em PRIOR_MEAN).
+ */
+function smoothedMean(stats: TrainingArmStats | undefined): number {
+  const attempts = stats?.attempts ?? 0;
+  const rewardSum = stats?.rewardSum ?? 0;
+
+  return (
+    (rewardSum + ADAPTIVE_RULES.PRIOR_MEAN * ADAPTIVE_RULES.PRIOR_WEIGHT) /
+    (attempts + ADAPTIVE_RULES.PRIOR_WEIGHT)
+  );
+}
+
+/**
+ * Score UCB de um treino para um problema.
+ */
+export function scoreTraining(
+  model: TrainingEffectiveness,
+  problem: string,
+  trainingId: string
+): number {
+  const arms = model.byProblem[problem] ?? {};
+  const stats = arms[trainingId];
+  const total = Object.values(arms).reduce((sum, s) => sum + s.attempts, 0);
+  const bonus = Math.sqrt(Math.log(total + 1) / ((stats?.attempts ?? 0) + 1));
+
+  return smoothedMean(stats) + ADAPTIVE_RULES.EXPLORATION * bonus;
+}
+
+/**
+ * Treino abandonado há menos de ABANDON_COOLDOWN_DAYS?
+ */
+export function wasRecentlyAbandoned(
+  model: TrainingEffectiveness,
+  trainingId: string,
+  today: DateKey
+): boolean {
+  const last = model.lastAbandoned[trainingId];
+  return !!last && daysBetween(last, today) < ADAPTIVE_RULES.ABANDON_COOLDOWN_DAYS;
+}
+
+/**
+ * Treino que comprovadamente ajudou neste problema?
+ */
+function isProvenEffective(
+  model: TrainingEffectiveness,
+  problem: string,
+  trainingId: string
+): boolean {
+  const stats = model.byProblem[problem]?.[trainingId];
+
+  return (
+    !!stats &&
+    stats.completions >= ADAPTIVE_RULES.EFFECTIVE_MIN_COMPLETIONS &&
+    stats.rewardSum / stats.attempts >= ADAPTIVE_RULES.EFFECTIVE_MIN_MEAN
+  );
+}
+
+/**
+ * Escolhe entre candidatos (já ordenados pelo catálogo) usando o modelo.
+ * Empates mantêm a ordem do catálogo.
+ */
+export function pickAdaptive<T extends { id: string }>(
+  candidates: T[],
+  problem: string,
+  model: TrainingEffectiveness,
+  today: DateKey
+): { choice: T; reason?: AdaptiveReason } {
+  const ranked = candidates
+    .map((candidate, index) => ({
+      candidate,
+      index,
+      score: scoreTraining(model, problem, candidate.id),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.candidate);
+
+  // Nunca ficar sem opção: se todos foram abandonados, mantém o melhor
+  const choice =
+    ranked.find((c) => !wasRecentlyAbandoned(model, c.id, today)) ?? ranked[0];
+
+  if (isProvenEffective(model, problem, choice.id)) {
+    return { choice, reason: "effective" };
+  }
+
+  // O treino de sempre (catálogo ou melhor score) ficou pela metade há pouco
+  const replacedAbandoned = [candidates[0], ranked[0]].some(
+    (c) => c !== choice && wasRecentlyAbandoned(model, c.id, today)
+  );
+
+  if (replacedAbandoned) {
+    return { choice, reason: "avoidedAbandoned" };
+  }
+
+  return { choice };
+}
+
+/**
+ * "Por que isso ajuda" com a explicação da escolha adaptativa.
+ */
+export function explainAdaptiveChoice(why: string, reason?: AdaptiveReason): string {
+  return reason ? `${why} ${ADAPTIVE_EXPLANATIONS[reason]}` : why;
+}